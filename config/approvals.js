@@ -0,0 +1,28 @@
+// Registration review settings used by routes/auth.js and services/approvalService.js
+
+// "manual": a new account waits until an admin approves it.
+// "auto": it is active as soon as it is registered.
+const policyOf = (role) => {
+  const value = process.env[`APPROVAL_${role.toUpperCase()}`];
+  return value === 'auto' ? 'auto' : 'manual';
+};
+
+module.exports = {
+  policy: {
+    shopkeeper: policyOf('shopkeeper'),
+    company_rep: policyOf('company_rep'),
+    delivery_worker: policyOf('delivery_worker')
+  },
+
+  // Documents a registrant can upload for the review. The trade license backs
+  // companyInfo.businessLicense, the TIN certificate companyInfo.taxId.
+  documentTypes: {
+    trade_license: 'Trade license',
+    tin_certificate: 'TIN certificate',
+    nid: 'National ID (NID)'
+  },
+
+  // How long a link to upload documents works, hours. Registrants get one
+  // when they register and a new one whenever an admin asks for more information.
+  documentLinkTtlHours: Number(process.env.APPROVAL_DOCUMENT_LINK_TTL_HOURS ?? 72)
+};
@@ -0,0 +1,39 @@
+// Delivery worker auto-assignment settings used by services/autoAssignmentService.js
+// Each factor is scored from 0 to 1 and multiplied by its weight; the weights
+// add up to 100, so a worker's score is out of 100.
+
+module.exports = {
+  weights: {
+    area: 40,
+    availability: 25,
+    load: 20,
+    onTime: 15
+  },
+
+  // Area factor for a worker whose assigned areas include the order's area,
+  // who lives in that area, or who only works in the same city
+  areaMatch: {
+    assignedArea: 1,
+    homeArea: 0.7,
+    sameCity: 0.3
+  },
+
+  // Availability factor per deliveryWorkerInfo.availability; offline workers are never picked
+  availability: {
+    available: 1,
+    busy: 0.4
+  },
+
+  // Workers with this many open deliveries get no new ones
+  maxOpenDeliveries: Number(process.env.ASSIGNMENT_MAX_OPEN_DELIVERIES ?? 8),
+
+  // On-time rate is measured over the worker's deliveries finished in this window
+  historyDays: 30,
+  // A delivery without an estimated time counts as on time within this many hours of assignment
+  onTimeHours: 24,
+  // Rate used for workers without history yet
+  defaultOnTimeRate: 0.8,
+
+  // Only assign workers who cover the order's area or city
+  requireAreaMatch: true
+};
@@ -0,0 +1,41 @@
+// Account security settings used by routes/auth.js, services/sessionService.js,
+// services/passwordResetService.js and services/otpService.js
+
+module.exports = {
+  // Every sign-in is a session: a short-lived access token (JWT) for API calls
+  // and a refresh token, in an httpOnly cookie, that is swapped for a new one
+  // each time it is used to get a fresh access token
+  session: {
+    accessTokenExpiresIn: process.env.JWT_EXPIRE || '15m',
+    // A session not refreshed for this many days ends; each refresh starts the period again
+    refreshTokenDays: Number(process.env.REFRESH_TOKEN_DAYS ?? 30),
+    // Presenting the refresh token replaced less than this many seconds ago is
+    // taken as two tabs refreshing at once; later, as a stolen token
+    reuseGraceSeconds: 10,
+    cookieName: 'refreshToken',
+    // The cookie is only sent to the auth routes
+    cookiePath: '/api/auth',
+    // Use "none" when the frontend is served from another site than the API
+    cookieSameSite: process.env.REFRESH_COOKIE_SAMESITE || 'lax',
+    cookieSecure: process.env.NODE_ENV === 'production' || process.env.REFRESH_COOKIE_SAMESITE === 'none'
+  },
+
+  passwordReset: {
+    // How long an e-mailed reset link works, minutes
+    tokenTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 60),
+    // A new link is only sent once this many seconds have passed since the last one
+    resendCooldownSeconds: 60
+  },
+
+  // One-time codes sent by SMS to log in or confirm a phone number
+  otp: {
+    // How long a code works, minutes
+    ttlMinutes: Number(process.env.OTP_TTL_MINUTES ?? 5),
+    // Wait between two codes to the same number, seconds
+    resendCooldownSeconds: 60,
+    // Codes sent to one number per hour; SMS costs money
+    maxPerHour: Number(process.env.OTP_MAX_PER_HOUR ?? 5),
+    // Wrong guesses before a code stops working
+    maxAttempts: 5
+  }
+};
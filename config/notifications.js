@@ -0,0 +1,44 @@
+// Delivery channels used by services/notificationChannels.js
+// Transports: email = smtp | file | console, sms = twilio | file | console.
+// `file` appends one JSON line per message to <outboxDir>/<channel>.log, which
+// lets the app run (and be tested) without mail or SMS accounts. `console` and
+// `file` are never used in production: they put reset links and login codes in
+// logs. Outside production an unset transport falls back to `console` with a
+// warning (see services/notificationTransports.js).
+
+module.exports = {
+  outboxDir: process.env.NOTIFICATION_OUTBOX_DIR || 'logs/outbox',
+
+  email: {
+    transport: process.env.EMAIL_TRANSPORT || (process.env.EMAIL_HOST ? 'smtp' : undefined),
+    from: process.env.EMAIL_FROM || process.env.EMAIL_USER || 'GroceryTrackBD <no-reply@grocerytrackbd.local>',
+    smtp: {
+      host: process.env.EMAIL_HOST,
+      port: Number(process.env.EMAIL_PORT || 587),
+      secure: Number(process.env.EMAIL_PORT) === 465,
+      auth: process.env.EMAIL_USER ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS } : undefined
+    },
+
+    // Notification types sent by email (null sends every type)
+    types: null
+  },
+
+  sms: {
+    transport: process.env.SMS_TRANSPORT || (process.env.TWILIO_ACCOUNT_SID ? 'twilio' : undefined),
+    twilio: {
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+      from: process.env.TWILIO_PHONE_NUMBER
+    },
+
+    // SMS costs money per message, so only these types go out by SMS
+    types: [
+      'order_approved',
+      'order_rejected',
+      'order_cancelled',
+      'order_delivered',
+      'delivery_assigned',
+      'payment_failed'
+    ]
+  }
+};
@@ -0,0 +1,26 @@
+// Mobile-banking payments used by services/paymentService.js
+// `provider` picks the gateway in services/paymentProviders.js. The `mock`
+// provider talks to the local sandbox started with `npm run mock:gateway`, so
+// the whole flow can be tested without network access.
+
+const apiUrl = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 1591}/api`;
+
+module.exports = {
+  provider: process.env.PAYMENT_PROVIDER || 'mock',
+  currency: 'BDT',
+
+  // Payments still waiting at the gateway after this long are treated as abandoned
+  expiresAfterMinutes: Number(process.env.PAYMENT_EXPIRES_MINUTES ?? 30),
+
+  // Where the gateway sends the shopkeeper back and where it posts the outcome
+  returnUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/orders`,
+  callbackUrl: (provider) => `${apiUrl}/payments/webhook/${provider}`,
+
+  mock: {
+    port: Number(process.env.MOCK_GATEWAY_PORT || 1592),
+    baseUrl: process.env.MOCK_GATEWAY_URL || `http://localhost:${process.env.MOCK_GATEWAY_PORT || 1592}`,
+    // Signs the sandbox's callbacks. There is no default: anyone who knows the
+    // secret can sign a "completed" callback for their own order.
+    webhookSecret: process.env.MOCK_GATEWAY_SECRET
+  }
+};
@@ -0,0 +1,16 @@
+// What a company login may do, checked by authorizePermission in
+// middleware/auth.js. Company owners and admins hold every permission; the
+// owner picks the ones each staff member gets (routes/staff.js).
+
+module.exports = {
+  company: {
+    manage_products: 'Manage products and stock',
+    approve_orders: 'Approve, reject and update orders and returns',
+    assign_deliveries: 'Assign deliveries and handle delivery issues',
+    settle_collections: 'Settle cash from delivery workers and credit notes',
+    view_analytics: 'View analytics and SLA reports'
+  },
+
+  // How long a staff invitation link works, hours
+  inviteTtlHours: Number(process.env.STAFF_INVITE_TTL_HOURS ?? 72)
+};
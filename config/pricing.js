@@ -0,0 +1,35 @@
+// Pricing rules used by services/pricingService.js
+// Rates are fractions (0.05 = 5%), charges are in BDT.
+// Area and city keys are matched case-insensitively; an area rule wins over a city rule.
+
+module.exports = {
+  vat: {
+    defaultRate: Number(process.env.DEFAULT_VAT_RATE ?? 0.05),
+
+    // Per-category overrides of the default rate
+    categories: {
+      fruits: 0,
+      vegetables: 0,
+      grains: 0,
+      beverages: 0.15,
+      snacks: 0.15
+    }
+  },
+
+  delivery: {
+    defaultCharge: Number(process.env.DEFAULT_DELIVERY_CHARGE ?? 50),
+
+    // Orders with a subtotal at or above this amount ship free (null disables)
+    freeDeliveryThreshold: process.env.FREE_DELIVERY_THRESHOLD ? Number(process.env.FREE_DELIVERY_THRESHOLD) : null,
+
+    cities: {
+      dhaka: 50,
+      chattogram: 80,
+      sylhet: 80,
+      rajshahi: 80,
+      khulna: 80
+    },
+
+    areas: {}
+  }
+};
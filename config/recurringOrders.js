@@ -0,0 +1,19 @@
+// Recurring order settings used by services/recurringOrderService.js
+
+module.exports = {
+  // Schedules are kept in local shop time (Asia/Dhaka, UTC+6, no daylight saving)
+  utcOffsetMinutes: 6 * 60,
+
+  // How often due schedules are looked for, minutes
+  checkIntervalMinutes: Number(process.env.RECURRING_ORDER_CHECK_MINUTES ?? 1),
+
+  // Limits for "every N days" schedules
+  minIntervalDays: 1,
+  maxIntervalDays: 90,
+
+  // Occurrences listed ahead of time so the shopkeeper can skip them
+  upcomingCount: 4,
+
+  // Past runs kept on each recurring order
+  maxRunsKept: 20
+};
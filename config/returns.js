@@ -0,0 +1,9 @@
+// Return request settings used by services/returnService.js
+
+module.exports = {
+  // Days after delivery during which the shopkeeper can ask for a return
+  windowDays: Number(process.env.RETURN_WINDOW_DAYS ?? 7),
+
+  // Why goods are sent back
+  reasons: ['damaged', 'expired', 'wrong_item', 'other']
+};
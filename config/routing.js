@@ -0,0 +1,73 @@
+// Route planning settings used by services/routePlanningService.js
+// Shop addresses are not geocoded individually: each stop is placed at the
+// centre of its area (or of its city when the area is not listed).
+// Area and city keys are matched case-insensitively.
+
+module.exports = {
+  // Average riding speed in city traffic, km/h
+  averageSpeedKmh: Number(process.env.ROUTE_AVERAGE_SPEED_KMH ?? 18),
+
+  // Time spent at each shop unloading and collecting payment, minutes
+  stopMinutes: Number(process.env.ROUTE_STOP_MINUTES ?? 10),
+
+  // Straight-line distance times this factor approximates road distance
+  roadFactor: 1.3,
+
+  areas: {
+    // Dhaka
+    dhanmondi: { lat: 23.7461, lng: 90.3742 },
+    gulshan: { lat: 23.7925, lng: 90.4078 },
+    banani: { lat: 23.7937, lng: 90.4066 },
+    baridhara: { lat: 23.8021, lng: 90.4210 },
+    uttara: { lat: 23.8759, lng: 90.3795 },
+    mirpur: { lat: 23.8223, lng: 90.3654 },
+    mohammadpur: { lat: 23.7662, lng: 90.3589 },
+    farmgate: { lat: 23.7580, lng: 90.3897 },
+    tejgaon: { lat: 23.7639, lng: 90.3925 },
+    motijheel: { lat: 23.7330, lng: 90.4172 },
+    paltan: { lat: 23.7362, lng: 90.4126 },
+    ramna: { lat: 23.7380, lng: 90.3990 },
+    shahbag: { lat: 23.7386, lng: 90.3958 },
+    lalbagh: { lat: 23.7190, lng: 90.3880 },
+    'old dhaka': { lat: 23.7104, lng: 90.4074 },
+    wari: { lat: 23.7185, lng: 90.4190 },
+    jatrabari: { lat: 23.7104, lng: 90.4346 },
+    badda: { lat: 23.7806, lng: 90.4262 },
+    rampura: { lat: 23.7612, lng: 90.4206 },
+    khilgaon: { lat: 23.7517, lng: 90.4296 },
+    malibagh: { lat: 23.7488, lng: 90.4135 },
+    moghbazar: { lat: 23.7490, lng: 90.4030 },
+    bashundhara: { lat: 23.8193, lng: 90.4526 },
+    khilkhet: { lat: 23.8296, lng: 90.4226 },
+    mohakhali: { lat: 23.7781, lng: 90.4057 },
+    'kawran bazar': { lat: 23.7509, lng: 90.3935 },
+    savar: { lat: 23.8583, lng: 90.2667 },
+    keraniganj: { lat: 23.6980, lng: 90.3450 },
+
+    // Chattogram
+    agrabad: { lat: 22.3260, lng: 91.8120 },
+    panchlaish: { lat: 22.3640, lng: 91.8330 },
+    halishahar: { lat: 22.3300, lng: 91.7800 },
+    nasirabad: { lat: 22.3660, lng: 91.8200 },
+    khulshi: { lat: 22.3590, lng: 91.8070 },
+
+    // Sylhet
+    zindabazar: { lat: 24.8960, lng: 91.8680 },
+    ambarkhana: { lat: 24.9050, lng: 91.8650 }
+  },
+
+  cities: {
+    dhaka: { lat: 23.8103, lng: 90.4125 },
+    chattogram: { lat: 22.3569, lng: 91.7832 },
+    chittagong: { lat: 22.3569, lng: 91.7832 },
+    sylhet: { lat: 24.8949, lng: 91.8687 },
+    rajshahi: { lat: 24.3745, lng: 88.6042 },
+    khulna: { lat: 22.8456, lng: 89.5403 },
+    barishal: { lat: 22.7010, lng: 90.3535 },
+    rangpur: { lat: 25.7439, lng: 89.2752 },
+    mymensingh: { lat: 24.7471, lng: 90.4203 },
+    comilla: { lat: 23.4607, lng: 91.1809 },
+    gazipur: { lat: 23.9999, lng: 90.4203 },
+    narayanganj: { lat: 23.6238, lng: 90.5000 }
+  }
+};
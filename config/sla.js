@@ -0,0 +1,27 @@
+// Delivery SLA settings used by services/slaService.js
+// A delivery is due `hours` after it is assigned. Companies can set their own
+// default and per-area hours (User.companyInfo.deliverySla); these apply when
+// they have not. Area keys are matched case-insensitively.
+
+module.exports = {
+  // Hours from assignment to delivery
+  defaultHours: Number(process.env.SLA_DEFAULT_HOURS ?? 24),
+
+  // Areas that need more (or less) time than the default
+  areaHours: {
+    savar: 36,
+    gazipur: 36,
+    narayanganj: 36,
+    keraniganj: 36
+  },
+
+  // A delivery is at risk once this share of its window has passed
+  atRiskRatio: 0.75,
+
+  // How often open deliveries are checked for at-risk and late alerts, minutes
+  checkIntervalMinutes: Number(process.env.SLA_CHECK_INTERVAL_MINUTES ?? 5),
+
+  // Limits for company settings
+  minHours: 1,
+  maxHours: 24 * 14
+};
@@ -0,0 +1,38 @@
+// File upload settings. Everything under `dir` is served by server.js at /uploads.
+const path = require('path');
+
+module.exports = {
+  dir: path.resolve(process.env.UPLOAD_PATH || path.join(__dirname, '..', 'uploads')),
+
+  // Proof-of-delivery files, stored by services/deliveryProofService.js
+  proof: {
+    subdir: 'pod',
+    // Largest accepted photo upload, bytes
+    maxPhotoSize: Number(process.env.POD_MAX_PHOTO_SIZE) || 8 * 1024 * 1024,
+    maxSignatureSize: 512 * 1024,
+    photoTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    // Stored photos are scaled down to fit this many pixels per side
+    photoMaxDimension: 1600,
+    thumbnailSize: 320,
+    signatureMaxWidth: 800
+  },
+
+  // Photos of returned goods, stored by services/returnService.js
+  returns: {
+    subdir: 'returns',
+    maxPhotoSize: Number(process.env.RETURN_MAX_PHOTO_SIZE) || 8 * 1024 * 1024,
+    maxPhotos: 3,
+    photoTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    photoMaxDimension: 1600,
+    thumbnailSize: 320
+  },
+
+  // Registration documents such as trade licenses and NIDs, stored by
+  // services/approvalService.js. They are kept outside `dir`, so they are not
+  // served publicly; admins download them through /api/approvals.
+  documents: {
+    dir: path.resolve(process.env.DOCUMENT_PATH || path.join(__dirname, '..', 'private', 'documents')),
+    maxFileSize: Number(process.env.DOCUMENT_MAX_FILE_SIZE) || 5 * 1024 * 1024,
+    fileTypes: ['application/pdf', 'image/jpeg', 'image/png']
+  }
+};
@@ -0,0 +1,235 @@
+const Cart = require('../models/Cart');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const OrderService = require('../services/orderService');
+
+// --- Helper: build the grouped cart response ---
+const formatCart = async (cart) => {
+  await cart.populate('items.productId', 'name category unitPrice unit stockQuantity minOrderQuantity maxOrderQuantity isActive images companyId');
+  await cart.populate('items.companyId', 'name companyInfo.companyName');
+
+  const groups = new Map();
+
+  cart.items.forEach(item => {
+    const product = item.productId;
+    const company = item.companyId;
+    if (!product || !company) return;
+
+    const key = company._id.toString();
+    if (!groups.has(key)) {
+      groups.set(key, {
+        companyId: company._id,
+        companyName: company.companyInfo?.companyName || company.name || 'Unknown Company',
+        items: [],
+        subtotal: 0
+      });
+    }
+
+    const limits = product.getOrderLimits();
+    const lineTotal = item.quantity * (product.unitPrice || 0);
+    const group = groups.get(key);
+
+    group.items.push({
+      productId: product._id,
+      name: product.name,
+      category: product.category,
+      unit: product.unit,
+      unitPrice: product.unitPrice || 0,
+      quantity: item.quantity,
+      lineTotal,
+      minOrderQuantity: limits.min,
+      maxOrderQuantity: product.maxOrderQuantity || null,
+      stockQuantity: product.stockQuantity,
+      isActive: product.isActive,
+      // Flag lines that can no longer be ordered as-is (stock or limits changed since added)
+      isOrderable: product.canOrder(item.quantity)
+    });
+    group.subtotal += lineTotal;
+  });
+
+  const companyGroups = Array.from(groups.values());
+
+  return {
+    id: cart._id,
+    groups: companyGroups,
+    itemCount: companyGroups.reduce((sum, g) => sum + g.items.length, 0),
+    subtotal: companyGroups.reduce((sum, g) => sum + g.subtotal, 0),
+    updatedAt: cart.updatedAt || null
+  };
+};
+
+// --- Helper: validate a requested quantity against the product ---
+const validateQuantity = (product, quantity) => {
+  if (!product || !product.isActive) {
+    return 'Product is not available';
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return 'Quantity must be a positive whole number';
+  }
+
+  const { min, max } = product.getOrderLimits();
+  if (quantity < min) {
+    return `Minimum order quantity for ${product.name} is ${min}`;
+  }
+  if (quantity > max) {
+    return max < min
+      ? `${product.name} is out of stock`
+      : `Maximum you can order of ${product.name} is ${max}`;
+  }
+  return null;
+};
+
+// --- Get current shopkeeper's cart ---
+exports.getCart = async (req, res) => {
+  try {
+    const cart = await Cart.findOrCreate(req.user._id);
+    res.json({ cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Get cart error:', err);
+    res.status(500).json({ error: 'Failed to fetch cart' });
+  }
+};
+
+// --- Add a product to the cart (increments if already present) ---
+exports.addItem = async (req, res) => {
+  try {
+    const { productId } = req.body;
+    const quantity = Number(req.body.quantity);
+
+    if (!productId) return res.status(400).json({ error: 'productId is required' });
+
+    const product = await Product.findById(productId);
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+
+    const cart = await Cart.findOrCreate(req.user._id);
+    const existing = cart.findItem(product._id);
+    const requested = existing
+      ? existing.quantity + (quantity || 1)
+      : (quantity || product.minOrderQuantity || 1);
+
+    const validationError = validateQuantity(product, requested);
+    if (validationError) return res.status(400).json({ error: validationError });
+
+    cart.setItem(product, requested);
+    await cart.save();
+
+    res.json({ message: 'Item added to cart', cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Add cart item error:', err);
+    res.status(500).json({ error: 'Failed to add item to cart' });
+  }
+};
+
+// --- Set the quantity of a cart line ---
+exports.updateItem = async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const quantity = Number(req.body.quantity);
+
+    const product = await Product.findById(productId);
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+
+    const cart = await Cart.findOrCreate(req.user._id);
+    if (!cart.findItem(product._id)) return res.status(404).json({ error: 'Item not in cart' });
+
+    const validationError = validateQuantity(product, quantity);
+    if (validationError) return res.status(400).json({ error: validationError });
+
+    cart.setItem(product, quantity);
+    await cart.save();
+
+    res.json({ message: 'Cart updated', cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Update cart item error:', err);
+    res.status(500).json({ error: 'Failed to update cart' });
+  }
+};
+
+// --- Add lines of a past order to the cart (all orderable lines, or `productIds`) ---
+exports.addFromOrder = async (req, res) => {
+  try {
+    const { orderId, productIds } = req.body;
+    if (!orderId) return res.status(400).json({ error: 'orderId is required' });
+
+    const order = /^[0-9a-fA-F]{24}$/.test(orderId)
+      ? await Order.findById(orderId)
+      : await Order.findOne({ orderNumber: orderId });
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    if (order.shopkeeperId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ error: 'Only the shopkeeper who placed an order can reorder it' });
+    }
+
+    const selected = Array.isArray(productIds) ? productIds.map(String) : null;
+    const { lines: reorderLines } = await OrderService.prepareReorder(order);
+    const lines = reorderLines
+      .filter(line => !selected || selected.includes(line.productId.toString()));
+
+    const cart = await Cart.findOrCreate(req.user._id);
+    const added = [];
+    const skipped = [];
+
+    for (const line of lines) {
+      if (!line.quantity) {
+        skipped.push({ productId: line.productId, productName: line.productName, reason: line.status });
+        continue;
+      }
+      // Lines already in the cart keep their quantity plus the reordered one, up to the limit
+      const existing = cart.findItem(line.productId);
+      const quantity = Math.min((existing?.quantity || 0) + line.quantity, line.maxOrderQuantity);
+      cart.setItem({ _id: line.productId, companyId: order.companyId }, quantity);
+      added.push({ productId: line.productId, productName: line.productName, quantity, status: line.status });
+    }
+
+    if (!added.length) {
+      return res.status(400).json({ error: 'None of the selected items can be ordered right now', skipped });
+    }
+    await cart.save();
+
+    res.json({ message: 'Items added to cart', added, skipped, cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Reorder to cart error:', err);
+    res.status(500).json({ error: 'Failed to add order items to cart' });
+  }
+};
+
+// --- Remove a product from the cart ---
+exports.removeItem = async (req, res) => {
+  try {
+    const cart = await Cart.findOrCreate(req.user._id);
+    cart.removeItem(req.params.productId);
+    await cart.save();
+
+    res.json({ message: 'Item removed from cart', cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Remove cart item error:', err);
+    res.status(500).json({ error: 'Failed to remove item from cart' });
+  }
+};
+
+// --- Remove all lines for one company (after its order was placed) ---
+exports.clearCompany = async (req, res) => {
+  try {
+    const cart = await Cart.findOrCreate(req.user._id);
+    cart.removeCompany(req.params.companyId);
+    await cart.save();
+
+    res.json({ message: 'Company items removed from cart', cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Clear cart company error:', err);
+    res.status(500).json({ error: 'Failed to update cart' });
+  }
+};
+
+// --- Empty the cart ---
+exports.clearCart = async (req, res) => {
+  try {
+    const cart = await Cart.findOrCreate(req.user._id);
+    cart.items = [];
+    await cart.save();
+
+    res.json({ message: 'Cart cleared', cart: await formatCart(cart) });
+  } catch (err) {
+    console.error('Clear cart error:', err);
+    res.status(500).json({ error: 'Failed to clear cart' });
+  }
+};
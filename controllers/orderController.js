@@ -1,18 +1,27 @@
 // controllers/OrderController.js
 const mongoose = require('mongoose');
 const Order = require('../models/Order');
+const Delivery = require('../models/Delivery');
 const User = require('../models/User');
+const OrderStateMachine = require('../services/orderStateMachine');
+const DeliveryLifecycleService = require('../services/deliveryLifecycleService');
 const { validateObjectId } = require('../middleware/validation');
+const { hasPermission } = require('../middleware/auth');
 
 // --- Helper: process order items safely ---
 const processOrderItems = (order) => {
   return Array.isArray(order.items)
     ? order.items.map(item => ({
+        productId: item.productId,
         productName: item.productName || 'N/A',
         quantity: item.quantity || 0,
+        orderedQuantity: item.orderedQuantity || item.quantity || 0,
+        backorderedQuantity: item.backorderedQuantity || 0,
         unitPrice: item.unitPrice || 0,
         totalPrice: item.totalPrice || 0,
-        unit: item.unit || 'piece'
+        unit: item.unit || 'piece',
+        vatRate: item.vatRate || 0,
+        vatAmount: item.vatAmount || 0
       }))
     : [];
 };
@@ -63,14 +72,20 @@ exports.getOrders = async (req, res) => {
 
     const summary = { totalOrders, statusCounts: {}, totalAmount: 0, overdueOrders: 0 };
 
+    // Overdue orders are the ones whose open delivery is past its SLA deadline.
+    // Failed and returned deliveries keep their last SLA status, so they are left out.
+    const lateOrderIds = new Set((await Delivery.find({
+      orderId: { $in: orders.map(order => order._id) },
+      status: { $in: ['assigned', 'picked_up', 'in_transit'] },
+      'sla.status': 'late'
+    }).distinct('orderId')).map(id => id.toString()));
+
     const processedOrders = orders.map(order => {
       summary.totalAmount += order.finalAmount || 0;
       summary.statusCounts[order.status] = (summary.statusCounts[order.status] || 0) + 1;
 
-      // Overdue detection (creative feature)
-      if (order.status !== 'delivered' && ((new Date()) - order.createdAt) > 7 * 24 * 60 * 60 * 1000) {
-        summary.overdueOrders += 1;
-      }
+      const overdue = lateOrderIds.has(order._id.toString());
+      if (overdue) summary.overdueOrders += 1;
 
       return {
         id: order._id,
@@ -81,6 +96,7 @@ exports.getOrders = async (req, res) => {
         status: order.status || 'Unknown',
         createdAt: order.createdAt || null,
         deliveredAt: order.deliveredAt || null,
+        overdue,
         items: processOrderItems(order),
       };
     });
@@ -116,6 +132,8 @@ exports.getOrderByIdOrNumber = async (req, res) => {
     await order.populate('companyId', 'name companyName phone');
     await order.populate('deliveryWorkerId', 'name phone');
     await order.populate('approvedBy', 'name');
+    await order.populate('backorderId', 'orderNumber status');
+    await order.populate('backorderOf', 'orderNumber status');
 
     const canAccess =
       req.user.role === 'admin' ||
@@ -139,6 +157,7 @@ exports.getOrderByIdOrNumber = async (req, res) => {
         deliveryAddress: order.deliveryAddress || 'N/A',
         deliveryCity: order.deliveryCity || 'N/A',
         paymentMethod: order.paymentMethod || 'cash_on_delivery',
+        paymentStatus: order.paymentStatus || 'pending',
         preferredDeliveryDate: order.preferredDeliveryDate || order.createdAt,
         deliveryInstructions: order.deliveryInstructions || '',
         notes: order.notes || '',
@@ -162,6 +181,8 @@ exports.getOrderByIdOrNumber = async (req, res) => {
           name: order.deliveryWorkerId?.name || 'N/A',
           phone: order.deliveryWorkerId?.phone || 'N/A'
         } : null,
+        backorder: order.backorderId ? { orderNumber: order.backorderId.orderNumber, status: order.backorderId.status } : null,
+        backorderOf: order.backorderOf ? { orderNumber: order.backorderOf.orderNumber, status: order.backorderOf.status } : null,
         createdAt: order.createdAt || new Date(),
         deliveredAt: order.deliveredAt || null
       }
@@ -171,87 +192,58 @@ exports.getOrderByIdOrNumber = async (req, res) => {
     res.status(500).json({ error: 'Failed to get order' });
   }
 };
-const Product = require('../models/Product'); // import Product model
+const PricingService = require('../services/pricingService');
+const OrderService = require('../services/orderService');
+const BackorderService = require('../services/backorderService');
 
-exports.createOrder = async (req, res) => {
+// --- Price an order without placing it ---
+exports.getOrderQuote = async (req, res) => {
   try {
-    if (req.user.role !== 'shopkeeper') 
-      return res.status(403).json({ error: 'Only shopkeepers can create orders' });
-
-    const { companyId, items, deliveryAddress, deliveryArea, deliveryCity, paymentMethod, preferredDeliveryDate, deliveryInstructions, notes } = req.body;
+    const { companyId, items, deliveryArea, deliveryCity } = req.body;
 
-    if (!companyId || !items?.length || !deliveryAddress || !deliveryArea || !deliveryCity) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    if (!companyId || !items?.length) {
+      return res.status(400).json({ error: 'companyId and at least one item are required' });
     }
 
-    // Validate company
-    const company = await User.findById(companyId);
-    if (!company || company.role !== 'company_rep' || company.status !== 'active') {
-      return res.status(400).json({ error: 'Invalid or inactive company' });
+    const quote = await PricingService.quote({ companyId, items, deliveryArea, deliveryCity });
+    res.json({ quote });
+  } catch (err) {
+    if (err.code === 'PRICING_ERROR') {
+      return res.status(400).json({ error: err.message });
     }
+    console.error('Order quote error:', err);
+    res.status(500).json({ error: 'Failed to price order' });
+  }
+};
 
-    // --- Validate stock for each item ---
-    const processedItems = [];
-    for (const item of items) {
-      if (!item.productId || !item.quantity) {
-        return res.status(400).json({ error: 'Each item must have productId and quantity' });
-      }
+exports.createOrder = async (req, res) => {
+  try {
+    if (req.user.role !== 'shopkeeper') 
+      return res.status(403).json({ error: 'Only shopkeepers can create orders' });
 
-      const product = await Product.findById(item.productId);
-      if (!product) return res.status(400).json({ error: `Product not found: ${item.productName}` });
-      if (!product.canOrder(item.quantity)) {
-        return res.status(400).json({ 
-          error: `Cannot order ${item.quantity} of ${product.name}. Available: ${product.stockQuantity}` 
-        });
+    let order;
+    try {
+      order = await OrderService.place(req.user, req.body);
+    } catch (placementErr) {
+      if (['INVALID_ORDER', 'PRICING_ERROR', 'INSUFFICIENT_STOCK'].includes(placementErr.code)) {
+        return res.status(400).json({ error: placementErr.message });
       }
-
-      // Reduce stock immediately
-      await product.reduceStock(item.quantity);
-
-      const totalPrice = item.quantity * (item.unitPrice || product.unitPrice || 0);
-      processedItems.push({
-        ...item,
-        unitPrice: item.unitPrice || product.unitPrice || 0,
-        totalPrice,
-        unit: product.unit
-      });
+      throw placementErr;
     }
 
-    // Totals
-    const totalAmount = processedItems.reduce((sum, i) => sum + i.totalPrice, 0);
-    const taxAmount = totalAmount * 0.05;
-    const deliveryCharge = 50;
-    const finalAmount = totalAmount + taxAmount + deliveryCharge;
-
-    const orderNumber = `ORD-${(await Order.countDocuments() + 1).toString().padStart(4, '0')}`;
-
-    const order = new Order({
-      orderNumber,
-      shopkeeperId: req.user._id,
-      shopkeeperSnapshot: { name: req.user.name, shopName: req.user.shopName || 'N/A', phone: req.user.phone || 'N/A' },
-      companyId,
-      companySnapshot: { name: company.name, companyName: company.companyName || 'N/A', phone: company.phone || 'N/A' },
-      items: processedItems,
-      totalAmount,
-      taxAmount,
-      deliveryCharge,
-      finalAmount,
-      deliveryAddress,
-      deliveryArea,
-      deliveryCity,
-      paymentMethod: paymentMethod || 'cash_on_delivery',
-      preferredDeliveryDate: preferredDeliveryDate || new Date(Date.now() + 24*60*60*1000),
-      deliveryInstructions: deliveryInstructions || '',
-      notes: notes || '',
-      status: 'pending',
-      timeline: [{ status: 'pending', timestamp: new Date(), note: 'Order created', actor: { name: req.user.name, role: 'shopkeeper' } }]
-    });
-
-    await order.save();
-
     res.status(201).json({ 
       message: 'Order created successfully', 
-      order: { id: order._id, orderNumber: order.orderNumber, status: order.status, finalAmount: order.finalAmount } 
+      order: {
+        id: order._id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        items: processOrderItems(order),
+        totalAmount: order.totalAmount,
+        taxAmount: order.taxAmount,
+        deliveryCharge: order.deliveryCharge,
+        finalAmount: order.finalAmount,
+        createdAt: order.createdAt
+      }
     });
 
   } catch (err) {
@@ -260,12 +252,74 @@ exports.createOrder = async (req, res) => {
   }
 };
 
+// --- A past order checked against current prices and stock, to order again ---
+exports.getReorder = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    const order = /^[0-9a-fA-F]{24}$/.test(orderId)
+      ? await Order.findById(orderId)
+      : await Order.findOne({ orderNumber: orderId });
+
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    if (order.shopkeeperId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ error: 'Only the shopkeeper who placed an order can reorder it' });
+    }
+
+    res.json({ reorder: await OrderService.prepareReorder(order) });
+  } catch (err) {
+    console.error('Get reorder error:', err);
+    res.status(500).json({ error: 'Failed to prepare reorder' });
+  }
+};
+
+// --- Company staff need the permission for the status change they make ---
+const mayTakeStep = (req, status) => {
+  if (req.user.role !== 'company_rep') return true;
+  return hasPermission(req, status === 'assigned' ? 'assign_deliveries' : 'approve_orders');
+};
+
+// --- Actions the current user may take on an order ---
+exports.getOrderActions = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    const order = /^[0-9a-fA-F]{24}$/.test(orderId)
+      ? await Order.findById(orderId)
+      : await Order.findOne({ orderNumber: orderId });
+
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    if (!OrderStateMachine.isOrderParty(order, req.user)) return res.status(403).json({ error: 'Access denied' });
+
+    res.json({
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      actions: OrderStateMachine.getAvailableActions(order, req.user).filter(action => mayTakeStep(req, action.status))
+    });
+  } catch (err) {
+    console.error('Get order actions error:', err);
+    res.status(500).json({ error: 'Failed to get order actions' });
+  }
+};
+
+// --- Map state machine errors to responses ---
+const sendTransitionError = (res, err) => {
+  if (err.code === 'INVALID_TRANSITION') {
+    return res.status(409).json({ error: err.message, currentStatus: err.currentStatus, allowedTransitions: err.allowedTransitions });
+  }
+  if (err.code === 'TRANSITION_INPUT_REQUIRED' || err.code === 'INVALID_FULFILMENT' || err.code === 'INVALID_DELIVERY_TRANSITION') {
+    return res.status(400).json({ error: err.message });
+  }
+  if (err.code === 'INSUFFICIENT_STOCK') {
+    return res.status(409).json({ error: err.message });
+  }
+  return null;
+};
 
 // --- Update order status ---
 exports.updateOrderStatus = async (req, res) => {
   try {
     const { orderId } = req.params;
-    const { status: requestedStatus, rejectionReason, assignedDeliveryWorkerId } = req.body;
+    const { status: requestedStatus, rejectionReason, assignedDeliveryWorkerId, fulfilment } = req.body;
     const status = typeof requestedStatus === 'string' ? requestedStatus : requestedStatus?.status;
 
     let order = /^[0-9a-fA-F]{24}$/.test(orderId)
@@ -273,46 +327,31 @@ exports.updateOrderStatus = async (req, res) => {
       : await Order.findOne({ orderNumber: orderId });
 
     if (!order) return res.status(404).json({ error: 'Order not found' });
-
-    const canUpdate =
-      req.user.role === 'admin' ||
-      (req.user.role === 'company_rep' && order.companyId.toString() === req.user._id.toString()) ||
-      (req.user.role === 'shopkeeper' && order.shopkeeperId.toString() === req.user._id.toString() && status === 'cancelled' && order.status === 'pending') ||
-      (req.user.role === 'delivery_worker' && order.deliveryWorkerId && order.deliveryWorkerId.toString() === req.user._id.toString());
-
-    if (!canUpdate) return res.status(403).json({ error: 'Not authorized to update this order' });
-
-    const validTransitions = {
-      pending: ['approved', 'rejected', 'cancelled'],
-      approved: ['assigned', 'cancelled'],
-      assigned: ['accepted', 'rejected_by_worker', 'cancelled'],
-      accepted: ['picked_up', 'cancelled'],
-      picked_up: ['delivered', 'cancelled'],
-      rejected: [],
-      cancelled: [],
-      delivered: []
-    };
-
-    if (!validTransitions[order.status]?.includes(status)) {
-      return res.status(400).json({ error: `Cannot change status from ${order.status} to ${status}` });
+    if (!OrderStateMachine.isOrderParty(order, req.user)) return res.status(403).json({ error: 'Not authorized to update this order' });
+    if (!mayTakeStep(req, status)) return res.status(403).json({ error: 'Not authorized to update this order' });
+
+    // Assigning creates or hands over the order's delivery along with the status change
+    if (status === 'assigned') {
+      const worker = assignedDeliveryWorkerId && await User.findById(assignedDeliveryWorkerId);
+      if (!worker || worker.role !== 'delivery_worker' || worker.status !== 'active') return res.status(400).json({ error: 'Invalid delivery worker' });
+      await DeliveryLifecycleService.assignOrder(order, worker, req.user);
+      return res.json({ message: 'Order status updated successfully', order: { id: order._id, orderNumber: order.orderNumber, status: order.status, updatedAt: new Date() } });
     }
 
-    if (status === 'assigned' && assignedDeliveryWorkerId) {
-      const worker = await User.findById(assignedDeliveryWorkerId);
-      if (!worker || worker.role !== 'delivery_worker') return res.status(400).json({ error: 'Invalid delivery worker' });
-      order.deliveryWorkerId = assignedDeliveryWorkerId;
+    // Approving with some lines short moves the missing quantities to a backorder
+    if (status === 'approved' && order.status === 'pending' && BackorderService.hasShortfall(order, fulfilment)) {
+      const { backorder } = await BackorderService.approveWithShortfall(order, fulfilment, req.user);
+      return res.json({
+        message: `Order approved; short lines backordered as ${backorder.orderNumber}`,
+        order: { id: order._id, orderNumber: order.orderNumber, status: order.status, updatedAt: new Date() },
+        backorder: { id: backorder._id, orderNumber: backorder.orderNumber, status: backorder.status }
+      });
     }
 
-    order.status = status;
-    if (status === 'rejected' || status === 'cancelled') order.rejectionReason = rejectionReason || '';
-    if (status === 'delivered') order.deliveredAt = new Date();
-
-    if (!Array.isArray(order.timeline)) order.timeline = [];
-    order.timeline.push({ status, timestamp: new Date(), note: getStatusNote(status, rejectionReason), actor: { name: req.user.name || 'System', role: req.user.role } });
-
-    await order.save();
+    await DeliveryLifecycleService.changeOrderStatus(order, status, req.user, { reason: rejectionReason });
     res.json({ message: 'Order status updated successfully', order: { id: order._id, orderNumber: order.orderNumber, status: order.status, updatedAt: new Date() } });
   } catch (err) {
+    if (sendTransitionError(res, err)) return;
     console.error('Update order status error:', err);
     res.status(500).json({ error: 'Failed to update order status' });
   }
@@ -343,30 +382,12 @@ exports.assignDeliveryWorker = async (req, res) => {
 
     if (order.deliveryWorkerId?.toString() === worker._id.toString()) return res.status(400).json({ error: 'Worker already assigned' });
 
-    order.deliveryWorkerId = deliveryWorkerId;
-    order.status = 'assigned';
-    order.timeline.push({ status: 'assigned', timestamp: new Date(), note: `Assigned to ${worker.name}`, actor: { name: req.user.name || 'System', role: req.user.role } });
-
-    await order.save();
+    await DeliveryLifecycleService.assignOrder(order, worker, req.user);
 
     res.json({ message: 'Delivery worker assigned', order: { id: order._id, orderNumber: order.orderNumber, deliveryArea: orderArea || 'Not Specified', deliveryWorker: { id: worker._id, name: worker.name, areas: worker.deliveryWorkerInfo?.assignedAreas || [] } } });
   } catch (err) {
+    if (sendTransitionError(res, err)) return;
     console.error('Assign delivery worker error:', err);
     res.status(500).json({ error: 'Failed to assign delivery worker', details: err.message });
   }
 };
-
-// --- Status note helper ---
-function getStatusNote(status, rejectionReason) {
-  const notes = {
-    approved: 'Order approved by company',
-    rejected: `Order rejected: ${rejectionReason || 'No reason'}`,
-    assigned: 'Order assigned to delivery worker',
-    accepted: 'Order accepted by delivery worker',
-    rejected_by_worker: 'Order rejected by delivery worker',
-    picked_up: 'Order picked up by delivery worker',
-    delivered: 'Order delivered successfully',
-    cancelled: `Order cancelled: ${rejectionReason || 'No reason'}`
-  };
-  return notes[status] || `Status changed to ${status}`;
-}
@@ -1,5 +1,17 @@
 const Product = require('../models/Product');
 const User = require('../models/User');
+const InventoryService = require('../services/inventoryService');
+const { withTransaction } = require('../services/transaction');
+
+const isValidQuantity = (value) => Number.isFinite(value) && value >= 0;
+
+// Stock changes that lost a race with an order are conflicts the company can retry
+const sendStockError = (res, error) => {
+  if (error.code === 'INSUFFICIENT_STOCK' || error.code === 'STOCK_CHANGED') {
+    return res.status(409).json({ error: error.message });
+  }
+  return null;
+};
 
 // Get all products (with optional filtering)
 exports.getProducts = async (req, res) => {
@@ -93,7 +105,7 @@ exports.getProductsByCompany = async (req, res) => {
 
     // Verify company exists
     const company = await User.findById(companyId);
-    if (!company || company.role !== 'company_rep') {
+    if (!company || !company.isCompanyAccount()) {
       return res.status(404).json({ error: 'Company not found' });
     }
 
@@ -104,7 +116,7 @@ exports.getProductsByCompany = async (req, res) => {
 
     const products = await Product.find(query)
       .sort({ category: 1, name: 1 })
-      .select('name description category unitPrice price unit stockQuantity minOrderQuantity maxOrderQuantity images');
+      .select('name description category unitPrice price unit stockQuantity reservedQuantity minOrderQuantity maxOrderQuantity images');
 
     res.json({ 
       products,
@@ -235,14 +247,25 @@ exports.updateProduct = async (req, res) => {
       }
     });
 
-    Object.assign(product, updates);
-    await product.save();
+    // Stock is set atomically so reservations made meanwhile are not overwritten
+    const { stockQuantity, ...fields } = updates;
+    if (stockQuantity !== undefined && !isValidQuantity(stockQuantity)) {
+      return res.status(400).json({ error: 'Stock quantity must be a number of 0 or more' });
+    }
+    Object.assign(product, fields);
+
+    const updated = await withTransaction(async (session) => {
+      await product.save({ session });
+      if (stockQuantity === undefined) return product;
+      return InventoryService.adjustStock(product, 'set', stockQuantity, req.user, 'Stock changed via product update', session);
+    });
 
     res.json({
       message: 'Product updated successfully',
-      product
+      product: updated
     });
   } catch (error) {
+    if (sendStockError(res, error)) return;
     console.error('Update product error:', error);
     
     if (error.code === 11000) {
@@ -313,26 +336,67 @@ exports.updateStock = async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to update this product' });
     }
 
-    if (operation === 'add') {
-      product.stockQuantity += Number(quantity);
-    } else if (operation === 'subtract') {
-      product.stockQuantity = Math.max(0, product.stockQuantity - Number(quantity));
-    } else {
-      product.stockQuantity = Number(quantity);
+    const amount = Number(quantity);
+    if (!isValidQuantity(amount)) {
+      return res.status(400).json({ error: 'Quantity must be a number of 0 or more' });
     }
 
-    await product.save();
+    const updated = await withTransaction((session) =>
+      InventoryService.adjustStock(product, operation, amount, req.user, `Stock ${operation || 'set'} by company`, session)
+    );
 
     res.json({
       message: 'Stock updated successfully',
       product: {
-        id: product._id,
-        name: product.name,
-        stockQuantity: product.stockQuantity
+        id: updated._id,
+        name: updated.name,
+        stockQuantity: updated.stockQuantity,
+        reservedQuantity: updated.reservedQuantity || 0
       }
     });
   } catch (error) {
+    if (sendStockError(res, error)) return;
     console.error('Update stock error:', error);
     res.status(500).json({ error: 'Failed to update stock' });
   }
 };
+
+// Get stock movement ledger for a product
+exports.getStockMovements = async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const limit = Math.max(1, Math.min(100, parseInt(req.query.limit) || 20));
+
+    const product = await Product.findById(productId);
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    // Check permissions
+    const isOwner = req.user.role === 'company_rep' && product.companyId.toString() === req.user._id.toString();
+    if (!isOwner && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Not authorized to view this ledger' });
+    }
+
+    const { movements, total } = await InventoryService.getMovements(productId, { page, limit });
+
+    res.json({
+      product: {
+        id: product._id,
+        name: product.name,
+        stockQuantity: product.stockQuantity,
+        reservedQuantity: product.reservedQuantity || 0
+      },
+      movements,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalMovements: total
+      }
+    });
+  } catch (error) {
+    console.error('Get stock movements error:', error);
+    res.status(500).json({ error: 'Failed to fetch stock movements' });
+  }
+};
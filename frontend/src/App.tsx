@@ -1,6 +1,7 @@
 import React from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { CartProvider } from './contexts/CartContext';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
 
@@ -8,22 +9,32 @@ import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/auth/Login';
 import Register from './pages/auth/Register';
 import PendingApproval from './pages/auth/PendingApproval';
+import ForgotPassword from './pages/auth/ForgotPassword';
+import ResetPassword from './pages/auth/ResetPassword';
+import RegistrationDocuments from './pages/auth/RegistrationDocuments';
 import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
 import Orders from './pages/orders/Orders';
 import OrderDetails from './pages/orders/OrderDetails';
 import CreateOrder from './pages/orders/CreateOrder';
 import OrderHistory from './pages/orders/OrderHistory';
+import RecurringOrders from './pages/orders/RecurringOrders';
+import Returns from './pages/orders/Returns';
+import Cart from './pages/orders/Cart';
 import Products from './pages/products/Products';
 import ProductDetails from './pages/products/ProductDetails';
 import ShopkeeperCatalog from './pages/products/ShopkeeperCatalog';
 import CompanyProductManagement from './pages/products/CompanyProductManagement';
 import Deliveries from './pages/delivery/Deliveries';
 import DeliveryDetails from './pages/delivery/DeliveryDetails';
+import CashSettlement from './pages/delivery/CashSettlement';
+import DeliveryIssues from './pages/delivery/DeliveryIssues';
+import SlaDashboard from './pages/delivery/SlaDashboard';
 import Analytics from './pages/Analytics';
 import Notifications from './pages/Notifications';
 import Flags from './pages/Flags';
 import Users from './pages/admin/Users';
+import Staff from './pages/Staff';
 import Homepage from './pages/Homepage';
 
 const AppRoutes: React.FC = () => {
@@ -45,6 +56,9 @@ const AppRoutes: React.FC = () => {
   <Route path="/login" element={user ? <Navigate to="/dashboard" /> : <Login />} />
   <Route path="/register" element={user ? <Navigate to="/dashboard" /> : <Register />} />
   <Route path="/pending-approval" element={<PendingApproval />} />
+  <Route path="/forgot-password" element={user ? <Navigate to="/dashboard" /> : <ForgotPassword />} />
+  <Route path="/reset-password/:token" element={<ResetPassword />} />
+  <Route path="/registration/documents/:token" element={<RegistrationDocuments />} />
 
   {/* Protected routes */}
   <Route element={<ProtectedRoute><Layout /></ProtectedRoute>}>
@@ -53,16 +67,79 @@ const AppRoutes: React.FC = () => {
     <Route path="/orders" element={<Orders />} />
     <Route path="/orders/create" element={<CreateOrder />} />
     <Route path="/orders/history" element={<OrderHistory />} />
+    <Route
+      path="/orders/recurring"
+      element={
+        <ProtectedRoute allowedRoles={['shopkeeper']}>
+          <RecurringOrders />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/returns"
+      element={
+        <ProtectedRoute allowedRoles={['shopkeeper', 'company_rep', 'admin']}>
+          <Returns />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/cart"
+      element={
+        <ProtectedRoute allowedRoles={['shopkeeper']}>
+          <Cart />
+        </ProtectedRoute>
+      }
+    />
     <Route path="/orders/:orderNumber" element={<OrderDetails />} />
     <Route path="/products" element={<Products />} />
     <Route path="/products/catalog" element={<ShopkeeperCatalog />} />
-    <Route path="/products/company" element={<CompanyProductManagement />} />
+    <Route
+      path="/products/company"
+      element={
+        <ProtectedRoute permission="manage_products">
+          <CompanyProductManagement />
+        </ProtectedRoute>
+      }
+    />
     <Route path="/products/:productId" element={<ProductDetails />} />
     <Route path="/deliveries" element={<Deliveries />} />
     <Route path="/deliveries/:deliveryId" element={<DeliveryDetails />} />
+    <Route
+      path="/settlements"
+      element={
+        <ProtectedRoute allowedRoles={['company_rep']} permission="settle_collections">
+          <CashSettlement />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/issues"
+      element={
+        <ProtectedRoute allowedRoles={['company_rep', 'admin']} permission="assign_deliveries">
+          <DeliveryIssues />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/sla"
+      element={
+        <ProtectedRoute allowedRoles={['company_rep', 'admin']} permission="view_analytics">
+          <SlaDashboard />
+        </ProtectedRoute>
+      }
+    />
     <Route path="/analytics" element={<Analytics />} />
     <Route path="/notifications" element={<Notifications />} />
     <Route path="/flags" element={<Flags />} />
+    <Route
+      path="/staff"
+      element={
+        <ProtectedRoute companyOwnerOnly>
+          <Staff />
+        </ProtectedRoute>
+      }
+    />
     <Route
       path="/admin/users"
       element={
@@ -82,7 +159,9 @@ const AppRoutes: React.FC = () => {
 
 const App: React.FC = () => (
   <AuthProvider>
-    <AppRoutes />
+    <CartProvider>
+      <AppRoutes />
+    </CartProvider>
   </AuthProvider>
 );
 
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, PenTool, FileText, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { deliveriesAPI, uploadUrl } from '../services/api';
+
+interface DeliveryProof {
+  deliveryNumber: string;
+  deliveredAt?: string;
+  deliveryWorker: string | null;
+  proof: {
+    signature?: string;
+    photo?: string;
+    photoThumbnail?: string;
+    receivedBy?: string;
+    notes?: string;
+  };
+}
+
+// Older deliveries stored the photo inline and the signature as typed text
+const isImage = (value?: string) => !!value && (value.startsWith('/uploads/') || value.startsWith('data:image/'));
+
+// Proof of delivery (signature, photo and notes) of a delivered order
+const DeliveryProofViewer: React.FC<{ orderId: string }> = ({ orderId }) => {
+  const [data, setData] = useState<DeliveryProof | null>(null);
+  const [showPhoto, setShowPhoto] = useState(false);
+
+  useEffect(() => {
+    deliveriesAPI.getOrderProof(orderId)
+      .then((response) => setData(response.data))
+      .catch((error) => {
+        if (error.response?.status !== 404) console.error('Error fetching proof of delivery:', error);
+      });
+  }, [orderId]);
+
+  if (!data) return null;
+  const { proof } = data;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-1">Proof of Delivery</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {data.deliveryNumber}
+        {data.deliveredAt && ` · ${format(new Date(data.deliveredAt), 'MMM dd, yyyy HH:mm')}`}
+        {data.deliveryWorker && ` · ${data.deliveryWorker}`}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <p className="text-gray-600 flex items-center mb-2">
+            <PenTool className="w-4 h-4 mr-2" />
+            Signature
+          </p>
+          {isImage(proof.signature) ? (
+            <img
+              src={uploadUrl(proof.signature!)}
+              alt="Customer signature"
+              className="w-full h-32 object-contain border rounded bg-gray-50"
+            />
+          ) : (
+            <p className="font-medium">{proof.signature || 'Not recorded'}</p>
+          )}
+          {proof.receivedBy && (
+            <p className="text-sm text-gray-600 flex items-center mt-2">
+              <User className="w-4 h-4 mr-1" />
+              Received by {proof.receivedBy}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-gray-600 flex items-center mb-2">
+            <Camera className="w-4 h-4 mr-2" />
+            Photo
+          </p>
+          {isImage(proof.photo) ? (
+            <button type="button" onClick={() => setShowPhoto(true)} className="block w-full">
+              <img
+                src={uploadUrl(proof.photoThumbnail || proof.photo!)}
+                alt="Delivery"
+                className="w-full h-32 object-cover border rounded hover:opacity-90"
+              />
+            </button>
+          ) : (
+            <p className="text-gray-500">No photo</p>
+          )}
+        </div>
+      </div>
+
+      {proof.notes && (
+        <div className="mt-4">
+          <p className="text-gray-600 flex items-center mb-1">
+            <FileText className="w-4 h-4 mr-2" />
+            Notes
+          </p>
+          <p className="text-sm">{proof.notes}</p>
+        </div>
+      )}
+
+      {showPhoto && proof.photo && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+          onClick={() => setShowPhoto(false)}
+        >
+          <img src={uploadUrl(proof.photo)} alt="Delivery" className="max-w-full max-h-full rounded" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryProofViewer;
@@ -14,13 +14,10 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
   const navigate = useNavigate();
   const [userMenuOpen, setUserMenuOpen] = useState(false);
 
-  // Get notification count
+  // Get notification count (refreshed by realtime notification events)
   const { data: notificationStatsResponse } = useQuery(
     'notificationStats',
-    () => notificationsAPI.getNotificationStats(),
-    {
-      refetchInterval: 30000, // Refetch every 30 seconds
-    }
+    () => notificationsAPI.getNotificationStats()
   );
   const notificationStats = notificationStatsResponse?.data || notificationStatsResponse;
 
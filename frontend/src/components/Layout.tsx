@@ -3,6 +3,8 @@ import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import { useRealtimeUpdates } from '../hooks/useRealtimeUpdates';
+import { useOutboxSync } from '../hooks/useOfflineOutbox';
 import { Menu, X } from 'lucide-react';
 
 const Layout: React.FC = () => {
@@ -10,6 +12,8 @@ const Layout: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  useRealtimeUpdates();
+  useOutboxSync();
 
   if (!user) {
     navigate('/login');
@@ -0,0 +1,68 @@
+import React from 'react';
+import { WifiOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { useOfflineOutbox } from '../hooks/useOfflineOutbox';
+import { OutboxEntry } from '../services/offlineOutbox';
+
+export const describeOutboxEntry = (entry: OutboxEntry) => {
+  switch (entry.action.kind) {
+    case 'status':
+      return `Mark ${entry.action.status.replace('_', ' ')}`;
+    case 'complete':
+      return 'Complete delivery';
+    case 'issue':
+      return 'Report issue';
+  }
+};
+
+// Connection and sync state of the delivery worker's queued updates
+const OfflineSyncStatus: React.FC = () => {
+  const { isOnline, isSyncing, pending, failed, sync, dismiss } = useOfflineOutbox();
+
+  if (isOnline && !pending.length && !failed.length) return null;
+
+  const count = `${pending.length} update${pending.length === 1 ? '' : 's'}`;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {!isOnline ? (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm flex items-center">
+          <WifiOff className="w-4 h-4 mr-2 flex-shrink-0" />
+          You are offline.{' '}
+          {pending.length ? `${count} will be sent when the connection returns.` : 'Updates you make will be sent when the connection returns.'}
+        </div>
+      ) : pending.length > 0 && (
+        <div className="p-3 rounded-lg border border-blue-200 bg-blue-50 text-blue-800 text-sm flex items-center justify-between">
+          <span className="flex items-center">
+            <RefreshCw className={`w-4 h-4 mr-2 flex-shrink-0 ${isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? `Sending ${count}...` : `${count} waiting to be sent`}
+          </span>
+          {!isSyncing && (
+            <button onClick={() => sync()} className="text-blue-700 font-medium hover:underline">
+              Sync now
+            </button>
+          )}
+        </div>
+      )}
+
+      {failed.map((entry) => (
+        <div
+          key={entry.id}
+          className="p-3 rounded-lg border border-red-200 bg-red-50 text-red-800 text-sm flex items-start justify-between"
+        >
+          <span className="flex items-start">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              <span className="font-medium">{entry.deliveryNumber} · {describeOutboxEntry(entry)}</span> was not accepted:{' '}
+              {entry.error}
+            </span>
+          </span>
+          <button onClick={() => dismiss(entry.id!)} className="ml-2 text-red-600 hover:text-red-800" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OfflineSyncStatus;
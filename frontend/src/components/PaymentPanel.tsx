@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Smartphone, CheckCircle, AlertTriangle } from 'lucide-react';
+import { paymentsAPI } from '../services/api';
+import StatusBadge from './StatusBadge';
+
+interface Payment {
+  _id: string;
+  amount: number;
+  status: 'initiated' | 'completed' | 'failed' | 'expired';
+  transactionId?: string;
+  failureReason?: string;
+  paymentUrl?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+interface PaymentPanelProps {
+  orderId: string;
+  orderStatus: string;
+  paymentMethod: string;
+  paymentStatus: string;
+  amount: number;
+  canPay: boolean;
+  onPaymentChange: () => void;
+}
+
+/**
+ * Send the shopkeeper to the gateway checkout for an order
+ */
+export const startPayment = async (orderId: string) => {
+  const response = await paymentsAPI.startPayment(orderId);
+  window.location.assign(response.data.payment.paymentUrl);
+};
+
+// Payment state of a mobile-banking order with a "Pay Now" action.
+// The gateway sends the shopkeeper back with ?payment=<id>, which is confirmed here.
+const PaymentPanel: React.FC<PaymentPanelProps> = ({
+  orderId,
+  orderStatus,
+  paymentMethod,
+  paymentStatus,
+  amount,
+  canPay,
+  onPaymentChange,
+}) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const returnedPaymentId = searchParams.get('payment');
+
+  const loadPayments = async () => {
+    try {
+      const response = await paymentsAPI.getOrderPayments(orderId);
+      setPayments(response.data.payments || []);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (paymentMethod !== 'mobile_banking') return;
+    loadPayments();
+  }, [orderId, paymentMethod, paymentStatus]);
+
+  useEffect(() => {
+    if (!returnedPaymentId) return;
+    paymentsAPI.confirmPayment(returnedPaymentId)
+      .then((response) => {
+        const { status } = response.data.payment;
+        if (status === 'completed') toast.success('Payment received');
+        else if (status === 'failed') toast.error('Payment failed');
+        else if (status === 'initiated') toast('Payment is still being processed');
+        onPaymentChange();
+        loadPayments();
+      })
+      .catch((error) => {
+        console.error('Error confirming payment:', error);
+        toast.error(error.response?.data?.message || 'Could not confirm the payment');
+      })
+      .finally(() => {
+        searchParams.delete('payment');
+        setSearchParams(searchParams, { replace: true });
+      });
+  }, [returnedPaymentId]);
+
+  if (paymentMethod !== 'mobile_banking') return null;
+
+  const latest = payments[0];
+  const isPaid = paymentStatus === 'completed';
+  const isPayable = canPay && !isPaid && !['rejected', 'cancelled'].includes(orderStatus);
+  const hasOpenPayment = latest?.status === 'initiated';
+
+  const handlePay = async () => {
+    setIsStarting(true);
+    try {
+      await startPayment(orderId);
+    } catch (error: any) {
+      console.error('Error starting payment:', error);
+      toast.error(error.response?.data?.message || 'Could not start the payment');
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Smartphone className="w-5 h-5 mr-2 text-pink-600" />
+          Payment
+        </h2>
+        <StatusBadge status={isPaid ? 'completed' : paymentStatus === 'failed' ? 'failed' : 'pending'} />
+      </div>
+
+      {isPaid ? (
+        <p className="text-green-700 flex items-center">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          ৳{amount.toFixed(2)} paid by mobile banking
+          {latest?.transactionId && <span className="ml-1 text-gray-600">(transaction {latest.transactionId})</span>}
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-2">৳{amount.toFixed(2)} to be paid by mobile banking.</p>
+          {latest?.status === 'failed' && (
+            <p className="text-sm text-red-700 flex items-center mb-2">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Last attempt failed: {latest.failureReason || 'not completed'}
+            </p>
+          )}
+          {isPayable && (
+            <button
+              onClick={handlePay}
+              disabled={isStarting}
+              className="mt-2 px-4 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50"
+            >
+              {isStarting ? 'Opening checkout...' : hasOpenPayment ? 'Continue Payment' : 'Pay Now'}
+            </button>
+          )}
+        </>
+      )}
+
+      {payments.length > 0 && (
+        <div className="mt-4 border-t pt-3 space-y-1">
+          {payments.map((payment) => (
+            <div key={payment._id} className="flex items-center justify-between text-sm text-gray-600">
+              <span>{new Date(payment.createdAt).toLocaleString()}</span>
+              <StatusBadge status={payment.status} className="text-xs" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentPanel;
@@ -1,17 +1,22 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission, hasPermission, isCompanyOwner } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRole?: string;
   allowedRoles?: string[];
+  permission?: Permission;
+  companyOwnerOnly?: boolean;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
   requiredRole, 
-  allowedRoles 
+  allowedRoles,
+  permission,
+  companyOwnerOnly
 }) => {
   const { user, isLoading } = useAuth();
 
@@ -71,7 +76,9 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  if (allowedRoles && !allowedRoles.includes(user.role)) {
+  if ((allowedRoles && !allowedRoles.includes(user.role)) ||
+      (permission && !hasPermission(user, permission)) ||
+      (companyOwnerOnly && !isCompanyOwner(user))) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+
+interface QuantityStepperProps {
+  value: number;
+  min: number;
+  max: number;
+  disabled?: boolean;
+  onChange: (quantity: number) => void;
+}
+
+const QuantityStepper: React.FC<QuantityStepperProps> = ({ value, min, max, disabled = false, onChange }) => {
+  const clamp = (quantity: number) => Math.max(min, Math.min(max, quantity));
+
+  return (
+    <div className="inline-flex items-center border rounded-md">
+      <button
+        type="button"
+        onClick={() => onChange(clamp(value - 1))}
+        disabled={disabled || value <= min}
+        className="p-2 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Minus className="h-4 w-4" />
+      </button>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        disabled={disabled}
+        onChange={(e) => {
+          const quantity = Number(e.target.value);
+          if (!Number.isNaN(quantity) && quantity > 0) onChange(clamp(quantity));
+        }}
+        className="w-16 text-center border-0 focus:ring-0"
+      />
+      <button
+        type="button"
+        onClick={() => onChange(clamp(value + 1))}
+        disabled={disabled || value >= max}
+        className="p-2 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Plus className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default QuantityStepper;
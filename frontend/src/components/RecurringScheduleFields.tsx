@@ -0,0 +1,116 @@
+import React from 'react';
+
+export interface RecurringSchedule {
+  frequency: 'weekly' | 'interval';
+  daysOfWeek?: number[];
+  intervalDays?: number;
+  startDate?: string;
+  timeOfDay: string;
+}
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const defaultSchedule = (): RecurringSchedule => ({
+  frequency: 'weekly',
+  daysOfWeek: [new Date().getDay()],
+  intervalDays: 7,
+  timeOfDay: '09:00',
+});
+
+export const describeSchedule = (schedule: RecurringSchedule) => {
+  if (schedule.frequency === 'interval') {
+    return `Every ${schedule.intervalDays} day${schedule.intervalDays === 1 ? '' : 's'} at ${schedule.timeOfDay}`;
+  }
+  const days = (schedule.daysOfWeek || []).map((day) => WEEKDAYS[day]).join(', ');
+  return `Every ${days} at ${schedule.timeOfDay}`;
+};
+
+// Frequency, days and time inputs of a recurring order
+const RecurringScheduleFields: React.FC<{
+  value: RecurringSchedule;
+  onChange: (schedule: RecurringSchedule) => void;
+}> = ({ value, onChange }) => {
+  const toggleDay = (day: number) => {
+    const days = value.daysOfWeek || [];
+    onChange({
+      ...value,
+      daysOfWeek: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4">
+        <label className="flex items-center text-sm">
+          <input
+            type="radio"
+            className="mr-2"
+            checked={value.frequency === 'weekly'}
+            onChange={() => onChange({ ...value, frequency: 'weekly', daysOfWeek: value.daysOfWeek?.length ? value.daysOfWeek : [new Date().getDay()] })}
+          />
+          Weekly on
+        </label>
+        <label className="flex items-center text-sm">
+          <input
+            type="radio"
+            className="mr-2"
+            checked={value.frequency === 'interval'}
+            onChange={() => onChange({ ...value, frequency: 'interval', intervalDays: value.intervalDays || 7 })}
+          />
+          Every few days
+        </label>
+      </div>
+
+      {value.frequency === 'weekly' ? (
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                value.daysOfWeek?.includes(day)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Every</span>
+          <input
+            type="number"
+            min={1}
+            max={90}
+            value={value.intervalDays || ''}
+            onChange={(e) => onChange({ ...value, intervalDays: Number(e.target.value) })}
+            className="w-20 p-2 border rounded"
+          />
+          <span>days, starting</span>
+          <input
+            type="date"
+            value={value.startDate || ''}
+            onChange={(e) => onChange({ ...value, startDate: e.target.value })}
+            className="p-2 border rounded"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-sm">
+        <span>Place the order at</span>
+        <input
+          type="time"
+          value={value.timeOfDay}
+          onChange={(e) => onChange({ ...value, timeOfDay: e.target.value })}
+          className="p-2 border rounded"
+          required
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecurringScheduleFields;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { RotateCcw, ShoppingCart, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { ordersAPI } from '../services/api';
+import { useCart } from '../contexts/CartContext';
+
+export interface ReorderLine {
+  productId: string;
+  productName: string;
+  unit: string;
+  previousQuantity: number;
+  previousUnitPrice: number | null;
+  unitPrice: number | null;
+  priceChanged: boolean;
+  quantity: number;
+  status: 'available' | 'adjusted' | 'inactive' | 'out_of_stock';
+}
+
+export interface Reorder {
+  orderId: string;
+  orderNumber: string;
+  companyId: string;
+  companyName: string;
+  companyActive: boolean;
+  deliveryAddress: string;
+  deliveryArea: string;
+  deliveryCity: string;
+  paymentMethod: string;
+  deliveryInstructions: string;
+  lines: ReorderLine[];
+}
+
+// Passed to CreateOrder through router state
+export interface ReorderPrefill {
+  fromOrder: string;
+  companyId: string;
+  items: { productId: string; quantity: number }[];
+  deliveryAddress: string;
+  deliveryArea: string;
+  deliveryCity: string;
+  paymentMethod: string;
+  deliveryInstructions: string;
+}
+
+const statusLabels: Record<ReorderLine['status'], { label: string; className: string }> = {
+  available: { label: 'Available', className: 'text-green-700' },
+  adjusted: { label: 'Quantity adjusted', className: 'text-orange-700' },
+  inactive: { label: 'No longer sold', className: 'text-red-700' },
+  out_of_stock: { label: 'Out of stock', className: 'text-red-700' },
+};
+
+const formatCurrency = (amount: number | null) => (amount == null ? '-' : `৳${amount.toFixed(2)}`);
+
+// Pick lines of a past order and send them to the cart or a new order form
+const ReorderDialog: React.FC<{ orderId: string; onClose: () => void }> = ({ orderId, onClose }) => {
+  const navigate = useNavigate();
+  const { addFromOrder } = useCart();
+  const [reorder, setReorder] = useState<Reorder | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReorder = async () => {
+      try {
+        const response = await ordersAPI.getReorder(orderId);
+        const data: Reorder = response.data.reorder;
+        setReorder(data);
+        setSelected(data.lines.filter((line) => line.quantity > 0).map((line) => line.productId));
+      } catch (error: any) {
+        console.error('Failed to load reorder:', error);
+        setLoadError(error.response?.data?.error || 'Failed to load order items');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReorder();
+  }, [orderId]);
+
+  const toggle = (productId: string) => {
+    setSelected(selected.includes(productId) ? selected.filter((id) => id !== productId) : [...selected, productId]);
+  };
+
+  const chosenLines = reorder ? reorder.lines.filter((line) => selected.includes(line.productId)) : [];
+  const total = chosenLines.reduce((sum, line) => sum + line.quantity * (line.unitPrice || 0), 0);
+
+  const handleAddToCart = async () => {
+    if (!reorder) return;
+    setAdding(true);
+    try {
+      await addFromOrder(reorder.orderId, selected);
+      toast.success(`Added ${selected.length} item${selected.length !== 1 ? 's' : ''} to your cart`);
+      navigate('/cart');
+    } catch (error: any) {
+      console.error('Failed to add to cart:', error);
+      toast.error(error.response?.data?.error || 'Failed to add items to cart');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleEditOrder = () => {
+    if (!reorder) return;
+    const prefill: ReorderPrefill = {
+      fromOrder: reorder.orderNumber,
+      companyId: reorder.companyId,
+      items: chosenLines.map((line) => ({ productId: line.productId, quantity: line.quantity })),
+      deliveryAddress: reorder.deliveryAddress,
+      deliveryArea: reorder.deliveryArea,
+      deliveryCity: reorder.deliveryCity,
+      paymentMethod: reorder.paymentMethod,
+      deliveryInstructions: reorder.deliveryInstructions,
+    };
+    navigate('/orders/create', { state: { reorder: prefill } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <RotateCcw className="w-5 h-5 mr-2 text-blue-600" />
+              Reorder {reorder?.orderNumber}
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ×
+            </button>
+          </div>
+
+          {loadError ? (
+            <p className="text-sm text-red-700 py-4">{loadError}</p>
+          ) : loading || !reorder ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                From {reorder.companyName}. Prices and quantities are checked against today's catalog.
+              </p>
+
+              {!reorder.companyActive && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  This company is not taking orders right now.
+                </div>
+              )}
+
+              <div className="divide-y border rounded">
+                {reorder.lines.map((line) => {
+                  const orderable = line.quantity > 0;
+                  return (
+                    <label
+                      key={line.productId}
+                      className={`flex items-start gap-3 p-3 ${orderable ? 'cursor-pointer' : 'opacity-60'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={selected.includes(line.productId)}
+                        disabled={!orderable}
+                        onChange={() => toggle(line.productId)}
+                      />
+                      <div className="flex-1">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-900">{line.productName}</span>
+                          <span className="text-sm text-gray-900">
+                            {orderable ? formatCurrency(line.quantity * (line.unitPrice || 0)) : '-'}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {orderable ? `${line.quantity} ${line.unit}` : `${line.previousQuantity} ${line.unit} last time`}
+                          {orderable && line.quantity !== line.previousQuantity && ` (was ${line.previousQuantity})`}
+                          {' · '}
+                          {formatCurrency(line.unitPrice)}/{line.unit}
+                          {line.priceChanged && (
+                            <span className="text-orange-700"> (was {formatCurrency(line.previousUnitPrice)})</span>
+                          )}
+                        </p>
+                        <p className={`text-xs ${statusLabels[line.status].className}`}>{statusLabels[line.status].label}</p>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <div className="flex justify-between items-center mt-4 text-sm">
+                <span className="text-gray-600">
+                  {selected.length} of {reorder.lines.length} items selected
+                </span>
+                <span className="font-semibold">Subtotal {formatCurrency(total)}</span>
+              </div>
+
+              <div className="flex justify-end gap-2 mt-6">
+                <button
+                  onClick={handleEditOrder}
+                  disabled={!selected.length || !reorder.companyActive}
+                  className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Edit as new order
+                </button>
+                <button
+                  onClick={handleAddToCart}
+                  disabled={!selected.length || adding || !reorder.companyActive}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                >
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  {adding ? 'Adding...' : 'Add to cart'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReorderDialog;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Undo2, Camera } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { returnsAPI } from '../services/api';
+
+interface ReturnableItem {
+  productId: string;
+  productName: string;
+  unit: string;
+  delivered: number;
+  returnable: number;
+}
+
+interface OrderReturns {
+  returnable: { returnBy: string; items: ReturnableItem[] } | null;
+  returns: { _id: string; returnNumber: string; status: string }[];
+  reasons: string[];
+}
+
+export const returnReasonLabels: Record<string, string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  wrong_item: 'Wrong item',
+  other: 'Other',
+};
+
+const MAX_PHOTOS = 3;
+
+// Pick delivered lines of an order to send back to the company
+const ReturnRequestDialog: React.FC<{ orderId: string; onClose: () => void }> = ({ orderId, onClose }) => {
+  const [data, setData] = useState<OrderReturns | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('damaged');
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadReturnable = async () => {
+      try {
+        const response = await returnsAPI.getForOrder(orderId);
+        setData(response.data);
+      } catch (error: any) {
+        console.error('Failed to load returnable items:', error);
+        setLoadError(error.response?.data?.message || 'Failed to load order items');
+      }
+    };
+    loadReturnable();
+  }, [orderId]);
+
+  const setQuantity = (item: ReturnableItem, value: number) => {
+    const quantity = Math.max(0, Math.min(item.returnable, Math.floor(value) || 0));
+    setQuantities({ ...quantities, [item.productId]: quantity });
+  };
+
+  const handlePhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (photos.length + files.length > MAX_PHOTOS) {
+      toast.error(`Attach at most ${MAX_PHOTOS} photos`);
+    }
+    setPhotos([...photos, ...files].slice(0, MAX_PHOTOS));
+    event.target.value = '';
+  };
+
+  const lines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+
+  const handleSubmit = async () => {
+    const form = new FormData();
+    form.append('orderId', orderId);
+    form.append('items', JSON.stringify(lines));
+    form.append('reason', reason);
+    form.append('description', description);
+    photos.forEach((photo) => form.append('photos', photo));
+
+    setSubmitting(true);
+    try {
+      const response = await returnsAPI.create(form);
+      toast.success(`Return ${response.data.returnRequest.returnNumber} sent to the company`);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to request return:', error);
+      toast.error(error.response?.data?.message || 'Failed to request return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const windowClosed = data?.returnable ? new Date(data.returnable.returnBy) < new Date() : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Undo2 className="w-5 h-5 mr-2 text-blue-600" />
+              Request Return
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ×
+            </button>
+          </div>
+
+          {loadError ? (
+            <p className="text-sm text-red-700 py-4">{loadError}</p>
+          ) : !data ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : !data.returnable ? (
+            <p className="text-sm text-gray-600 py-4">Only delivered orders can be returned.</p>
+          ) : (
+            <>
+              <p className={`text-sm mb-4 ${windowClosed ? 'text-red-700' : 'text-gray-600'}`}>
+                {windowClosed ? 'The return window closed on ' : 'Returns are accepted until '}
+                {format(new Date(data.returnable.returnBy), 'MMM dd, yyyy HH:mm')}.
+              </p>
+
+              {data.returns.length > 0 && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Earlier returns:{' '}
+                  {data.returns.map((item, index) => (
+                    <span key={item._id}>
+                      {index > 0 && ', '}
+                      <Link to="/returns" className="text-blue-600 hover:underline">{item.returnNumber}</Link> ({item.status.replace('_', ' ')})
+                    </span>
+                  ))}
+                </p>
+              )}
+
+              <div className="divide-y border rounded mb-4">
+                {data.returnable.items.map((item) => (
+                  <div key={item.productId} className="flex items-center justify-between p-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{item.productName}</p>
+                      <p className="text-sm text-gray-600">
+                        {item.delivered} {item.unit} delivered
+                        {item.returnable < item.delivered && `, ${item.returnable} still returnable`}
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.returnable}
+                      value={quantities[item.productId] || 0}
+                      disabled={!item.returnable || windowClosed}
+                      onChange={(e) => setQuantity(item, Number(e.target.value))}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-right disabled:bg-gray-100"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <select
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {data.reasons.map((value) => (
+                      <option key={value} value={value}>{returnReasonLabels[value] || value}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+                  <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    placeholder="What is wrong with the goods?"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Photos (up to {MAX_PHOTOS})</label>
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {photos.map((photo, index) => (
+                      <span key={`${photo.name}-${index}`} className="px-2 py-1 bg-gray-100 rounded text-sm flex items-center">
+                        {photo.name}
+                        <button
+                          onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                          className="ml-2 text-gray-400 hover:text-gray-600"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    {photos.length < MAX_PHOTOS && (
+                      <label className="px-3 py-1 border border-gray-300 rounded cursor-pointer hover:bg-gray-50 text-sm flex items-center">
+                        <Camera className="w-4 h-4 mr-1" />
+                        Add photo
+                        <input type="file" accept="image/jpeg,image/png,image/webp" multiple onChange={handlePhotos} className="hidden" />
+                      </label>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={!lines.length || submitting || windowClosed}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Sending...' : 'Request Return'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReturnRequestDialog;
@@ -2,7 +2,19 @@ import React from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { usePendingUsers } from '../hooks/usePendingUsers';
-import { X, User, Home, Package, Truck, BarChart3, Bell, Users, ShoppingCart, Flag } from 'lucide-react';
+import { useCart } from '../contexts/CartContext';
+import { X, User, Home, Package, Truck, BarChart3, Bell, Users, UserCog, ShoppingCart, ShoppingBag, Flag, Wallet, AlertTriangle, Timer, Repeat, RotateCcw } from 'lucide-react';
+import { Permission, hasPermission, isCompanyOwner, isCompanyStaff } from '../utils/permissions';
+
+interface NavItem {
+  name: string;
+  href: string;
+  icon: React.ComponentType<{ className?: string }>;
+  roles: string[];
+  // Needed by company logins (see utils/permissions.ts)
+  permission?: Permission;
+  companyOwnerOnly?: boolean;
+}
 
 interface SidebarProps {
   isOpen: boolean;
@@ -13,20 +25,33 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
   const { user } = useAuth();
   const location = useLocation();
   const { pendingCount } = usePendingUsers();
+  const { cart } = useCart();
 
-  const navigation = [
+  const navigation: NavItem[] = [
     { name: 'Dashboard', href: '/dashboard', icon: Home, roles: ['shopkeeper', 'company_rep', 'delivery_worker', 'admin'] },
     { name: 'Orders', href: '/orders', icon: ShoppingCart, roles: ['shopkeeper', 'company_rep', 'admin'] },
+    { name: 'Catalog', href: '/products/catalog', icon: Package, roles: ['shopkeeper'] },
+    { name: 'Cart', href: '/cart', icon: ShoppingBag, roles: ['shopkeeper'] },
+    { name: 'Recurring Orders', href: '/orders/recurring', icon: Repeat, roles: ['shopkeeper'] },
+    { name: 'Returns', href: '/returns', icon: RotateCcw, roles: ['shopkeeper', 'company_rep', 'admin'] },
     { name: 'Flags', href: '/flags', icon: Flag, roles: ['shopkeeper'] },
-    { name: 'Products', href: '/products', icon: Package, roles: ['company_rep', 'admin'] },
+    { name: 'Products', href: '/products', icon: Package, roles: ['company_rep', 'admin'], permission: 'manage_products' },
     { name: 'Deliveries', href: '/deliveries', icon: Truck, roles: ['delivery_worker', 'company_rep', 'admin'] },
-    { name: 'Analytics', href: '/analytics', icon: BarChart3, roles: ['shopkeeper', 'company_rep', 'admin'] },
+    { name: 'Delivery Issues', href: '/issues', icon: AlertTriangle, roles: ['company_rep', 'admin'], permission: 'assign_deliveries' },
+    { name: 'Delivery SLAs', href: '/sla', icon: Timer, roles: ['company_rep', 'admin'], permission: 'view_analytics' },
+    { name: 'Cash Settlement', href: '/settlements', icon: Wallet, roles: ['company_rep'], permission: 'settle_collections' },
+    { name: 'Analytics', href: '/analytics', icon: BarChart3, roles: ['shopkeeper', 'company_rep', 'admin'], permission: 'view_analytics' },
+    { name: 'Staff', href: '/staff', icon: UserCog, roles: ['company_rep'], companyOwnerOnly: true },
     { name: 'Notifications', href: '/notifications', icon: Bell, roles: ['shopkeeper', 'company_rep', 'delivery_worker', 'admin'] },
     { name: 'Profile', href: '/profile', icon: User, roles: ['shopkeeper', 'company_rep', 'delivery_worker', 'admin'] },
     { name: 'Users', href: '/admin/users', icon: Users, roles: ['admin'] },
   ];
 
-  const filteredNav = navigation.filter(item => item.roles.includes(user?.role || ''));
+  const filteredNav = navigation.filter(item =>
+    item.roles.includes(user?.role || '') &&
+    (!item.permission || user?.role !== 'company_rep' || hasPermission(user, item.permission)) &&
+    (!item.companyOwnerOnly || isCompanyOwner(user))
+  );
 
   return (
     <>
@@ -60,7 +85,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
           )}
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium text-gray-900 truncate">{user?.name || 'User'}</p>
-            <p className="text-xs text-gray-500">{user?.role}</p>
+            <p className="text-xs text-gray-500">{isCompanyStaff(user) ? 'company staff' : user?.role}</p>
           </div>
         </div>
 
@@ -68,7 +93,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
         <nav className="flex-1 px-2 py-4 space-y-1 overflow-y-auto">
           {filteredNav.map(item => {
             const isActive = location.pathname === item.href;
-            const showBadge = item.name === 'Users' && pendingCount > 0;
+            const badgeCount = item.name === 'Users' ? pendingCount : item.name === 'Cart' ? cart.itemCount : 0;
+            const showBadge = badgeCount > 0;
             
             return (
               <NavLink
@@ -82,7 +108,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
                 <span className="flex-1">{item.name}</span>
                 {showBadge && (
                   <span className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-red-500 rounded-full">
-                    {pendingCount}
+                    {badgeCount}
                   </span>
                 )}
               </NavLink>
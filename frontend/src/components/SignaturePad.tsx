@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (signature: Blob | null) => void;
+  height?: number;
+}
+
+// Canvas the customer signs on with a finger, pen or mouse.
+// The drawing is handed to onChange as a PNG after every stroke.
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 160 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the canvas resolution to its displayed size so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, [height]);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    // A tap leaves a dot
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointFor(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    setIsEmpty(false);
+    e.currentTarget.toBlob((blob) => onChange(blob), 'image/png');
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="relative border-2 border-dashed border-gray-300 rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          style={{ height, touchAction: 'none' }}
+          className="w-full block rounded-lg cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={clear}
+        disabled={isEmpty}
+        className="mt-2 inline-flex items-center text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+      >
+        <Eraser className="w-4 h-4 mr-1" />
+        Clear
+      </button>
+    </div>
+  );
+};
+
+export default SignaturePad;
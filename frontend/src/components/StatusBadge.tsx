@@ -8,13 +8,29 @@ interface StatusBadgeProps {
 const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) => {
   const statusColors: Record<string, string> = {
     pending: 'bg-yellow-100 text-yellow-800',
+    backordered: 'bg-orange-100 text-orange-800',
     approved: 'bg-blue-100 text-blue-800',
     processing: 'bg-purple-100 text-purple-800',
+    assigned: 'bg-sky-100 text-sky-800',
+    accepted: 'bg-sky-100 text-sky-800',
+    shipped: 'bg-indigo-100 text-indigo-800',
     delivered: 'bg-green-100 text-green-800',
     cancelled: 'bg-red-100 text-red-800',
     rejected: 'bg-red-100 text-red-800',
     in_transit: 'bg-indigo-100 text-indigo-800',
     picked_up: 'bg-cyan-100 text-cyan-800',
+    // Payment statuses
+    initiated: 'bg-yellow-100 text-yellow-800',
+    completed: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+    expired: 'bg-gray-100 text-gray-800',
+    // Return and credit note statuses
+    requested: 'bg-yellow-100 text-yellow-800',
+    issued: 'bg-orange-100 text-orange-800',
+    settled: 'bg-green-100 text-green-800',
+    // Account statuses
+    active: 'bg-green-100 text-green-800',
+    inactive: 'bg-gray-100 text-gray-800',
   };
 
   return (
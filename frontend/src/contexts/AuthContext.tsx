@@ -8,6 +8,7 @@ interface User {
   phone: string;
   role: 'shopkeeper' | 'company_rep' | 'delivery_worker' | 'admin';
   status: 'pending' | 'active' | 'suspended' | 'inactive';
+  isPhoneVerified?: boolean;
   area: string;
   city: string;
   address: string;
@@ -23,6 +24,7 @@ interface User {
     companyType: string;
     businessLicense: string;
     taxId: string;
+    autoAssignDeliveries?: boolean;
   };
   deliveryWorkerInfo?: {
     vehicleType: string;
@@ -30,6 +32,15 @@ interface User {
     assignedAreas: string[];
     availability: 'available' | 'busy' | 'offline';
   };
+  // Set for staff logins of a company (see utils/permissions.ts)
+  companyStaff?: {
+    companyId: string;
+    permissions: string[];
+  };
+  notificationPreferences?: {
+    email: boolean;
+    sms: boolean;
+  };
   createdAt: string;
   updatedAt: string;
 }
@@ -38,12 +49,15 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<void>;
-  register: (userData: RegisterData) => Promise<{ requiresApproval: boolean }>;
+  loginWithCode: (phone: string, code: string) => Promise<void>;
+  // `documentToken` lets a registrant waiting for approval upload documents (see approvalsAPI)
+  register: (userData: RegisterData) => Promise<{ requiresApproval: boolean; documentToken?: string }>;
   logout: () => void;
   isLoading: boolean;
   updateProfile: (data: Partial<User>) => Promise<void>;
   updateProfileImage: (profileImage: string) => Promise<void>;
-  checkApprovalStatus: (email: string) => Promise<{ status: string; message: string }>;
+  verifyPhone: (code: string) => Promise<void>;
+  checkApprovalStatus: (email: string) => Promise<{ status: string; message: string; infoRequested?: boolean }>;
 }
 
 interface RegisterData {
@@ -111,17 +125,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, [token]);
 
+  const startSession = (userData: User, newToken: string) => {
+    setUser(userData);
+    setToken(newToken);
+    localStorage.setItem('token', newToken);
+    
+    // Update API default headers
+    api.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+  };
+
   const login = async (email: string, password: string) => {
     try {
       const response = await api.post('/auth/login', { email, password });
-      const { user: userData, token: newToken } = response.data;
-      
-      setUser(userData);
-      setToken(newToken);
-      localStorage.setItem('token', newToken);
-      
-      // Update API default headers
-      api.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+      startSession(response.data.user, response.data.token);
+    } catch (error: any) {
+      console.error('Login error:', error?.response?.data?.message || error.message);
+      throw error;
+    }
+  };
+
+  // Login with a code texted to the phone (see authAPI.requestLoginCode)
+  const loginWithCode = async (phone: string, code: string) => {
+    try {
+      const response = await api.post('/auth/otp/login', { phone, code });
+      startSession(response.data.user, response.data.token);
     } catch (error: any) {
       console.error('Login error:', error?.response?.data?.message || error.message);
       throw error;
@@ -131,20 +158,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const register = async (userData: RegisterData) => {
     try {
       const response = await api.post('/auth/register', userData);
-      const { user: userDataResponse, token: newToken, requiresApproval } = response.data;
+      const { user: userDataResponse, token: newToken, requiresApproval, documentToken } = response.data;
       
       if (requiresApproval) {
         // Don't set user or token if approval is required
-        return { requiresApproval: true };
+        return { requiresApproval: true, documentToken };
       }
       
-      setUser(userDataResponse);
-      setToken(newToken);
-      localStorage.setItem('token', newToken);
-      
-      // Update API default headers
-      api.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
-      
+      // Roles approved automatically are logged in right away
+      startSession(userDataResponse, newToken);
       return { requiresApproval: false };
     } catch (error) {
       throw error;
@@ -161,6 +183,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const logout = () => {
+    // Ends the session on the server and clears the refresh token cookie
+    api.post('/auth/logout').catch((error) => console.error('Logout error:', error));
     setUser(null);
     setToken(null);
     localStorage.removeItem('token');
@@ -186,15 +210,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Confirm the user's phone number with the code texted by authAPI.sendPhoneCode
+  const verifyPhone = async (code: string) => {
+    const response = await api.post('/auth/phone/verify', { code });
+    setUser(response.data.user);
+  };
+
   const value: AuthContextType = {
     user,
     token,
     login,
+    loginWithCode,
     register,
     logout,
     isLoading,
     updateProfile,
     updateProfileImage,
+    verifyPhone,
     checkApprovalStatus,
   };
 
@@ -0,0 +1,147 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { cartAPI } from '../services/api';
+import { useAuth } from './AuthContext';
+
+export interface CartItem {
+  productId: string;
+  name: string;
+  category: string;
+  unit: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+  minOrderQuantity: number;
+  maxOrderQuantity: number | null;
+  stockQuantity: number;
+  isActive: boolean;
+  isOrderable: boolean;
+}
+
+export interface CartCompanyGroup {
+  companyId: string;
+  companyName: string;
+  items: CartItem[];
+  subtotal: number;
+}
+
+export interface Cart {
+  id?: string;
+  groups: CartCompanyGroup[];
+  itemCount: number;
+  subtotal: number;
+}
+
+interface CartContextType {
+  cart: Cart;
+  isLoading: boolean;
+  refreshCart: () => Promise<void>;
+  addToCart: (productId: string, quantity?: number) => Promise<void>;
+  addFromOrder: (orderId: string, productIds?: string[]) => Promise<void>;
+  updateQuantity: (productId: string, quantity: number) => Promise<void>;
+  removeFromCart: (productId: string) => Promise<void>;
+  clearCompany: (companyId: string) => Promise<void>;
+  clearCart: () => Promise<void>;
+  getQuantity: (productId: string) => number;
+}
+
+const emptyCart: Cart = { groups: [], itemCount: 0, subtotal: 0 };
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+};
+
+interface CartProviderProps {
+  children: React.ReactNode;
+}
+
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [cart, setCart] = useState<Cart>(emptyCart);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isShopkeeper = user?.role === 'shopkeeper';
+
+  const refreshCart = useCallback(async () => {
+    if (!isShopkeeper) {
+      setCart(emptyCart);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const response = await cartAPI.getCart();
+      setCart(response.data.cart);
+    } catch (error) {
+      console.error('Failed to load cart:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isShopkeeper]);
+
+  // The cart lives on the server, so it follows the shopkeeper across devices
+  useEffect(() => {
+    refreshCart();
+  }, [refreshCart, user?._id]);
+
+  const addToCart = async (productId: string, quantity?: number) => {
+    const response = await cartAPI.addItem(productId, quantity);
+    setCart(response.data.cart);
+  };
+
+  const addFromOrder = async (orderId: string, productIds?: string[]) => {
+    const response = await cartAPI.addFromOrder(orderId, productIds);
+    setCart(response.data.cart);
+  };
+
+  const updateQuantity = async (productId: string, quantity: number) => {
+    const response = await cartAPI.updateItem(productId, quantity);
+    setCart(response.data.cart);
+  };
+
+  const removeFromCart = async (productId: string) => {
+    const response = await cartAPI.removeItem(productId);
+    setCart(response.data.cart);
+  };
+
+  const clearCompany = async (companyId: string) => {
+    const response = await cartAPI.clearCompany(companyId);
+    setCart(response.data.cart);
+  };
+
+  const clearCart = async () => {
+    const response = await cartAPI.clearCart();
+    setCart(response.data.cart);
+  };
+
+  const getQuantity = (productId: string) => {
+    for (const group of cart.groups) {
+      const item = group.items.find(i => i.productId === productId);
+      if (item) return item.quantity;
+    }
+    return 0;
+  };
+
+  const value: CartContextType = {
+    cart,
+    isLoading,
+    refreshCart,
+    addToCart,
+    addFromOrder,
+    updateQuantity,
+    removeFromCart,
+    clearCompany,
+    clearCart,
+    getQuantity,
+  };
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+};
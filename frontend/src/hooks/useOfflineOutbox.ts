@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getOutbox, subscribeOutbox, syncOutbox, dismissOutboxEntry, OutboxSnapshot } from '../services/offlineOutbox';
+
+// While actions are queued, retry this often even without an `online` event
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const emptySnapshot: OutboxSnapshot = { entries: [], isSyncing: false, lastSyncedAt: null };
+
+/**
+ * Whether the browser currently reports a network connection
+ */
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+/**
+ * The logged-in user's queued delivery actions and sync state
+ */
+export const useOfflineOutbox = () => {
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+  const [snapshot, setSnapshot] = useState<OutboxSnapshot>(emptySnapshot);
+  const userId = user?._id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const load = () => {
+      getOutbox(userId).then(setSnapshot).catch((error) => console.error('Error reading outbox:', error));
+    };
+    load();
+    return subscribeOutbox(load);
+  }, [userId]);
+
+  const sync = useCallback(() => (userId ? syncOutbox(userId) : Promise.resolve()), [userId]);
+
+  return {
+    isOnline,
+    isSyncing: snapshot.isSyncing,
+    lastSyncedAt: snapshot.lastSyncedAt,
+    pending: snapshot.entries.filter((entry) => entry.state === 'pending'),
+    failed: snapshot.entries.filter((entry) => entry.state === 'failed'),
+    sync,
+    dismiss: dismissOutboxEntry,
+  };
+};
+
+/**
+ * Replays queued actions when the connection returns, at startup and
+ * periodically while any are waiting. Mount once, inside the authenticated
+ * layout.
+ */
+export const useOutboxSync = () => {
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+  const isWorker = user?.role === 'delivery_worker';
+  const userId = user?._id;
+
+  useEffect(() => {
+    if (!isWorker || !userId || !isOnline) return;
+
+    const trySync = () => {
+      syncOutbox(userId).catch((error) => console.error('Error syncing outbox:', error));
+    };
+    trySync();
+    const timer = window.setInterval(trySync, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isWorker, userId, isOnline]);
+};
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from 'react-query';
+import { toast } from 'react-hot-toast';
+import { API_BASE_URL, refreshAccessToken } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+export type RealtimeEventType = 'notification' | 'order' | 'delivery';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: any;
+}
+
+// react-query caches that each event makes stale
+const QUERY_KEYS: Record<RealtimeEventType, string[]> = {
+  notification: ['notificationStats', 'notifications'],
+  order: ['recentOrders', 'shopkeeperStats', 'companyStats'],
+  delivery: ['recentOrders'],
+};
+
+const RECONNECT_DELAY_MS = 3000;
+
+const listeners = new Set<(event: RealtimeEvent) => void>();
+
+/**
+ * Opens the server event stream for the logged-in user and keeps react-query
+ * caches fresh. Mount once, inside the authenticated layout.
+ */
+export const useRealtimeUpdates = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let connectedBefore = false;
+    let stopped = false;
+
+    const handle = (type: RealtimeEventType) => (message: MessageEvent) => {
+      const data = JSON.parse(message.data);
+      QUERY_KEYS[type].forEach((key) => queryClient.invalidateQueries(key));
+      listeners.forEach((listener) => listener({ type, data }));
+
+      if (type === 'notification') {
+        toast(data.title || 'New notification');
+      }
+    };
+
+    const open = () => {
+      const token = localStorage.getItem('token');
+      if (!token || stopped) return;
+      const stream = new EventSource(`${API_BASE_URL}/events?token=${encodeURIComponent(token)}`);
+      source = stream;
+
+      // After a reconnect, events may have been missed while the stream was down
+      stream.addEventListener('connected', () => {
+        if (connectedBefore) queryClient.invalidateQueries();
+        connectedBefore = true;
+      });
+      (Object.keys(QUERY_KEYS) as RealtimeEventType[]).forEach((type) => {
+        stream.addEventListener(type, handle(type) as EventListener);
+      });
+
+      // EventSource retries dropped connections by itself, but gives up once
+      // the server refuses the expired access token: get a new one and reopen
+      stream.onerror = () => {
+        if (stream.readyState !== EventSource.CLOSED) return;
+        retryTimer = setTimeout(() => {
+          refreshAccessToken().then(open, (error) => console.error('Realtime stream refresh failed:', error));
+        }, RECONNECT_DELAY_MS);
+      };
+    };
+
+    open();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [user?._id, queryClient]);
+};
+
+/**
+ * Run `handler` for each realtime event of the given type, e.g. to refetch a
+ * page that does not load its data through react-query
+ */
+export const useRealtimeEvent = (type: RealtimeEventType, handler: (data: any) => void) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const listener = (event: RealtimeEvent) => {
+      if (event.type === type) handlerRef.current(event.data);
+    };
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, [type]);
+};
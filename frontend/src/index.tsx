@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from 'react-query';
 import { Toaster } from 'react-hot-toast';
 import './index.css';
 import App from './App';
+import { registerServiceWorker } from './serviceWorkerRegistration';
 
 
 const queryClient = new QueryClient({
@@ -52,4 +53,6 @@ root.render(
       </BrowserRouter>
     </QueryClientProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
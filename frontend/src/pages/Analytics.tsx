@@ -3,6 +3,7 @@ import { BarChart3, TrendingUp, TrendingDown, Calendar, Filter, Download, Refres
 import { analyticsAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import AnalyticsDashboard from '../components/AnalyticsDashboard';
+import { companyIdOf, hasPermission } from '../utils/permissions';
 import toast from 'react-hot-toast';
 
 interface ShopkeeperAnalytics {
@@ -290,9 +291,11 @@ const Analytics: React.FC = () => {
       ) : (
         <div className="space-y-6">
           {/* Company Analytics Dashboard (for company_rep) */}
-          {user?.role === 'company_rep' && user._id && (
-            <AnalyticsDashboard companyId={user._id} userRole="company_rep" />
-          )}
+          {user?.role === 'company_rep' && (hasPermission(user, 'view_analytics') ? (
+            <AnalyticsDashboard companyId={companyIdOf(user)} userRole="company_rep" />
+          ) : (
+            <p className="text-center text-gray-600 py-12">Ask your company owner for access to analytics.</p>
+          ))}
 
           {/* Shopkeeper Analytics */}
           {user?.role === 'shopkeeper' && renderShopkeeperAnalytics()}
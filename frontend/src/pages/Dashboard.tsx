@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useQuery } from 'react-query';
 import { 
@@ -12,7 +13,8 @@ import {
   MapPin,
   Clock
 } from 'lucide-react';
-import { ordersAPI, analyticsAPI, notificationsAPI } from '../services/api';
+import { ordersAPI, analyticsAPI, notificationsAPI, approvalsAPI } from '../services/api';
+import { companyIdOf, hasPermission } from '../utils/permissions';
 
 interface PendingUser {
   _id: string;
@@ -51,19 +53,16 @@ const Dashboard: React.FC = () => {
 
   const { data: companyStatsResponse } = useQuery(
     ['companyStats'],
-    () => analyticsAPI.getCompanyDashboard(user?._id || ''),
+    () => analyticsAPI.getCompanyDashboard(companyIdOf(user)),
     {
-      enabled: user?.role === 'company_rep' && !!user?._id,
+      enabled: user?.role === 'company_rep' && hasPermission(user, 'view_analytics'),
     }
   );
   const companyStats = companyStatsResponse?.data || companyStatsResponse;
 
   const { data: notificationsResponse } = useQuery(
     ['notifications'],
-    () => notificationsAPI.getNotifications({ limit: 5 }),
-    {
-      refetchInterval: 30000, // Refetch every 30 seconds
-    }
+    () => notificationsAPI.getNotifications({ limit: 5 })
   );
   const notifications = notificationsResponse?.data || notificationsResponse;
 
@@ -77,46 +76,12 @@ const Dashboard: React.FC = () => {
   const recentOrders = recentOrdersResponse?.data || recentOrdersResponse;
 
   // For admin: fetch pending users (waiting for approval)
-  const {
-    data: pendingResponse,
-    isLoading: adminLoading,
-    refetch: refetchPending,
-  } = useQuery(
+  const { data: pendingResponse, isLoading: adminLoading } = useQuery(
     ['pendingUsers'],
-    () => {
-      const token = localStorage.getItem('token');
-      return fetch('http://localhost:1591/api/auth/pending-users', {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      }).then((res) => res.json());
-    },
+    () => approvalsAPI.getPendingUsers(),
     { enabled: user?.role === 'admin' }
   );
-  const pendingUsers: PendingUser[] = pendingResponse?.pendingUsers || [];
-
-  // Approve a pending user (admin only)
-  const handleApprove = async (userId: string): Promise<void> => {
-    const token = localStorage.getItem('token');
-    try {
-      const response = await fetch(`http://localhost:1591/api/auth/approve-user/${userId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      const data = await response.json();
-      if (response.ok) {
-        refetchPending();
-      } else {
-        console.error(data.message || 'Approval failed');
-      }
-    } catch (error) {
-      console.error('Error approving user:', error);
-    }
-  };
+  const pendingUsers: PendingUser[] = pendingResponse?.data?.pendingUsers || [];
 
   const getRoleDisplayName = (): string => {
     switch (user?.role) {
@@ -376,12 +341,12 @@ const Dashboard: React.FC = () => {
                     <td className="px-4 py-2 text-sm text-gray-900">{pendingUser.phone}</td>
                     <td className="px-4 py-2 text-sm text-gray-900">{pendingUser.role}</td>
                     <td className="px-4 py-2">
-                      <button
-                        onClick={() => handleApprove(pendingUser._id)}
+                      <Link
+                        to={`/admin/users?review=${pendingUser._id}`}
                         className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600"
                       >
-                        Approve
-                      </button>
+                        Review
+                      </Link>
                     </td>
                   </tr>
                 ))}
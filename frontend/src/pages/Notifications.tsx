@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Bell, Check, CheckCheck, Clock, AlertTriangle, Package, Truck, ShoppingCart, X, Filter } from 'lucide-react';
 import { notificationsAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeEvent } from '../hooks/useRealtimeUpdates';
 import toast from 'react-hot-toast';
 
 interface Notification {
@@ -30,6 +31,11 @@ const Notifications: React.FC = () => {
     loadNotifications();
   }, [filter, typeFilter, page]);
 
+  // New notifications arrive on the first page
+  useRealtimeEvent('notification', () => {
+    if (page === 1) loadNotifications();
+  });
+
   const loadNotifications = async () => {
     try {
       setLoading(true);
@@ -101,6 +107,7 @@ const Notifications: React.FC = () => {
       case 'order_placed':
       case 'order_approved':
       case 'order_rejected':
+      case 'order_cancelled':
       case 'order_shipped':
       case 'order_delivered':
         return ShoppingCart;
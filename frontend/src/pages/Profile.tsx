@@ -1,8 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Pencil, Mail, Phone, MapPin, Building, User, Briefcase, CreditCard, Landmark, KeyRound, Truck } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { Pencil, Mail, Phone, MapPin, Building, User, Briefcase, CreditCard, Landmark, KeyRound, Truck, Bell, MessageSquare, Monitor, Smartphone, LogOut, ShieldCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
+interface DeviceSession {
+  _id: string;
+  device: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
 const fieldIcons: Record<string, React.ReactNode> = {
   'companyName': <Building className="h-4 w-4 text-primary-500 mr-2" />,
   'companyType': <Briefcase className="h-4 w-4 text-primary-500 mr-2" />,
@@ -24,11 +35,30 @@ const fieldIcons: Record<string, React.ReactNode> = {
 };
 
 const Profile: React.FC = () => {
-  const { user, updateProfile, updateProfileImage } = useAuth();
+  const { user, updateProfile, updateProfileImage, verifyPhone } = useAuth();
   const [editField, setEditField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [savingChannel, setSavingChannel] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [revokingSession, setRevokingSession] = useState<string | null>(null);
+  const [phoneCodeSent, setPhoneCodeSent] = useState(false);
+  const [phoneCode, setPhoneCode] = useState('');
+  const [isVerifyingPhone, setIsVerifyingPhone] = useState(false);
+
+  const loadSessions = async () => {
+    try {
+      const response = await authAPI.getSessions();
+      setSessions(response.data.sessions);
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
 
   if (!user) return <div>Loading...</div>;
 
@@ -135,6 +165,256 @@ const Profile: React.FC = () => {
     </div>
   );
 
+  // Notification channel toggles; in-app notifications are always on
+  const preferences = {
+    email: user.notificationPreferences?.email ?? true,
+    sms: user.notificationPreferences?.sms ?? false,
+  };
+
+  const togglePreference = async (channel: 'email' | 'sms') => {
+    setSavingChannel(channel);
+    try {
+      await updateProfile({ notificationPreferences: { ...preferences, [channel]: !preferences[channel] } });
+      toast.success('Notification settings updated!');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to update notification settings');
+    } finally {
+      setSavingChannel(null);
+    }
+  };
+
+  const renderNotificationSettings = () => (
+    <div className="mt-8 pt-6 border-t border-gray-100">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Bell className="h-5 w-5 text-primary-500 mr-2" />
+        Notification Settings
+      </h3>
+      <div className="space-y-3">
+        <label className="flex items-center justify-between">
+          <span className="flex items-center text-gray-700">
+            <Bell className="h-4 w-4 text-primary-500 mr-2" />
+            In-app notifications
+          </span>
+          <input type="checkbox" className="h-4 w-4" checked disabled />
+        </label>
+        <label className="flex items-center justify-between">
+          <span className="flex items-center text-gray-700">
+            <Mail className="h-4 w-4 text-primary-500 mr-2" />
+            Email to {user.email}
+          </span>
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-primary-600"
+            checked={preferences.email}
+            onChange={() => togglePreference('email')}
+            disabled={savingChannel !== null}
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          <span className="flex items-center text-gray-700">
+            <MessageSquare className="h-4 w-4 text-primary-500 mr-2" />
+            SMS to {user.phone}
+          </span>
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-primary-600"
+            checked={preferences.sms}
+            onChange={() => togglePreference('sms')}
+            disabled={savingChannel !== null}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">SMS is only sent for important order and delivery updates.</p>
+    </div>
+  );
+
+  // Company setting: assign the best-matching delivery worker when an order is approved
+  const toggleAutoAssign = async () => {
+    if (!user.companyInfo) return;
+    setSavingChannel('autoAssign');
+    try {
+      await updateProfile({
+        companyInfo: { ...user.companyInfo, autoAssignDeliveries: !user.companyInfo.autoAssignDeliveries }
+      });
+      toast.success('Delivery settings updated!');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to update delivery settings');
+    } finally {
+      setSavingChannel(null);
+    }
+  };
+
+  const renderDeliverySettings = () => (
+    <div className="mt-8 pt-6 border-t border-gray-100">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Truck className="h-5 w-5 text-primary-500 mr-2" />
+        Delivery Settings
+      </h3>
+      <label className="flex items-center justify-between">
+        <span className="flex items-center text-gray-700">
+          <Truck className="h-4 w-4 text-primary-500 mr-2" />
+          Auto-assign a delivery worker when I approve an order
+        </span>
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-primary-600"
+          checked={!!user.companyInfo?.autoAssignDeliveries}
+          onChange={toggleAutoAssign}
+          disabled={savingChannel !== null}
+        />
+      </label>
+      <p className="text-xs text-gray-500 mt-3">
+        The worker is picked by area, availability, current load and on-time record. You can still reassign by hand.
+      </p>
+    </div>
+  );
+
+  // Confirm the phone number with a code texted to it
+  const sendPhoneCode = async () => {
+    setIsVerifyingPhone(true);
+    try {
+      const response = await authAPI.sendPhoneCode();
+      setPhoneCodeSent(true);
+      toast.success(response.data.message);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to send the code');
+    } finally {
+      setIsVerifyingPhone(false);
+    }
+  };
+
+  const submitPhoneCode = async () => {
+    setIsVerifyingPhone(true);
+    try {
+      await verifyPhone(phoneCode);
+      toast.success('Phone number verified!');
+      setPhoneCodeSent(false);
+      setPhoneCode('');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to verify the phone number');
+    } finally {
+      setIsVerifyingPhone(false);
+    }
+  };
+
+  const renderPhoneVerification = () => (
+    <div className="mt-8 pt-6 border-t border-gray-100">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <ShieldCheck className="h-5 w-5 text-primary-500 mr-2" />
+        Phone Verification
+      </h3>
+      {user.isPhoneVerified ? (
+        <p className="flex items-center text-gray-700">
+          <Phone className="h-4 w-4 text-primary-500 mr-2" />
+          {user.phone}
+          <span className="ml-2 text-xs text-green-700">Verified</span>
+        </p>
+      ) : phoneCodeSent ? (
+        <div className="flex items-center">
+          <input
+            className="input mr-2 w-40 tracking-widest"
+            value={phoneCode}
+            onChange={e => setPhoneCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="6-digit code"
+            disabled={isVerifyingPhone}
+            autoFocus
+          />
+          <button
+            className="btn btn-primary btn-sm mr-2"
+            onClick={submitPhoneCode}
+            disabled={phoneCode.length !== 6 || isVerifyingPhone}
+          >
+            {isVerifyingPhone ? 'Verifying...' : 'Verify'}
+          </button>
+          <button className="btn btn-ghost btn-sm" onClick={sendPhoneCode} disabled={isVerifyingPhone}>
+            Resend
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <span className="flex items-center text-gray-700">
+            <Phone className="h-4 w-4 text-primary-500 mr-2" />
+            {user.phone}
+            <span className="ml-2 text-xs text-amber-700">Not verified</span>
+          </span>
+          <button className="btn btn-secondary btn-sm" onClick={sendPhoneCode} disabled={isVerifyingPhone}>
+            {isVerifyingPhone ? 'Sending...' : 'Send code'}
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-3">Confirms that SMS updates and login codes reach you.</p>
+    </div>
+  );
+
+  // Sign one device, or every device but this one, out
+  const revokeSession = async (sessionId?: string) => {
+    setRevokingSession(sessionId || 'others');
+    try {
+      const response = sessionId ? await authAPI.revokeSession(sessionId) : await authAPI.revokeOtherSessions();
+      toast.success(response.data.message);
+      await loadSessions();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to sign the session out');
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
+  const renderSessions = () => (
+    <div className="mt-8 pt-6 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Monitor className="h-5 w-5 text-primary-500 mr-2" />
+          Sessions
+        </h3>
+        {sessions && sessions.some((session) => !session.current) && (
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => revokeSession()}
+            disabled={revokingSession !== null}
+          >
+            {revokingSession === 'others' ? 'Signing out...' : 'Sign out other devices'}
+          </button>
+        )}
+      </div>
+      {!sessions ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div key={session._id} className="flex items-center justify-between">
+              <span className="flex items-center text-gray-700">
+                {/Android|iPhone|iPad/.test(session.device)
+                  ? <Smartphone className="h-4 w-4 text-primary-500 mr-2" />
+                  : <Monitor className="h-4 w-4 text-primary-500 mr-2" />}
+                <span>
+                  {session.device}
+                  {session.current && <span className="ml-2 text-xs text-green-700">This device</span>}
+                  <span className="block text-xs text-gray-500">
+                    {session.ip ? `${session.ip} · ` : ''}
+                    Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                  </span>
+                </span>
+              </span>
+              {!session.current && (
+                <button
+                  className="btn btn-ghost btn-sm text-gray-600 hover:text-red-600"
+                  onClick={() => revokeSession(session._id)}
+                  disabled={revokingSession !== null}
+                  title="Sign out this device"
+                >
+                  <LogOut className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   // Card wrapper
   const Card: React.FC<{ children: React.ReactNode }> = ({ children }) => (
     <div className="bg-white rounded-2xl shadow-xl p-8 max-w-2xl mx-auto animate-fade-in mt-10 border border-gray-100">
@@ -159,6 +439,10 @@ const Profile: React.FC = () => {
           {renderField('City', user.city, 'city')}
           {renderField('Address', user.address, 'address')}
         </div>
+        {renderDeliverySettings()}
+        {renderPhoneVerification()}
+      {renderNotificationSettings()}
+        {renderSessions()}
       </Card>
     );
   }
@@ -180,6 +464,9 @@ const Profile: React.FC = () => {
           {renderField('City', user.city, 'city')}
           {renderField('Address', user.address, 'address')}
         </div>
+        {renderPhoneVerification()}
+      {renderNotificationSettings()}
+        {renderSessions()}
       </Card>
     );
   }
@@ -201,6 +488,9 @@ const Profile: React.FC = () => {
           {renderField('City', user.city, 'city')}
           {renderField('Address', user.address, 'address')}
         </div>
+        {renderPhoneVerification()}
+      {renderNotificationSettings()}
+        {renderSessions()}
       </Card>
     );
   }
@@ -219,6 +509,9 @@ const Profile: React.FC = () => {
         {renderField('City', user.city, 'city')}
         {renderField('Address', user.address, 'address')}
       </div>
+      {renderPhoneVerification()}
+      {renderNotificationSettings()}
+      {renderSessions()}
     </Card>
   );
 };
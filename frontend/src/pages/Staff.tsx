@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { UserCog, UserPlus, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { staffAPI } from '../services/api';
+import StatusBadge from '../components/StatusBadge';
+
+interface PermissionOption {
+  key: string;
+  label: string;
+}
+
+interface StaffMember {
+  _id: string;
+  name: string;
+  email: string;
+  phone: string;
+  status: string;
+  lastLogin?: string;
+  createdAt: string;
+  companyStaff: {
+    permissions: string[];
+  };
+}
+
+const emptyInvite = { name: '', email: '', phone: '', permissions: [] as string[] };
+
+const togglePermission = (permissions: string[], key: string) =>
+  permissions.includes(key) ? permissions.filter((permission) => permission !== key) : [...permissions, key];
+
+// Company owners add staff logins and choose what each of them may do
+const Staff: React.FC = () => {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [permissionOptions, setPermissionOptions] = useState<PermissionOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [showInvite, setShowInvite] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadStaff = async () => {
+    try {
+      const [staffResponse, permissionsResponse] = await Promise.all([
+        staffAPI.getAll(),
+        staffAPI.getPermissions(),
+      ]);
+      setStaff(staffResponse.data.staff);
+      setPermissionOptions(permissionsResponse.data.permissions);
+    } catch (error: any) {
+      console.error('Failed to load staff:', error);
+      toast.error(error.response?.data?.message || 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStaff();
+  }, []);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSavingId('invite');
+    try {
+      const response = await staffAPI.invite(invite);
+      toast.success(response.data.message);
+      setStaff([response.data.staff, ...staff]);
+      setInvite(emptyInvite);
+      setShowInvite(false);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to invite staff member');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const updateMember = async (member: StaffMember, data: { permissions?: string[]; active?: boolean }) => {
+    setSavingId(member._id);
+    try {
+      const response = await staffAPI.update(member._id, data);
+      setStaff(staff.map((item) => (item._id === member._id ? response.data.staff : item)));
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update staff member');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const resendInvite = async (member: StaffMember) => {
+    setSavingId(member._id);
+    try {
+      const response = await staffAPI.resendInvite(member._id);
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send invitation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+            <UserCog className="w-6 h-6 mr-2 text-blue-600" />
+            Staff
+          </h1>
+          <p className="text-gray-600">Give your warehouse and sales staff their own logins with only the access they need</p>
+        </div>
+        <button
+          onClick={() => setShowInvite(!showInvite)}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add staff
+        </button>
+      </div>
+
+      {showInvite && (
+        <form onSubmit={handleInvite} className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                value={invite.name}
+                onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={invite.phone}
+                onChange={(e) => setInvite({ ...invite, phone: e.target.value })}
+                required
+                placeholder="01XXXXXXXXX"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          <p className="block text-sm font-medium text-gray-700 mb-2">Permissions</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+            {permissionOptions.map((option) => (
+              <label key={option.key} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 mr-2"
+                  checked={invite.permissions.includes(option.key)}
+                  onChange={() => setInvite({ ...invite, permissions: togglePermission(invite.permissions, option.key) })}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowInvite(false)}
+              className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={savingId === 'invite'}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {savingId === 'invite' ? 'Sending...' : 'Send invitation'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            The staff member gets an e-mail with a link to choose their password.
+          </p>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : staff.length === 0 ? (
+        <div className="text-center py-12 text-gray-600">No staff yet. Add the people who work with you.</div>
+      ) : (
+        <div className="space-y-4">
+          {staff.map((member) => {
+            const active = member.status === 'active';
+            return (
+              <div key={member._id} className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900 flex items-center">
+                      {member.name}
+                      <span className="ml-2"><StatusBadge status={member.status} /></span>
+                    </p>
+                    <p className="text-sm text-gray-600">{member.email} · {member.phone}</p>
+                    <p className="text-xs text-gray-500">
+                      {member.lastLogin
+                        ? `Last login ${format(new Date(member.lastLogin), 'MMM dd, yyyy HH:mm')}`
+                        : `Invited ${format(new Date(member.createdAt), 'MMM dd, yyyy')}, not logged in yet`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {!member.lastLogin && active && (
+                      <button
+                        onClick={() => resendInvite(member)}
+                        disabled={savingId === member._id}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center disabled:opacity-50"
+                      >
+                        <Mail className="w-4 h-4 mr-1" />
+                        Resend invitation
+                      </button>
+                    )}
+                    <button
+                      onClick={() => updateMember(member, { active: !active })}
+                      disabled={savingId === member._id}
+                      className={`px-3 py-1 text-sm rounded disabled:opacity-50 ${
+                        active ? 'border border-red-300 text-red-700 hover:bg-red-50' : 'bg-green-600 text-white hover:bg-green-700'
+                      }`}
+                    >
+                      {active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {permissionOptions.map((option) => (
+                    <label key={option.key} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 mr-2"
+                        checked={member.companyStaff.permissions.includes(option.key)}
+                        disabled={savingId === member._id}
+                        onChange={() => updateMember(member, {
+                          permissions: togglePermission(member.companyStaff.permissions, option.key),
+                        })}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Staff;
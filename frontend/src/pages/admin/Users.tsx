@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { CheckCircle, XCircle, Clock, User, Mail, Phone, MapPin, Search, Filter, Edit, Eye } from 'lucide-react';
-import { api } from '../../services/api';
+import { useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle, Clock, User, Mail, Phone, MapPin, Search, Filter, Edit, Eye, FileText, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { api, approvalsAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 
 interface UserData {
@@ -18,8 +20,42 @@ interface UserData {
   companyInfo?: any;
   deliveryWorkerInfo?: any;
   suspensionReason?: string;
+  approval?: {
+    documents?: { _id: string; kind: string; originalName: string; mimeType: string; size: number; uploadedAt: string }[];
+    infoRequest?: { note: string; requestedAt: string };
+  };
+}
+
+interface ApprovalLogEntry {
+  _id: string;
+  userId: string | { _id: string; name: string; email: string; role: string } | null;
+  action: string;
+  fromStatus?: string;
+  toStatus?: string;
+  note?: string;
+  documents?: string[];
+  actor: { userId?: string; name: string; role: string };
+  createdAt: string;
+}
+
+interface Review {
+  user: UserData;
+  policy: string;
+  history: ApprovalLogEntry[];
 }
 
+type Decision = 'approve' | 'reject' | 'request_info';
+
+const ACTION_LABELS: Record<string, string> = {
+  registered: 'Registered',
+  auto_approved: 'Approved automatically',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  info_requested: 'More information requested',
+  documents_submitted: 'Information submitted',
+  status_changed: 'Status changed',
+};
+
 interface PaginationData {
   currentPage: number;
   totalPages: number;
@@ -29,16 +65,21 @@ interface PaginationData {
 }
 
 const Users: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [users, setUsers] = useState<UserData[]>([]);
   const [pendingUsers, setPendingUsers] = useState<UserData[]>([]);
   const [loading, setLoading] = useState(true);
-  const [approving, setApproving] = useState<string | null>(null);
-  const [rejecting, setRejecting] = useState<string | null>(null);
-  const [rejectReason, setRejectReason] = useState('');
-  const [showRejectModal, setShowRejectModal] = useState<string | null>(null);
   const [pendingCount, setPendingCount] = useState(0);
   const [pagination, setPagination] = useState<PaginationData | null>(null);
-  const [currentTab, setCurrentTab] = useState<'all' | 'pending'>('pending');
+  const [currentTab, setCurrentTab] = useState<'all' | 'pending' | 'audit'>('pending');
+  // Registration review: the account under review, the admin's note and the decision being saved
+  const [review, setReview] = useState<Review | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [deciding, setDeciding] = useState<Decision | null>(null);
+  const [documentLabels, setDocumentLabels] = useState<Record<string, string>>({});
+  const [auditEntries, setAuditEntries] = useState<ApprovalLogEntry[]>([]);
+  const [auditPagination, setAuditPagination] = useState<PaginationData | null>(null);
+  const [auditPage, setAuditPage] = useState(1);
   const [filters, setFilters] = useState({
     status: '',
     role: '',
@@ -54,10 +95,30 @@ const Users: React.FC = () => {
     if (currentTab === 'pending') {
       fetchPendingUsers();
       fetchPendingCount();
+    } else if (currentTab === 'audit') {
+      fetchAuditLog();
     } else {
       fetchAllUsers();
     }
-  }, [currentTab, currentPage, filters]);
+  }, [currentTab, currentPage, filters, auditPage]);
+
+  useEffect(() => {
+    approvalsAPI.getPolicy()
+      .then((response) => {
+        const labels: Record<string, string> = {};
+        response.data.documentTypes.forEach((type: { key: string; label: string }) => {
+          labels[type.key] = type.label;
+        });
+        setDocumentLabels(labels);
+      })
+      .catch((error) => console.error('Failed to load document types:', error));
+  }, []);
+
+  // The dashboard links here with ?review=<user id>
+  const reviewParam = searchParams.get('review');
+  useEffect(() => {
+    if (reviewParam) openReview(reviewParam);
+  }, [reviewParam]);
 
   const fetchPendingUsers = async () => {
     try {
@@ -98,44 +159,66 @@ const Users: React.FC = () => {
     }
   };
 
-  const approveUser = async (userId: string) => {
-    setApproving(userId);
+  const fetchAuditLog = async () => {
     try {
-      await api.patch(`/auth/approve-user/${userId}`);
-      toast.success('User approved successfully');
-      if (currentTab === 'pending') {
-        fetchPendingUsers();
-        fetchPendingCount();
-      } else {
-        fetchAllUsers();
-      }
+      const response = await approvalsAPI.getLog({ page: auditPage, limit: 20 });
+      setAuditEntries(response.data.entries);
+      setAuditPagination({ ...response.data.pagination, totalUsers: response.data.pagination.total });
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to approve user');
+      toast.error(error.response?.data?.message || 'Failed to fetch the audit log');
     } finally {
-      setApproving(null);
+      setLoading(false);
     }
   };
 
-  const rejectUser = async (userId: string) => {
-    setRejecting(userId);
+  const openReview = async (userId: string) => {
     try {
-      await api.patch(`/auth/reject-user/${userId}`, { reason: rejectReason });
-      toast.success('User rejected successfully');
-      setShowRejectModal(null);
-      setRejectReason('');
-      if (currentTab === 'pending') {
-        fetchPendingUsers();
-        fetchPendingCount();
-      } else {
-        fetchAllUsers();
-      }
+      const response = await approvalsAPI.getReview(userId);
+      setReview(response.data);
+      setReviewNote('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load the review');
+    }
+  };
+
+  const closeReview = () => {
+    setReview(null);
+    setReviewNote('');
+    if (reviewParam) setSearchParams({});
+  };
+
+  const decide = async (decision: Decision) => {
+    if (!review) return;
+    setDeciding(decision);
+    try {
+      const response = await approvalsAPI.decide(review.user._id, decision, reviewNote.trim() || undefined);
+      toast.success(response.data.message);
+      await openReview(review.user._id);
+      fetchPendingUsers();
+      fetchPendingCount();
+      if (currentTab === 'all') fetchAllUsers();
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to reject user');
+      toast.error(error.response?.data?.message || 'Failed to save the decision');
     } finally {
-      setRejecting(null);
+      setDeciding(null);
+    }
+  };
+
+  // Documents are not public, so they are fetched with the admin's token and shown from memory
+  const openDocument = async (userId: string, documentId: string) => {
+    try {
+      const response = await approvalsAPI.getDocument(userId, documentId);
+      const url = URL.createObjectURL(response.data);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error: any) {
+      toast.error('Failed to open the document');
     }
   };
 
+  const accountOf = (entry: ApprovalLogEntry) =>
+    entry.userId && typeof entry.userId === 'object' ? entry.userId : null;
+
   const fetchUserDetails = async (userId: string) => {
     try {
       const response = await api.get(`/auth/user/${userId}`);
@@ -235,6 +318,8 @@ const Users: React.FC = () => {
             if (currentTab === 'pending') {
               fetchPendingUsers();
               fetchPendingCount();
+            } else if (currentTab === 'audit') {
+              fetchAuditLog();
             } else {
               fetchAllUsers();
             }
@@ -268,51 +353,122 @@ const Users: React.FC = () => {
           >
             All Users
           </button>
+          <button
+            onClick={() => setCurrentTab('audit')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              currentTab === 'audit'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Audit Log
+          </button>
         </nav>
       </div>
 
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="flex-1">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-            <input
-              type="text"
-              placeholder="Search users..."
-              value={filters.search}
-              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
-              className="input pl-10 w-full"
-            />
+      {currentTab !== 'audit' && (
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search users..."
+                value={filters.search}
+                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                className="input pl-10 w-full"
+              />
+            </div>
           </div>
+          {currentTab === 'all' && (
+            <>
+              <select
+                value={filters.status}
+                onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                className="input"
+              >
+                <option value="">All Status</option>
+                <option value="active">Active</option>
+                <option value="pending">Pending</option>
+                <option value="suspended">Suspended</option>
+              </select>
+              <select
+                value={filters.role}
+                onChange={(e) => setFilters({ ...filters, role: e.target.value })}
+                className="input"
+              >
+                <option value="">All Roles</option>
+                <option value="shopkeeper">Shop Keeper</option>
+                <option value="company_rep">Company Representative</option>
+                <option value="delivery_worker">Delivery Worker</option>
+              </select>
+            </>
+          )}
         </div>
-        {currentTab === 'all' && (
-          <>
-            <select
-              value={filters.status}
-              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-              className="input"
-            >
-              <option value="">All Status</option>
-              <option value="active">Active</option>
-              <option value="pending">Pending</option>
-              <option value="suspended">Suspended</option>
-            </select>
-            <select
-              value={filters.role}
-              onChange={(e) => setFilters({ ...filters, role: e.target.value })}
-              className="input"
-            >
-              <option value="">All Roles</option>
-              <option value="shopkeeper">Shop Keeper</option>
-              <option value="company_rep">Company Representative</option>
-              <option value="delivery_worker">Delivery Worker</option>
-            </select>
-          </>
-        )}
-      </div>
+      )}
 
       {/* Users List */}
-      {filteredUsers.length === 0 ? (
+      {currentTab === 'audit' ? (
+        <div className="card">
+          <div className="card-body">
+            {auditEntries.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No review decisions recorded yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">When</th>
+                      <th className="py-2 pr-4 font-medium">Account</th>
+                      <th className="py-2 pr-4 font-medium">Action</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">By</th>
+                      <th className="py-2 font-medium">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {auditEntries.map((entry) => {
+                      const account = accountOf(entry);
+                      return (
+                        <tr key={entry._id} className="align-top">
+                          <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                            {format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm')}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {account ? (
+                              <button
+                                onClick={() => openReview(account._id)}
+                                className="text-primary-600 hover:text-primary-500 text-left"
+                              >
+                                {account.name}
+                                <span className="block text-xs text-gray-500">{account.email}</span>
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">Deleted account</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900">{ACTION_LABELS[entry.action] || entry.action}</td>
+                          <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                            {entry.fromStatus && entry.fromStatus !== entry.toStatus
+                              ? `${entry.fromStatus} → ${entry.toStatus}`
+                              : entry.toStatus}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-600">
+                            {entry.actor.name}
+                            <span className="block text-xs text-gray-500">{entry.actor.role}</span>
+                          </td>
+                          <td className="py-2 text-gray-600 whitespace-pre-line">{entry.note}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : filteredUsers.length === 0 ? (
         <div className="text-center py-12">
           <User className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">
@@ -420,31 +576,18 @@ const Users: React.FC = () => {
                       <Eye className="h-4 w-4" />
                     </button>
                     
-                    {user.status === 'pending' && (
-                      <>
-                        <button
-                          onClick={() => approveUser(user._id)}
-                          disabled={approving === user._id || rejecting === user._id}
-                          className="btn btn-primary"
-                        >
-                          {approving === user._id ? (
-                            <div className="flex items-center">
-                              <div className="spinner mr-2"></div>
-                              Approving...
-                            </div>
-                          ) : (
-                            'Approve'
-                          )}
-                        </button>
-                        
-                        <button
-                          onClick={() => setShowRejectModal(user._id)}
-                          disabled={approving === user._id || rejecting === user._id}
-                          className="btn btn-danger"
-                        >
-                          Reject
-                        </button>
-                      </>
+                    {user.status === 'pending' ? (
+                      <button onClick={() => openReview(user._id)} className="btn btn-primary">
+                        Review
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => openReview(user._id)}
+                        className="btn btn-secondary"
+                        title="Review History"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
                     )}
                   </div>
                 </div>
@@ -479,57 +622,168 @@ const Users: React.FC = () => {
         </div>
       )}
 
-      {/* Reject Modal */}
-      {showRejectModal && (
+      {/* Audit Log Pagination */}
+      {currentTab === 'audit' && auditPagination && auditPagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Showing page {auditPagination.currentPage} of {auditPagination.totalPages} ({auditPagination.totalUsers} entries)
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setAuditPage(auditPage - 1)}
+              disabled={!auditPagination.hasPrev}
+              className="btn btn-secondary"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setAuditPage(auditPage + 1)}
+              disabled={!auditPagination.hasNext}
+              className="btn btn-secondary"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Review Modal */}
+      {review && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Reject User
-            </h3>
-            <p className="text-sm text-gray-600 mb-4">
-              Are you sure you want to reject this user? This action cannot be undone.
-            </p>
-            
+          <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Review: {review.user.name}</h3>
+                <div className="mt-1 flex items-center space-x-2">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {getRoleDisplayName(review.user.role)}
+                  </span>
+                  <span className={getStatusBadge(review.user.status)}>{review.user.status}</span>
+                  <span className="text-xs text-gray-500">
+                    {review.policy === 'auto' ? 'Approved automatically' : 'Manual approval'}
+                  </span>
+                </div>
+              </div>
+              <button onClick={closeReview} className="text-gray-400 hover:text-gray-600">
+                <XCircle className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600 mb-4">
+              <div><span className="font-medium">Email:</span> {review.user.email}</div>
+              <div><span className="font-medium">Phone:</span> {review.user.phone}</div>
+              <div><span className="font-medium">Area:</span> {review.user.area}, {review.user.city}</div>
+              <div><span className="font-medium">Registered:</span> {format(new Date(review.user.createdAt), 'MMM dd, yyyy')}</div>
+              {review.user.role === 'shopkeeper' && review.user.shopkeeperInfo && (
+                <div><span className="font-medium">Shop Name:</span> {review.user.shopkeeperInfo.shopName}</div>
+              )}
+              {review.user.role === 'company_rep' && review.user.companyInfo && (
+                <>
+                  <div><span className="font-medium">Company:</span> {review.user.companyInfo.companyName}</div>
+                  <div><span className="font-medium">Business License:</span> {review.user.companyInfo.businessLicense || 'Not given'}</div>
+                  <div><span className="font-medium">Tax ID:</span> {review.user.companyInfo.taxId || 'Not given'}</div>
+                </>
+              )}
+            </div>
+
+            {review.user.approval?.infoRequest?.requestedAt && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm">
+                <span className="font-medium text-yellow-900">
+                  Waiting for an answer since {format(new Date(review.user.approval.infoRequest.requestedAt), 'MMM dd, yyyy')}:
+                </span>
+                <p className="text-yellow-800 whitespace-pre-line">{review.user.approval.infoRequest.note}</p>
+              </div>
+            )}
+
             <div className="mb-4">
-              <label htmlFor="rejectReason" className="block text-sm font-medium text-gray-700 mb-2">
-                Reason for rejection (optional)
-              </label>
-              <textarea
-                id="rejectReason"
-                value={rejectReason}
-                onChange={(e) => setRejectReason(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-                rows={3}
-                placeholder="Enter reason for rejection..."
-              />
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Documents</h4>
+              {review.user.approval?.documents?.length ? (
+                <ul className="space-y-1">
+                  {review.user.approval.documents.map((document) => (
+                    <li key={document._id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center text-gray-600">
+                        <FileText className="h-4 w-4 mr-2" />
+                        {documentLabels[document.kind] || document.kind}: {document.originalName}
+                        <span className="ml-2 text-xs text-gray-400">
+                          {format(new Date(document.uploadedAt), 'MMM dd, yyyy')}
+                        </span>
+                      </span>
+                      <button
+                        onClick={() => openDocument(review.user._id, document._id)}
+                        className="text-primary-600 hover:text-primary-500"
+                      >
+                        Open
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No documents uploaded.</p>
+              )}
             </div>
-            
-            <div className="flex justify-end space-x-3">
-              <button
-                onClick={() => {
-                  setShowRejectModal(null);
-                  setRejectReason('');
-                }}
-                className="btn btn-secondary"
-                disabled={rejecting === showRejectModal}
-              >
-                Cancel
-              </button>
-              <button
-                onClick={() => rejectUser(showRejectModal)}
-                disabled={rejecting === showRejectModal}
-                className="btn btn-danger"
-              >
-                {rejecting === showRejectModal ? (
-                  <div className="flex items-center">
-                    <div className="spinner mr-2"></div>
-                    Rejecting...
-                  </div>
-                ) : (
-                  'Reject User'
-                )}
-              </button>
+
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">History</h4>
+              <ol className="space-y-2 border-l border-gray-200 pl-4">
+                {review.history.map((entry) => (
+                  <li key={entry._id} className="text-sm">
+                    <div className="text-gray-900">
+                      {ACTION_LABELS[entry.action] || entry.action}
+                      {entry.action === 'status_changed' && ` (${entry.fromStatus} → ${entry.toStatus})`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm')} by {entry.actor.name} ({entry.actor.role})
+                    </div>
+                    {entry.documents && entry.documents.length > 0 && (
+                      <div className="text-xs text-gray-600">
+                        {entry.documents.map((kind) => documentLabels[kind] || kind).join(', ')}
+                      </div>
+                    )}
+                    {entry.note && <p className="text-gray-600 whitespace-pre-line">{entry.note}</p>}
+                  </li>
+                ))}
+              </ol>
             </div>
+
+            {review.user.status === 'pending' && (
+              <div className="border-t border-gray-200 pt-4">
+                <label htmlFor="reviewNote" className="block text-sm font-medium text-gray-700 mb-2">
+                  Note to the user (needed to reject or ask for more information)
+                </label>
+                <textarea
+                  id="reviewNote"
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  maxLength={1000}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  rows={3}
+                  placeholder="Reason for rejection, or what information is missing..."
+                />
+                <div className="flex justify-end space-x-3 mt-3">
+                  <button
+                    onClick={() => decide('request_info')}
+                    disabled={!!deciding || !reviewNote.trim()}
+                    className="btn btn-secondary"
+                  >
+                    {deciding === 'request_info' ? 'Sending...' : 'Request More Info'}
+                  </button>
+                  <button
+                    onClick={() => decide('reject')}
+                    disabled={!!deciding || !reviewNote.trim()}
+                    className="btn btn-danger"
+                  >
+                    {deciding === 'reject' ? 'Rejecting...' : 'Reject'}
+                  </button>
+                  <button
+                    onClick={() => decide('approve')}
+                    disabled={!!deciding}
+                    className="btn btn-primary"
+                  >
+                    {deciding === 'approve' ? 'Approving...' : 'Approve'}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { Mail, CheckCircle } from 'lucide-react';
+import { authAPI } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+const ForgotPassword: React.FC = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>();
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    try {
+      await authAPI.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Could not send the reset link. Please try again.';
+      toast.error(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 bg-primary-600 rounded-full flex items-center justify-center">
+            <span className="text-white text-xl font-bold">G</span>
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter the email address of your account and we will send you a link to choose a new password.
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="text-center space-y-4">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <p className="text-sm text-gray-700">
+              If an account exists for <span className="font-medium">{sentTo}</span>, a reset link is on its way.
+              The link works once and expires after an hour.
+            </p>
+            <button onClick={() => setSentTo(null)} className="text-sm text-primary-600 hover:text-primary-500">
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email address
+              </label>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Mail className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  {...register('email', {
+                    required: 'Email is required',
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: 'Invalid email address',
+                    },
+                  })}
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  className="input pl-10"
+                  placeholder="Enter your email"
+                />
+              </div>
+              {errors.email && (
+                <p className="mt-1 text-sm text-error-600">{errors.email.message}</p>
+              )}
+            </div>
+
+            <button type="submit" disabled={isLoading} className="btn btn-primary w-full">
+              {isLoading ? (
+                <div className="flex items-center">
+                  <div className="spinner mr-2"></div>
+                  Sending...
+                </div>
+              ) : (
+                'Send reset link'
+              )}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          Remembered it?{' '}
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, Phone, KeyRound } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { authAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 
 interface LoginFormData {
@@ -10,9 +11,178 @@ interface LoginFormData {
   password: string;
 }
 
+interface PhoneLoginFormData {
+  phone: string;
+  code: string;
+}
+
+// Same rule as the phone field of the User model
+const BD_PHONE_PATTERN = /^(\+880|880|0)?1[3456789]\d{8}$/;
+
+// Login with a 6-digit code texted to the phone, for users without e-mail
+const PhoneCodeLogin: React.FC = () => {
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [resendIn, setResendIn] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const { loginWithCode } = useAuth();
+  const navigate = useNavigate();
+
+  const {
+    register,
+    handleSubmit,
+    getValues,
+    formState: { errors },
+  } = useForm<PhoneLoginFormData>();
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = async (phone: string) => {
+    setIsLoading(true);
+    try {
+      const response = await authAPI.requestLoginCode(phone);
+      setCodeSentTo(phone);
+      setResendIn(60);
+      toast.success(response.data.message);
+    } catch (error: any) {
+      if (error.response?.data?.retryAfter) setResendIn(error.response.data.retryAfter);
+      toast.error(error.response?.data?.message || 'Failed to send the code. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = async (data: PhoneLoginFormData) => {
+    if (!codeSentTo) {
+      await sendCode(data.phone);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await loginWithCode(codeSentTo, data.code);
+      toast.success('Login successful!');
+      navigate('/dashboard');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Login failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+            Phone number
+          </label>
+          <div className="mt-1 relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Phone className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              {...register('phone', {
+                required: 'Phone number is required',
+                pattern: {
+                  value: BD_PHONE_PATTERN,
+                  message: 'Please enter a valid Bangladeshi phone number',
+                },
+              })}
+              id="phone"
+              type="tel"
+              autoComplete="tel"
+              className="input pl-10"
+              placeholder="01XXXXXXXXX"
+              disabled={!!codeSentTo}
+            />
+          </div>
+          {errors.phone && (
+            <p className="mt-1 text-sm text-error-600">{errors.phone.message}</p>
+          )}
+        </div>
+
+        {codeSentTo && (
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+              Code from the SMS
+            </label>
+            <div className="mt-1 relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <KeyRound className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                {...register('code', {
+                  required: 'Enter the code',
+                  pattern: {
+                    value: /^\d{6}$/,
+                    message: 'The code has 6 digits',
+                  },
+                })}
+                id="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                className="input pl-10 tracking-widest"
+                placeholder="6-digit code"
+                autoFocus
+              />
+            </div>
+            {errors.code && (
+              <p className="mt-1 text-sm text-error-600">{errors.code.message}</p>
+            )}
+            <div className="mt-2 flex justify-between text-sm">
+              <button
+                type="button"
+                className="font-medium text-primary-600 hover:text-primary-500"
+                onClick={() => setCodeSentTo(null)}
+              >
+                Change number
+              </button>
+              <button
+                type="button"
+                className="font-medium text-primary-600 hover:text-primary-500 disabled:text-gray-400"
+                disabled={resendIn > 0 || isLoading}
+                onClick={() => sendCode(getValues('phone'))}
+              >
+                {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isLoading || (!codeSentTo && resendIn > 0)}
+          className="btn btn-primary w-full"
+        >
+          {isLoading ? (
+            <div className="flex items-center">
+              <div className="spinner mr-2"></div>
+              {codeSentTo ? 'Signing in...' : 'Sending code...'}
+            </div>
+          ) : codeSentTo ? (
+            'Sign in'
+          ) : resendIn > 0 ? (
+            `Send code in ${resendIn}s`
+          ) : (
+            'Send code'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+};
+
 const Login: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [method, setMethod] = useState<'email' | 'phone'>('email');
   const { login } = useAuth();
   const navigate = useNavigate();
 
@@ -51,124 +221,144 @@ const Login: React.FC = () => {
           </p>
         </div>
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-4">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Mail className="h-5 w-5 text-gray-400" />
+        <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+          {(['email', 'phone'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMethod(option)}
+              className={`flex items-center justify-center py-2 text-sm font-medium rounded-md ${
+                method === option ? 'bg-white text-primary-700 shadow' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'email' ? <Mail className="h-4 w-4 mr-2" /> : <Phone className="h-4 w-4 mr-2" />}
+              {option === 'email' ? 'Email & password' : 'Phone & SMS code'}
+            </button>
+          ))}
+        </div>
+
+        {method === 'phone' ? (
+          <PhoneCodeLogin />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    {...register('email', {
+                      required: 'Email is required',
+                      pattern: {
+                        value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                        message: 'Invalid email address',
+                      },
+                    })}
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    className="input pl-10"
+                    placeholder="Enter your email"
+                  />
                 </div>
-                <input
-                  {...register('email', {
-                    required: 'Email is required',
-                    pattern: {
-                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                      message: 'Invalid email address',
-                    },
-                  })}
-                  id="email"
-                  type="email"
-                  autoComplete="email"
-                  className="input pl-10"
-                  placeholder="Enter your email"
-                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-error-600">{errors.email.message}</p>
+                )}
               </div>
-              {errors.email && (
-                <p className="mt-1 text-sm text-error-600">{errors.email.message}</p>
-              )}
-            </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    {...register('password', {
+                      required: 'Password is required',
+                      minLength: {
+                        value: 6,
+                        message: 'Password must be at least 6 characters',
+                      },
+                    })}
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    className="input pl-10 pr-10"
+                    placeholder="Enter your password"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-5 w-5 text-gray-400" />
+                    ) : (
+                      <Eye className="h-5 w-5 text-gray-400" />
+                    )}
+                  </button>
                 </div>
-                <input
-                  {...register('password', {
-                    required: 'Password is required',
-                    minLength: {
-                      value: 6,
-                      message: 'Password must be at least 6 characters',
-                    },
-                  })}
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  className="input pl-10 pr-10"
-                  placeholder="Enter your password"
-                />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
+                {errors.password && (
+                  <p className="mt-1 text-sm text-error-600">{errors.password.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-sm">
+                <Link
+                  to="/forgot-password"
+                  className="font-medium text-primary-600 hover:text-primary-500"
                 >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5 text-gray-400" />
-                  ) : (
-                    <Eye className="h-5 w-5 text-gray-400" />
-                  )}
-                </button>
+                  Forgot your password?
+                </Link>
               </div>
-              {errors.password && (
-                <p className="mt-1 text-sm text-error-600">{errors.password.message}</p>
-              )}
             </div>
-          </div>
 
-          <div className="flex items-center justify-between">
-            <div className="text-sm">
-              <Link
-                to="/forgot-password"
-                className="font-medium text-primary-600 hover:text-primary-500"
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn btn-primary w-full"
               >
-                Forgot your password?
-              </Link>
+                {isLoading ? (
+                  <div className="flex items-center">
+                    <div className="spinner mr-2"></div>
+                    Signing in...
+                  </div>
+                ) : (
+                  'Sign in'
+                )}
+              </button>
             </div>
-          </div>
+          </form>
+        )}
 
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="btn btn-primary w-full"
+        <div className="text-center space-y-2">
+          <p className="text-sm text-gray-600">
+            Don't have an account?{' '}
+            <Link
+              to="/register"
+              className="font-medium text-primary-600 hover:text-primary-500"
             >
-              {isLoading ? (
-                <div className="flex items-center">
-                  <div className="spinner mr-2"></div>
-                  Signing in...
-                </div>
-              ) : (
-                'Sign in'
-              )}
-            </button>
-          </div>
-
-          <div className="text-center space-y-2">
-            <p className="text-sm text-gray-600">
-              Don't have an account?{' '}
-              <Link
-                to="/register"
-                className="font-medium text-primary-600 hover:text-primary-500"
-              >
-                Sign up here
-              </Link>
-            </p>
-            <p className="text-sm text-gray-500">
-              <Link
-                to="/pending-approval"
-                className="hover:text-gray-700"
-              >
-                Check approval status
-              </Link>
-            </p>
-          </div>
-        </form>
+              Sign up here
+            </Link>
+          </p>
+          <p className="text-sm text-gray-500">
+            <Link
+              to="/pending-approval"
+              className="hover:text-gray-700"
+            >
+              Check approval status
+            </Link>
+          </p>
+        </div>
       </div>
     </div>
   );
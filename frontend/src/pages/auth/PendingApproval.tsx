@@ -8,6 +8,7 @@ const PendingApproval: React.FC = () => {
   const [searchParams] = useSearchParams();
   const [isChecking, setIsChecking] = useState(false);
   const [approvalStatus, setApprovalStatus] = useState<string | null>(null);
+  const [infoRequested, setInfoRequested] = useState(false);
   const { checkApprovalStatus } = useAuth();
   
   const email = searchParams.get('email');
@@ -25,6 +26,7 @@ const PendingApproval: React.FC = () => {
     try {
       const result = await checkApprovalStatus(email);
       setApprovalStatus(result.status);
+      setInfoRequested(!!result.infoRequested);
       
       if (result.status === 'active') {
         toast.success('Your account has been approved! You can now log in.');
@@ -79,7 +81,9 @@ const PendingApproval: React.FC = () => {
           <p className="mt-2 text-sm text-gray-600">
             {approvalStatus === 'active' 
               ? 'Your account has been approved by the administrator. You can now log in to access your account.'
-              : 'Your account is currently pending approval from our administrator. We will review your registration and notify you once approved.'
+              : infoRequested
+                ? 'The administrator needs more information before approving your account. Please open the link in the e-mail we sent you to answer.'
+                : 'Your account is currently pending approval from our administrator. We will review your registration and notify you once approved.'
             }
           </p>
           
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Eye, EyeOff, User, Mail, Phone, MapPin, Building, Store, Truck } from 'lucide-react';
+import { Eye, EyeOff, User, Mail, Phone, MapPin, Building, Store, Truck, FileText } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { approvalsAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 
 interface RegisterFormData {
@@ -34,10 +35,25 @@ interface RegisterFormData {
   };
 }
 
+interface DocumentType {
+  key: string;
+  label: string;
+}
+
+// Documents that help the admin review each kind of account
+const DOCUMENTS_BY_ROLE: Record<RegisterFormData['role'], string[]> = {
+  shopkeeper: ['trade_license', 'nid'],
+  company_rep: ['trade_license', 'tin_certificate', 'nid'],
+  delivery_worker: ['nid'],
+};
+
 const Register: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [policy, setPolicy] = useState<Record<string, string>>({});
+  const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
+  const [documents, setDocuments] = useState<Record<string, File>>({});
   const { register: registerUser } = useAuth();
   const navigate = useNavigate();
 
@@ -49,6 +65,45 @@ const Register: React.FC = () => {
   } = useForm<RegisterFormData>();
 
   const selectedRole = watch('role');
+  // Documents are only asked for when an admin reviews the account
+  const reviewedDocuments = selectedRole && policy[selectedRole] !== 'auto'
+    ? documentTypes.filter((type) => DOCUMENTS_BY_ROLE[selectedRole].includes(type.key))
+    : [];
+
+  useEffect(() => {
+    approvalsAPI.getPolicy()
+      .then((response) => {
+        setPolicy(response.data.policy);
+        setDocumentTypes(response.data.documentTypes);
+      })
+      .catch((error) => console.error('Failed to load approval policy:', error));
+  }, []);
+
+  const handleDocumentChange = (key: string, file?: File) => {
+    const next = { ...documents };
+    if (file) {
+      next[key] = file;
+    } else {
+      delete next[key];
+    }
+    setDocuments(next);
+  };
+
+  // Upload the chosen documents; on failure the registrant can retry from the upload page
+  const uploadDocuments = async (documentToken: string) => {
+    const chosen = reviewedDocuments.filter((type) => documents[type.key]);
+    if (chosen.length === 0) return true;
+
+    const formData = new FormData();
+    chosen.forEach((type) => formData.append(type.key, documents[type.key]));
+    try {
+      await approvalsAPI.uploadDocuments(documentToken, formData);
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Your documents could not be uploaded. Please try again.');
+      return false;
+    }
+  };
 
   const onSubmit = async (data: RegisterFormData) => {
     if (data.password !== data.confirmPassword) {
@@ -62,6 +117,10 @@ const Register: React.FC = () => {
       
       if (result.requiresApproval) {
         toast.success('Registration successful! Your account is pending admin approval.');
+        if (result.documentToken && !(await uploadDocuments(result.documentToken))) {
+          navigate(`/registration/documents/${result.documentToken}`);
+          return;
+        }
         navigate(`/pending-approval?email=${encodeURIComponent(data.email)}`);
       } else {
         toast.success('Registration successful!');
@@ -410,6 +469,38 @@ const Register: React.FC = () => {
             </div>
           )}
 
+          {reviewedDocuments.length > 0 && (
+            <div className="card">
+              <div className="card-header">
+                <div className="flex items-center">
+                  <FileText className="h-5 w-5 text-primary-600 mr-2" />
+                  <h3 className="text-lg font-medium text-gray-900">Verification Documents</h3>
+                </div>
+              </div>
+              <div className="card-body space-y-4">
+                <p className="text-sm text-gray-600">
+                  An administrator reviews every new account. Documents speed up the review. PDF, JPEG or PNG.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {reviewedDocuments.map((type) => (
+                    <div key={type.key}>
+                      <label htmlFor={type.key} className="block text-sm font-medium text-gray-700">
+                        {type.label} (optional)
+                      </label>
+                      <input
+                        id={type.key}
+                        type="file"
+                        accept="application/pdf,image/jpeg,image/png"
+                        onChange={(e) => handleDocumentChange(type.key, e.target.files?.[0])}
+                        className="mt-1 block w-full text-sm text-gray-600"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Password */}
           <div className="card">
             <div className="card-header">
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle, FileText, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { approvalsAPI } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface DocumentType {
+  key: string;
+  label: string;
+}
+
+interface Registration {
+  name: string;
+  role: string;
+  status: string;
+  infoRequest: { note: string; requestedAt: string } | null;
+  documents: { _id: string; kind: string; originalName: string; uploadedAt: string }[];
+}
+
+// Opened from the link e-mailed to a registrant: upload documents for the
+// review and answer an admin's request for more information
+const RegistrationDocuments: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<'checking' | 'valid' | 'invalid' | 'sent'>('checking');
+  const [registration, setRegistration] = useState<Registration | null>(null);
+  const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
+  const [files, setFiles] = useState<Record<string, File>>({});
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    Promise.all([approvalsAPI.getRegistration(token), approvalsAPI.getPolicy()])
+      .then(([registrationResponse, policyResponse]) => {
+        setRegistration(registrationResponse.data.registration);
+        setDocumentTypes(policyResponse.data.documentTypes);
+        setStatus('valid');
+      })
+      .catch(() => setStatus('invalid'));
+  }, [token]);
+
+  const labelOf = (kind: string) => documentTypes.find((type) => type.key === kind)?.label || kind;
+
+  const handleFileChange = (key: string, file?: File) => {
+    const next = { ...files };
+    if (file) {
+      next[key] = file;
+    } else {
+      delete next[key];
+    }
+    setFiles(next);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const formData = new FormData();
+    Object.entries(files).forEach(([key, file]) => formData.append(key, file));
+    if (note.trim()) formData.append('note', note.trim());
+
+    setIsLoading(true);
+    try {
+      const response = await approvalsAPI.uploadDocuments(token, formData);
+      toast.success(response.data.message);
+      setRegistration(response.data.registration);
+      setStatus('sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Could not upload the documents. Please try again.');
+      if (error.response?.data?.error === 'Invalid link') setStatus('invalid');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-8">
+        {status === 'checking' ? (
+          <div className="flex justify-center">
+            <div className="spinner"></div>
+          </div>
+        ) : status === 'invalid' || !registration ? (
+          <div className="text-center">
+            <XCircle className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Link expired</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              This link is invalid or has expired, or your registration was already decided.
+            </p>
+            <Link to="/login" className="mt-4 inline-block font-medium text-primary-600 hover:text-primary-500">
+              Go to Login
+            </Link>
+          </div>
+        ) : status === 'sent' ? (
+          <div className="text-center">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Thank you</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              We received your answer. We will e-mail you once an administrator has reviewed your registration.
+            </p>
+            <Link to="/" className="mt-4 inline-block font-medium text-primary-600 hover:text-primary-500">
+              Back to Home
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="mx-auto h-12 w-12 bg-primary-600 rounded-full flex items-center justify-center">
+                <span className="text-white text-xl font-bold">G</span>
+              </div>
+              <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+                Registration documents
+              </h2>
+              <p className="mt-2 text-center text-sm text-gray-600">
+                Hello {registration.name}, upload documents for the review of your account.
+              </p>
+            </div>
+
+            {registration.infoRequest && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-yellow-900 mb-1">
+                  The administrator asked on {format(new Date(registration.infoRequest.requestedAt), 'MMM dd, yyyy')}:
+                </h3>
+                <p className="text-sm text-yellow-800 whitespace-pre-line">{registration.infoRequest.note}</p>
+              </div>
+            )}
+
+            {registration.documents.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Already uploaded</h3>
+                <ul className="space-y-1">
+                  {registration.documents.map((document) => (
+                    <li key={document._id} className="flex items-center text-sm text-gray-600">
+                      <FileText className="h-4 w-4 mr-2" />
+                      {labelOf(document.kind)}: {document.originalName}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <form className="space-y-4" onSubmit={handleSubmit}>
+              {documentTypes.map((type) => (
+                <div key={type.key}>
+                  <label htmlFor={type.key} className="block text-sm font-medium text-gray-700">
+                    {type.label}
+                  </label>
+                  <input
+                    id={type.key}
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png"
+                    onChange={(e) => handleFileChange(type.key, e.target.files?.[0])}
+                    className="mt-1 block w-full text-sm text-gray-600"
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label htmlFor="note" className="block text-sm font-medium text-gray-700">
+                  Message to the administrator (optional)
+                </label>
+                <textarea
+                  id="note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  className="input mt-1"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || (Object.keys(files).length === 0 && !note.trim())}
+                className="btn btn-primary w-full"
+              >
+                {isLoading ? (
+                  <div className="flex items-center">
+                    <div className="spinner mr-2"></div>
+                    Sending...
+                  </div>
+                ) : (
+                  'Send'
+                )}
+              </button>
+              <p className="text-xs text-gray-500 text-center">PDF, JPEG or PNG, one file per document.</p>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegistrationDocuments;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { Eye, EyeOff, Lock, XCircle } from 'lucide-react';
+import { authAPI } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+const ResetPassword: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>();
+
+  useEffect(() => {
+    authAPI.checkResetToken(token)
+      .then(() => setStatus('valid'))
+      .catch(() => setStatus('invalid'));
+  }, [token]);
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setIsLoading(true);
+    try {
+      const response = await authAPI.resetPassword(token, data.password);
+      toast.success(response.data.message);
+      navigate('/login');
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Could not reset the password. Please try again.';
+      toast.error(message);
+      if (error.response?.data?.error === 'Invalid reset link') setStatus('invalid');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {status === 'checking' ? (
+          <div className="flex justify-center">
+            <div className="spinner"></div>
+          </div>
+        ) : status === 'invalid' ? (
+          <div className="text-center">
+            <XCircle className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Link expired</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              This reset link is invalid, has expired or was already used.
+            </p>
+            <Link to="/forgot-password" className="mt-4 inline-block font-medium text-primary-600 hover:text-primary-500">
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="mx-auto h-12 w-12 bg-primary-600 rounded-full flex items-center justify-center">
+                <span className="text-white text-xl font-bold">G</span>
+              </div>
+              <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+                Choose a new password
+              </h2>
+              <p className="mt-2 text-center text-sm text-gray-600">
+                You will be signed out everywhere and can then sign in with the new password.
+              </p>
+            </div>
+
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    New password
+                  </label>
+                  <div className="mt-1 relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Lock className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      {...register('password', {
+                        required: 'Password is required',
+                        minLength: {
+                          value: 6,
+                          message: 'Password must be at least 6 characters',
+                        },
+                      })}
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      className="input pl-10 pr-10"
+                      placeholder="Enter a new password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5 text-gray-400" />
+                      ) : (
+                        <Eye className="h-5 w-5 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="mt-1 text-sm text-error-600">{errors.password.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                    Confirm new password
+                  </label>
+                  <div className="mt-1 relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Lock className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      {...register('confirmPassword', {
+                        required: 'Please confirm the password',
+                        validate: (value) => value === watch('password') || 'Passwords do not match',
+                      })}
+                      id="confirmPassword"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      className="input pl-10"
+                      placeholder="Enter it again"
+                    />
+                  </div>
+                  {errors.confirmPassword && (
+                    <p className="mt-1 text-sm text-error-600">{errors.confirmPassword.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <button type="submit" disabled={isLoading} className="btn btn-primary w-full">
+                {isLoading ? (
+                  <div className="flex items-center">
+                    <div className="spinner mr-2"></div>
+                    Saving...
+                  </div>
+                ) : (
+                  'Reset password'
+                )}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet, CheckCircle, AlertTriangle, User, Phone } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { collectionsAPI } from '../../services/api';
+import { useRealtimeEvent } from '../../hooks/useRealtimeUpdates';
+
+interface Collection {
+  _id: string;
+  deliveryNumber: string;
+  orderNumber: string;
+  shopkeeperName: string;
+  expectedAmount: number;
+  collectedAmount: number;
+  shortfall: number;
+  shortfallReason?: string;
+  method: 'cash' | 'mobile_banking' | 'bank_transfer';
+  collectedAt: string;
+  status: 'collected' | 'settled';
+  settledAt?: string;
+}
+
+interface WorkerCollections {
+  deliveryWorker: {
+    _id: string;
+    name: string;
+    phone: string;
+  } | null;
+  deliveries: number;
+  expected: number;
+  collected: number;
+  shortfall: number;
+  collections: Collection[];
+}
+
+const methodLabels: Record<Collection['method'], string> = {
+  cash: 'Cash',
+  mobile_banking: 'Mobile Banking',
+  bank_transfer: 'Bank Transfer',
+};
+
+const CashSettlement: React.FC = () => {
+  const [workers, setWorkers] = useState<WorkerCollections[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<'collected' | 'settled'>('collected');
+  const [date, setDate] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState('');
+  const [isSettling, setIsSettling] = useState(false);
+
+  useEffect(() => {
+    loadCollections();
+  }, [status, date]);
+
+  // Completed deliveries add new collections
+  useRealtimeEvent('delivery', () => loadCollections());
+
+  const loadCollections = async () => {
+    try {
+      setLoading(true);
+      const params: any = { status };
+      if (date) params.date = date;
+      const response = await collectionsAPI.getCompanyCollections(params);
+      setWorkers(response.data.workers || []);
+      setSelected(new Set());
+    } catch (error: any) {
+      console.error('Failed to load collections:', error);
+      toast.error(error.response?.data?.message || 'Failed to load collections');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const selectedTotal = workers
+    .flatMap(worker => worker.collections)
+    .filter(collection => selected.has(collection._id))
+    .reduce((sum, collection) => sum + collection.collectedAmount, 0);
+
+  const settleSelected = async () => {
+    if (!selected.size) return;
+    if (!window.confirm(`Confirm that ৳${selectedTotal.toFixed(2)} was handed over?`)) return;
+
+    setIsSettling(true);
+    try {
+      const response = await collectionsAPI.settle(Array.from(selected), note.trim() || undefined);
+      toast.success(`${response.data.settled} collection(s) settled`);
+      setNote('');
+      loadCollections();
+    } catch (error: any) {
+      console.error('Failed to settle collections:', error);
+      toast.error(error.response?.data?.message || 'Failed to settle collections');
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+          <Wallet className="w-6 h-6 mr-2 text-primary-600" />
+          Cash Settlement
+        </h1>
+        <p className="text-gray-600">
+          Reconcile cash-on-delivery collections and mark them as handed over by your delivery workers
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as 'collected' | 'settled')}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="collected">Held by workers</option>
+            <option value="settled">Handed over</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Collected on</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        {date && (
+          <button onClick={() => setDate('')} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+            All dates
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : workers.length === 0 ? (
+        <div className="text-center py-12">
+          <Wallet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No collections</h3>
+          <p className="text-gray-600">
+            {status === 'collected' ? 'Nothing is waiting to be handed over.' : 'No collections have been settled yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {workers.map((worker) => {
+            const ids = worker.collections.map(collection => collection._id);
+            const allSelected = ids.every(id => selected.has(id));
+
+            return (
+              <div key={worker.deliveryWorker?._id || 'unknown'} className="bg-white rounded-lg shadow border">
+                <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-b bg-gray-50 rounded-t-lg">
+                  <div className="flex items-center">
+                    {status === 'collected' && (
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 mr-3"
+                        checked={allSelected}
+                        onChange={(e) => toggle(ids, e.target.checked)}
+                      />
+                    )}
+                    <div>
+                      <p className="font-semibold text-gray-900 flex items-center">
+                        <User className="w-4 h-4 mr-2" />
+                        {worker.deliveryWorker?.name || 'Unknown worker'}
+                      </p>
+                      {worker.deliveryWorker?.phone && (
+                        <p className="text-sm text-gray-600 flex items-center">
+                          <Phone className="w-3 h-3 mr-1" />
+                          {worker.deliveryWorker.phone}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-6 text-sm">
+                    <div>
+                      <p className="text-gray-500">Deliveries</p>
+                      <p className="font-semibold text-gray-900">{worker.deliveries}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Expected</p>
+                      <p className="font-semibold text-gray-900">৳{worker.expected}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Collected</p>
+                      <p className="font-semibold text-green-700">৳{worker.collected}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Shortfall</p>
+                      <p className={`font-semibold ${worker.shortfall > 0 ? 'text-red-700' : 'text-gray-900'}`}>৳{worker.shortfall}</p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="divide-y">
+                  {worker.collections.map((collection) => (
+                    <div key={collection._id} className="flex items-start justify-between p-4">
+                      <div className="flex items-start">
+                        {status === 'collected' && (
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 mr-3 mt-1"
+                            checked={selected.has(collection._id)}
+                            onChange={(e) => toggle([collection._id], e.target.checked)}
+                          />
+                        )}
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {collection.deliveryNumber} · Order {collection.orderNumber}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {collection.shopkeeperName} · {methodLabels[collection.method]} ·{' '}
+                            {format(new Date(collection.collectedAt), 'MMM dd, yyyy HH:mm')}
+                          </p>
+                          {collection.shortfall > 0 && (
+                            <p className="text-sm text-red-700 flex items-center mt-1">
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              Short ৳{collection.shortfall}: {collection.shortfallReason}
+                            </p>
+                          )}
+                          {collection.settledAt && (
+                            <p className="text-sm text-green-700 flex items-center mt-1">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              Handed over {format(new Date(collection.settledAt), 'MMM dd, yyyy HH:mm')}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-900">৳{collection.collectedAmount}</p>
+                        <p className="text-xs text-gray-500">of ৳{collection.expectedAmount}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {status === 'collected' && selected.size > 0 && (
+        <div className="sticky bottom-4 mt-6 bg-white rounded-lg shadow-lg border p-4 flex flex-wrap items-center gap-4">
+          <p className="font-medium text-gray-900">
+            {selected.size} selected · ৳{selectedTotal.toFixed(2)}
+          </p>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (e.g. receipt number)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <button
+            onClick={settleSelected}
+            disabled={isSettling}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {isSettling ? 'Settling...' : 'Mark as Handed Over'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashSettlement;
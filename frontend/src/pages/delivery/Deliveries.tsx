@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { deliveriesAPI } from '../../services/api';
+import { deliveriesAPI, collectionsAPI } from '../../services/api';
+import SignaturePad from '../../components/SignaturePad';
+import OfflineSyncStatus from '../../components/OfflineSyncStatus';
+import { useOfflineOutbox } from '../../hooks/useOfflineOutbox';
+import {
+  submitDeliveryAction,
+  saveSnapshot,
+  loadSnapshot,
+  DeliveryProofInput,
+  OutboxAction,
+  OutboxEntry
+} from '../../services/offlineOutbox';
 import { toast } from 'react-hot-toast';
 import { 
   Truck, 
@@ -14,7 +25,11 @@ import {
   Calendar,
   MessageSquare,
   Camera,
-  FileText
+  FileText,
+  Navigation,
+  RefreshCw,
+  Wallet,
+  PenTool
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -22,12 +37,15 @@ interface DeliveryItem {
   productId: string;
   productName: string;
   quantity: number;
+  orderedQuantity?: number;
   unit: string;
 }
 
 interface Delivery {
   _id: string;
   deliveryNumber: string;
+  // Return pickups run from the shop back to the company
+  kind?: 'delivery' | 'return_pickup';
   orderId: {
     _id: string;
     orderNumber: string;
@@ -58,18 +76,183 @@ interface Delivery {
   deliveryInstructions?: string;
   shopkeeperPhone: string;
   shopkeeperName: string;
+  paymentMethod: 'mobile_banking' | 'bank_transfer' | 'cash_on_delivery';
+  amountToCollect: number;
   issues?: Array<{
+    _id: string;
     type: string;
     description: string;
-    createdAt: string;
+    reportedAt: string;
+    status?: 'open' | 'acknowledged' | 'resolved';
+    resolution?: string;
   }>;
+  reattemptCount?: number;
+  estimatedDeliveryTime?: string;
+  sla?: {
+    hours: number;
+    status: 'on_track' | 'at_risk' | 'late' | 'met' | 'missed';
+  };
+  routeOptimization?: RouteStop;
+}
+
+const slaLabels: Record<NonNullable<Delivery['sla']>['status'], { label: string; className: string }> = {
+  on_track: { label: 'Due', className: 'text-gray-600' },
+  at_risk: { label: 'Due soon', className: 'text-yellow-700 font-medium' },
+  late: { label: 'Late, was due', className: 'text-red-700 font-medium' },
+  met: { label: 'On time, due', className: 'text-green-700' },
+  missed: { label: 'Delivered late, due', className: 'text-red-700' },
+};
+
+interface RouteStop {
+  stopNumber: number;
+  distance: number;
+  estimatedTime: number;
+  estimatedArrival: string;
+  plannedAt: string;
+}
+
+interface RoutePlan {
+  plannedAt: string | null;
+  totalDistance: number;
+  totalTime?: number;
+  stops: Array<{ delivery: Delivery; legDistance?: number }>;
+  unlocated?: Delivery[];
 }
 
+interface CollectionInput {
+  amount: string;
+  method: 'cash' | 'mobile_banking' | 'bank_transfer';
+  shortfallReason: string;
+}
+
+interface CashSummary {
+  deliveries: number;
+  expected: number;
+  collected: number;
+  shortfall: number;
+  held: number;
+  settled: number;
+}
+
+// Cash the worker has to collect: only cash-on-delivery orders are paid on the doorstep
+const expectedCollection = (delivery: Delivery) =>
+  delivery.paymentMethod === 'cash_on_delivery' ? delivery.amountToCollect || 0 : 0;
+
+const emptyCollection = (delivery: Delivery): CollectionInput => ({
+  amount: expectedCollection(delivery) ? String(expectedCollection(delivery)) : '',
+  method: 'cash',
+  shortfallReason: '',
+});
+
+// Returns an error message, or null when the collection can be submitted
+const validateCollection = (delivery: Delivery, collection: CollectionInput) => {
+  const expected = expectedCollection(delivery);
+  if (!expected) return null;
+  const amount = Number(collection.amount);
+  if (collection.amount === '' || Number.isNaN(amount) || amount < 0) return 'Enter the amount collected';
+  if (amount < expected && !collection.shortfallReason.trim()) return 'Explain why less than the expected amount was collected';
+  return null;
+};
+
+const toCollectionPayload = (delivery: Delivery, collection: CollectionInput) =>
+  expectedCollection(delivery)
+    ? { amount: Number(collection.amount), method: collection.method, shortfallReason: collection.shortfallReason.trim() }
+    : undefined;
+
+const CollectionFields: React.FC<{
+  delivery: Delivery;
+  value: CollectionInput;
+  onChange: (value: CollectionInput) => void;
+}> = ({ delivery, value, onChange }) => {
+  const expected = expectedCollection(delivery);
+  if (!expected) return null;
+
+  const shortfall = expected - Number(value.amount || 0);
+
+  return (
+    <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        <Wallet className="inline w-4 h-4 mr-1" />
+        Amount Collected * <span className="text-gray-500">(expected ৳{expected})</span>
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={value.amount}
+          onChange={(e) => onChange({ ...value, amount: e.target.value })}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          required
+        />
+        <select
+          value={value.method}
+          onChange={(e) => onChange({ ...value, method: e.target.value as CollectionInput['method'] })}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="cash">Cash</option>
+          <option value="mobile_banking">Mobile Banking</option>
+          <option value="bank_transfer">Bank Transfer</option>
+        </select>
+      </div>
+      {value.amount !== '' && shortfall > 0 && (
+        <div className="mt-2">
+          <label className="block text-sm font-medium text-red-700 mb-1">
+            Short by ৳{shortfall.toFixed(2)}. Reason *
+          </label>
+          <input
+            type="text"
+            value={value.shortfallReason}
+            onChange={(e) => onChange({ ...value, shortfallReason: e.target.value })}
+            placeholder="e.g. shopkeeper will pay the rest next delivery"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// What the worker collected today and how much is still to be handed over
+const CashSummaryPanel: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [summary, setSummary] = useState<CashSummary | null>(null);
+
+  useEffect(() => {
+    collectionsAPI.getMySummary()
+      .then((response) => setSummary(response.data.summary))
+      .catch((err) => console.error('Error fetching cash summary:', err));
+  }, [refreshKey]);
+
+  if (!summary || summary.deliveries === 0) return null;
+
+  return (
+    <div className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="bg-white p-4 rounded-lg border">
+        <div className="text-2xl font-bold text-gray-900">৳{summary.collected}</div>
+        <div className="text-sm text-gray-600">Collected today ({summary.deliveries})</div>
+      </div>
+      <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
+        <div className="text-2xl font-bold text-yellow-700">৳{summary.held}</div>
+        <div className="text-sm text-yellow-700">To hand over</div>
+      </div>
+      <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+        <div className="text-2xl font-bold text-green-700">৳{summary.settled}</div>
+        <div className="text-sm text-green-700">Handed over</div>
+      </div>
+      <div className="bg-red-50 p-4 rounded-lg border border-red-200">
+        <div className="text-2xl font-bold text-red-700">৳{summary.shortfall}</div>
+        <div className="text-sm text-red-700">Shortfall</div>
+      </div>
+    </div>
+  );
+};
+
 interface CompletionModalProps {
   delivery: Delivery;
   isOpen: boolean;
   onClose: () => void;
-  onComplete: (deliveryId: string, proof: any) => void;
+  onComplete: (deliveryId: string, proof: DeliveryProofInput) => void;
 }
 
 interface IssueModalProps {
@@ -80,40 +263,38 @@ interface IssueModalProps {
 }
 
 const CompletionModal: React.FC<CompletionModalProps> = ({ delivery, isOpen, onClose, onComplete }) => {
-  const [signature, setSignature] = useState('');
+  const [signature, setSignature] = useState<Blob | null>(null);
+  const [receivedBy, setReceivedBy] = useState(delivery.shopkeeperName);
   const [photo, setPhoto] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string>('');
   const [notes, setNotes] = useState('');
+  const [collection, setCollection] = useState<CollectionInput>(() => emptyCollection(delivery));
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       // Validate file type
-      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
       if (!validTypes.includes(file.type)) {
-        toast.error('Please select a valid image file (JPEG, PNG, GIF, WebP)');
+        toast.error('Please select a valid image file (JPEG, PNG, WebP)');
         return;
       }
       
-      // Validate file size (5MB max)
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image file size must be less than 5MB');
+      // Validate file size (8MB max, the server's limit)
+      if (file.size > 8 * 1024 * 1024) {
+        toast.error('Image file size must be less than 8MB');
         return;
       }
 
+      if (photoPreview) URL.revokeObjectURL(photoPreview);
       setPhoto(file);
-      
-      // Create preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setPhotoPreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+      setPhotoPreview(URL.createObjectURL(file));
     }
   };
 
   const removePhoto = () => {
+    if (photoPreview) URL.revokeObjectURL(photoPreview);
     setPhoto(null);
     setPhotoPreview('');
   };
@@ -121,32 +302,30 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ delivery, isOpen, onC
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!signature.trim()) {
+    if (!signature) {
       toast.error('Signature is required');
       return;
     }
 
+    const collectionError = validateCollection(delivery, collection);
+    if (collectionError) {
+      toast.error(collectionError);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      // Convert photo to base64 if provided
-      let photoBase64 = '';
-      if (photo) {
-        const reader = new FileReader();
-        photoBase64 = await new Promise((resolve) => {
-          reader.onload = () => resolve(reader.result as string);
-          reader.readAsDataURL(photo);
-        });
-      }
-
+      // Photo and signature are uploaded as files; the server resizes and stores them
       await onComplete(delivery._id, {
-        signature: signature.trim(),
-        photo: photoBase64,
-        notes: notes.trim()
+        signature,
+        photo,
+        receivedBy: receivedBy.trim(),
+        notes: notes.trim(),
+        collection: toCollectionPayload(delivery, collection)
       });
       onClose();
-      setSignature('');
-      setPhoto(null);
-      setPhotoPreview('');
+      setSignature(null);
+      removePhoto();
       setNotes('');
     } finally {
       setIsSubmitting(false);
@@ -179,18 +358,25 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ delivery, isOpen, onC
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <User className="inline w-4 h-4 mr-1" />
-                Customer Signature *
+                Received By
               </label>
               <input
                 type="text"
-                value={signature}
-                onChange={(e) => setSignature(e.target.value)}
-                placeholder="Customer signature or name confirmation"
+                value={receivedBy}
+                onChange={(e) => setReceivedBy(e.target.value)}
+                placeholder="Name of the person receiving the goods"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
               />
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <PenTool className="inline w-4 h-4 mr-1" />
+                Customer Signature *
+              </label>
+              <SignaturePad onChange={setSignature} />
+            </div>
+
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <Camera className="inline w-4 h-4 mr-1" />
@@ -207,7 +393,7 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ delivery, isOpen, onC
                           Upload delivery photo
                         </span>
                         <span className="mt-1 block text-xs text-gray-500">
-                          JPEG, PNG, GIF, WebP up to 5MB
+                          JPEG, PNG, WebP up to 8MB
                         </span>
                       </label>
                       <input
@@ -249,6 +435,8 @@ const CompletionModal: React.FC<CompletionModalProps> = ({ delivery, isOpen, onC
               )}
             </div>
 
+            <CollectionFields delivery={delivery} value={collection} onChange={setCollection} />
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <FileText className="inline w-4 h-4 mr-1" />
@@ -411,7 +599,7 @@ const IssueModal: React.FC<IssueModalProps> = ({ delivery, isOpen, onClose, onRe
                     onChange={() => setCanComplete(true)}
                     className="mr-2"
                   />
-                  Yes, issue resolved
+                  Yes, issue resolved (complete it with proof next)
                 </label>
                 <label className="flex items-center">
                   <input
@@ -483,6 +671,134 @@ const IssueModal: React.FC<IssueModalProps> = ({ delivery, isOpen, onClose, onRe
   );
 };
 
+// Today's stops in planned order with ETAs; planning stores the order on each delivery
+const RoutePlanPanel: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [route, setRoute] = useState<RoutePlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  useEffect(() => {
+    deliveriesAPI.getRoute()
+      .then((response) => setRoute(response.data))
+      .catch((err) => console.error('Error fetching route:', err));
+  }, [refreshKey]);
+
+  const planRoute = async () => {
+    setIsPlanning(true);
+    try {
+      const response = await deliveriesAPI.planRoute();
+      setRoute(response.data);
+      if (response.data.unlocated?.length) {
+        toast(`${response.data.unlocated.length} stop(s) could not be placed on the route`);
+      } else {
+        toast.success(response.data.message || 'Route planned');
+      }
+    } catch (err: any) {
+      console.error('Error planning route:', err);
+      toast.error(err.response?.data?.message || 'Failed to plan route');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const stops = route?.stops || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow border p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Navigation className="w-5 h-5 mr-2 text-blue-600" />
+            Today's Route
+          </h2>
+          {route?.plannedAt && (
+            <p className="text-sm text-gray-600">
+              Planned {format(new Date(route.plannedAt), 'HH:mm')} · {route.totalDistance} km
+              {route.totalTime !== undefined && ` · about ${route.totalTime} min`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={planRoute}
+          disabled={isPlanning}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isPlanning ? 'animate-spin' : ''}`} />
+          {route?.plannedAt ? 'Re-plan Route' : 'Plan Route'}
+        </button>
+      </div>
+
+      {stops.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No planned stops. Plan a route to get the best order for your open deliveries.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {stops.map(({ delivery, legDistance }) => (
+            <li key={delivery._id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+              <div className="flex items-center">
+                <span className="w-7 h-7 rounded-full bg-blue-600 text-white text-sm font-semibold flex items-center justify-center mr-3">
+                  {delivery.routeOptimization?.stopNumber}
+                </span>
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {delivery.shopkeeperName} · {delivery.deliveryArea}
+                  </p>
+                  <p className="text-xs text-gray-600">{delivery.deliveryLocation}</p>
+                </div>
+              </div>
+              <div className="text-right text-sm text-gray-600">
+                {delivery.routeOptimization?.estimatedArrival && (
+                  <p className="flex items-center justify-end font-medium text-gray-900">
+                    <Clock className="w-3 h-3 mr-1" />
+                    ETA {format(new Date(delivery.routeOptimization.estimatedArrival), 'HH:mm')}
+                  </p>
+                )}
+                <p className="text-xs">
+                  {legDistance !== undefined ? `+${legDistance} km` : `${delivery.routeOptimization?.distance} km from start`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {route?.unlocated && route.unlocated.length > 0 && (
+        <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+          <p className="font-medium flex items-center mb-1">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Unknown area, not on the route
+          </p>
+          {route.unlocated.map((delivery) => (
+            <p key={delivery._id}>{delivery.deliveryNumber} · {delivery.deliveryLocation}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Delivery status a queued action leads to, or null when it does not change it
+const statusAfter = (action: OutboxAction): Delivery['status'] | null => {
+  switch (action.kind) {
+    case 'status':
+      return action.status as Delivery['status'];
+    case 'complete':
+      return 'delivered';
+    case 'issue':
+      if (action.issue.canComplete === false) return 'failed';
+      return action.issue.canComplete === true && action.issue.resolution ? 'delivered' : null;
+  }
+};
+
+// Show deliveries as they will be once the queued actions are sent
+const withQueuedChanges = (deliveries: Delivery[], pending: OutboxEntry[]) =>
+  deliveries.map((delivery) => pending
+    .filter((entry) => entry.deliveryId === delivery._id)
+    .reduce((current, entry) => {
+      const status = statusAfter(entry.action);
+      return status ? { ...current, status } : current;
+    }, delivery));
+
 const Deliveries: React.FC = () => {
   const { user } = useAuth();
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
@@ -491,12 +807,24 @@ const Deliveries: React.FC = () => {
   const [selectedDelivery, setSelectedDelivery] = useState<Delivery | null>(null);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
   const [showIssueModal, setShowIssueModal] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const { pending, lastSyncedAt } = useOfflineOutbox();
 
   useEffect(() => {
     fetchDeliveries();
   }, []);
 
+  // Queued updates reached the server
+  useEffect(() => {
+    if (lastSyncedAt) fetchDeliveries();
+  }, [lastSyncedAt]);
+
+  const shownDeliveries = withQueuedChanges(deliveries, pending);
+  const queuedDeliveryIds = new Set(pending.map((entry) => entry.deliveryId));
+
   const fetchDeliveries = async () => {
+    const snapshotName = `deliveries:${user?._id}`;
     try {
       setLoading(true);
       let response;
@@ -510,9 +838,25 @@ const Deliveries: React.FC = () => {
       }
       
       setDeliveries(response.data.deliveries || []);
+      setRefreshKey((key) => key + 1);
       setError(null);
+      if (user?.role === 'delivery_worker') {
+        saveSnapshot(snapshotName, response.data.deliveries || []).catch(() => {});
+      }
     } catch (err: any) {
       console.error('Error fetching deliveries:', err);
+
+      // Offline: fall back to the deliveries loaded last time
+      const saved = !err.response && user?.role === 'delivery_worker'
+        ? await loadSnapshot<Delivery[]>(snapshotName).catch(() => undefined)
+        : undefined;
+      if (saved) {
+        setDeliveries(saved);
+        setError(null);
+        toast('Offline: showing your deliveries from the last sync');
+        return;
+      }
+
       setError(err.response?.data?.message || 'Failed to load deliveries');
       toast.error('Failed to load deliveries');
     } finally {
@@ -520,9 +864,21 @@ const Deliveries: React.FC = () => {
     }
   };
 
-  const handleCompleteDelivery = async (deliveryId: string, proof: any) => {
+  // Send now, or queue in the offline outbox when there is no connection
+  const submit = (deliveryId: string, action: OutboxAction) => {
+    const delivery = deliveries.find((d) => d._id === deliveryId);
+    return submitDeliveryAction(user!._id, { _id: deliveryId, deliveryNumber: delivery?.deliveryNumber || '' }, action);
+  };
+
+  const queuedToast = () => toast.success('Saved on this device. It will be sent when you are back online.');
+
+  const handleCompleteDelivery = async (deliveryId: string, proof: DeliveryProofInput) => {
     try {
-      await deliveriesAPI.completeDelivery(deliveryId, proof);
+      const result = await submit(deliveryId, { kind: 'complete', proof });
+      if (result.queued) {
+        queuedToast();
+        return;
+      }
       toast.success('Delivery completed successfully!');
       fetchDeliveries(); // Refresh the list
     } catch (err: any) {
@@ -534,12 +890,16 @@ const Deliveries: React.FC = () => {
 
   const handleReportIssue = async (deliveryId: string, issueData: any) => {
     try {
-      const response = await deliveriesAPI.reportDeliveryIssue(deliveryId, issueData);
+      const result = await submit(deliveryId, { kind: 'issue', issue: issueData });
+      if (result.queued) {
+        queuedToast();
+        return;
+      }
       
-      if (response.data.issueStatus === 'delivery_failed') {
+      if (result.data.issueStatus === 'delivery_failed') {
         toast.success('Issue reported and delivery marked as failed');
-      } else if (response.data.issueStatus === 'resolved_and_completed') {
-        toast.success('Issue resolved and delivery completed!');
+      } else if (result.data.issueStatus === 'resolved') {
+        toast.success('Issue resolved. Complete the delivery with proof of delivery.');
       } else {
         toast.success('Issue reported successfully');
       }
@@ -554,7 +914,11 @@ const Deliveries: React.FC = () => {
 
   const updateDeliveryStatus = async (deliveryId: string, status: string) => {
     try {
-      await deliveriesAPI.updateDeliveryStatus(deliveryId, status);
+      const result = await submit(deliveryId, { kind: 'status', status });
+      if (result.queued) {
+        queuedToast();
+        return;
+      }
       toast.success(`Delivery status updated to ${status.replace('_', ' ')}`);
       fetchDeliveries();
     } catch (err: any) {
@@ -672,6 +1036,10 @@ const Deliveries: React.FC = () => {
         )}
       </div>
 
+      {user?.role === 'delivery_worker' && <OfflineSyncStatus />}
+      {user?.role === 'delivery_worker' && <CashSummaryPanel refreshKey={refreshKey} />}
+      {user?.role === 'delivery_worker' && <RoutePlanPanel refreshKey={refreshKey} />}
+
       {deliveries.length === 0 ? (
         <div className="text-center py-12">
           <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
@@ -685,7 +1053,7 @@ const Deliveries: React.FC = () => {
         </div>
       ) : (
         <div className="space-y-4">
-          {deliveries.map((delivery) => (
+          {shownDeliveries.map((delivery) => (
             <div key={delivery._id} className="bg-white rounded-lg shadow border p-6">
               <div className="flex items-start justify-between mb-4">
                 <div>
@@ -695,8 +1063,24 @@ const Deliveries: React.FC = () => {
                   <p className="text-sm text-gray-600">
                     Order: {delivery.orderId.orderNumber}
                   </p>
+                  {delivery.kind === 'return_pickup' && (
+                    <p className="text-xs font-medium text-purple-700">Return pickup: collect from the shop, drop at the company</p>
+                  )}
+                  {!!delivery.reattemptCount && (
+                    <p className="text-xs text-orange-700">Reattempt {delivery.reattemptCount}</p>
+                  )}
+                </div>
+                <div className="text-right">
+                  {getStatusBadge(delivery.status)}
+                  {queuedDeliveryIds.has(delivery._id) && (
+                    <p className="text-xs text-amber-700 mt-1">Waiting to sync</p>
+                  )}
+                  {delivery.sla && delivery.estimatedDeliveryTime && (
+                    <p className={`text-xs mt-1 ${slaLabels[delivery.sla.status].className}`}>
+                      {slaLabels[delivery.sla.status].label} {format(new Date(delivery.estimatedDeliveryTime), 'MMM dd, HH:mm')}
+                    </p>
+                  )}
                 </div>
-                {getStatusBadge(delivery.status)}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -731,6 +1115,9 @@ const Deliveries: React.FC = () => {
                     {delivery.items.map((item, index) => (
                       <p key={index} className="text-sm text-gray-600">
                         {item.quantity} {item.unit} × {item.productName}
+                        {item.orderedQuantity !== undefined && item.orderedQuantity !== item.quantity && (
+                          <span className="text-orange-700"> (of {item.orderedQuantity} ordered)</span>
+                        )}
                       </p>
                     ))}
                   </div>
@@ -828,8 +1215,14 @@ const Deliveries: React.FC = () => {
                     Issues Reported
                   </h5>
                   {delivery.issues.map((issue, index) => (
-                    <div key={index} className="text-sm text-yellow-700 mb-1">
+                    <div key={issue._id || index} className="text-sm text-yellow-700 mb-1">
                       <span className="font-medium">{issue.type}:</span> {issue.description}
+                      {issue.status && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded bg-yellow-100">{issue.status}</span>
+                      )}
+                      {issue.resolution && (
+                        <p className="text-green-700 mt-0.5">Resolution: {issue.resolution}</p>
+                      )}
                     </div>
                   ))}
                 </div>
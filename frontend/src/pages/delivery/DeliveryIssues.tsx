@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, CheckCircle, Calendar, RefreshCw, RotateCcw, User, Phone } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { deliveriesAPI } from '../../services/api';
+import { useRealtimeEvent } from '../../hooks/useRealtimeUpdates';
+import StatusBadge from '../../components/StatusBadge';
+
+interface Issue {
+  _id: string;
+  type: string;
+  description: string;
+  reportedAt: string;
+  reportedBy?: {
+    name: string;
+    role: string;
+  };
+  status: 'open' | 'acknowledged' | 'resolved';
+  acknowledgedAt?: string;
+  resolution?: string;
+  outcome?: 'rescheduled' | 'reassigned' | 'returned' | 'closed';
+  resolvedAt?: string;
+  resolvedBy?: {
+    name: string;
+  };
+}
+
+interface IssueDelivery {
+  _id: string;
+  deliveryNumber: string;
+  orderId: {
+    orderNumber: string;
+    status: string;
+  } | null;
+  deliveryWorkerId: {
+    _id: string;
+    name: string;
+    phone: string;
+  } | null;
+  shopkeeperName: string;
+  deliveryArea: string;
+  status: string;
+  failureReason?: string;
+  estimatedDeliveryTime?: string;
+  reattemptCount?: number;
+  issues: Issue[];
+}
+
+interface Worker {
+  _id: string;
+  name: string;
+  availability: string;
+}
+
+type Action = 'reschedule' | 'reassign' | 'return' | 'close';
+
+const actionLabels: Record<Action, string> = {
+  reschedule: 'Reschedule',
+  reassign: 'Reassign',
+  return: 'Mark Returned',
+  close: 'Close',
+};
+
+const outcomeLabels: Record<NonNullable<Issue['outcome']>, string> = {
+  rescheduled: 'Rescheduled',
+  reassigned: 'Reassigned',
+  returned: 'Returned to company',
+  closed: 'Closed',
+};
+
+const issueStatusClasses: Record<Issue['status'], string> = {
+  open: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+};
+
+// Actions that make sense for the delivery's current status
+const actionsFor = (delivery: IssueDelivery): Action[] => {
+  if (delivery.status === 'delivered' || delivery.status === 'returned') return ['close'];
+  if (delivery.status === 'failed') return ['reschedule', 'reassign', 'return', 'close'];
+  if (delivery.status === 'assigned') return ['reschedule', 'reassign', 'close'];
+  return ['reschedule', 'close'];
+};
+
+// Resolution form for one issue ticket
+const ResolveIssueForm: React.FC<{
+  delivery: IssueDelivery;
+  issue: Issue;
+  onDone: () => void;
+  onCancel: () => void;
+}> = ({ delivery, issue, onDone, onCancel }) => {
+  const actions = actionsFor(delivery);
+  const [action, setAction] = useState<Action>(actions[0]);
+  const [resolution, setResolution] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [deliveryWorkerId, setDeliveryWorkerId] = useState('');
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (action !== 'reassign' || workers.length) return;
+    deliveriesAPI.getAvailableWorkersByArea(delivery.deliveryArea)
+      .then((response) => setWorkers(response.data.workers || []))
+      .catch((error) => console.error('Failed to load workers:', error));
+  }, [action]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolution.trim()) {
+      toast.error('Please add resolution notes');
+      return;
+    }
+    if (action === 'reschedule' && !scheduledFor) {
+      toast.error('Please pick the new delivery date');
+      return;
+    }
+    if (action === 'reassign' && !deliveryWorkerId) {
+      toast.error('Please select a delivery worker');
+      return;
+    }
+    if (action === 'return' && !window.confirm('Cancel the order and take the goods back?')) return;
+
+    setIsSubmitting(true);
+    try {
+      await deliveriesAPI.resolveIssue(delivery._id, issue._id, {
+        action,
+        resolution: resolution.trim(),
+        scheduledFor: action === 'reschedule' ? new Date(scheduledFor).toISOString() : undefined,
+        deliveryWorkerId: action === 'reassign' ? deliveryWorkerId : undefined,
+      });
+      toast.success('Issue resolved');
+      onDone();
+    } catch (error: any) {
+      console.error('Failed to resolve issue:', error);
+      toast.error(error.response?.data?.message || 'Failed to resolve issue');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 bg-gray-50 rounded border space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {actions.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setAction(option)}
+            className={`px-3 py-1 text-sm rounded border ${
+              action === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'
+            }`}
+          >
+            {actionLabels[option]}
+          </button>
+        ))}
+      </div>
+
+      {action === 'reschedule' && (
+        <input
+          type="datetime-local"
+          value={scheduledFor}
+          onChange={(e) => setScheduledFor(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+      )}
+
+      {action === 'reassign' && (
+        <select
+          value={deliveryWorkerId}
+          onChange={(e) => setDeliveryWorkerId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">Select delivery worker</option>
+          {workers
+            .filter((worker) => worker._id !== delivery.deliveryWorkerId?._id)
+            .map((worker) => (
+              <option key={worker._id} value={worker._id}>
+                {worker.name} ({worker.availability})
+              </option>
+            ))}
+        </select>
+      )}
+
+      <textarea
+        value={resolution}
+        onChange={(e) => setResolution(e.target.value)}
+        rows={2}
+        placeholder="Resolution notes..."
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : actionLabels[action]}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const DeliveryIssues: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<IssueDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('unresolved');
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadIssues();
+  }, [status]);
+
+  // Workers report new issues and deliveries change status
+  useRealtimeEvent('delivery', () => loadIssues());
+
+  const loadIssues = async () => {
+    try {
+      setLoading(true);
+      const response = await deliveriesAPI.getIssues(status ? { status } : undefined);
+      setDeliveries(response.data.deliveries || []);
+    } catch (error: any) {
+      console.error('Failed to load issues:', error);
+      toast.error(error.response?.data?.message || 'Failed to load issues');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acknowledge = async (delivery: IssueDelivery, issue: Issue) => {
+    try {
+      await deliveriesAPI.acknowledgeIssue(delivery._id, issue._id);
+      toast.success('Issue acknowledged');
+      loadIssues();
+    } catch (error: any) {
+      console.error('Failed to acknowledge issue:', error);
+      toast.error(error.response?.data?.message || 'Failed to acknowledge issue');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+          <AlertTriangle className="w-6 h-6 mr-2 text-yellow-600" />
+          Delivery Issues
+        </h1>
+        <p className="text-gray-600">
+          Follow up on problems reported by delivery workers and decide how each delivery continues
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="unresolved">Needs attention</option>
+          <option value="resolved">Resolved</option>
+          <option value="">All issues</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="text-center py-12">
+          <CheckCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No issues</h3>
+          <p className="text-gray-600">
+            {status === 'unresolved' ? 'Every reported issue has been handled.' : 'No delivery issues found.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {deliveries.map((delivery) => (
+            <div key={delivery._id} className="bg-white rounded-lg shadow border">
+              <div className="flex flex-wrap items-start justify-between gap-4 p-4 border-b bg-gray-50 rounded-t-lg">
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {delivery.deliveryNumber}
+                    {delivery.orderId && <span className="font-normal text-gray-600"> · Order {delivery.orderId.orderNumber}</span>}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {delivery.shopkeeperName} · {delivery.deliveryArea}
+                  </p>
+                  {delivery.deliveryWorkerId && (
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <User className="w-3 h-3 mr-1" />
+                      {delivery.deliveryWorkerId.name}
+                      <Phone className="w-3 h-3 ml-3 mr-1" />
+                      {delivery.deliveryWorkerId.phone}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right space-y-1">
+                  <StatusBadge status={delivery.status} />
+                  {!!delivery.reattemptCount && (
+                    <p className="text-xs text-orange-700 flex items-center justify-end">
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      {delivery.reattemptCount} reattempt{delivery.reattemptCount > 1 ? 's' : ''}
+                    </p>
+                  )}
+                  {delivery.estimatedDeliveryTime && (
+                    <p className="text-xs text-gray-600 flex items-center justify-end">
+                      <Calendar className="w-3 h-3 mr-1" />
+                      {format(new Date(delivery.estimatedDeliveryTime), 'MMM dd, yyyy HH:mm')}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="divide-y">
+                {delivery.issues.map((issue) => (
+                  <div key={issue._id} className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {issue.type.replace(/_/g, ' ')}
+                          <span className={`ml-2 px-2 py-0.5 text-xs rounded ${issueStatusClasses[issue.status]}`}>
+                            {issue.status}
+                          </span>
+                        </p>
+                        <p className="text-sm text-gray-700 mt-1">{issue.description}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Reported {issue.reportedBy?.name ? `by ${issue.reportedBy.name} ` : ''}
+                          {format(new Date(issue.reportedAt), 'MMM dd, yyyy HH:mm')}
+                        </p>
+                        {issue.status === 'resolved' && (
+                          <p className="text-sm text-green-700 flex items-start mt-2">
+                            <CheckCircle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                            <span>
+                              {issue.outcome ? `${outcomeLabels[issue.outcome]}: ` : ''}
+                              {issue.resolution}
+                              {issue.resolvedBy?.name && ` (${issue.resolvedBy.name})`}
+                            </span>
+                          </p>
+                        )}
+                      </div>
+
+                      {issue.status !== 'resolved' && resolving !== issue._id && (
+                        <div className="flex gap-2 flex-shrink-0">
+                          {issue.status === 'open' && (
+                            <button
+                              onClick={() => acknowledge(delivery, issue)}
+                              className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                            >
+                              Acknowledge
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setResolving(issue._id)}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center"
+                          >
+                            <RefreshCw className="w-3 h-3 mr-1" />
+                            Resolve
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {resolving === issue._id && (
+                      <ResolveIssueForm
+                        delivery={delivery}
+                        issue={issue}
+                        onCancel={() => setResolving(null)}
+                        onDone={() => {
+                          setResolving(null);
+                          loadIssues();
+                        }}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryIssues;
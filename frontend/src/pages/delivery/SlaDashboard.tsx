@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from 'react';
+import { Timer, AlertTriangle, Clock, CheckCircle, Plus, Trash2, User } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { slaAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { isCompanyOwner } from '../../utils/permissions';
+import { useRealtimeEvent } from '../../hooks/useRealtimeUpdates';
+import StatusBadge from '../../components/StatusBadge';
+
+interface Performance {
+  total: number;
+  onTime: number;
+  late: number;
+  onTimeRate: number | null;
+  avgDelayMinutes: number | null;
+}
+
+interface WorkerPerformance extends Performance {
+  workerId: string;
+  name: string;
+}
+
+interface AreaPerformance extends Performance {
+  area: string;
+}
+
+interface CompanyPerformance extends Performance {
+  companyId: string;
+  name: string;
+}
+
+interface SlaDelivery {
+  _id: string;
+  deliveryNumber: string;
+  orderId: { orderNumber: string } | null;
+  deliveryWorkerId: { name: string; phone: string } | null;
+  deliveryArea: string;
+  shopkeeperName: string;
+  status: string;
+  estimatedDeliveryTime: string;
+  sla: { hours: number; status: 'at_risk' | 'late' };
+}
+
+interface Dashboard {
+  days: number;
+  overall: Performance;
+  byWorker: WorkerPerformance[];
+  byArea: AreaPerformance[];
+  byCompany: CompanyPerformance[];
+  atRisk: SlaDelivery[];
+  late: SlaDelivery[];
+}
+
+interface AreaSla {
+  area: string;
+  hours: number;
+}
+
+interface SlaSettings {
+  defaultHours: number | null;
+  areas: AreaSla[];
+  defaults: { defaultHours: number; areaHours: Record<string, number> };
+  limits: { minHours: number; maxHours: number };
+}
+
+const rateClass = (rate: number | null) => {
+  if (rate === null) return 'text-gray-500';
+  if (rate >= 90) return 'text-green-700';
+  if (rate >= 75) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+const formatDelay = (minutes: number | null) => {
+  if (!minutes) return '—';
+  return minutes < 60 ? `${minutes} min` : `${Math.round((minutes / 60) * 10) / 10} h`;
+};
+
+// On-time table for one grouping (worker, area or company)
+const PerformanceTable: React.FC<{ title: string; label: string; rows: (Performance & { key: string; name: string })[] }> = ({
+  title,
+  label,
+  rows,
+}) => (
+  <div className="bg-white rounded-lg shadow border">
+    <h3 className="px-4 py-3 border-b font-semibold text-gray-900">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="p-4 text-sm text-gray-500">No delivered orders with an SLA in this period.</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">{label}</th>
+            <th className="px-4 py-2 text-right font-medium">Delivered</th>
+            <th className="px-4 py-2 text-right font-medium">Late</th>
+            <th className="px-4 py-2 text-right font-medium">Avg. delay</th>
+            <th className="px-4 py-2 text-right font-medium">On time</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="px-4 py-2 text-gray-900">{row.name}</td>
+              <td className="px-4 py-2 text-right">{row.total}</td>
+              <td className="px-4 py-2 text-right">{row.late}</td>
+              <td className="px-4 py-2 text-right">{formatDelay(row.avgDelayMinutes)}</td>
+              <td className={`px-4 py-2 text-right font-semibold ${rateClass(row.onTimeRate)}`}>
+                {row.onTimeRate === null ? '—' : `${row.onTimeRate}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+// Open deliveries close to or past their deadline
+const SlaDeliveryList: React.FC<{ title: string; deliveries: SlaDelivery[]; tone: 'red' | 'yellow' }> = ({
+  title,
+  deliveries,
+  tone,
+}) => (
+  <div className="bg-white rounded-lg shadow border">
+    <h3 className={`px-4 py-3 border-b font-semibold flex items-center ${tone === 'red' ? 'text-red-700' : 'text-yellow-700'}`}>
+      {tone === 'red' ? <AlertTriangle className="w-4 h-4 mr-2" /> : <Clock className="w-4 h-4 mr-2" />}
+      {title} ({deliveries.length})
+    </h3>
+    {deliveries.length === 0 ? (
+      <p className="p-4 text-sm text-gray-500">None right now.</p>
+    ) : (
+      <ul className="divide-y">
+        {deliveries.map((delivery) => (
+          <li key={delivery._id} className="p-4 flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <p className="font-medium text-gray-900">
+                {delivery.deliveryNumber}
+                {delivery.orderId && <span className="font-normal text-gray-600"> · Order {delivery.orderId.orderNumber}</span>}
+              </p>
+              <p className="text-sm text-gray-600">
+                {delivery.shopkeeperName} · {delivery.deliveryArea}
+              </p>
+              {delivery.deliveryWorkerId && (
+                <p className="text-sm text-gray-600 flex items-center">
+                  <User className="w-3 h-3 mr-1" />
+                  {delivery.deliveryWorkerId.name} · {delivery.deliveryWorkerId.phone}
+                </p>
+              )}
+            </div>
+            <div className="text-right space-y-1">
+              <StatusBadge status={delivery.status} />
+              <p className={`text-xs ${tone === 'red' ? 'text-red-700' : 'text-yellow-700'}`}>
+                Due {format(new Date(delivery.estimatedDeliveryTime), 'MMM dd, HH:mm')} (
+                {formatDistanceToNow(new Date(delivery.estimatedDeliveryTime), { addSuffix: true })})
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Company SLA hours: a default and per-area overrides
+const SlaSettingsForm: React.FC = () => {
+  const [settings, setSettings] = useState<SlaSettings | null>(null);
+  const [defaultHours, setDefaultHours] = useState('');
+  const [areas, setAreas] = useState<{ area: string; hours: string }[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    slaAPI.getSettings()
+      .then((response) => applySettings(response.data))
+      .catch((error) => console.error('Failed to load SLA settings:', error));
+  }, []);
+
+  const applySettings = (data: SlaSettings) => {
+    setSettings(data);
+    setDefaultHours(data.defaultHours ? String(data.defaultHours) : '');
+    setAreas(data.areas.map((entry) => ({ area: entry.area, hours: String(entry.hours) })));
+  };
+
+  const updateArea = (index: number, field: 'area' | 'hours', value: string) => {
+    setAreas((current) => current.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await slaAPI.updateSettings({
+        defaultHours: defaultHours ? Number(defaultHours) : null,
+        areas: areas.filter((entry) => entry.area.trim()).map((entry) => ({ area: entry.area.trim(), hours: Number(entry.hours) })),
+      });
+      applySettings(response.data);
+      toast.success('SLA settings saved');
+    } catch (error: any) {
+      console.error('Failed to save SLA settings:', error);
+      toast.error(error.response?.data?.message || 'Failed to save SLA settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <form onSubmit={handleSave} className="bg-white rounded-lg shadow border p-4">
+      <h3 className="font-semibold text-gray-900 mb-1">SLA Settings</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Hours from assignment until a delivery is due. New assignments use these; deliveries already on the way keep
+        their deadline.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Default hours</label>
+      <input
+        type="number"
+        min={settings.limits.minHours}
+        max={settings.limits.maxHours}
+        step="0.5"
+        value={defaultHours}
+        onChange={(e) => setDefaultHours(e.target.value)}
+        placeholder={`System default: ${settings.defaults.defaultHours}`}
+        className="w-48 px-3 py-2 border border-gray-300 rounded-md mb-4"
+      />
+
+      <p className="text-sm font-medium text-gray-700 mb-2">Per-area hours</p>
+      <div className="space-y-2 mb-3">
+        {areas.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              value={entry.area}
+              onChange={(e) => updateArea(index, 'area', e.target.value)}
+              placeholder="Area"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="number"
+              min={settings.limits.minHours}
+              max={settings.limits.maxHours}
+              step="0.5"
+              value={entry.hours}
+              onChange={(e) => updateArea(index, 'hours', e.target.value)}
+              placeholder="Hours"
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <button
+              type="button"
+              onClick={() => setAreas((current) => current.filter((_, i) => i !== index))}
+              className="px-2 text-gray-400 hover:text-red-600"
+              title="Remove"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => setAreas((current) => [...current, { area: '', hours: '' }])}
+        className="text-sm text-blue-700 hover:underline flex items-center mb-4"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add area
+      </button>
+
+      {Object.keys(settings.defaults.areaHours).length > 0 && (
+        <p className="text-xs text-gray-500 mb-4">
+          Without your own hours:{' '}
+          {Object.entries(settings.defaults.areaHours).map(([area, hours]) => `${area} ${hours}h`).join(', ')}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save SLA Settings'}
+      </button>
+    </form>
+  );
+};
+
+const SlaDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [days]);
+
+  // Deliveries finishing or changing status move the numbers
+  useRealtimeEvent('delivery', () => loadDashboard());
+
+  const loadDashboard = async () => {
+    try {
+      setLoading(true);
+      const response = await slaAPI.getDashboard({ days });
+      setDashboard(response.data);
+    } catch (error: any) {
+      console.error('Failed to load SLA dashboard:', error);
+      toast.error(error.response?.data?.message || 'Failed to load SLA dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+          <Timer className="w-6 h-6 mr-2 text-blue-600" />
+          Delivery SLAs
+        </h1>
+        <p className="text-gray-600">How often deliveries arrive before their deadline, and which ones need attention now</p>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+
+      {loading && !dashboard ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : dashboard && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow border p-4">
+              <p className="text-sm text-gray-600">On time</p>
+              <p className={`text-2xl font-bold ${rateClass(dashboard.overall.onTimeRate)}`}>
+                {dashboard.overall.onTimeRate === null ? '—' : `${dashboard.overall.onTimeRate}%`}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow border p-4">
+              <p className="text-sm text-gray-600 flex items-center">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Delivered
+              </p>
+              <p className="text-2xl font-bold text-gray-900">{dashboard.overall.total}</p>
+              <p className="text-xs text-gray-500">{dashboard.overall.late} after the deadline</p>
+            </div>
+            <div className="bg-white rounded-lg shadow border p-4">
+              <p className="text-sm text-gray-600">At risk now</p>
+              <p className="text-2xl font-bold text-yellow-700">{dashboard.atRisk.length}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow border p-4">
+              <p className="text-sm text-gray-600">Late now</p>
+              <p className="text-2xl font-bold text-red-700">{dashboard.late.length}</p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <SlaDeliveryList title="Late" deliveries={dashboard.late} tone="red" />
+            <SlaDeliveryList title="At risk" deliveries={dashboard.atRisk} tone="yellow" />
+          </div>
+
+          <PerformanceTable
+            title="By delivery worker"
+            label="Worker"
+            rows={dashboard.byWorker.map((row) => ({ ...row, key: row.workerId }))}
+          />
+          <PerformanceTable
+            title="By area"
+            label="Area"
+            rows={dashboard.byArea.map((row) => ({ ...row, key: row.area, name: row.area }))}
+          />
+          {user?.role === 'admin' && (
+            <PerformanceTable
+              title="By company"
+              label="Company"
+              rows={dashboard.byCompany.map((row) => ({ ...row, key: row.companyId }))}
+            />
+          )}
+
+          {isCompanyOwner(user) && <SlaSettingsForm />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlaDashboard;
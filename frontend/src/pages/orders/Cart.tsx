@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShoppingCart, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { ordersAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCart, CartCompanyGroup } from '../../contexts/CartContext';
+import QuantityStepper from '../../components/QuantityStepper';
+import EmptyState from '../../components/EmptyState';
+import Loading from '../../components/Loading';
+
+const Cart: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { cart, isLoading, updateQuantity, removeFromCart, clearCompany } = useCart();
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [orderDetails, setOrderDetails] = useState({
+    deliveryArea: user?.area || '',
+    deliveryAddress: user?.address || '',
+    deliveryCity: user?.city || '',
+    paymentMethod: 'cash_on_delivery',
+    preferredDeliveryDate: '',
+    deliveryInstructions: ''
+  });
+
+  const formatCurrency = (amount: number) => `৳${amount.toFixed(2)}`;
+
+  const handleQuantityChange = async (productId: string, quantity: number) => {
+    setUpdating(productId);
+    try {
+      await updateQuantity(productId, quantity);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update quantity');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleRemove = async (productId: string) => {
+    setUpdating(productId);
+    try {
+      await removeFromCart(productId);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove item');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  // Lines that cannot be ordered stay in the cart so the shopkeeper can fix or remove them
+  const placeCompanyOrder = async (group: CartCompanyGroup) => {
+    const orderable = group.items.filter(item => item.isOrderable);
+    const blocked = group.items.filter(item => !item.isOrderable);
+    const items = orderable.map(item => ({
+      productId: item.productId,
+      productName: item.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      unit: item.unit
+    }));
+
+    if (items.length === 0) {
+      throw new Error(`No orderable items for ${group.companyName}`);
+    }
+
+    const response = await ordersAPI.createOrder({
+      companyId: group.companyId,
+      items,
+      ...orderDetails
+    });
+    const orderNumber = response.data.order.orderNumber as string;
+
+    // The order exists now, so a failed clean-up must not be reported as a failed checkout
+    try {
+      if (blocked.length === 0) {
+        await clearCompany(group.companyId);
+      } else {
+        for (const item of orderable) {
+          await removeFromCart(item.productId);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to update cart after order ${orderNumber}:`, error);
+      toast.error(`${group.companyName}: order ${orderNumber} was placed, but the cart could not be updated`);
+    }
+
+    if (blocked.length > 0) {
+      toast(`${group.companyName}: ${blocked.map(item => item.name).join(', ')} could not be ordered and ${blocked.length > 1 ? 'were' : 'was'} left in the cart`);
+    }
+    return orderNumber;
+  };
+
+  // One order is placed per company; a failure for one company leaves its lines in the cart
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCheckingOut(true);
+
+    const placed: string[] = [];
+    const failed: string[] = [];
+
+    for (const group of cart.groups) {
+      try {
+        placed.push(await placeCompanyOrder(group));
+      } catch (error: any) {
+        console.error(`Checkout failed for ${group.companyName}:`, error);
+        failed.push(group.companyName);
+        toast.error(`${group.companyName}: ${error.response?.data?.error || error.message || 'Failed to place order'}`);
+      }
+    }
+
+    setCheckingOut(false);
+
+    if (placed.length > 0) {
+      toast.success(`Placed ${placed.length} order${placed.length > 1 ? 's' : ''}: ${placed.join(', ')}`);
+    }
+    if (failed.length === 0 && placed.length > 0) {
+      navigate('/orders');
+    }
+  };
+
+  if (isLoading && cart.groups.length === 0) {
+    return <Loading message="Loading cart..." />;
+  }
+
+  if (cart.groups.length === 0) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">Cart</h1>
+        <EmptyState
+          title="Your cart is empty"
+          message="Browse the catalog and add products from any company"
+          actionLink="/products/catalog"
+          actionText="Browse Catalog"
+        />
+      </div>
+    );
+  }
+
+  const hasBlockedItems = cart.groups.some(g => g.items.some(i => !i.isOrderable));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cart</h1>
+          <p className="text-gray-600 mt-1">
+            {cart.itemCount} item{cart.itemCount !== 1 ? 's' : ''} from {cart.groups.length} compan{cart.groups.length !== 1 ? 'ies' : 'y'}
+          </p>
+        </div>
+        <ShoppingCart className="h-8 w-8 text-gray-400" />
+      </div>
+
+      <form onSubmit={handleCheckout} className="space-y-8">
+        {cart.groups.map(group => (
+          <div key={group.companyId} className="bg-white p-6 rounded-lg shadow-md">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">{group.companyName}</h2>
+              <span className="text-sm text-gray-600">Subtotal: {formatCurrency(group.subtotal)}</span>
+            </div>
+
+            <div className="divide-y">
+              {group.items.map(item => {
+                const max = item.maxOrderQuantity
+                  ? Math.min(item.maxOrderQuantity, item.stockQuantity)
+                  : item.stockQuantity;
+
+                return (
+                  <div key={item.productId} className="py-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-center">
+                    <div className="md:col-span-2">
+                      <p className="font-medium text-gray-900">{item.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatCurrency(item.unitPrice)}/{item.unit} · Min: {item.minOrderQuantity}
+                        {item.maxOrderQuantity && `, Max: ${item.maxOrderQuantity}`} · Stock: {item.stockQuantity}
+                      </p>
+                      {!item.isOrderable && (
+                        <p className="mt-1 text-sm text-orange-600 flex items-center">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          {item.isActive ? 'Quantity no longer available — adjust before checkout' : 'Product is no longer available'}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <QuantityStepper
+                        value={item.quantity}
+                        min={item.minOrderQuantity}
+                        max={Math.max(max, item.minOrderQuantity)}
+                        disabled={updating === item.productId || !item.isActive || max < item.minOrderQuantity}
+                        onChange={(quantity) => handleQuantityChange(item.productId, quantity)}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between md:justify-end gap-4">
+                      <span className="font-semibold">{formatCurrency(item.lineTotal)}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(item.productId)}
+                        disabled={updating === item.productId}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {/* Delivery Details */}
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Delivery Details</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              value={orderDetails.deliveryArea}
+              onChange={(e) => setOrderDetails({ ...orderDetails, deliveryArea: e.target.value })}
+              placeholder="Delivery Area"
+              className="p-2 border rounded"
+              required
+            />
+            <input
+              type="text"
+              value={orderDetails.deliveryAddress}
+              onChange={(e) => setOrderDetails({ ...orderDetails, deliveryAddress: e.target.value })}
+              placeholder="Delivery Address"
+              className="p-2 border rounded"
+              required
+            />
+            <input
+              type="text"
+              value={orderDetails.deliveryCity}
+              onChange={(e) => setOrderDetails({ ...orderDetails, deliveryCity: e.target.value })}
+              placeholder="City"
+              className="p-2 border rounded"
+              required
+            />
+            <select
+              value={orderDetails.paymentMethod}
+              onChange={(e) => setOrderDetails({ ...orderDetails, paymentMethod: e.target.value })}
+              className="p-2 border rounded"
+              required
+            >
+              <option value="cash_on_delivery">Cash on Delivery</option>
+              <option value="bank_transfer">Bank Transfer</option>
+              <option value="mobile_banking">Mobile Banking</option>
+            </select>
+            <input
+              type="date"
+              value={orderDetails.preferredDeliveryDate}
+              onChange={(e) => setOrderDetails({ ...orderDetails, preferredDeliveryDate: e.target.value })}
+              className="p-2 border rounded"
+              required
+            />
+            <textarea
+              value={orderDetails.deliveryInstructions}
+              onChange={(e) => setOrderDetails({ ...orderDetails, deliveryInstructions: e.target.value })}
+              placeholder="Delivery Instructions"
+              className="p-2 border rounded"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        {/* Checkout Summary */}
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Checkout</h2>
+          <div className="space-y-2">
+            {cart.groups.map(group => (
+              <div key={group.companyId} className="flex justify-between">
+                <span>{group.companyName}</span>
+                <span>{formatCurrency(group.subtotal)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold text-lg pt-2 border-t">
+              <span>Items Subtotal:</span>
+              <span>{formatCurrency(cart.subtotal)}</span>
+            </div>
+            <p className="text-sm text-gray-500">
+              One order is placed per company. Tax and delivery charges are added to each order.
+            </p>
+            {hasBlockedItems && (
+              <p className="text-sm text-orange-600">
+                Items marked as unavailable will be left in your cart.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={checkingOut}
+            className={`px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700
+              ${checkingOut ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {checkingOut
+              ? 'Placing Orders...'
+              : `Place ${cart.groups.length} Order${cart.groups.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default Cart;
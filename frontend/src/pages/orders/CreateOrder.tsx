@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ordersAPI, profileAPI, productsAPI } from '../../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { ordersAPI, profileAPI, productsAPI, recurringOrdersAPI } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
 import { generateOrderPDF, OrderPDFData } from '../../utils/pdfGenerator';
+import { startPayment } from '../../components/PaymentPanel';
+import RecurringScheduleFields, { RecurringSchedule, defaultSchedule } from '../../components/RecurringScheduleFields';
+import { ReorderPrefill } from '../../components/ReorderDialog';
 
 interface Company {
   _id: string;
@@ -38,25 +41,61 @@ interface OrderItem {
   unit: string;
 }
 
+interface QuoteItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  unit: string;
+  vatRate: number;
+  vatAmount: number;
+}
+
+interface OrderQuote {
+  items: QuoteItem[];
+  totalAmount: number;
+  taxAmount: number;
+  deliveryCharge: number;
+  finalAmount: number;
+  breakdown: {
+    vat: { rate: number; amount: number }[];
+    deliveryRule: string;
+    freeDeliveryThreshold: number | null;
+  };
+}
+
 const CreateOrder: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
+  // Lines picked from a past order ("Reorder"), applied once the company's products load
+  const reorder = (location.state as { reorder?: ReorderPrefill } | null)?.reorder;
+  const pendingReorder = useRef<ReorderPrefill | undefined>(reorder);
   
   // State
   const [companies, setCompanies] = useState<Company[]>([]);
-  const [selectedCompany, setSelectedCompany] = useState<string>('');
+  const [selectedCompany, setSelectedCompany] = useState<string>(reorder?.companyId || '');
   const [products, setProducts] = useState<Product[]>([]);
   const [items, setItems] = useState<OrderItem[]>([{ productName: '', quantity: 1, unitPrice: 0, unit: 'piece' }]);
   const [loading, setLoading] = useState(false);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
   const [orderDetails, setOrderDetails] = useState({
-    deliveryArea: user?.area || '',
-    deliveryAddress: user?.address || '',
-    deliveryCity: user?.city || '',
-    paymentMethod: 'cash_on_delivery',
+    deliveryArea: reorder?.deliveryArea || user?.area || '',
+    deliveryAddress: reorder?.deliveryAddress || user?.address || '',
+    deliveryCity: reorder?.deliveryCity || user?.city || '',
+    paymentMethod: reorder?.paymentMethod || 'cash_on_delivery',
     preferredDeliveryDate: '',
-    deliveryInstructions: '',
+    deliveryInstructions: reorder?.deliveryInstructions || '',
     notes: ''
   });
+  const [repeat, setRepeat] = useState<{ enabled: boolean; name: string; schedule: RecurringSchedule }>({
+    enabled: false,
+    name: '',
+    schedule: defaultSchedule(),
+  });
 
   // Load companies on mount
   useEffect(() => {
@@ -84,8 +123,24 @@ const CreateOrder: React.FC = () => {
       try {
         const response = await productsAPI.getProductsByCompany(selectedCompany, { inStock: 'true' });
         setProducts(response.data.products);
+
+        const prefill = pendingReorder.current;
+        pendingReorder.current = undefined;
+        const reordered: OrderItem[] = (prefill?.companyId === selectedCompany ? prefill.items : [])
+          .map(item => {
+            const product = (response.data.products as Product[]).find(p => p._id === item.productId);
+            return product && {
+              productId: product._id,
+              productName: product.name,
+              quantity: item.quantity,
+              unitPrice: product.unitPrice || product.price || 0,
+              unit: product.unit
+            };
+          })
+          .filter((item): item is Required<OrderItem> => !!item);
+
         // Reset items when company changes to clear any previously selected products
-        setItems([{ productName: '', quantity: 1, unitPrice: 0, unit: 'piece' }]);
+        setItems(reordered.length ? reordered : [{ productName: '', quantity: 1, unitPrice: 0, unit: 'piece' }]);
       } catch (error) {
         console.error('Failed to load products:', error);
         toast.error('Failed to load company products');
@@ -95,6 +150,48 @@ const CreateOrder: React.FC = () => {
     loadProducts();
   }, [selectedCompany]);
 
+  // Fetch a server-side quote whenever the priced inputs change
+  useEffect(() => {
+    const pricedItems = items
+      .filter(item => item.productId && item.quantity > 0)
+      .map(item => ({ productId: item.productId as string, quantity: item.quantity }));
+
+    if (!selectedCompany || pricedItems.length === 0) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setQuoting(true);
+      try {
+        const response = await ordersAPI.getQuote({
+          companyId: selectedCompany,
+          items: pricedItems,
+          deliveryArea: orderDetails.deliveryArea,
+          deliveryCity: orderDetails.deliveryCity
+        });
+        if (!cancelled) {
+          setQuote(response.data.quote);
+          setQuoteError(null);
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setQuote(null);
+          setQuoteError(error.response?.data?.error || 'Failed to price order');
+        }
+      } finally {
+        if (!cancelled) setQuoting(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedCompany, items, orderDetails.deliveryArea, orderDetails.deliveryCity]);
+
   // Handle product selection
   const handleProductSelect = (index: number, productId: string) => {
     const selectedProduct = products.find(p => p._id === productId);
@@ -199,16 +296,39 @@ const CreateOrder: React.FC = () => {
 
       console.log('Submitting order data:', orderData); // Debug log
       const response = await ordersAPI.createOrder(orderData);
+
+      // Save the same items as a recurring order; the order itself is already placed
+      if (repeat.enabled) {
+        try {
+          await recurringOrdersAPI.create({
+            name: repeat.name.trim() || `Order from ${companies.find(c => c._id === selectedCompany)?.companyInfo?.companyName || 'company'}`,
+            companyId: selectedCompany,
+            items: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+            schedule: repeat.schedule,
+            deliveryAddress: orderDetails.deliveryAddress,
+            deliveryArea: orderDetails.deliveryArea,
+            deliveryCity: orderDetails.deliveryCity,
+            paymentMethod: orderDetails.paymentMethod,
+            deliveryInstructions: orderDetails.deliveryInstructions,
+            notes: orderDetails.notes,
+          });
+          toast.success('Recurring order saved');
+        } catch (recurringError: any) {
+          console.error('Recurring order error:', recurringError);
+          toast.error(recurringError.response?.data?.message || 'The order was placed, but the recurring order could not be saved');
+        }
+      }
       
-      // Generate PDF transcript
+      // Generate PDF transcript from the server's pricing of the placed order
       const selectedCompanyData = companies.find(c => c._id === selectedCompany);
-      const totals = calculateTotals();
+      const placedOrder = response.data.order;
+      const pricedItems: QuoteItem[] = placedOrder.items || quote?.items || [];
       
       const pdfData: OrderPDFData = {
-        orderNumber: response.data.order.orderNumber,
-        createdAt: response.data.order.createdAt || new Date().toISOString(),
-        status: response.data.order.status || 'pending',
-        totalAmount: totals.final,
+        orderNumber: placedOrder.orderNumber,
+        createdAt: placedOrder.createdAt || new Date().toISOString(),
+        status: placedOrder.status || 'pending',
+        totalAmount: placedOrder.finalAmount,
         shopkeeper: {
           name: user?.name || '',
           shopName: (user as any)?.shopName,
@@ -224,12 +344,12 @@ const CreateOrder: React.FC = () => {
           email: selectedCompanyData?.email,
           phone: selectedCompanyData?.phone
         },
-        items: items.map(item => ({
+        items: pricedItems.map(item => ({
           productName: item.productName,
           quantity: item.quantity,
           unitPrice: item.unitPrice,
           unit: item.unit,
-          totalPrice: item.quantity * item.unitPrice
+          totalPrice: item.totalPrice
         })),
         deliveryDetails: {
           deliveryArea: orderDetails.deliveryArea,
@@ -240,10 +360,10 @@ const CreateOrder: React.FC = () => {
           deliveryInstructions: orderDetails.deliveryInstructions
         },
         pricing: {
-          subtotal: totals.subtotal,
-          tax: totals.tax,
-          delivery: totals.delivery,
-          total: totals.final
+          subtotal: placedOrder.totalAmount,
+          tax: placedOrder.taxAmount,
+          delivery: placedOrder.deliveryCharge,
+          total: placedOrder.finalAmount
         }
       };
       
@@ -256,37 +376,37 @@ const CreateOrder: React.FC = () => {
         toast.success('Order created successfully! (PDF generation failed)');
       }
       
+      // Mobile-banking orders go straight to the gateway; the order page offers a retry
+      if (orderDetails.paymentMethod === 'mobile_banking') {
+        try {
+          await startPayment(placedOrder.id);
+          return;
+        } catch (paymentError: any) {
+          console.error('Payment start error:', paymentError);
+          toast.error(paymentError.response?.data?.message || 'Could not start the payment. Pay from the order page.');
+        }
+      }
+
       navigate(`/orders/${response.data.order.orderNumber}`);
     } catch (error: any) {
       console.error('Order creation error:', error);
-      toast.error(error.response?.data?.message || 'Failed to create order');
+      toast.error(error.response?.data?.error || error.response?.data?.message || 'Failed to create order');
     } finally {
       setLoading(false);
     }
   };
 
-  // Calculate totals
-  const calculateTotals = () => {
-    const totals = items.reduce((acc, item) => {
-      const itemTotal = item.unitPrice * item.quantity;
-      return {
-        subtotal: acc.subtotal + itemTotal,
-        items: acc.items + item.quantity
-      };
-    }, { subtotal: 0, items: 0 });
-
-    const tax = totals.subtotal * 0.05;
-    const delivery = 50;
-    const final = totals.subtotal + tax + delivery;
-
-    return { ...totals, tax, delivery, final };
-  };
-
-  const totals = calculateTotals();
+  const totalItems = items.reduce((sum, item) => sum + (item.productId ? item.quantity : 0), 0);
+  const formatRate = (rate: number) => `${+(rate * 100).toFixed(2)}%`;
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       <h1 className="text-3xl font-bold mb-8">Create New Order</h1>
+      {reorder && (
+        <p className="-mt-6 mb-8 text-gray-600">
+          Reordering {reorder.fromOrder}. Items are priced at today's rates; check the quantities before placing the order.
+        </p>
+      )}
 
       <form onSubmit={handleSubmit} className="space-y-8">
         {/* Company Selection */}
@@ -381,7 +501,9 @@ const CreateOrder: React.FC = () => {
               </div>
               <div className="md:col-span-4">
                 <p className="text-sm text-gray-600">
-                  Total for this item: ৳{(item.quantity * item.unitPrice).toFixed(2)}
+                  Total for this item: ৳{(
+                    quote?.items.find(q => q.productId === item.productId)?.totalPrice ?? item.quantity * item.unitPrice
+                  ).toFixed(2)}
                 </p>
               </div>
             </div>
@@ -456,36 +578,95 @@ const CreateOrder: React.FC = () => {
           <div className="space-y-2">
             <div className="flex justify-between">
               <span>Total Items:</span>
-              <span>{totals.items}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Subtotal:</span>
-              <span>৳{totals.subtotal.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Tax (5%):</span>
-              <span>৳{totals.tax.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Delivery Charge:</span>
-              <span>৳{totals.delivery.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between font-bold text-lg">
-              <span>Final Amount:</span>
-              <span>৳{totals.final.toFixed(2)}</span>
+              <span>{totalItems}</span>
             </div>
+            {quote ? (
+              <>
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>৳{quote.totalAmount.toFixed(2)}</span>
+                </div>
+                {quote.breakdown.vat.map(vat => (
+                  <div key={vat.rate} className="flex justify-between">
+                    <span>VAT ({formatRate(vat.rate)}):</span>
+                    <span>৳{vat.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between">
+                  <span>Delivery Charge:</span>
+                  <span>
+                    {quote.deliveryCharge === 0 ? 'Free' : `৳${quote.deliveryCharge.toFixed(2)}`}
+                  </span>
+                </div>
+                <div className="flex justify-between font-bold text-lg">
+                  <span>Final Amount:</span>
+                  <span>৳{quote.finalAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Payment:</span>
+                  <span className="text-gray-600">
+                    {orderDetails.paymentMethod === 'mobile_banking'
+                      ? 'Pay now by mobile banking after placing the order'
+                      : orderDetails.paymentMethod === 'cash_on_delivery'
+                        ? 'Pay the delivery worker on delivery'
+                        : 'Pending bank transfer'}
+                  </span>
+                </div>
+                {quoting && <p className="text-xs text-gray-500">Updating prices...</p>}
+              </>
+            ) : quoteError ? (
+              <p className="text-sm text-red-600">{quoteError}</p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {quoting ? 'Calculating prices...' : 'Select products to see current prices, VAT and delivery charge.'}
+              </p>
+            )}
           </div>
         </div>
 
+        {/* Recurring Order */}
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <label className="flex items-center text-lg font-semibold">
+            <input
+              type="checkbox"
+              className="mr-3 h-4 w-4"
+              checked={repeat.enabled}
+              onChange={(e) => setRepeat({ ...repeat, enabled: e.target.checked })}
+            />
+            Repeat this order
+          </label>
+          <p className="text-sm text-gray-600 mt-1">
+            The same items are ordered again on this schedule at the prices of the day. You can pause, edit or skip
+            it from Recurring Orders.
+          </p>
+          {repeat.enabled && (
+            <div className="mt-4 space-y-4">
+              <input
+                type="text"
+                value={repeat.name}
+                onChange={(e) => setRepeat({ ...repeat, name: e.target.value })}
+                placeholder="Name, e.g. Weekly rice and oil"
+                className="w-full p-2 border rounded"
+              />
+              <RecurringScheduleFields
+                value={repeat.schedule}
+                onChange={(schedule) => setRepeat({ ...repeat, schedule })}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Submit Button */}
         <div className="flex justify-end">
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || !quote}
             className={`px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 
-              ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+              ${loading || !quote ? 'opacity-50 cursor-not-allowed' : ''}`}
           >
-            {loading ? 'Creating Order...' : 'Create Order'}
+            {loading
+              ? 'Creating Order...'
+              : orderDetails.paymentMethod === 'mobile_banking' ? 'Create Order & Pay Now' : 'Create Order'}
           </button>
         </div>
       </form>
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { ordersAPI, deliveriesAPI } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
+import { useRealtimeEvent } from '../../hooks/useRealtimeUpdates';
+import PaymentPanel from '../../components/PaymentPanel';
+import DeliveryProofViewer from '../../components/DeliveryProofViewer';
+import ReorderDialog from '../../components/ReorderDialog';
+import ReturnRequestDialog from '../../components/ReturnRequestDialog';
+import { generateOrderPDF } from '../../utils/pdfGenerator';
 
 interface OrderItem {
+  productId: string;
   productName: string;
   quantity: number;
+  orderedQuantity: number;
+  backorderedQuantity: number;
   unitPrice: number;
   totalPrice: number;
   unit: string;
@@ -22,6 +31,14 @@ interface TimelineEvent {
   };
 }
 
+interface OrderAction {
+  status: string;
+  label: string;
+  destructive: boolean;
+  requiresReason: boolean;
+  requiresDeliveryWorker: boolean;
+}
+
 interface DeliveryWorker {
   _id: string;
   name: string;
@@ -33,6 +50,15 @@ interface DeliveryWorker {
   vehicleNumber: string;
 }
 
+interface WorkerScore {
+  worker: { _id: string; name: string };
+  score: number;
+  breakdown: { area: number; availability: number; load: number; onTime: number };
+  openDeliveries: number;
+  onTimeRate: number;
+  eligible: boolean;
+}
+
 interface OrderDetails {
   id: string;
   orderNumber: string;
@@ -46,6 +72,7 @@ interface OrderDetails {
   deliveryAddress: string;
   deliveryCity: string;
   paymentMethod: string;
+  paymentStatus: 'pending' | 'partial' | 'completed' | 'failed';
   preferredDeliveryDate: string;
   deliveryInstructions?: string;
   notes?: string;
@@ -64,6 +91,8 @@ interface OrderDetails {
     name: string;
     phone: string;
   };
+  backorder: { orderNumber: string; status: string } | null;
+  backorderOf: { orderNumber: string; status: string } | null;
   createdAt: string;
 }
 
@@ -73,6 +102,7 @@ const OrderDetails: React.FC = () => {
   const { user } = useAuth();
   
   const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [actions, setActions] = useState<OrderAction[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [showWorkerAssignment, setShowWorkerAssignment] = useState(false);
@@ -80,11 +110,23 @@ const OrderDetails: React.FC = () => {
   const [selectedWorker, setSelectedWorker] = useState<string>('');
   const [loadingWorkers, setLoadingWorkers] = useState(false);
   const [assigningWorker, setAssigningWorker] = useState(false);
+  const [workerScores, setWorkerScores] = useState<Record<string, WorkerScore>>({});
+  const [bestWorkerId, setBestWorkerId] = useState<string | null>(null);
+  const [showReorder, setShowReorder] = useState(false);
+  const [showReturn, setShowReturn] = useState(false);
+  const [shipping, setShipping] = useState<Record<string, number> | null>(null);
 
   useEffect(() => {
     fetchOrderDetails();
   }, [orderNumber]);
 
+  // Reload when someone else moves this order along
+  useRealtimeEvent('order', (data) => {
+    if (order && (data.orderId === order.id || data.orderNumber === order.orderNumber)) {
+      fetchOrderDetails();
+    }
+  });
+
   const fetchOrderDetails = async () => {
     try {
       setLoading(true);
@@ -92,6 +134,7 @@ const OrderDetails: React.FC = () => {
       const response = await ordersAPI.getOrder(orderNumber!);
       console.log("Order details response:", response.data);
       setOrder(response.data.order);
+      fetchOrderActions();
     } catch (error) {
       console.error("Error fetching order:", error);
       toast.error('Failed to fetch order details');
@@ -100,33 +143,112 @@ const OrderDetails: React.FC = () => {
     }
   };
 
-const handleStatusUpdate = async (newStatus: string) => {
-  try {
-    setUpdating(true);
+  // The server decides which status changes this user may make
+  const fetchOrderActions = async () => {
+    try {
+      const response = await ordersAPI.getOrderActions(orderNumber!);
+      setActions(response.data.actions || []);
+    } catch (error) {
+      console.error("Error fetching order actions:", error);
+      setActions([]);
+    }
+  };
 
-    let payload: any = { status: newStatus };
+const handleAction = (action: OrderAction) => {
+  if (action.requiresDeliveryWorker) {
+    openWorkerAssignment();
+    return;
+  }
+  handleStatusUpdate(action);
+};
 
-    // Only for cancel
-    if (newStatus === 'cancelled') {
-      const reason = prompt('Enter cancellation reason:');
-      if (!reason) {
-        setUpdating(false);
-        return;
-      }
-      payload.rejectionReason = reason;
+const handleStatusUpdate = async (action: OrderAction) => {
+  try {
+    let reason: string | undefined;
+    if (action.requiresReason) {
+      const input = prompt(`Enter reason (${action.label}):`);
+      if (!input?.trim()) return;
+      reason = input.trim();
     }
 
-    await ordersAPI.updateOrderStatus(orderNumber!, payload); // send object, not string
-    toast.success(newStatus === 'cancelled' ? 'Order cancelled successfully' : 'Order updated');
+    setUpdating(true);
+    await ordersAPI.updateOrderStatus(orderNumber!, action.status, reason);
+    toast.success(action.status === 'cancelled' ? 'Order cancelled successfully' : 'Order updated');
     fetchOrderDetails();
   } catch (err: any) {
     console.error('Update status error:', err);
     toast.error(err.response?.data?.error || 'Failed to update order status');
+    // A 409 means the order moved on since we loaded it
+    if (err.response?.status === 409) fetchOrderDetails();
   } finally {
     setUpdating(false);
   }
 };
 
+// Approve shipping less than ordered on some lines; the server backorders the rest
+const openShortfallApproval = () => {
+  if (!order) return;
+  setShipping(Object.fromEntries(order.items.map((item) => [item.productId, item.quantity])));
+};
+
+const handleShortfallApproval = async () => {
+  if (!order || !shipping) return;
+  try {
+    setUpdating(true);
+    const fulfilment = order.items.map((item) => ({ productId: item.productId, quantity: shipping[item.productId] }));
+    const response = await ordersAPI.updateOrderStatus(orderNumber!, 'approved', undefined, fulfilment);
+    toast.success(response.data.message || 'Order approved');
+    setShipping(null);
+    fetchOrderDetails();
+  } catch (err: any) {
+    console.error('Approve with shortfall error:', err);
+    toast.error(err.response?.data?.error || 'Failed to approve order');
+    if (err.response?.status === 409) fetchOrderDetails();
+  } finally {
+    setUpdating(false);
+  }
+};
+
+const handleDownloadPDF = () => {
+  if (!order) return;
+  try {
+    generateOrderPDF({
+      orderNumber: order.orderNumber,
+      createdAt: order.createdAt,
+      status: order.status,
+      totalAmount: order.finalAmount,
+      shopkeeper: { name: order.shopkeeper.name, shopName: order.shopkeeper.shopName, phone: order.shopkeeper.phone },
+      company: { name: order.company.name, companyName: order.company.companyName, phone: order.company.phone },
+      items: order.items.map((item) => ({
+        productName: item.productName,
+        quantity: item.quantity,
+        orderedQuantity: item.orderedQuantity,
+        unitPrice: item.unitPrice,
+        unit: item.unit,
+        totalPrice: item.totalPrice
+      })),
+      deliveryDetails: {
+        deliveryArea: order.deliveryArea,
+        deliveryAddress: order.deliveryAddress,
+        deliveryCity: order.deliveryCity,
+        paymentMethod: order.paymentMethod,
+        preferredDeliveryDate: order.preferredDeliveryDate,
+        deliveryInstructions: order.deliveryInstructions
+      },
+      pricing: {
+        subtotal: order.totalAmount,
+        tax: order.taxAmount,
+        delivery: order.deliveryCharge,
+        total: order.finalAmount
+      },
+      backorderNumber: order.backorder?.orderNumber
+    });
+  } catch (error) {
+    console.error('PDF generation error:', error);
+    toast.error('Failed to generate PDF');
+  }
+};
+
 const fetchAvailableWorkers = async () => {
   try {
     setLoadingWorkers(true);
@@ -144,6 +266,38 @@ const fetchAvailableWorkers = async () => {
   }
 };
 
+// Auto-assignment scores are only offered for the first assignment
+const canAutoAssign = order ? ['approved', 'processing'].includes(order.status) : false;
+
+const fetchWorkerScores = async () => {
+  if (!order || !canAutoAssign) return;
+  try {
+    const response = await deliveriesAPI.getWorkerScores(order.id);
+    const candidates: WorkerScore[] = response.data.candidates || [];
+    setWorkerScores(Object.fromEntries(candidates.map((candidate) => [candidate.worker._id, candidate])));
+    setBestWorkerId(candidates.find((candidate) => candidate.eligible)?.worker._id || null);
+  } catch (error) {
+    console.error('Error fetching worker scores:', error);
+  }
+};
+
+const handleAutoAssign = async () => {
+  if (!order) return;
+  try {
+    setAssigningWorker(true);
+    const response = await deliveriesAPI.autoAssign(order.id);
+    toast.success(response.data.message || 'Delivery worker assigned successfully!');
+    setShowWorkerAssignment(false);
+    setSelectedWorker('');
+    fetchOrderDetails();
+  } catch (error: any) {
+    console.error('Error auto-assigning worker:', error);
+    toast.error(error.response?.data?.message || 'Failed to auto-assign a delivery worker');
+  } finally {
+    setAssigningWorker(false);
+  }
+};
+
 const handleAssignWorker = async () => {
   if (!selectedWorker || !order) {
     toast.error('Please select a delivery worker');
@@ -159,14 +313,19 @@ const handleAssignWorker = async () => {
       throw new Error('Order ID is missing');
     }
     
-    await deliveriesAPI.assignDeliveryWorker(order.id, selectedWorker);
+    // First assignment creates the delivery; an assigned order is reassigned on the order itself
+    if (order.status === 'assigned') {
+      await ordersAPI.assignDeliveryWorker(order.id, selectedWorker);
+    } else {
+      await deliveriesAPI.assignDeliveryWorker(order.id, selectedWorker);
+    }
     toast.success('Delivery worker assigned successfully!');
     setShowWorkerAssignment(false);
     setSelectedWorker('');
     fetchOrderDetails();
   } catch (error: any) {
     console.error('Error assigning worker:', error);
-    const errorMessage = error.response?.data?.message || error.message || 'Failed to assign delivery worker';
+    const errorMessage = error.response?.data?.message || error.response?.data?.error || error.message || 'Failed to assign delivery worker';
     toast.error(errorMessage);
   } finally {
     setAssigningWorker(false);
@@ -175,7 +334,10 @@ const handleAssignWorker = async () => {
 
 const openWorkerAssignment = () => {
   setShowWorkerAssignment(true);
+  setWorkerScores({});
+  setBestWorkerId(null);
   fetchAvailableWorkers();
+  fetchWorkerScores();
 };
 
 
@@ -199,6 +361,7 @@ const openWorkerAssignment = () => {
   const getStatusColor = (status: string) => {
     const colors = {
       pending: 'bg-yellow-100 text-yellow-800',
+      backordered: 'bg-orange-100 text-orange-800',
       approved: 'bg-blue-100 text-blue-800',
       processing: 'bg-purple-100 text-purple-800',
       delivered: 'bg-green-100 text-green-800',
@@ -243,14 +406,61 @@ const openWorkerAssignment = () => {
             {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
           </span>
         </div>
-        <button
-          onClick={() => navigate('/orders')}
-          className="px-4 py-2 text-gray-600 hover:text-gray-800"
-        >
-          Back to Orders
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDownloadPDF}
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Download PDF
+          </button>
+          {user?.role === 'shopkeeper' && (
+            <button
+              onClick={() => setShowReorder(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Reorder
+            </button>
+          )}
+          {user?.role === 'shopkeeper' && order.status === 'delivered' && (
+            <button
+              onClick={() => setShowReturn(true)}
+              className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Request Return
+            </button>
+          )}
+          <button
+            onClick={() => navigate('/orders')}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800"
+          >
+            Back to Orders
+          </button>
+        </div>
       </div>
 
+      {(order.backorder || order.backorderOf) && (
+        <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-900">
+          {order.backorder && (
+            <p>
+              Some items were short-shipped and backordered as{' '}
+              <Link to={`/orders/${order.backorder.orderNumber}`} className="font-medium underline">
+                {order.backorder.orderNumber}
+              </Link>{' '}
+              ({order.backorder.status.replace('_', ' ')}).
+            </p>
+          )}
+          {order.backorderOf && (
+            <p>
+              Backorder of{' '}
+              <Link to={`/orders/${order.backorderOf.orderNumber}`} className="font-medium underline">
+                {order.backorderOf.orderNumber}
+              </Link>
+              {order.status === 'backordered' && '. It is released automatically when the company restocks.'}
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Order Details */}
         <div className="lg:col-span-2 space-y-8">
@@ -264,7 +474,13 @@ const openWorkerAssignment = () => {
                     <h3 className="font-medium">{item.productName}</h3>
                     <p className="text-sm text-gray-600">
                       {formatCurrency(item.unitPrice)} × {item.quantity} {item.unit}
+                      {item.orderedQuantity !== item.quantity && ` (ordered ${item.orderedQuantity})`}
                     </p>
+                    {item.backorderedQuantity > 0 && (
+                      <p className="text-xs text-orange-700">
+                        {item.backorderedQuantity} {item.unit} backordered
+                      </p>
+                    )}
                   </div>
                   <p className="font-medium">{formatCurrency(item.totalPrice)}</p>
                 </div>
@@ -347,6 +563,20 @@ const openWorkerAssignment = () => {
             </div>
           </div>
 
+          <PaymentPanel
+            orderId={order.id}
+            orderStatus={order.status}
+            paymentMethod={order.paymentMethod}
+            paymentStatus={order.paymentStatus}
+            amount={order.finalAmount}
+            canPay={user?.role === 'shopkeeper'}
+            onPaymentChange={fetchOrderDetails}
+          />
+
+          {order.status === 'delivered' && user?.role !== 'delivery_worker' && (
+            <DeliveryProofViewer orderId={order.id} />
+          )}
+
           {/* Contact Information */}
           <div className="bg-white p-6 rounded-lg shadow-md">
             <h2 className="text-xl font-semibold mb-4">Contact Information</h2>
@@ -374,137 +604,94 @@ const openWorkerAssignment = () => {
           </div>
 
           {/* Actions */}
-          {user && (
+          {user && actions.length > 0 && (
             <div className="bg-white p-6 rounded-lg shadow-md">
               <h2 className="text-xl font-semibold mb-4">Actions</h2>
-              
-              {/* Company Rep Actions */}
-              {user.role === 'company_rep' && order.status === 'pending' && (
-                <div className="space-y-2">
-                  <button
-                    onClick={() => handleStatusUpdate('approved')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
-                  >
-                    Approve Order
-                  </button>
-                  <button
-                    onClick={() => handleStatusUpdate('rejected')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
-                  >
-                    Reject Order
-                  </button>
-                </div>
-              )}
-              
-              {/* Company Rep - Assign Delivery Worker */}
-              {(user.role === 'company_rep' || user.role === 'admin') && order.status === 'approved' && (
-                <div className="space-y-2">
-                  <p className="text-sm text-gray-600 mb-2">Assign to delivery worker:</p>
-                  <button
-                    onClick={openWorkerAssignment}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
-                  >
-                    Assign Delivery Worker
-                  </button>
-                </div>
-              )}
-              
-              {/* Delivery Worker Actions */}
-              {user.role === 'delivery_worker' && order.status === 'assigned' && (
-                <div className="space-y-2">
-                  <button
-                    onClick={() => handleStatusUpdate('accepted')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
-                  >
-                    Accept Order
-                  </button>
-                  <button
-                    onClick={() => handleStatusUpdate('rejected_by_worker')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
-                  >
-                    Reject Order
-                  </button>
-                </div>
-              )}
-              
-              {user.role === 'delivery_worker' && order.status === 'accepted' && (
-                <div className="space-y-2">
-                  <button
-                    onClick={() => handleStatusUpdate('picked_up')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
-                  >
-                    Mark as Picked Up
-                  </button>
-                </div>
-              )}
-              
-              {user.role === 'delivery_worker' && order.status === 'picked_up' && (
-                <div className="space-y-2">
+              <div className="space-y-2">
+                {actions.map((action) => (
                   <button
-                    onClick={() => handleStatusUpdate('delivered')}
+                    key={action.status}
+                    onClick={() => handleAction(action)}
                     disabled={updating}
-                    className="w-full px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    className={`w-full px-4 py-2 text-white rounded disabled:opacity-50 ${
+                      action.destructive
+                        ? 'bg-red-600 hover:bg-red-700'
+                        : action.requiresDeliveryWorker
+                        ? 'bg-blue-600 hover:bg-blue-700'
+                        : 'bg-green-600 hover:bg-green-700'
+                    }`}
                   >
-                    Mark as Delivered
+                    {action.label}
                   </button>
-                </div>
-              )}
-              
-              {/* Shopkeeper Actions */}
-              {user.role === 'shopkeeper' && ['pending', 'approved'].includes(order.status) && (
-                <div className="space-y-2">
+                ))}
+                {order.status === 'pending' && actions.some((action) => action.status === 'approved') && (
                   <button
-                    onClick={() => handleStatusUpdate('cancelled')}
+                    onClick={openShortfallApproval}
                     disabled={updating}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    className="w-full px-4 py-2 border border-green-600 text-green-700 rounded hover:bg-green-50 disabled:opacity-50"
                   >
-                    Cancel Order
+                    Approve With Shortages
                   </button>
-                </div>
-              )}
-              
-              {/* Admin Actions */}
-              {user.role === 'admin' && (
-                <div className="space-y-2">
-                  <p className="text-sm text-gray-600 mb-2">Admin Controls:</p>
-                  {order.status === 'pending' && (
-                    <>
-                      <button
-                        onClick={() => handleStatusUpdate('approved')}
-                        disabled={updating}
-                        className="w-full px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
-                      >
-                        Force Approve
-                      </button>
-                      <button
-                        onClick={() => handleStatusUpdate('rejected')}
-                        disabled={updating}
-                        className="w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
-                      >
-                        Force Reject
-                      </button>
-                    </>
-                  )}
-                  <button
-                    onClick={() => handleStatusUpdate('cancelled')}
-                    disabled={updating}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
-                  >
-                    Cancel Order
-                  </button>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           )}
         </div>
       </div>
       
+      {/* Short-shipment Modal */}
+      {shipping && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-semibold text-gray-900">Approve With Shortages</h3>
+                <button onClick={() => setShipping(null)} className="text-gray-400 hover:text-gray-600">
+                  ×
+                </button>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                Enter how much of each item you can ship now. The rest becomes a backorder that is released when you restock.
+              </p>
+              <div className="space-y-3">
+                {order.items.map((item) => (
+                  <div key={item.productId} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm">{item.productName}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.quantity}
+                      value={shipping[item.productId]}
+                      onChange={(e) => setShipping({
+                        ...shipping,
+                        [item.productId]: Math.min(item.quantity, Math.max(0, Number(e.target.value)))
+                      })}
+                      className="w-24 p-2 border rounded"
+                    />
+                    <span className="w-28 text-sm text-gray-600">of {item.quantity} {item.unit}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 mt-6">
+                <button onClick={() => setShipping(null)} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleShortfallApproval}
+                  disabled={updating}
+                  className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showReorder && <ReorderDialog orderId={order.orderNumber} onClose={() => setShowReorder(false)} />}
+      {showReturn && <ReturnRequestDialog orderId={order.id} onClose={() => setShowReturn(false)} />}
+
       {/* Worker Assignment Modal */}
       {showWorkerAssignment && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -571,8 +758,23 @@ const openWorkerAssignment = () => {
                                 className="mr-3"
                               />
                               <div>
-                                <h5 className="font-medium text-gray-900">{worker.name}</h5>
+                                <h5 className="font-medium text-gray-900">
+                                  {worker.name}
+                                  {bestWorkerId === worker._id && (
+                                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                      Best match
+                                    </span>
+                                  )}
+                                </h5>
                                 <p className="text-sm text-gray-600">{worker.phone}</p>
+                                {workerScores[worker._id] && (
+                                  <p
+                                    className="text-xs text-gray-500"
+                                    title={`Area ${workerScores[worker._id].breakdown.area} · Availability ${workerScores[worker._id].breakdown.availability} · Load ${workerScores[worker._id].breakdown.load} · On time ${workerScores[worker._id].breakdown.onTime}`}
+                                  >
+                                    Score {workerScores[worker._id].score}/100 · {workerScores[worker._id].openDeliveries} open · {workerScores[worker._id].onTimeRate}% on time
+                                  </p>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -619,6 +821,15 @@ const openWorkerAssignment = () => {
                   >
                     Cancel
                   </button>
+                  {bestWorkerId && (
+                    <button
+                      onClick={handleAutoAssign}
+                      disabled={assigningWorker}
+                      className="flex-1 px-4 py-2 text-blue-700 border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      Auto-assign best match
+                    </button>
+                  )}
                   <button
                     onClick={handleAssignWorker}
                     disabled={!selectedWorker || assigningWorker}
@@ -4,6 +4,8 @@ import { ordersAPI } from '../../services/api';
 import { toast } from 'react-hot-toast';
 import { formatDate } from '../../utils/formatters';
 import StatusBadge from '../../components/StatusBadge';
+import ReorderDialog from '../../components/ReorderDialog';
+import { useAuth } from '../../contexts/AuthContext';
 
 // Enhanced TypeScript interfaces
 interface OrderItem {
@@ -18,7 +20,7 @@ interface OrderSummary {
   companyName: string;
   shopName: string;
   totalAmount: number;
-  status: 'pending' | 'approved' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'rejected';
+  status: 'pending' | 'backordered' | 'approved' | 'processing' | 'assigned' | 'accepted' | 'picked_up' | 'shipped' | 'delivered' | 'cancelled' | 'rejected';
   createdAt: string;
   deliveredAt?: string | null;
   items: OrderItem[];
@@ -52,6 +54,8 @@ interface OrderHistoryResponse {
 }
 
 const OrderHistory: React.FC = () => {
+  const { user } = useAuth();
+  const [reorderOrder, setReorderOrder] = useState<string | null>(null);
   const [orders, setOrders] = useState<OrderSummary[]>([]);
   const [pagination, setPagination] = useState<PaginationInfo>({
     currentPage: 1,
@@ -190,6 +194,8 @@ const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectEl
             <option value="pending">Pending</option>
             <option value="approved">Approved</option>
             <option value="processing">Processing</option>
+            <option value="assigned,accepted">Assigned</option>
+            <option value="picked_up,shipped">Out for Delivery</option>
             <option value="delivered">Delivered</option>
             <option value="cancelled">Cancelled</option>
           </select>
@@ -259,6 +265,18 @@ const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectEl
                 <div className="text-right">
                   <StatusBadge status={order.status} />
                   <p className="mt-2 text-lg font-semibold">৳{order.totalAmount.toFixed(2)}</p>
+                  {user?.role === 'shopkeeper' && (
+                    <button
+                      onClick={(e) => {
+                        // The card is a link to the order; only open the dialog
+                        e.preventDefault();
+                        setReorderOrder(order.orderNumber);
+                      }}
+                      className="mt-2 px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded hover:bg-blue-50"
+                    >
+                      Reorder
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -308,6 +326,8 @@ const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectEl
           </button>
         </div>
       )}
+
+      {reorderOrder && <ReorderDialog orderId={reorderOrder} onClose={() => setReorderOrder(null)} />}
     </div>
   );
 };
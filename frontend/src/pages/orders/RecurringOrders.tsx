@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Repeat, Pause, Play, Pencil, Trash2, SkipForward, Undo2, CalendarClock, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { recurringOrdersAPI, productsAPI } from '../../services/api';
+import RecurringScheduleFields, { RecurringSchedule, describeSchedule } from '../../components/RecurringScheduleFields';
+
+interface RecurringItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unit: string;
+  lastUnitPrice?: number;
+}
+
+interface RecurringRun {
+  scheduledFor: string;
+  status: 'created' | 'failed' | 'skipped';
+  orderNumber?: string;
+  changes: string[];
+  message?: string;
+}
+
+interface RecurringOrder {
+  _id: string;
+  name: string;
+  companyId: { _id: string; name: string; companyInfo?: { companyName: string } };
+  items: RecurringItem[];
+  deliveryArea: string;
+  deliveryCity: string;
+  paymentMethod: string;
+  schedule: RecurringSchedule;
+  status: 'active' | 'paused';
+  upcoming: { scheduledFor: string; skipped: boolean }[];
+  runs: RecurringRun[];
+}
+
+interface Product {
+  _id: string;
+  name: string;
+  unit: string;
+  unitPrice?: number;
+}
+
+const runClasses: Record<RecurringRun['status'], string> = {
+  created: 'text-green-700',
+  failed: 'text-red-700',
+  skipped: 'text-gray-500',
+};
+
+// Name, items and schedule of one recurring order
+const EditRecurringOrder: React.FC<{
+  recurring: RecurringOrder;
+  onSaved: (recurring: RecurringOrder) => void;
+  onCancel: () => void;
+}> = ({ recurring, onSaved, onCancel }) => {
+  const [name, setName] = useState(recurring.name);
+  const [items, setItems] = useState(recurring.items.map((item) => ({ ...item })));
+  const [schedule, setSchedule] = useState<RecurringSchedule>({
+    ...recurring.schedule,
+    startDate: recurring.schedule.startDate?.slice(0, 10),
+  });
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    productsAPI.getProductsByCompany(recurring.companyId._id)
+      .then((response) => setProducts(response.data.products || []))
+      .catch((error) => console.error('Failed to load products:', error));
+  }, [recurring.companyId._id]);
+
+  const addProduct = (productId: string) => {
+    const product = products.find((p) => p._id === productId);
+    if (!product || items.some((item) => item.productId === productId)) return;
+    setItems([...items, { productId, productName: product.name, quantity: 1, unit: product.unit }]);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!items.length) {
+      toast.error('Keep at least one item');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const response = await recurringOrdersAPI.update(recurring._id, {
+        name,
+        items: items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+        schedule,
+      });
+      toast.success('Recurring order updated');
+      onSaved(response.data.recurringOrder);
+    } catch (error: any) {
+      console.error('Failed to update recurring order:', error);
+      toast.error(error.response?.data?.message || 'Failed to update recurring order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="mt-4 pt-4 border-t space-y-4">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full p-2 border rounded"
+        required
+      />
+
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={item.productId} className="flex items-center gap-2">
+            <span className="flex-1 text-sm">{item.productName}</span>
+            <input
+              type="number"
+              min={1}
+              value={item.quantity}
+              onChange={(e) => setItems(items.map((it, i) => (i === index ? { ...it, quantity: Number(e.target.value) } : it)))}
+              className="w-24 p-2 border rounded"
+            />
+            <span className="w-12 text-sm text-gray-600">{item.unit}</span>
+            <button
+              type="button"
+              onClick={() => setItems(items.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <select value="" onChange={(e) => addProduct(e.target.value)} className="w-full p-2 border rounded text-sm">
+          <option value="">Add a product...</option>
+          {products
+            .filter((product) => !items.some((item) => item.productId === product._id))
+            .map((product) => (
+              <option key={product._id} value={product._id}>
+                {product.name} - ৳{(product.unitPrice || 0).toFixed(2)}/{product.unit}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      <RecurringScheduleFields value={schedule} onChange={setSchedule} />
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const RecurringOrders: React.FC = () => {
+  const [recurringOrders, setRecurringOrders] = useState<RecurringOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRecurringOrders();
+  }, []);
+
+  const loadRecurringOrders = async () => {
+    try {
+      setLoading(true);
+      const response = await recurringOrdersAPI.getAll();
+      setRecurringOrders(response.data.recurringOrders || []);
+    } catch (error: any) {
+      console.error('Failed to load recurring orders:', error);
+      toast.error(error.response?.data?.message || 'Failed to load recurring orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Swap in the server's copy; populated fields are kept from the list
+  const replace = (updated: RecurringOrder) => {
+    setRecurringOrders((current) =>
+      current.map((recurring) => (recurring._id === updated._id ? { ...updated, companyId: recurring.companyId } : recurring))
+    );
+  };
+
+  const runAction = async (action: () => Promise<any>, success: string) => {
+    try {
+      const response = await action();
+      replace(response.data.recurringOrder);
+      toast.success(success);
+    } catch (error: any) {
+      console.error('Recurring order action failed:', error);
+      toast.error(error.response?.data?.message || 'Something went wrong');
+    }
+  };
+
+  const remove = async (recurring: RecurringOrder) => {
+    if (!window.confirm(`Delete "${recurring.name}"? Orders it already placed are kept.`)) return;
+    try {
+      await recurringOrdersAPI.remove(recurring._id);
+      setRecurringOrders((current) => current.filter((r) => r._id !== recurring._id));
+      toast.success('Recurring order deleted');
+    } catch (error: any) {
+      console.error('Failed to delete recurring order:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete recurring order');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+            <Repeat className="w-6 h-6 mr-2 text-blue-600" />
+            Recurring Orders
+          </h1>
+          <p className="text-gray-600">Orders placed for you on a schedule, checked against the day's stock and prices</p>
+        </div>
+        <Link to="/orders/create" className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center">
+          <Plus className="w-4 h-4 mr-1" />
+          New order
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : recurringOrders.length === 0 ? (
+        <div className="text-center py-12">
+          <Repeat className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No recurring orders</h3>
+          <p className="text-gray-600">Tick "Repeat this order" when you place an order to have it placed again on a schedule.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {recurringOrders.map((recurring) => (
+            <div key={recurring._id} className="bg-white rounded-lg shadow border p-6">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {recurring.name}
+                    <span
+                      className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                        recurring.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {recurring.status}
+                    </span>
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    {recurring.companyId.companyInfo?.companyName || recurring.companyId.name} · {describeSchedule(recurring.schedule)}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {recurring.items.map((item) => `${item.quantity} ${item.unit} ${item.productName}`).join(', ')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {recurring.status === 'active' ? (
+                    <button
+                      onClick={() => runAction(() => recurringOrdersAPI.pause(recurring._id), 'Recurring order paused')}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center"
+                    >
+                      <Pause className="w-4 h-4 mr-1" />
+                      Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runAction(() => recurringOrdersAPI.resume(recurring._id), 'Recurring order resumed')}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center"
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing(editing === recurring._id ? null : recurring._id)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center"
+                  >
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => remove(recurring)}
+                    className="px-3 py-1 text-sm border border-red-200 text-red-700 rounded hover:bg-red-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {editing === recurring._id && (
+                <EditRecurringOrder
+                  recurring={recurring}
+                  onCancel={() => setEditing(null)}
+                  onSaved={(updated) => {
+                    replace(updated);
+                    setEditing(null);
+                  }}
+                />
+              )}
+
+              {recurring.upcoming.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                    <CalendarClock className="w-4 h-4 mr-1" />
+                    Upcoming
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {recurring.upcoming.map((occurrence) => (
+                      <div
+                        key={occurrence.scheduledFor}
+                        className={`px-3 py-1 rounded border text-sm flex items-center ${
+                          occurrence.skipped ? 'border-gray-200 text-gray-400 line-through' : 'border-blue-200 text-blue-800'
+                        }`}
+                      >
+                        {format(new Date(occurrence.scheduledFor), 'EEE, MMM dd HH:mm')}
+                        <button
+                          onClick={() =>
+                            runAction(
+                              () => recurringOrdersAPI.skip(recurring._id, occurrence.scheduledFor, !occurrence.skipped),
+                              occurrence.skipped ? 'Occurrence restored' : 'Occurrence skipped'
+                            )
+                          }
+                          className="ml-2 text-gray-500 hover:text-gray-800 no-underline"
+                          title={occurrence.skipped ? 'Order this one after all' : 'Skip this one'}
+                        >
+                          {occurrence.skipped ? <Undo2 className="w-3 h-3" /> : <SkipForward className="w-3 h-3" />}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {recurring.runs.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-gray-700 mb-2">Recent</p>
+                  <ul className="space-y-1 text-sm">
+                    {recurring.runs.slice(0, 5).map((run) => (
+                      <li key={run.scheduledFor}>
+                        <span className="text-gray-600">{format(new Date(run.scheduledFor), 'MMM dd, HH:mm')}</span>{' '}
+                        <span className={runClasses[run.status]}>
+                          {run.status === 'created' && run.orderNumber ? (
+                            <>
+                              Placed <Link to={`/orders/${run.orderNumber}`} className="underline">{run.orderNumber}</Link>
+                            </>
+                          ) : run.status === 'failed' ? (
+                            `Not placed: ${run.message}`
+                          ) : (
+                            'Skipped'
+                          )}
+                        </span>
+                        {run.changes.length > 0 && <p className="text-xs text-orange-700">{run.changes.join('; ')}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringOrders;
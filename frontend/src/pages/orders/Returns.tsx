@@ -0,0 +1,401 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { RotateCcw, Check, X, Truck, Receipt } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { returnsAPI, deliveriesAPI, uploadUrl } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import StatusBadge from '../../components/StatusBadge';
+import { returnReasonLabels } from '../../components/ReturnRequestDialog';
+import { hasPermission } from '../../utils/permissions';
+
+interface ReturnItem {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+}
+
+interface ReturnRequest {
+  _id: string;
+  returnNumber: string;
+  orderId: string;
+  orderNumber: string;
+  shopkeeperId: { _id: string; name: string; phone?: string; shopkeeperInfo?: { shopName?: string } };
+  companyId: { _id: string; name: string; companyInfo?: { companyName?: string } };
+  items: ReturnItem[];
+  amount: number;
+  reason: string;
+  description: string;
+  photos: { path: string; thumbnail: string }[];
+  status: string;
+  decisionNote?: string;
+  pickupDeliveryId?: { _id: string; deliveryNumber: string; status: string; failureReason?: string };
+  createdAt: string;
+}
+
+interface CreditNote {
+  _id: string;
+  creditNoteNumber: string;
+  returnNumber: string;
+  orderNumber: string;
+  shopkeeperId: { name: string; shopkeeperInfo?: { shopName?: string } };
+  companyId: { name: string; companyInfo?: { companyName?: string } };
+  amount: number;
+  status: 'issued' | 'settled';
+  settledAt?: string;
+  settlementNote?: string;
+  createdAt: string;
+}
+
+interface Worker {
+  _id: string;
+  name: string;
+  area: string;
+  availability: string;
+}
+
+const STATUSES = ['requested', 'approved', 'picked_up', 'completed', 'rejected', 'cancelled'];
+
+const formatCurrency = (amount: number) => `৳${amount.toFixed(2)}`;
+
+const Returns: React.FC = () => {
+  const { user } = useAuth();
+  const isCompany = user?.role === 'company_rep' || user?.role === 'admin';
+  const canDecide = hasPermission(user, 'approve_orders');
+  const canSchedulePickup = hasPermission(user, 'assign_deliveries');
+  const canSettle = hasPermission(user, 'settle_collections');
+  const [tab, setTab] = useState<'returns' | 'credit'>('returns');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [openBalance, setOpenBalance] = useState(0);
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Return being approved or sent again, with the chosen worker ('' = best available)
+  const [pickup, setPickup] = useState<{ id: string; retry: boolean; workerId: string } | null>(null);
+  const [rejecting, setRejecting] = useState<{ id: string; note: string } | null>(null);
+
+  const fetchData = async () => {
+    try {
+      const [returnsResponse, creditResponse] = await Promise.all([
+        returnsAPI.getAll(statusFilter ? { status: statusFilter } : undefined),
+        returnsAPI.getCreditNotes(),
+      ]);
+      setReturns(returnsResponse.data.returns || []);
+      setCreditNotes(creditResponse.data.creditNotes || []);
+      setOpenBalance(creditResponse.data.openBalance || 0);
+    } catch (error) {
+      console.error('Failed to load returns:', error);
+      toast.error('Failed to load returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!canSchedulePickup) return;
+    deliveriesAPI.getAllAvailableWorkers()
+      .then((response) => setWorkers(response.data.workers || []))
+      .catch((error) => console.error('Failed to load delivery workers:', error));
+  }, [canSchedulePickup]);
+
+  const runAction = async (id: string, action: () => Promise<any>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(success);
+      setPickup(null);
+      setRejecting(null);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Return action failed:', error);
+      toast.error(error.response?.data?.message || 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePickup = () => {
+    if (!pickup) return;
+    const workerId = pickup.workerId || undefined;
+    runAction(
+      pickup.id,
+      () => (pickup.retry ? returnsAPI.schedulePickup(pickup.id, workerId) : returnsAPI.approve(pickup.id, workerId)),
+      pickup.retry ? 'Pickup sent again' : 'Return approved and pickup scheduled'
+    );
+  };
+
+  const shopName = (item: ReturnRequest | CreditNote) => item.shopkeeperId?.shopkeeperInfo?.shopName || item.shopkeeperId?.name;
+  const companyName = (item: ReturnRequest | CreditNote) => item.companyId?.companyInfo?.companyName || item.companyId?.name;
+
+  const pickupFailed = (item: ReturnRequest) =>
+    ['approved', 'picked_up'].includes(item.status) && ['failed', 'returned'].includes(item.pickupDeliveryId?.status || '');
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+          <RotateCcw className="w-6 h-6 mr-2 text-blue-600" />
+          Returns
+        </h1>
+        <p className="text-gray-600">
+          {isCompany
+            ? 'Goods shops want to send back, their pickups and the credit owed for them'
+            : 'Goods you sent back and the credit you are owed for them'}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between mb-4 border-b">
+        <div className="flex gap-4">
+          <button
+            onClick={() => setTab('returns')}
+            className={`pb-2 ${tab === 'returns' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-600'}`}
+          >
+            Return requests
+          </button>
+          <button
+            onClick={() => setTab('credit')}
+            className={`pb-2 ${tab === 'credit' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-600'}`}
+          >
+            Credit notes
+          </button>
+        </div>
+        {tab === 'returns' && (
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="mb-2 px-3 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>{status.replace('_', ' ')}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : tab === 'returns' ? (
+        returns.length === 0 ? (
+          <div className="text-center py-12">
+            <RotateCcw className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No returns</h3>
+            <p className="text-gray-600">
+              {isCompany ? 'Return requests from shops show up here.' : 'Open a delivered order and choose "Request Return" to send goods back.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {returns.map((item) => (
+              <div key={item._id} className="bg-white rounded-lg shadow p-5">
+                <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {item.returnNumber}{' '}
+                      <span className="text-sm font-normal text-gray-600">
+                        for <Link to={`/orders/${item.orderNumber}`} className="text-blue-600 hover:underline">{item.orderNumber}</Link>
+                      </span>
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {isCompany ? shopName(item) : companyName(item)} · {format(new Date(item.createdAt), 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                  <StatusBadge status={item.status} />
+                </div>
+
+                <ul className="text-sm text-gray-800 mb-2">
+                  {item.items.map((line) => (
+                    <li key={line.productId} className="flex justify-between">
+                      <span>{line.quantity} {line.unit} {line.productName}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </li>
+                  ))}
+                  <li className="flex justify-between font-semibold border-t mt-1 pt-1">
+                    <span>Credit on completion</span>
+                    <span>{formatCurrency(item.amount)}</span>
+                  </li>
+                </ul>
+
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">{returnReasonLabels[item.reason] || item.reason}</span>
+                  {item.description && ` – ${item.description}`}
+                </p>
+
+                {item.photos.length > 0 && (
+                  <div className="flex gap-2 mt-2">
+                    {item.photos.map((photo) => (
+                      <a key={photo.path} href={uploadUrl(photo.path)} target="_blank" rel="noopener noreferrer">
+                        <img src={uploadUrl(photo.thumbnail)} alt="Returned goods" className="w-16 h-16 object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {item.decisionNote && (
+                  <p className="text-sm text-gray-600 mt-2">Company note: {item.decisionNote}</p>
+                )}
+                {item.pickupDeliveryId && (
+                  <p className="text-sm text-gray-600 mt-2 flex items-center">
+                    <Truck className="w-4 h-4 mr-1" />
+                    Pickup {item.pickupDeliveryId.deliveryNumber}: {item.pickupDeliveryId.status.replace('_', ' ')}
+                    {item.pickupDeliveryId.failureReason && ` (${item.pickupDeliveryId.failureReason})`}
+                  </p>
+                )}
+
+                {canDecide && item.status === 'requested' && !pickup && !rejecting && (
+                  <div className="flex gap-2 mt-4">
+                    {canSchedulePickup && (
+                      <button
+                        onClick={() => setPickup({ id: item._id, retry: false, workerId: '' })}
+                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-sm flex items-center"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setRejecting({ id: item._id, note: '' })}
+                      className="px-3 py-1 border border-red-300 text-red-700 rounded hover:bg-red-50 text-sm flex items-center"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+                {canSchedulePickup && pickupFailed(item) && !pickup && (
+                  <button
+                    onClick={() => setPickup({ id: item._id, retry: true, workerId: '' })}
+                    className="mt-4 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+                  >
+                    Send pickup again
+                  </button>
+                )}
+                {!isCompany && item.status === 'requested' && (
+                  <button
+                    onClick={() => runAction(item._id, () => returnsAPI.cancel(item._id), 'Return cancelled')}
+                    disabled={busyId === item._id}
+                    className="mt-4 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:opacity-50"
+                  >
+                    Cancel return
+                  </button>
+                )}
+
+                {pickup?.id === item._id && (
+                  <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-2">
+                    <label className="text-sm text-gray-700">Pickup by</label>
+                    <select
+                      value={pickup.workerId}
+                      onChange={(e) => setPickup({ ...pickup, workerId: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="">Best available worker</option>
+                      {workers.map((worker) => (
+                        <option key={worker._id} value={worker._id}>
+                          {worker.name} ({worker.area}, {worker.availability})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handlePickup}
+                      disabled={busyId === item._id}
+                      className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-sm disabled:opacity-50"
+                    >
+                      {pickup.retry ? 'Send pickup' : 'Approve return'}
+                    </button>
+                    <button onClick={() => setPickup(null)} className="px-3 py-1 text-gray-600 hover:text-gray-800 text-sm">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+
+                {rejecting?.id === item._id && (
+                  <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={rejecting.note}
+                      onChange={(e) => setRejecting({ ...rejecting, note: e.target.value })}
+                      placeholder="Why is the return rejected?"
+                      className="flex-1 px-3 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <button
+                      onClick={() => runAction(item._id, () => returnsAPI.reject(item._id, rejecting.note), 'Return rejected')}
+                      disabled={!rejecting.note.trim() || busyId === item._id}
+                      className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm disabled:opacity-50"
+                    >
+                      Reject return
+                    </button>
+                    <button onClick={() => setRejecting(null)} className="px-3 py-1 text-gray-600 hover:text-gray-800 text-sm">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-5 mb-4 flex items-center justify-between">
+            <div className="flex items-center">
+              <Receipt className="w-6 h-6 mr-3 text-blue-600" />
+              <div>
+                <p className="text-sm text-gray-600">{isCompany ? 'Open credit owed to shops' : 'Open credit owed to you'}</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(openBalance)}</p>
+              </div>
+            </div>
+          </div>
+
+          {creditNotes.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">No credit notes yet. They are issued when returned goods reach the company.</p>
+          ) : (
+            <div className="bg-white rounded-lg shadow divide-y">
+              {creditNotes.map((note) => (
+                <div key={note._id} className="p-4 flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {note.creditNoteNumber} · {formatCurrency(note.amount)}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {isCompany ? shopName(note) : companyName(note)} · return {note.returnNumber} of {note.orderNumber} ·{' '}
+                      {format(new Date(note.createdAt), 'MMM dd, yyyy')}
+                    </p>
+                    {note.settledAt && (
+                      <p className="text-xs text-gray-500">
+                        Settled {format(new Date(note.settledAt), 'MMM dd, yyyy')}
+                        {note.settlementNote && `: ${note.settlementNote}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={note.status} />
+                    {canSettle && note.status === 'issued' && (
+                      <button
+                        onClick={() => runAction(note._id, () => returnsAPI.settleCreditNote(note._id), 'Credit note settled')}
+                        disabled={busyId === note._id}
+                        className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:opacity-50"
+                      >
+                        Mark settled
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Returns;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Package, Search, Filter, MoreVertical, Eye, TrendingUp, AlertTriangle } from 'lucide-react';
 import { productsAPI } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
+import { companyIdOf } from '../../utils/permissions';
 import toast from 'react-hot-toast';
 import EmptyState from '../../components/EmptyState';
 import Loading from '../../components/Loading';
@@ -13,6 +14,7 @@ interface Product {
   unitPrice: number;
   unit: string;
   stockQuantity: number;
+  reservedQuantity?: number;
   description?: string;
   companyID: string;
   imageUrl?: string;
@@ -23,6 +25,91 @@ interface Product {
   updatedAt: string;
 }
 
+interface StockMovement {
+  _id: string;
+  type: 'reservation' | 'commit' | 'release' | 'adjustment';
+  quantity: number;
+  stockDelta: number;
+  reservedDelta: number;
+  stockAfter?: number;
+  reservedAfter?: number;
+  orderNumber?: string;
+  note?: string;
+  actor?: { name?: string; role?: string };
+  createdAt: string;
+}
+
+const movementLabels: Record<StockMovement['type'], { label: string; color: string }> = {
+  reservation: { label: 'Reserved', color: 'bg-yellow-100 text-yellow-800' },
+  commit: { label: 'Delivered', color: 'bg-green-100 text-green-800' },
+  release: { label: 'Released', color: 'bg-blue-100 text-blue-800' },
+  adjustment: { label: 'Adjustment', color: 'bg-gray-100 text-gray-800' },
+};
+
+const StockLedgerModal: React.FC<{ product: Product; onClose: () => void }> = ({ product, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    productsAPI.getStockMovements(product._id, { limit: 50 })
+      .then(response => setMovements(response.data.movements || []))
+      .catch(error => {
+        console.error('Failed to load stock movements:', error);
+        toast.error('Failed to load stock history');
+      })
+      .finally(() => setLoading(false));
+  }, [product._id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[80vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Stock History — {product.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+        {loading ? (
+          <Loading message="Loading stock history..." />
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-gray-500">No stock movements recorded yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reserved</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {movements.map(movement => (
+                <tr key={movement._id}>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${movementLabels[movement.type].color}`}>
+                      {movementLabels[movement.type].label}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">{movement.orderNumber || '—'}</td>
+                  <td className="px-3 py-2 text-right">
+                    {movement.stockDelta > 0 ? '+' : ''}{movement.stockDelta} → {movement.stockAfter ?? '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {movement.reservedDelta > 0 ? '+' : ''}{movement.reservedDelta} → {movement.reservedAfter ?? '—'}
+                  </td>
+                  <td className="px-3 py-2">{movement.actor?.name || 'System'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
 interface ProductFormData {
   name: string;
   category: string;
@@ -44,6 +131,7 @@ const CompanyProductManagement: React.FC = () => {
   const [categories, setCategories] = useState<string[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [ledgerProduct, setLedgerProduct] = useState<Product | null>(null);
   const [formData, setFormData] = useState<ProductFormData>({
     name: '',
     category: '',
@@ -64,7 +152,7 @@ const CompanyProductManagement: React.FC = () => {
   const loadProducts = async () => {
     try {
       setLoading(true);
-      const response = await productsAPI.getProductsByCompany(user!._id);
+      const response = await productsAPI.getProductsByCompany(companyIdOf(user));
       const productsData = response.data.products || [];
       setProducts(productsData);
 
@@ -138,7 +226,9 @@ const CompanyProductManagement: React.FC = () => {
       loadProducts();
     } catch (error: any) {
       console.error('Failed to update stock:', error);
-      toast.error(error.response?.data?.message || 'Failed to update stock');
+      toast.error(error.response?.data?.message || error.response?.data?.error || 'Failed to update stock');
+      // Stock may have changed through an order in the meantime
+      if (error.response?.status === 409) loadProducts();
     }
   };
 
@@ -481,6 +571,11 @@ const CompanyProductManagement: React.FC = () => {
                           onChange={(e) => handleStockUpdate(product._id, parseInt(e.target.value) || 0)}
                           className="w-20 text-sm rounded border-gray-300 focus:border-blue-500 focus:ring-blue-500"
                         />
+                        {(product.reservedQuantity || 0) > 0 && (
+                          <div className="mt-1 text-xs text-gray-500">
+                            {product.reservedQuantity} reserved for open orders
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${stockStatus.color}`}>
@@ -488,6 +583,13 @@ const CompanyProductManagement: React.FC = () => {
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => setLedgerProduct(product)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Stock history"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
                         <button
                           onClick={() => handleEdit(product)}
                           className="text-blue-600 hover:text-blue-900"
@@ -509,6 +611,10 @@ const CompanyProductManagement: React.FC = () => {
           </div>
         </div>
       )}
+
+      {ledgerProduct && (
+        <StockLedgerModal product={ledgerProduct} onClose={() => setLedgerProduct(null)} />
+      )}
     </div>
   );
 };
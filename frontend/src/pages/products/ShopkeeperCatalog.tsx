@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Search, Filter, ShoppingCart, Package, Star, MapPin } from 'lucide-react';
 import { productsAPI, profileAPI } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import QuantityStepper from '../../components/QuantityStepper';
 import toast from 'react-hot-toast';
 import EmptyState from '../../components/EmptyState';
 import Loading from '../../components/Loading';
@@ -39,6 +42,9 @@ interface Company {
 
 const ShopkeeperCatalog: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { cart, addToCart, updateQuantity, removeFromCart, getQuantity } = useCart();
+  const [pendingProductId, setPendingProductId] = useState<string | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
@@ -111,11 +117,45 @@ const ShopkeeperCatalog: React.FC = () => {
     }
   });
 
-  const handleAddToCart = (product: Product) => {
-    // This would typically integrate with a cart system
-    toast.success(`${product.name} added to your order list!`);
+  const handleAddToCart = async (product: Product) => {
+    setPendingProductId(product._id);
+    try {
+      await addToCart(product._id);
+      toast.success(`${product.name} added to your cart!`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to add to cart');
+    } finally {
+      setPendingProductId(null);
+    }
   };
 
+  const handleCartQuantityChange = async (product: Product, quantity: number) => {
+    setPendingProductId(product._id);
+    try {
+      await updateQuantity(product._id, quantity);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update cart');
+    } finally {
+      setPendingProductId(null);
+    }
+  };
+
+  const handleRemoveFromCart = async (product: Product) => {
+    setPendingProductId(product._id);
+    try {
+      await removeFromCart(product._id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update cart');
+    } finally {
+      setPendingProductId(null);
+    }
+  };
+
+  const getMaxQuantity = (product: Product) =>
+    product.maxOrderQuantity
+      ? Math.min(product.maxOrderQuantity, product.stockQuantity)
+      : product.stockQuantity;
+
   if (loading) {
     return <Loading />;
   }
@@ -130,11 +170,18 @@ const ShopkeeperCatalog: React.FC = () => {
             Browse products from companies in your area
           </p>
         </div>
-        <div className="mt-4 sm:mt-0">
+        <div className="mt-4 sm:mt-0 flex items-center gap-3">
           <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
             <MapPin className="w-4 h-4 mr-1" />
             {user?.area}, {user?.city}
           </span>
+          <button
+            onClick={() => navigate('/cart')}
+            className="inline-flex items-center px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <ShoppingCart className="w-4 h-4 mr-1" />
+            Cart ({cart.itemCount})
+          </button>
         </div>
       </div>
 
@@ -272,18 +319,37 @@ const ShopkeeperCatalog: React.FC = () => {
                 )}
 
                 {/* Action Button */}
-                <button
-                  onClick={() => handleAddToCart(product)}
-                  disabled={product.availability === 'out_of_stock'}
-                  className={`w-full flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md ${
-                    product.availability === 'out_of_stock'
-                      ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                      : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
-                  }`}
-                >
-                  <ShoppingCart className="h-4 w-4 mr-2" />
-                  {product.availability === 'out_of_stock' ? 'Out of Stock' : 'Add to Order'}
-                </button>
+                {getQuantity(product._id) > 0 ? (
+                  <div className="flex items-center justify-between">
+                    <QuantityStepper
+                      value={getQuantity(product._id)}
+                      min={product.minOrderQuantity || 1}
+                      max={Math.max(getMaxQuantity(product), product.minOrderQuantity || 1)}
+                      disabled={pendingProductId === product._id}
+                      onChange={(quantity) => handleCartQuantityChange(product, quantity)}
+                    />
+                    <button
+                      onClick={() => handleRemoveFromCart(product)}
+                      disabled={pendingProductId === product._id}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => handleAddToCart(product)}
+                    disabled={product.availability === 'out_of_stock' || pendingProductId === product._id}
+                    className={`w-full flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md ${
+                      product.availability === 'out_of_stock'
+                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                        : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    }`}
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    {product.availability === 'out_of_stock' ? 'Out of Stock' : 'Add to Cart'}
+                  </button>
+                )}
               </div>
             </div>
           ))}
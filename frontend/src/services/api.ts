@@ -1,12 +1,18 @@
 import axios from 'axios';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:1591/api';
+export const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:1591/api';
+
+// Full URL of a file the backend serves under /uploads
+export const uploadUrl = (filePath: string) =>
+  filePath.startsWith('/uploads/') ? `${API_BASE_URL.replace(/\/api\/?$/, '')}${filePath}` : filePath;
 
 export const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
+  // Sends the httpOnly refresh token cookie to /auth/refresh and /auth/logout
+  withCredentials: true,
 });
 
 // Request interceptor to add auth token
@@ -23,21 +29,77 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+// Auth calls whose 401 means wrong credentials or an ended session, not an expired access token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/otp/', '/auth/register', '/auth/refresh', '/auth/logout', '/auth/change-password'];
+
+let refreshing: Promise<string> | null = null;
+
+const requestNewToken = async (): Promise<string> => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {}, { withCredentials: true });
+    return response.data.token;
+  } catch (error: any) {
+    // Another tab refreshed at the same moment; its new cookie is already set
+    if (error.response?.status === 409) {
+      const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {}, { withCredentials: true });
+      return response.data.token;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get a new access token with the refresh token cookie. Concurrent callers
+ * share one request, as the refresh token can be used only once.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshing) {
+    refreshing = requestNewToken()
+      .then((token) => {
+        localStorage.setItem('token', token);
+        api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+        return token;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// Response interceptor: on 401, refresh the access token once and retry the request
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error) => {
+    const original = error.config;
+    if (error.response?.status !== 401 || !original || NO_REFRESH_URLS.some((url) => original.url?.startsWith(url))) {
+      return Promise.reject(error);
+    }
+
+    if (!original._retry) {
+      original._retry = true;
+      try {
+        const token = await refreshAccessToken();
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      } catch (refreshError) {
+        console.error('Session refresh failed:', refreshError);
+      }
     }
+
+    // The session has ended
+    localStorage.removeItem('token');
+    window.location.href = '/login';
     return Promise.reject(error);
   }
 );
 
+// Lets the server recognise a retried request (see middleware/idempotency.js)
+const idempotencyHeaders = (key?: string): Record<string, string> =>
+  key ? { 'Idempotency-Key': key } : {};
+
 // Auth API
 export const authAPI = {
   login: (email: string, password: string) =>
@@ -54,6 +116,30 @@ export const authAPI = {
   
   forgotPassword: (email: string) =>
     api.post('/auth/forgot-password', { email }),
+  
+  checkResetToken: (token: string) =>
+    api.get(`/auth/reset-password/${token}`),
+  
+  resetPassword: (token: string, password: string) =>
+    api.post('/auth/reset-password', { token, password }),
+  
+  requestLoginCode: (phone: string) =>
+    api.post('/auth/otp/request', { phone }),
+  
+  sendPhoneCode: () =>
+    api.post('/auth/phone/send-code'),
+  
+  logout: () =>
+    api.post('/auth/logout'),
+  
+  getSessions: () =>
+    api.get('/auth/sessions'),
+  
+  revokeSession: (sessionId: string) =>
+    api.delete(`/auth/sessions/${sessionId}`),
+  
+  revokeOtherSessions: () =>
+    api.post('/auth/sessions/revoke-all'),
 };
 
 export const orderAPI = {
@@ -106,11 +192,21 @@ export const ordersAPI = {
   createOrder: (orderData: any) =>
     api.post('/orders', orderData),
   
+  getQuote: (quoteData: { companyId: string; items: { productId: string; quantity: number }[]; deliveryArea?: string; deliveryCity?: string }) =>
+    api.post('/orders/quote', quoteData),
+  
   getOrder: (orderId: string) =>
     api.get(`/orders/${orderId}`),
   
-  updateOrderStatus: (orderId: string, status: string, rejectionReason?: string) =>
-    api.put(`/orders/${orderId}/status`, { status, rejectionReason }),
+  getOrderActions: (orderId: string) =>
+    api.get(`/orders/${orderId}/actions`),
+  
+  getReorder: (orderId: string) =>
+    api.get(`/orders/${orderId}/reorder`),
+  
+  // `fulfilment` approves with lines short-shipped; the rest becomes a backorder
+  updateOrderStatus: (orderId: string, status: string, rejectionReason?: string, fulfilment?: { productId: string; quantity: number }[]) =>
+    api.put(`/orders/${orderId}/status`, { status, rejectionReason, fulfilment }),
   
   assignDeliveryWorker: (orderId: string, deliveryWorkerId: string) =>
     api.put(`/orders/${orderId}/assign`, { deliveryWorkerId }),
@@ -143,21 +239,54 @@ export const deliveriesAPI = {
   getCompanyDeliveries: (params?: any) =>
     api.get('/delivery/company', { params }),
   
+  getRoute: () =>
+    api.get('/delivery/route'),
+  
+  planRoute: (startArea?: string) =>
+    api.post('/delivery/route', { startArea }),
+  
   getDelivery: (deliveryId: string) =>
     api.get(`/delivery/${deliveryId}`),
   
-  updateDeliveryStatus: (deliveryId: string, status: string, issues?: any[]) =>
-    api.put(`/delivery/${deliveryId}/status`, { status, issues }),
+  updateDeliveryStatus: (deliveryId: string, status: string, issues?: any[], idempotencyKey?: string) =>
+    api.put(`/delivery/${deliveryId}/status`, { status, issues }, {
+      headers: idempotencyHeaders(idempotencyKey),
+    }),
   
-  completeDelivery: (deliveryId: string, proof: any) =>
-    api.put(`/delivery/${deliveryId}/complete`, proof),
+  completeDelivery: (deliveryId: string, proof: FormData, idempotencyKey?: string) =>
+    api.put(`/delivery/${deliveryId}/complete`, proof, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        ...idempotencyHeaders(idempotencyKey),
+      },
+    }),
   
-  reportDeliveryIssue: (deliveryId: string, issueData: any) =>
-    api.put(`/delivery/${deliveryId}/report-issue`, issueData),
+  getOrderProof: (orderId: string) =>
+    api.get(`/delivery/order/${orderId}/proof`),
+  
+  reportDeliveryIssue: (deliveryId: string, issueData: any, idempotencyKey?: string) =>
+    api.put(`/delivery/${deliveryId}/report-issue`, issueData, {
+      headers: idempotencyHeaders(idempotencyKey),
+    }),
+  
+  getIssues: (params?: any) =>
+    api.get('/delivery/issues', { params }),
+  
+  acknowledgeIssue: (deliveryId: string, issueId: string) =>
+    api.put(`/delivery/${deliveryId}/issues/${issueId}/acknowledge`),
+  
+  resolveIssue: (deliveryId: string, issueId: string, resolution: any) =>
+    api.put(`/delivery/${deliveryId}/issues/${issueId}/resolve`, resolution),
   
   assignDeliveryWorker: (orderId: string, deliveryWorkerId: string) =>
     api.post('/delivery', { orderId, deliveryWorkerId }),
   
+  getWorkerScores: (orderId: string) =>
+    api.get(`/delivery/auto-assign/${orderId}/candidates`),
+  
+  autoAssign: (orderId: string) =>
+    api.post(`/delivery/auto-assign/${orderId}`),
+  
   getAvailableWorkersByArea: (area: string) =>
     api.get(`/delivery/workers/available/${area}`),
   
@@ -174,6 +303,156 @@ export const deliveriesAPI = {
     api.get('/delivery', { params }),
 };
 
+// Recurring orders API
+export const recurringOrdersAPI = {
+  getAll: () =>
+    api.get('/recurring-orders'),
+  
+  create: (data: any) =>
+    api.post('/recurring-orders', data),
+  
+  update: (id: string, data: any) =>
+    api.put(`/recurring-orders/${id}`, data),
+  
+  pause: (id: string) =>
+    api.put(`/recurring-orders/${id}/pause`),
+  
+  resume: (id: string) =>
+    api.put(`/recurring-orders/${id}/resume`),
+  
+  skip: (id: string, occurrence: string, skip = true) =>
+    api.put(`/recurring-orders/${id}/skip`, { occurrence, skip }),
+  
+  remove: (id: string) =>
+    api.delete(`/recurring-orders/${id}`),
+};
+
+// Returns and credit notes API
+export const returnsAPI = {
+  getAll: (params?: { status?: string }) =>
+    api.get('/returns', { params }),
+
+  getById: (id: string) =>
+    api.get(`/returns/${id}`),
+
+  getForOrder: (orderId: string) =>
+    api.get(`/returns/orders/${orderId}`),
+
+  create: (data: FormData) =>
+    api.post('/returns', data, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }),
+
+  approve: (id: string, deliveryWorkerId?: string, note?: string) =>
+    api.put(`/returns/${id}/approve`, { deliveryWorkerId, note }),
+
+  reject: (id: string, note: string) =>
+    api.put(`/returns/${id}/reject`, { note }),
+
+  schedulePickup: (id: string, deliveryWorkerId?: string) =>
+    api.put(`/returns/${id}/pickup`, { deliveryWorkerId }),
+
+  cancel: (id: string) =>
+    api.put(`/returns/${id}/cancel`),
+
+  getCreditNotes: () =>
+    api.get('/returns/credit-notes'),
+
+  settleCreditNote: (id: string, note?: string) =>
+    api.put(`/returns/credit-notes/${id}/settle`, { note }),
+};
+
+// Registration review: approval policy, documents from registrants, admin decisions and the audit log
+export const approvalsAPI = {
+  getPolicy: () =>
+    api.get('/approvals/policy'),
+
+  // Upload links e-mailed to registrants
+  getRegistration: (token: string) =>
+    api.get(`/approvals/registration/${token}`),
+
+  // One file per document type, with an optional `note`
+  uploadDocuments: (token: string, data: FormData) =>
+    api.post(`/approvals/registration/${token}/documents`, data, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }),
+
+  getPendingUsers: () =>
+    api.get('/auth/pending-users'),
+
+  getReview: (userId: string) =>
+    api.get(`/approvals/users/${userId}`),
+
+  decide: (userId: string, decision: 'approve' | 'reject' | 'request_info', note?: string) =>
+    api.post(`/approvals/users/${userId}/decision`, { decision, note }),
+
+  getDocument: (userId: string, documentId: string) =>
+    api.get(`/approvals/users/${userId}/documents/${documentId}`, { responseType: 'blob' }),
+
+  getLog: (params?: { userId?: string; action?: string; page?: number; limit?: number }) =>
+    api.get('/approvals/log', { params }),
+};
+
+export const staffAPI = {
+  getPermissions: () =>
+    api.get('/staff/permissions'),
+
+  getAll: () =>
+    api.get('/staff'),
+
+  invite: (data: { name: string; email: string; phone: string; permissions: string[] }) =>
+    api.post('/staff', data),
+
+  update: (id: string, data: { permissions?: string[]; active?: boolean }) =>
+    api.put(`/staff/${id}`, data),
+
+  resendInvite: (id: string) =>
+    api.post(`/staff/${id}/resend-invite`),
+};
+
+// Mobile-banking payments API
+export const paymentsAPI = {
+  startPayment: (orderId: string) =>
+    api.post(`/payments/orders/${orderId}`),
+  
+  getOrderPayments: (orderId: string) =>
+    api.get(`/payments/orders/${orderId}`),
+  
+  confirmPayment: (paymentId: string) =>
+    api.post(`/payments/${paymentId}/confirm`),
+};
+
+// Cash-on-delivery collections API
+export const collectionsAPI = {
+  getMySummary: (date?: string) =>
+    api.get('/collections/worker/summary', { params: { date } }),
+  
+  getWorkerSummary: (workerId: string, date?: string) =>
+    api.get(`/collections/worker/${workerId}/summary`, { params: { date } }),
+  
+  getCompanyCollections: (params?: any) =>
+    api.get('/collections/company', { params }),
+  
+  settle: (collectionIds: string[], note?: string) =>
+    api.post('/collections/settle', { collectionIds, note }),
+};
+
+// Delivery SLA API
+export const slaAPI = {
+  getDashboard: (params?: { days?: number; companyId?: string }) =>
+    api.get('/sla/dashboard', { params }),
+  
+  getSettings: () =>
+    api.get('/sla/settings'),
+  
+  updateSettings: (settings: { defaultHours: number | null; areas: { area: string; hours: number }[] }) =>
+    api.put('/sla/settings', settings),
+};
+
 // Analytics API
 export const analyticsAPI = {
   // Company Analytics
@@ -278,6 +557,33 @@ export const productsAPI = {
   
   updateStock: (productId: string, quantity: number, operation?: string) =>
     api.put(`/products/${productId}/stock`, { quantity, operation }),
+  
+  getStockMovements: (productId: string, params?: any) =>
+    api.get(`/products/${productId}/stock-movements`, { params }),
+};
+
+// Cart API
+export const cartAPI = {
+  getCart: () =>
+    api.get('/cart'),
+  
+  addItem: (productId: string, quantity?: number) =>
+    api.post('/cart/items', { productId, quantity }),
+  
+  updateItem: (productId: string, quantity: number) =>
+    api.put(`/cart/items/${productId}`, { quantity }),
+  
+  removeItem: (productId: string) =>
+    api.delete(`/cart/items/${productId}`),
+  
+  clearCompany: (companyId: string) =>
+    api.delete(`/cart/company/${companyId}`),
+  
+  clearCart: () =>
+    api.delete('/cart'),
+  
+  addFromOrder: (orderId: string, productIds?: string[]) =>
+    api.post('/cart/reorder', { orderId, productIds }),
 };
 
 // Flags API
@@ -0,0 +1,243 @@
+import { deliveriesAPI } from './api';
+
+// Delivery worker actions that are queued in IndexedDB while the device is
+// offline and replayed in order once it reconnects. Every action carries an
+// idempotency key, so a replay of a request that did reach the server is
+// answered from the server's record instead of being applied twice.
+
+export interface DeliveryProofInput {
+  signature: Blob;
+  photo?: File | null;
+  receivedBy?: string;
+  notes?: string;
+  collection?: any;
+}
+
+export type OutboxAction =
+  | { kind: 'status'; status: string }
+  | { kind: 'complete'; proof: DeliveryProofInput }
+  | { kind: 'issue'; issue: any };
+
+export interface OutboxEntry {
+  id?: number;
+  key: string;
+  userId: string;
+  deliveryId: string;
+  deliveryNumber: string;
+  action: OutboxAction;
+  createdAt: number;
+  attempts: number;
+  state: 'pending' | 'failed';
+  error?: string;
+}
+
+export interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+}
+
+export interface SubmitResult {
+  queued: boolean;
+  data?: any;
+}
+
+const DB_NAME = 'grocerytrack-offline';
+const DB_VERSION = 1;
+const OUTBOX = 'outbox';
+const SNAPSHOTS = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true }).createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+          db.createObjectStore(SNAPSHOTS);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = work(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const newKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+// Subscribers are told whenever the queue or sync state changes
+const listeners = new Set<() => void>();
+let isSyncing = false;
+let lastSyncedAt: number | null = null;
+
+const changed = () => listeners.forEach((listener) => listener());
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Queued actions of a user, oldest first, with the current sync state
+ */
+export const getOutbox = async (userId: string): Promise<OutboxSnapshot> => {
+  const entries = await run<OutboxEntry[]>(OUTBOX, 'readonly', (store) => store.index('userId').getAll(userId));
+  entries.sort((a, b) => (a.id || 0) - (b.id || 0));
+  return { entries, isSyncing, lastSyncedAt };
+};
+
+export const dismissOutboxEntry = async (id: number) => {
+  await run(OUTBOX, 'readwrite', (store) => store.delete(id));
+  changed();
+};
+
+const toFormData = (proof: DeliveryProofInput) => {
+  const form = new FormData();
+  form.append('signature', proof.signature, 'signature.png');
+  if (proof.photo) form.append('photo', proof.photo);
+  form.append('receivedBy', proof.receivedBy || '');
+  form.append('notes', proof.notes || '');
+  if (proof.collection) form.append('collection', JSON.stringify(proof.collection));
+  return form;
+};
+
+const send = (deliveryId: string, action: OutboxAction, key: string) => {
+  switch (action.kind) {
+    case 'status':
+      return deliveriesAPI.updateDeliveryStatus(deliveryId, action.status, undefined, key);
+    case 'complete':
+      return deliveriesAPI.completeDelivery(deliveryId, toFormData(action.proof), key);
+    case 'issue':
+      return deliveriesAPI.reportDeliveryIssue(deliveryId, action.issue, key);
+  }
+};
+
+// No response at all means the request never got through
+const isNetworkError = (error: any) => !error.response;
+
+// The server is still working on an earlier attempt with the same key. Other
+// 409s, such as a status change the delivery no longer allows, are replayed
+// unchanged for the key and would block the queue for good.
+const isInProgress = (error: any) =>
+  error.response.status === 409 && error.response.data?.error === 'Request in progress';
+
+// Worth retrying later: connection problems, server errors and requests the
+// server is still working on
+const isRetryable = (error: any) =>
+  isNetworkError(error) || error.response.status >= 500 || isInProgress(error) || error.response.status === 401;
+
+/**
+ * Send a delivery action now, or queue it when the device is offline or the
+ * request cannot reach the server. Errors returned by the server are thrown.
+ */
+export const submitDeliveryAction = async (
+  userId: string,
+  delivery: { _id: string; deliveryNumber: string },
+  action: OutboxAction
+): Promise<SubmitResult> => {
+  const entry: OutboxEntry = {
+    key: newKey(),
+    userId,
+    deliveryId: delivery._id,
+    deliveryNumber: delivery.deliveryNumber,
+    action,
+    createdAt: Date.now(),
+    attempts: 0,
+    state: 'pending',
+  };
+
+  // Later actions wait behind queued ones so they reach the server in order
+  const { entries } = await getOutbox(userId);
+  const hasQueued = entries.some((queued) => queued.state === 'pending');
+
+  if (navigator.onLine && !hasQueued) {
+    try {
+      const response = await send(delivery._id, action, entry.key);
+      return { queued: false, data: response.data };
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await run(OUTBOX, 'readwrite', (store) => store.add(entry));
+  changed();
+  return { queued: true };
+};
+
+let currentSync: Promise<void> | null = null;
+
+/**
+ * Replay a user's queued actions in order. Stops at the first action that
+ * cannot get through yet; an action the server rejects is kept as failed so
+ * the worker can see it.
+ */
+export const syncOutbox = (userId: string) => {
+  if (currentSync) return currentSync;
+
+  currentSync = (async () => {
+    let processed = 0;
+    try {
+      const { entries } = await getOutbox(userId);
+      const queued = entries.filter((entry) => entry.state === 'pending');
+      if (!queued.length) return;
+
+      isSyncing = true;
+      changed();
+      for (const entry of queued) {
+        try {
+          await send(entry.deliveryId, entry.action, entry.key);
+          await run(OUTBOX, 'readwrite', (store) => store.delete(entry.id!));
+        } catch (error: any) {
+          entry.attempts += 1;
+          if (isRetryable(error)) {
+            await run(OUTBOX, 'readwrite', (store) => store.put(entry));
+            break;
+          }
+          entry.state = 'failed';
+          entry.error = error.response?.data?.message || 'Rejected by the server';
+          await run(OUTBOX, 'readwrite', (store) => store.put(entry));
+        }
+        processed += 1;
+        changed();
+      }
+      if (processed) lastSyncedAt = Date.now();
+    } finally {
+      const wasSyncing = isSyncing;
+      isSyncing = false;
+      currentSync = null;
+      if (wasSyncing) changed();
+    }
+  })();
+
+  return currentSync;
+};
+
+/**
+ * Keep the last data a page loaded, to show while offline
+ */
+export const saveSnapshot = async (name: string, data: any) => {
+  await run(SNAPSHOTS, 'readwrite', (store) => store.put(data, name));
+};
+
+export const loadSnapshot = async <T>(name: string): Promise<T | undefined> =>
+  run<T | undefined>(SNAPSHOTS, 'readonly', (store) => store.get(name));
@@ -23,6 +23,8 @@ export interface OrderPDFData {
   items: {
     productName: string;
     quantity: number;
+    // Set when the company short-shipped the line
+    orderedQuantity?: number;
     unitPrice: number;
     unit: string;
     totalPrice: number;
@@ -41,6 +43,8 @@ export interface OrderPDFData {
     delivery: number;
     total: number;
   };
+  // Order that carries the short-shipped quantities
+  backorderNumber?: string;
 }
 
 export const generateOrderPDF = (orderData: OrderPDFData): void => {
@@ -170,8 +174,9 @@ export const generateOrderPDF = (orderData: OrderPDFData): void => {
     doc.text(productLines, xPosition, yPosition);
     xPosition += columnWidths[0];
     
-    // Quantity
-    doc.text(item.quantity.toString(), xPosition, yPosition);
+    // Quantity (shipped of ordered, when short-shipped)
+    const isShort = item.orderedQuantity !== undefined && item.orderedQuantity !== item.quantity;
+    doc.text(isShort ? `${item.quantity} of ${item.orderedQuantity}` : item.quantity.toString(), xPosition, yPosition);
     xPosition += columnWidths[1];
     
     // Unit
@@ -187,6 +192,21 @@ export const generateOrderPDF = (orderData: OrderPDFData): void => {
     
     yPosition += Math.max(7, productLines.length * 4);
   });
+
+  const shortItems = orderData.items.filter(item => item.orderedQuantity !== undefined && item.orderedQuantity > item.quantity);
+  if (shortItems.length > 0) {
+    yPosition += 3;
+    const shortText = shortItems
+      .map(item => `${(item.orderedQuantity as number) - item.quantity} ${item.unit} ${item.productName}`)
+      .join(', ');
+    yPosition = addWrappedText(
+      `Backordered${orderData.backorderNumber ? ` as ${orderData.backorderNumber}` : ''}: ${shortText}`,
+      margin,
+      yPosition,
+      contentWidth,
+      8
+    );
+  }
   
   yPosition += 10;
   
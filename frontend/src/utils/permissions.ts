@@ -0,0 +1,36 @@
+// Company permissions, as in config/permissions.js on the server
+export type Permission =
+  | 'manage_products'
+  | 'approve_orders'
+  | 'assign_deliveries'
+  | 'settle_collections'
+  | 'view_analytics';
+
+interface PermissionHolder {
+  _id: string;
+  role: string;
+  companyStaff?: {
+    companyId: string;
+    permissions?: string[];
+  };
+}
+
+export const isCompanyStaff = (user?: PermissionHolder | null): boolean =>
+  !!user?.companyStaff?.companyId;
+
+export const isCompanyOwner = (user?: PermissionHolder | null): boolean =>
+  user?.role === 'company_rep' && !isCompanyStaff(user);
+
+// Same rules as permissionsOf in middleware/auth.js: admins and company owners
+// hold every permission, staff the ones granted to them, other roles none
+export const hasPermission = (user: PermissionHolder | null | undefined, permission: Permission): boolean => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  if (user.role !== 'company_rep') return false;
+  if (isCompanyStaff(user)) return !!user.companyStaff?.permissions?.includes(permission);
+  return true;
+};
+
+// The company a company login works for: its own account, or the one of its owner for staff
+export const companyIdOf = (user?: PermissionHolder | null): string =>
+  user?.companyStaff?.companyId || user?._id || '';
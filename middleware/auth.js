@@ -1,5 +1,9 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const SessionService = require('../services/sessionService');
+const permissionConfig = require('../config/permissions');
+
+const COMPANY_PERMISSIONS = Object.keys(permissionConfig.company);
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -31,7 +35,40 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    req.user = user;
+    // The password was reset after this token was issued
+    if (user.passwordChangedAt && decoded.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+      return res.status(401).json({
+        error: 'Token expired',
+        message: 'Your password was changed. Please login again.'
+      });
+    }
+
+    // Tokens issued for a session stop working once it is signed out or revoked
+    if (decoded.sid && !(await SessionService.isActive(decoded.sid))) {
+      return res.status(401).json({
+        error: 'Session ended',
+        message: 'You were signed out. Please login again.'
+      });
+    }
+
+    // Company staff act for their company: routes scope company data by
+    // req.user, so it is the company account. req.account is who logged in.
+    let actingUser = user;
+    if (user.companyStaff?.companyId) {
+      actingUser = await User.findById(user.companyStaff.companyId).select('-password');
+      if (!actingUser || actingUser.status !== 'active') {
+        return res.status(403).json({
+          error: 'Company not active',
+          message: 'The company account you work for is not active. Please contact your company.'
+        });
+      }
+      // Services record who did what from here (services/actors.js)
+      actingUser.$locals.account = user;
+    }
+
+    req.user = actingUser;
+    req.account = user;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     if (error.name === 'JsonWebTokenError') {
@@ -86,6 +123,57 @@ const authorizeDeliveryWorker = authorizeRoles('delivery_worker');
 // Middleware for admins only
 const authorizeAdmin = authorizeRoles('admin');
 
+// Permissions of a logged-in user: all of them for admins and company owners,
+// the granted ones for company staff, none for other roles
+const permissionsOf = (account) => {
+  if (account.role === 'admin') return COMPANY_PERMISSIONS;
+  if (account.role !== 'company_rep') return [];
+  if (account.companyStaff?.companyId) return account.companyStaff.permissions || [];
+  return COMPANY_PERMISSIONS;
+};
+
+const hasPermission = (req, permission) => permissionsOf(req.account || req.user).includes(permission);
+
+// Middleware to check a permission (see config/permissions.js)
+const authorizePermission = (permission) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        message: 'Please login to access this resource'
+      });
+    }
+
+    if (!hasPermission(req, permission)) {
+      return res.status(403).json({ 
+        error: 'Access denied',
+        message: 'You do not have permission to access this resource'
+      });
+    }
+
+    next();
+  };
+};
+
+// Middleware for the owner of a company account, not its staff
+const authorizeCompanyOwner = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ 
+      error: 'Authentication required',
+      message: 'Please login to access this resource'
+    });
+  }
+
+  if (req.user.role !== 'company_rep' || req.account?.companyStaff?.companyId) {
+    return res.status(403).json({ 
+      error: 'Access denied',
+      message: 'Only the company owner can access this resource'
+    });
+  }
+
+  next();
+};
+
 // Middleware to check if user can access their own data or admin
 const authorizeSelfOrAdmin = (req, res, next) => {
   if (!req.user) {
@@ -97,7 +185,9 @@ const authorizeSelfOrAdmin = (req, res, next) => {
 
   const requestedUserId = req.params.userId || req.params.id;
   
-  if (req.user.role === 'admin' || req.user._id.toString() === requestedUserId) {
+  // Staff may change their own login, not the company they work for
+  const account = req.account || req.user;
+  if (account.role === 'admin' || account._id.toString() === requestedUserId) {
     return next();
   }
 
@@ -133,6 +223,10 @@ module.exports = {
   authorizeCompanyRep,
   authorizeDeliveryWorker,
   authorizeAdmin,
+  authorizePermission,
+  authorizeCompanyOwner,
   authorizeSelfOrAdmin,
-  checkActiveStatus
+  checkActiveStatus,
+  hasPermission,
+  permissionsOf
 };
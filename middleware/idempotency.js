@@ -0,0 +1,95 @@
+const IdempotencyKey = require('../models/IdempotencyKey');
+
+// A request still "processing" after this long is taken to have died with the
+// server, and the next repeat runs it again
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Make a route safe to retry. A request carrying an Idempotency-Key header is
+ * handled once per user and key; repeats get the stored response back with an
+ * Idempotent-Replayed header instead of running the handler again. Server
+ * errors are not stored, so the client can retry them. A record left
+ * processing by a crash is reclaimed after PROCESSING_LEASE_MS. Use after
+ * authenticateToken and before body parsers such as multer.
+ */
+const idempotent = async (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  if (key.length > 100) {
+    return res.status(400).json({
+      error: 'Invalid idempotency key',
+      message: 'Idempotency keys can be at most 100 characters'
+    });
+  }
+
+  let record;
+  try {
+    record = await IdempotencyKey.create({
+      key,
+      userId: req.user._id,
+      method: req.method,
+      path: req.originalUrl
+    });
+  } catch (error) {
+    if (error.code !== 11000) return next(error);
+
+    const existing = await IdempotencyKey.findOne({ userId: req.user._id, key }).lean();
+    if (!existing) return next();
+
+    if (existing.method !== req.method || existing.path !== req.originalUrl) {
+      return res.status(422).json({
+        error: 'Idempotency key reused',
+        message: 'This idempotency key was already used for a different request'
+      });
+    }
+    if (existing.status === 'processing') {
+      // Only one repeat can take over a stale record
+      const leaseStart = existing.claimedAt || existing.createdAt;
+      if (leaseStart.getTime() + PROCESSING_LEASE_MS < Date.now()) {
+        record = await IdempotencyKey.findOneAndUpdate(
+          { _id: existing._id, status: 'processing', claimedAt: existing.claimedAt ?? null },
+          { $set: { claimedAt: new Date() } },
+          { new: true }
+        );
+      }
+      if (!record) {
+        return res.status(409).json({
+          error: 'Request in progress',
+          message: 'This request is still being processed, retry shortly'
+        });
+      }
+    } else {
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.responseStatus).json(existing.responseBody);
+    }
+  }
+
+  // Store the response before it is sent, so a repeat never sees a finished
+  // request as still processing
+  let stored = false;
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    stored = true;
+    const saved = res.statusCode < 500
+      ? IdempotencyKey.updateOne(
+        { _id: record._id },
+        { $set: { status: 'completed', responseStatus: res.statusCode, responseBody: JSON.parse(JSON.stringify(body ?? null)) } }
+      )
+      : IdempotencyKey.deleteOne({ _id: record._id });
+
+    saved
+      .catch(error => console.error('Idempotency record update failed:', error))
+      .then(() => sendJson(body));
+    return res;
+  };
+
+  // Responses sent without res.json cannot be replayed; free the key instead
+  res.on('finish', () => {
+    if (!stored) IdempotencyKey.deleteOne({ _id: record._id }).catch(() => {});
+  });
+
+  next();
+};
+
+module.exports = { idempotent };
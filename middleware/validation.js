@@ -69,6 +69,63 @@ const validateUserLogin = [
   handleValidationErrors
 ];
 
+// Validation rules for requesting a password reset link
+const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  
+  handleValidationErrors
+];
+
+// Validation rules for setting a new password from a reset link
+const validateResetPassword = [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('The reset link is invalid'),
+  
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long'),
+  
+  handleValidationErrors
+];
+
+// Validation rules for requesting a login code by SMS
+const validateOtpRequest = [
+  body('phone')
+    .trim()
+    .matches(/^(\+880|880|0)?1[3456789]\d{8}$/)
+    .withMessage('Please provide a valid Bangladeshi phone number'),
+  
+  handleValidationErrors
+];
+
+// Validation rules for logging in with an SMS code
+const validateOtpLogin = [
+  body('phone')
+    .trim()
+    .matches(/^(\+880|880|0)?1[3456789]\d{8}$/)
+    .withMessage('Please provide a valid Bangladeshi phone number'),
+  
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Enter the 6-digit code'),
+  
+  handleValidationErrors
+];
+
+// Validation rules for confirming the user's phone number
+const validatePhoneCode = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Enter the 6-digit code'),
+  
+  handleValidationErrors
+];
+
 // Validation rules for product creation
 const validateProductCreation = [
   body('name')
@@ -175,8 +232,9 @@ const validateDeliveryAssignment = [
 
 // Validation rules for delivery status update
 const validateDeliveryStatusUpdate = [
+  // Delivering needs proof, so it goes through /complete
   body('status')
-    .isIn(['picked_up', 'in_transit', 'delivered', 'failed', 'returned'])
+    .isIn(['picked_up', 'in_transit', 'failed', 'returned'])
     .withMessage('Invalid delivery status'),
   
   body('issues')
@@ -259,6 +317,11 @@ const validatePagination = [
 module.exports = {
   validateUserRegistration,
   validateUserLogin,
+  validateForgotPassword,
+  validateResetPassword,
+  validateOtpRequest,
+  validateOtpLogin,
+  validatePhoneCode,
   validateProductCreation,
   validateOrderCreation,
   validateOrderStatusUpdate,
@@ -0,0 +1,131 @@
+// Local sandbox for the mobile-banking payment flow (PAYMENT_PROVIDER=mock).
+// Mimics a bKash/Nagad-style checkout: the API creates a payment and returns a
+// checkout URL, the shopkeeper approves or declines it there, and the gateway
+// posts a signed callback to the app before redirecting back.
+//
+//   npm run mock:gateway
+//
+// Payments are kept in memory and lost on restart.
+
+require('dotenv').config();
+const crypto = require('crypto');
+const express = require('express');
+const paymentConfig = require('./config/payments');
+const { sign } = require('./services/paymentProviders');
+
+const { port, baseUrl, webhookSecret } = paymentConfig.mock;
+if (!webhookSecret) {
+  console.error('Set MOCK_GATEWAY_SECRET (the same value as for the API) to sign callbacks');
+  process.exit(1);
+}
+const payments = new Map();
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const publicView = (payment) => ({
+  id: payment.id,
+  reference: payment.reference,
+  amount: payment.amount,
+  currency: payment.currency,
+  status: payment.status,
+  transactionId: payment.transactionId,
+  reason: payment.reason
+});
+
+// Post the outcome to the app. Sent twice on purpose when ?redeliver=1 is used,
+// to exercise the app's duplicate-callback handling.
+const sendCallback = async (payment, times = 1) => {
+  const body = JSON.stringify({
+    eventId: `evt_${payment.id}_${payment.status}`,
+    paymentId: payment.id,
+    reference: payment.reference,
+    status: payment.status,
+    transactionId: payment.transactionId,
+    reason: payment.reason
+  });
+
+  for (let attempt = 1; attempt <= times; attempt++) {
+    try {
+      const response = await fetch(payment.callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Mock-Signature': sign(webhookSecret, body) },
+        body
+      });
+      console.log(`Callback ${payment.id} (${payment.status}) -> ${response.status}`);
+    } catch (error) {
+      console.error(`Callback ${payment.id} failed:`, error.message);
+    }
+  }
+};
+
+// Create a payment
+app.post('/api/payments', (req, res) => {
+  const { reference, amount, currency = 'BDT', description, returnUrl, callbackUrl } = req.body;
+  if (!reference || !(amount > 0) || !callbackUrl) {
+    return res.status(400).json({ message: 'reference, a positive amount and callbackUrl are required' });
+  }
+
+  const id = `MOCK${Date.now()}${crypto.randomInt(1000, 9999)}`;
+  payments.set(id, { id, reference, amount, currency, description, returnUrl, callbackUrl, status: 'pending' });
+  res.status(201).json({ id, checkoutUrl: `${baseUrl}/checkout/${id}`, status: 'pending' });
+});
+
+// Payment status
+app.get('/api/payments/:id', (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment) return res.status(404).json({ message: 'Payment not found' });
+  res.json(publicView(payment));
+});
+
+// Checkout page shown to the shopkeeper
+app.get('/checkout/:id', (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment) return res.status(404).send('Payment not found');
+
+  const action = (outcome) => `${baseUrl}/checkout/${payment.id}/${outcome}`;
+  res.send(`<!doctype html>
+<html>
+<head><title>Sandbox Mobile Banking</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto; padding: 0 16px;">
+  <h2 style="color: #e2136e;">Sandbox Mobile Banking</h2>
+  <p>${escapeHtml(payment.description || 'Payment')}</p>
+  <p style="font-size: 28px; font-weight: bold;">৳${escapeHtml(payment.amount)}</p>
+  <p>Status: <strong>${escapeHtml(payment.status)}</strong></p>
+  ${payment.status === 'pending' ? `
+  <form method="post" action="${action('approve')}"><input name="wallet" placeholder="Wallet number" value="01700000000">
+    <button type="submit" style="background:#e2136e;color:#fff;border:0;padding:8px 16px;">Pay</button></form>
+  <form method="post" action="${action('decline')}" style="margin-top: 12px;">
+    <button type="submit">Cancel payment</button></form>` : ''}
+</body>
+</html>`);
+});
+
+const finish = (outcome) => async (req, res) => {
+  const payment = payments.get(req.params.id);
+  if (!payment) return res.status(404).send('Payment not found');
+
+  if (payment.status === 'pending') {
+    if (outcome === 'approve') {
+      payment.status = 'completed';
+      payment.transactionId = `TRX${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+    } else {
+      payment.status = 'failed';
+      payment.reason = 'Cancelled by customer';
+    }
+    await sendCallback(payment, req.query.redeliver ? 2 : 1);
+  }
+
+  if (payment.returnUrl) return res.redirect(payment.returnUrl);
+  res.json(publicView(payment));
+};
+
+app.post('/checkout/:id/approve', finish('approve'));
+app.post('/checkout/:id/decline', finish('decline'));
+
+app.listen(port, () => {
+  console.log(`Mock payment gateway running on ${baseUrl}`);
+});
@@ -0,0 +1,87 @@
+const mongoose = require('mongoose');
+
+// Audit trail of account reviews (see services/approvalService.js): who
+// decided what about an account, and when. Entries are only ever added;
+// changing or deleting one is refused below.
+const approvalLogSchema = new mongoose.Schema({
+  // Account the entry is about
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    immutable: true
+  },
+
+  // registered:          the account was created
+  // auto_approved:       the approval policy of its role let it in at once
+  // approved / rejected: an admin decided on the registration
+  // info_requested:      an admin asked the registrant for more information
+  // documents_submitted: the registrant uploaded documents
+  // status_changed:      an admin changed the status outside the review
+  action: {
+    type: String,
+    enum: ['registered', 'auto_approved', 'approved', 'rejected', 'info_requested', 'documents_submitted', 'status_changed'],
+    required: true,
+    immutable: true
+  },
+  fromStatus: {
+    type: String,
+    immutable: true
+  },
+  toStatus: {
+    type: String,
+    immutable: true
+  },
+  // Reason, question or reply given with the action
+  note: {
+    type: String,
+    trim: true,
+    immutable: true
+  },
+  // Kinds of the documents uploaded with the entry
+  documents: {
+    type: [String],
+    default: undefined,
+    immutable: true
+  },
+
+  // Name and role are copied so the entry reads the same after the actor's account changes
+  actor: {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      immutable: true
+    },
+    name: {
+      type: String,
+      immutable: true
+    },
+    role: {
+      type: String,
+      immutable: true
+    }
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+approvalLogSchema.index({ userId: 1, createdAt: 1 });
+approvalLogSchema.index({ createdAt: -1 });
+
+const refuseChange = function(next) {
+  next(new Error('Approval log entries cannot be changed or deleted'));
+};
+
+approvalLogSchema.pre('save', function(next) {
+  if (!this.isNew) return refuseChange(next);
+  next();
+});
+approvalLogSchema.pre('deleteOne', { document: true, query: false }, refuseChange);
+approvalLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+    'deleteOne', 'deleteMany', 'findOneAndDelete', 'findOneAndRemove'],
+  { document: false, query: true },
+  refuseChange
+);
+
+module.exports = mongoose.models.ApprovalLog || mongoose.model('ApprovalLog', approvalLogSchema);
@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+const cartSchema = new mongoose.Schema({
+  // Owner of the cart (one cart per shopkeeper)
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Shopkeeper ID is required'],
+    unique: true
+  },
+
+  // Cart lines, possibly spanning several companies
+  items: [{
+    productId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, 'Quantity must be at least 1']
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Method to find a cart line by product
+cartSchema.methods.findItem = function(productId) {
+  return this.items.find(item => item.productId.toString() === productId.toString());
+};
+
+// Method to set the quantity of a product (adds the line if missing)
+cartSchema.methods.setItem = function(product, quantity) {
+  const existing = this.findItem(product._id);
+  if (existing) {
+    existing.quantity = quantity;
+  } else {
+    this.items.push({
+      productId: product._id,
+      companyId: product.companyId,
+      quantity
+    });
+  }
+  return this;
+};
+
+// Method to remove a product from the cart
+cartSchema.methods.removeItem = function(productId) {
+  this.items = this.items.filter(item => item.productId.toString() !== productId.toString());
+  return this;
+};
+
+// Method to remove every line belonging to a company
+cartSchema.methods.removeCompany = function(companyId) {
+  this.items = this.items.filter(item => item.companyId.toString() !== companyId.toString());
+  return this;
+};
+
+// Static method to get or create the cart for a shopkeeper
+cartSchema.statics.findOrCreate = async function(shopkeeperId) {
+  let cart = await this.findOne({ shopkeeperId });
+  if (!cart) {
+    cart = new this({ shopkeeperId, items: [] });
+  }
+  return cart;
+};
+
+module.exports = mongoose.models.Cart || mongoose.model('Cart', cartSchema);
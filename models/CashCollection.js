@@ -0,0 +1,97 @@
+const mongoose = require('mongoose');
+
+const cashCollectionSchema = new mongoose.Schema({
+  // Delivery the money was collected on
+  deliveryId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Delivery',
+    required: [true, 'Delivery ID is required']
+  },
+  deliveryNumber: {
+    type: String
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    required: [true, 'Order ID is required']
+  },
+  orderNumber: {
+    type: String
+  },
+
+  // Parties
+  deliveryWorkerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Delivery worker ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  shopkeeperName: {
+    type: String
+  },
+
+  // Amounts in BDT
+  expectedAmount: {
+    type: Number,
+    required: true,
+    min: [0, 'Expected amount cannot be negative']
+  },
+  collectedAmount: {
+    type: Number,
+    required: true,
+    min: [0, 'Collected amount cannot be negative']
+  },
+  shortfall: {
+    type: Number,
+    default: 0
+  },
+  shortfallReason: {
+    type: String
+  },
+
+  // How the shopkeeper paid the worker
+  method: {
+    type: String,
+    enum: ['cash', 'mobile_banking', 'bank_transfer'],
+    default: 'cash'
+  },
+  collectedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  // collected: money is with the delivery worker
+  // settled:   handed over to and confirmed by the company
+  status: {
+    type: String,
+    enum: ['collected', 'settled'],
+    default: 'collected'
+  },
+  settledAt: {
+    type: Date
+  },
+  settledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  settlementNote: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+cashCollectionSchema.index({ deliveryId: 1 }, { unique: true });
+cashCollectionSchema.index({ deliveryWorkerId: 1, collectedAt: -1 });
+cashCollectionSchema.index({ companyId: 1, status: 1, collectedAt: -1 });
+
+module.exports = mongoose.models.CashCollection || mongoose.model('CashCollection', cashCollectionSchema);
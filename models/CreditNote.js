@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+
+// Money a company owes a shopkeeper for returned goods. It stays `issued`
+// until the company settles it (refund or deduction from a later order).
+const creditNoteSchema = new mongoose.Schema({
+  creditNoteNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Shopkeeper ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+  returnRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReturnRequest',
+    required: true
+  },
+  returnNumber: {
+    type: String
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  orderNumber: {
+    type: String
+  },
+
+  // Amount in BDT, VAT included
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Amount cannot be negative']
+  },
+  items: [{
+    _id: false,
+    productName: String,
+    unit: String,
+    quantity: Number,
+    amount: Number
+  }],
+
+  status: {
+    type: String,
+    enum: ['issued', 'settled'],
+    default: 'issued'
+  },
+  settledAt: {
+    type: Date
+  },
+  settledBy: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String
+  },
+  settlementNote: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+creditNoteSchema.index({ shopkeeperId: 1, status: 1 });
+creditNoteSchema.index({ companyId: 1, status: 1 });
+
+module.exports = mongoose.models.CreditNote || mongoose.model('CreditNote', creditNoteSchema);
@@ -14,6 +14,18 @@ const deliverySchema = new mongoose.Schema({
     ref: 'Order',
     required: [true, 'Order ID is required']
   },
+
+  // A return pickup carries returned goods from the shop back to the company
+  // and never moves its order (see services/returnService.js)
+  kind: {
+    type: String,
+    enum: ['delivery', 'return_pickup'],
+    default: 'delivery'
+  },
+  returnRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReturnRequest'
+  },
   
   // Delivery Worker
   deliveryWorkerId: {
@@ -51,6 +63,10 @@ const deliverySchema = new mongoose.Schema({
       type: Number,
       required: true
     },
+    // What the shopkeeper ordered, when the company short-shipped the line
+    orderedQuantity: {
+      type: Number
+    },
     unit: {
       type: String,
       required: true
@@ -123,6 +139,9 @@ const deliverySchema = new mongoose.Schema({
   deliveryNotes: {
     type: String
   },
+  failureReason: {
+    type: String
+  },
   
   // Issues and Returns
   issues: [{
@@ -142,28 +161,85 @@ const deliverySchema = new mongoose.Schema({
     reportedAt: {
       type: Date,
       default: Date.now
+    },
+    reportedBy: {
+      userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+      },
+      name: String,
+      role: String
+    },
+
+    // Ticket handling (see services/deliveryIssueService.js)
+    status: {
+      type: String,
+      enum: ['open', 'acknowledged', 'resolved'],
+      default: 'open'
+    },
+    assignedTo: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    acknowledgedAt: Date,
+    resolution: String,
+    outcome: {
+      type: String,
+      enum: ['rescheduled', 'reassigned', 'returned', 'closed']
+    },
+    resolvedAt: Date,
+    resolvedBy: {
+      userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+      },
+      name: String
     }
   }],
+
+  // Times the delivery was sent out again after failing
+  reattemptCount: {
+    type: Number,
+    default: 0
+  },
   
   // Proof of Delivery
+  // Paths under /uploads of the files stored by services/deliveryProofService.js
   deliveryProof: {
     signature: String,
     photo: String,
+    photoThumbnail: String,
+    receivedBy: String,
     notes: String
   },
   
   // Performance Metrics
+  // estimatedDeliveryTime is the SLA deadline set at assignment by services/slaService.js
   estimatedDeliveryTime: {
     type: Date
   },
   actualDeliveryTime: {
     type: Date
   },
+  sla: {
+    hours: Number,
+    status: {
+      type: String,
+      enum: ['on_track', 'at_risk', 'late', 'met', 'missed']
+    },
+    atRiskAlertedAt: Date,
+    lateAlertedAt: Date
+  },
   
   // Route Information
+  // Filled by services/routePlanningService.js; distance (km) and estimatedTime
+  // (minutes) are counted from the start of the worker's route to this stop
   routeOptimization: {
+    stopNumber: Number,
     distance: Number,
     estimatedTime: Number,
+    estimatedArrival: Date,
+    plannedAt: Date,
     routePoints: [{
       lat: Number,
       lng: Number,
@@ -181,6 +257,12 @@ deliverySchema.index({ deliveryWorkerId: 1 });
 deliverySchema.index({ status: 1 });
 deliverySchema.index({ deliveryArea: 1 });
 deliverySchema.index({ assignedAt: 1 });
+deliverySchema.index({ companyId: 1, 'issues.status': 1 });
+deliverySchema.index({ 'sla.status': 1, estimatedDeliveryTime: 1 });
+
+// Query condition for an order's own delivery, leaving out return pickups
+// (older deliveries have no `kind`)
+deliverySchema.statics.ORDER_DELIVERY = { kind: { $ne: 'return_pickup' } };
 
 // Generate delivery number before saving
 deliverySchema.pre('save', function(next) {
@@ -195,8 +277,16 @@ deliverySchema.pre('save', function(next) {
   next();
 });
 
+// Settle the SLA once the delivery is delivered
+deliverySchema.pre('save', function(next) {
+  if (this.isModified('status') && this.status === 'delivered' && this.estimatedDeliveryTime && this.deliveredAt) {
+    this.set('sla.status', this.deliveredAt <= this.estimatedDeliveryTime ? 'met' : 'missed');
+  }
+  next();
+});
+
 // Method to update delivery status
-deliverySchema.methods.updateStatus = function(newStatus) {
+deliverySchema.methods.updateStatus = function(newStatus, session) {
   this.status = newStatus;
   
   switch (newStatus) {
@@ -212,25 +302,26 @@ deliverySchema.methods.updateStatus = function(newStatus) {
       break;
   }
   
-  return this.save();
+  return this.save({ session });
 };
 
-// Method to add delivery issue
-deliverySchema.methods.addIssue = function(issueType, description) {
+// Method to add delivery issue; `details` holds the reporter and ticket fields
+deliverySchema.methods.addIssue = function(issueType, description, session, details = {}) {
   this.issues.push({
     type: issueType,
-    description: description
+    description: description,
+    ...details
   });
-  return this.save();
+  return this.save({ session });
 };
 
 // Method to complete delivery with proof
-deliverySchema.methods.completeDelivery = function(proof) {
+deliverySchema.methods.completeDelivery = function(proof, session) {
   this.status = 'delivered';
   this.deliveredAt = new Date();
   this.actualDeliveryTime = new Date();
   this.deliveryProof = proof;
-  return this.save();
+  return this.save({ session });
 };
 
 // Method to get delivery summary
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// Keys are kept long enough to cover a rider who stays offline for days
+const KEY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const idempotencyKeySchema = new mongoose.Schema({
+  // Client-generated key sent in the Idempotency-Key header
+  key: {
+    type: String,
+    required: [true, 'Key is required']
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+
+  // Request the key was first used for
+  method: {
+    type: String
+  },
+  path: {
+    type: String
+  },
+
+  // Stored response, replayed for repeats of the request
+  status: {
+    type: String,
+    enum: ['processing', 'completed'],
+    default: 'processing'
+  },
+  responseStatus: {
+    type: Number
+  },
+  responseBody: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  // When the current attempt started; a stale one is taken over by a repeat
+  claimedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: KEY_TTL_SECONDS
+  }
+});
+
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.models.IdempotencyKey || mongoose.model('IdempotencyKey', idempotencyKeySchema);
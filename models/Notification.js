@@ -15,6 +15,7 @@ const notificationSchema = new mongoose.Schema({
       'order_placed',
       'order_approved',
       'order_rejected',
+      'order_cancelled',
       'order_shipped',
       'order_delivered',
       'delivery_assigned',
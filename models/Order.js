@@ -7,6 +7,11 @@ const orderSchema = new mongoose.Schema({
   shopkeeperId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
   deliveryWorkerId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
   approvedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  // Set when the order was created by a shopkeeper's recurring order schedule
+  recurringOrderId: { type: mongoose.Schema.Types.ObjectId, ref: 'RecurringOrder' },
+  // Short-shipped lines move to a linked backorder (see services/backorderService.js)
+  backorderId: { type: mongoose.Schema.Types.ObjectId, ref: 'Order' },
+  backorderOf: { type: mongoose.Schema.Types.ObjectId, ref: 'Order' },
 
   // Snapshot fields to prevent dashboard N/A
   shopkeeperSnapshot: {
@@ -28,10 +33,16 @@ const orderSchema = new mongoose.Schema({
     type: [{
       productId: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
       productName: { type: String, required: true },
-      quantity: { type: Number, required: true, min: [1, 'Quantity must be at least 1'] },
+      // Quantity shipped with this order; below `orderedQuantity` when the company short-ships
+      quantity: { type: Number, required: true, min: [0, 'Quantity cannot be negative'] },
+      orderedQuantity: { type: Number },
+      backorderedQuantity: { type: Number, default: 0 },
       unitPrice: { type: Number, required: true, min: [0, 'Unit price cannot be negative'] },
       totalPrice: { type: Number, required: true, min: [0, 'Total price cannot be negative'] },
-      unit: { type: String, required: true }
+      unit: { type: String, required: true },
+      category: { type: String },
+      vatRate: { type: Number, default: 0 },
+      vatAmount: { type: Number, default: 0 }
     }],
     default: []
   },
@@ -47,14 +58,19 @@ const orderSchema = new mongoose.Schema({
   preferredDeliveryDate: { type: Date },
   deliveryInstructions: { type: String, default: '' },
   notes: { type: String, default: '' },
+  rejectionReason: { type: String, default: '' },
 
   paymentMethod: { type: String, default: 'cash_on_delivery' },
   paymentLabel: { type: String, default: 'Cash On Delivery' },
-  paymentStatus: { type: String, enum: ['pending', 'completed', 'failed'], default: 'pending' },
+  // partial: cash on delivery settled with a shortfall (see services/collectionService.js)
+  paymentStatus: { type: String, enum: ['pending', 'partial', 'completed', 'failed'], default: 'pending' },
+
+  // Inventory state of the ordered items (see services/inventoryService.js)
+  stockStatus: { type: String, enum: ['none', 'reserved', 'committed', 'released'], default: 'none' },
 
   status: { 
     type: String, 
-    enum: ['pending','approved','processing','assigned','accepted','picked_up','shipped','delivered','cancelled','rejected'], 
+    enum: ['pending','backordered','approved','processing','assigned','accepted','picked_up','shipped','delivered','cancelled','rejected'], 
     default: 'pending' 
   },
 
@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+// A one-time code sent by SMS (see services/otpService.js). Only the SHA-256
+// hash of the code is kept.
+const otpCodeSchema = new mongoose.Schema({
+  // +8801XXXXXXXXX
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required']
+  },
+  purpose: {
+    type: String,
+    enum: ['login', 'verify_phone'],
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+
+  codeHash: {
+    type: String,
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  consumedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+otpCodeSchema.index({ phone: 1, purpose: 1, createdAt: -1 });
+// Kept for a day after expiry so the hourly send limit can count them
+otpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+module.exports = mongoose.models.OtpCode || mongoose.model('OtpCode', otpCodeSchema);
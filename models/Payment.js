@@ -0,0 +1,85 @@
+const mongoose = require('mongoose');
+
+const paymentSchema = new mongoose.Schema({
+  // Order being paid
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    required: [true, 'Order ID is required']
+  },
+  orderNumber: {
+    type: String
+  },
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Shopkeeper ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+
+  // Gateway
+  provider: {
+    type: String,
+    required: true
+  },
+  providerPaymentId: {
+    type: String,
+    required: true
+  },
+  paymentUrl: {
+    type: String
+  },
+
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Amount cannot be negative']
+  },
+  currency: {
+    type: String,
+    default: 'BDT'
+  },
+
+  // initiated: created at the gateway, waiting for the shopkeeper
+  // completed/failed/expired: final
+  status: {
+    type: String,
+    enum: ['initiated', 'completed', 'failed', 'expired'],
+    default: 'initiated'
+  },
+  failureReason: {
+    type: String
+  },
+  transactionId: {
+    type: String
+  },
+  expiresAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  },
+
+  // Gateway callbacks already handled, so a redelivered callback is ignored
+  webhookEvents: [{
+    eventId: String,
+    status: String,
+    receivedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+paymentSchema.index({ orderId: 1, createdAt: -1 });
+paymentSchema.index({ provider: 1, providerPaymentId: 1 }, { unique: true });
+paymentSchema.index({ status: 1 });
+
+module.exports = mongoose.models.Payment || mongoose.model('Payment', paymentSchema);
@@ -36,6 +36,12 @@ const productSchema = new mongoose.Schema({
     min: 0,
     default: 0
   },
+  // Units held by open orders (not available for new orders)
+  reservedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   minOrderQuantity: {
     type: Number,
     default: 1,
@@ -113,6 +119,15 @@ productSchema.methods.canOrder = function(quantity) {
   return true;
 };
 
+// Method to get the quantity bounds a single order line must respect
+productSchema.methods.getOrderLimits = function() {
+  const min = this.minOrderQuantity || 1;
+  const max = this.maxOrderQuantity
+    ? Math.min(this.maxOrderQuantity, this.stockQuantity)
+    : this.stockQuantity;
+  return { min, max };
+};
+
 // Method to reduce stock after order
 productSchema.methods.reduceStock = function(quantity) {
   if (this.stockQuantity >= quantity) {
@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+// A shopkeeper's saved order that is placed again on a schedule
+// (see services/recurringOrderService.js)
+const recurringOrderSchema = new mongoose.Schema({
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Shopkeeper ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+
+  items: {
+    type: [{
+      _id: false,
+      productId: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+      productName: { type: String, required: true },
+      quantity: { type: Number, required: true, min: [1, 'Quantity must be at least 1'] },
+      unit: { type: String, default: 'piece' },
+      // Price when the item was saved or last ordered, to tell the shopkeeper about changes
+      lastUnitPrice: Number
+    }],
+    validate: [items => items.length > 0, 'At least one item is required']
+  },
+
+  // Copied to every order
+  deliveryAddress: { type: String, required: true },
+  deliveryArea: { type: String, required: true },
+  deliveryCity: { type: String, required: true },
+  paymentMethod: { type: String, default: 'cash_on_delivery' },
+  deliveryInstructions: { type: String, default: '' },
+  notes: { type: String, default: '' },
+
+  // weekly: on each of `daysOfWeek` (0 = Sunday); interval: every `intervalDays`
+  // days counted from `startDate`. Both run at `timeOfDay` (HH:mm, shop time).
+  schedule: {
+    frequency: { type: String, enum: ['weekly', 'interval'], required: true },
+    daysOfWeek: [{ type: Number, min: 0, max: 6 }],
+    intervalDays: Number,
+    startDate: Date,
+    timeOfDay: { type: String, default: '09:00', match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm'] }
+  },
+
+  status: {
+    type: String,
+    enum: ['active', 'paused'],
+    default: 'active'
+  },
+  nextRunAt: Date,
+  // Upcoming occurrences the shopkeeper chose to skip
+  skippedOccurrences: [Date],
+
+  // Most recent occurrences, newest first
+  runs: [{
+    _id: false,
+    scheduledFor: Date,
+    status: { type: String, enum: ['created', 'failed', 'skipped'] },
+    orderId: { type: mongoose.Schema.Types.ObjectId, ref: 'Order' },
+    orderNumber: String,
+    changes: [String],
+    message: String,
+    ranAt: { type: Date, default: Date.now }
+  }],
+  lastRunAt: Date
+}, {
+  timestamps: true
+});
+
+recurringOrderSchema.index({ shopkeeperId: 1 });
+recurringOrderSchema.index({ status: 1, nextRunAt: 1 });
+
+module.exports = mongoose.models.RecurringOrder || mongoose.model('RecurringOrder', recurringOrderSchema);
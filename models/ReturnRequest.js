@@ -0,0 +1,116 @@
+const mongoose = require('mongoose');
+const returnConfig = require('../config/returns');
+
+// A shopkeeper's request to send delivered goods back to the company
+// (see services/returnService.js)
+const returnRequestSchema = new mongoose.Schema({
+  returnNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    required: [true, 'Order ID is required']
+  },
+  orderNumber: {
+    type: String
+  },
+  shopkeeperId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Shopkeeper ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+
+  // Returned quantities, priced as in the order (VAT included in `amount`)
+  items: {
+    type: [{
+      _id: false,
+      productId: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+      productName: { type: String, required: true },
+      unit: { type: String, default: 'piece' },
+      quantity: { type: Number, required: true, min: [1, 'Quantity must be at least 1'] },
+      unitPrice: { type: Number, required: true },
+      vatRate: { type: Number, default: 0 },
+      amount: { type: Number, required: true }
+    }],
+    validate: [items => items.length > 0, 'At least one item is required']
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+
+  reason: {
+    type: String,
+    enum: returnConfig.reasons,
+    required: [true, 'Reason is required']
+  },
+  description: {
+    type: String,
+    default: '',
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  photos: [{
+    _id: false,
+    path: String,
+    thumbnail: String
+  }],
+
+  // requested -> approved -> picked_up -> completed, or rejected/cancelled
+  status: {
+    type: String,
+    enum: ['requested', 'approved', 'rejected', 'picked_up', 'completed', 'cancelled'],
+    default: 'requested'
+  },
+  decisionNote: {
+    type: String
+  },
+  decidedBy: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String
+  },
+  decidedAt: {
+    type: Date
+  },
+
+  // Delivery that brings the goods back, and the credit issued for them
+  pickupDeliveryId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Delivery'
+  },
+  creditNoteId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CreditNote'
+  },
+  completedAt: {
+    type: Date
+  },
+
+  timeline: [{
+    _id: false,
+    status: String,
+    timestamp: { type: Date, default: Date.now },
+    note: String,
+    actor: {
+      name: String,
+      role: String
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+returnRequestSchema.index({ orderId: 1 });
+returnRequestSchema.index({ shopkeeperId: 1, createdAt: -1 });
+returnRequestSchema.index({ companyId: 1, status: 1 });
+
+module.exports = mongoose.models.ReturnRequest || mongoose.model('ReturnRequest', returnRequestSchema);
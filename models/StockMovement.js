@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+
+const stockMovementSchema = new mongoose.Schema({
+  // Product and owning company
+  productId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Company ID is required']
+  },
+
+  // Order the movement belongs to (empty for manual adjustments)
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  orderNumber: {
+    type: String
+  },
+
+  // Movement type
+  // reservation: available -> reserved (order placed)
+  // commit:      reserved -> shipped out (order delivered)
+  // release:     reserved -> available (order cancelled/rejected/failed)
+  // adjustment:  manual change of available stock by the company
+  // shortfall:   reserved units the company could not ship (order short-shipped)
+  // return:      delivered units brought back by a return pickup
+  type: {
+    type: String,
+    enum: ['reservation', 'commit', 'release', 'adjustment', 'shortfall', 'return'],
+    required: [true, 'Movement type is required']
+  },
+
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Quantity cannot be negative']
+  },
+
+  // Signed changes applied to the product
+  stockDelta: {
+    type: Number,
+    default: 0
+  },
+  reservedDelta: {
+    type: Number,
+    default: 0
+  },
+
+  // Balances after the movement was applied
+  stockAfter: {
+    type: Number
+  },
+  reservedAfter: {
+    type: Number
+  },
+
+  actor: {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: String,
+    role: String
+  },
+
+  note: {
+    type: String,
+    default: ''
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+stockMovementSchema.index({ productId: 1, createdAt: -1 });
+stockMovementSchema.index({ orderId: 1 });
+stockMovementSchema.index({ companyId: 1, createdAt: -1 });
+
+module.exports = mongoose.models.StockMovement || mongoose.model('StockMovement', stockMovementSchema);
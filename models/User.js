@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const approvalConfig = require('../config/approvals');
 
 const userSchema = new mongoose.Schema({
   // Basic Information
@@ -46,6 +47,39 @@ const userSchema = new mongoose.Schema({
     default: null
   },
   
+  // Registration review (see services/approvalService.js); decisions are
+  // recorded in models/ApprovalLog.js
+  approval: {
+    // Trade license, NID and the like, stored outside the public uploads
+    documents: [{
+      kind: {
+        type: String,
+        enum: Object.keys(approvalConfig.documentTypes),
+        required: true
+      },
+      fileName: String,
+      originalName: String,
+      mimeType: String,
+      size: Number,
+      uploadedAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
+    // Open question from an admin, until the registrant answers it
+    infoRequest: {
+      note: String,
+      requestedAt: Date
+    },
+    // Link for uploading documents without logging in. Only the SHA-256 hash
+    // of the e-mailed token is kept.
+    uploadTokenHash: {
+      type: String,
+      select: false
+    },
+    uploadTokenExpiresAt: Date
+  },
+  
   // Location Information
   area: {
     type: String,
@@ -72,7 +106,39 @@ const userSchema = new mongoose.Schema({
     companyName: String,
     companyType: String,
     businessLicense: String,
-    taxId: String
+    taxId: String,
+    // Assign the best-matching delivery worker as soon as an order is approved
+    autoAssignDeliveries: {
+      type: Boolean,
+      default: false
+    },
+    // Delivery SLA overrides; config/sla.js applies where these are not set
+    deliverySla: {
+      defaultHours: Number,
+      areas: [{
+        _id: false,
+        area: String,
+        hours: Number
+      }]
+    }
+  },
+  
+  // Set for staff logins of a company. Staff act for the company account
+  // (see authenticateToken) with the permissions granted by its owner.
+  companyStaff: {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    permissions: {
+      type: [String],
+      default: undefined
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    invitedAt: Date
   },
   
   deliveryWorkerInfo: {
@@ -92,6 +158,21 @@ const userSchema = new mongoose.Schema({
     default: null
   },
   
+  // Which channels notifications are sent through besides the in-app inbox
+  notificationPreferences: {
+    email: {
+      type: Boolean,
+      default: true
+    },
+    sms: {
+      type: Boolean,
+      // Shopkeepers are often not logged in, so they get SMS unless they turn it off
+      default: function() {
+        return this.role === 'shopkeeper';
+      }
+    }
+  },
+  
   // Verification
   isEmailVerified: {
     type: Boolean,
@@ -102,6 +183,21 @@ const userSchema = new mongoose.Schema({
     default: false
   },
   
+  // Pending password reset. Only the SHA-256 hash of the e-mailed token is
+  // kept; the token itself is never stored.
+  passwordReset: {
+    tokenHash: {
+      type: String,
+      select: false
+    },
+    expiresAt: Date,
+    requestedAt: Date
+  },
+  // Sessions signed in before this are no longer accepted
+  passwordChangedAt: {
+    type: Date
+  },
+  
   // Timestamps
   lastLogin: {
     type: Date,
@@ -116,6 +212,10 @@ userSchema.index({ email: 1 });
 userSchema.index({ role: 1 });
 userSchema.index({ area: 1 });
 userSchema.index({ status: 1 });
+userSchema.index({ 'companyStaff.companyId': 1 });
+
+// Companies themselves, without their staff logins
+userSchema.statics.COMPANY_ACCOUNT = { role: 'company_rep', 'companyStaff.companyId': null };
 
 // Hash password before saving
 userSchema.pre('save', async function(next) {
@@ -130,6 +230,19 @@ userSchema.pre('save', async function(next) {
   }
 });
 
+// A changed phone number has to be confirmed again
+userSchema.pre('save', function(next) {
+  if (!this.isNew && this.isModified('phone') && !this.isModified('isPhoneVerified')) {
+    this.isPhoneVerified = false;
+  }
+  next();
+});
+
+// Whether this is a company that owns products and orders, not a staff login
+userSchema.methods.isCompanyAccount = function() {
+  return this.role === 'company_rep' && !this.companyStaff?.companyId;
+};
+
 // Method to compare password
 userSchema.methods.comparePassword = async function(candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
@@ -139,6 +252,8 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.getPublicProfile = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.passwordReset;
+  if (userObject.approval) delete userObject.approval.uploadTokenHash;
   return userObject;
 };
 
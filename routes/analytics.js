@@ -2,13 +2,15 @@ const express = require('express');
 const router = express.Router();
 const Analytics = require('../models/Analytics');
 const AnalyticsService = require('../services/analyticsService');
-const { authenticateToken, authorizeShopkeeper } = require('../middleware/auth');
+const { authenticateToken, authorizeShopkeeper, authorizePermission } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
 const mongoose = require('mongoose');
 
+const authorizeAnalytics = authorizePermission('view_analytics');
+
 
 // Get company performance summary
-router.get('/company/:companyId/summary', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/summary', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     const { period = 'monthly', months = 12 } = req.query;
@@ -60,7 +62,7 @@ router.get('/product/:productId/trends', authenticateToken, async (req, res) =>
 });
 
 // Get company risk assessment
-router.get('/company/:companyId/risk', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/risk', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     
@@ -78,7 +80,7 @@ router.get('/company/:companyId/risk', authenticateToken, async (req, res) => {
 });
 
 // Get weekly analytics
-router.get('/company/:companyId/weekly', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/weekly', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     const { startDate, endDate } = req.query;
@@ -108,7 +110,7 @@ router.get('/company/:companyId/weekly', authenticateToken, async (req, res) =>
 });
 
 // Get quarterly analytics
-router.get('/company/:companyId/quarterly', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/quarterly', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     const { year = new Date().getFullYear() } = req.query;
@@ -207,7 +209,7 @@ router.get('/shopkeeper/:shopkeeperId', authenticateToken, authorizeShopkeeper,
 });
 
 // Get analytics by date range
-router.get('/company/:companyId/range', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/range', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     const { startDate, endDate, period = 'daily' } = req.query;
@@ -239,7 +241,7 @@ router.get('/company/:companyId/range', authenticateToken, async (req, res) => {
 });
 
 // Get top performing and underperforming products
-router.get('/company/:companyId/performance', authenticateToken, async (req, res) => {
+router.get('/company/:companyId/performance', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     const { limit = 10, period = 'monthly' } = req.query;
@@ -312,7 +314,7 @@ router.get('/company/:companyId/performance', authenticateToken, async (req, res
 });
 
 // Get analytics dashboard data
-router.get('/dashboard/:companyId', authenticateToken, async (req, res) => {
+router.get('/dashboard/:companyId', authenticateToken, authorizeAnalytics, async (req, res) => {
   try {
     const { companyId } = req.params;
     
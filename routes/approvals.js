@@ -0,0 +1,260 @@
+const express = require('express');
+const { body, param, query } = require('express-validator');
+const multer = require('multer');
+const User = require('../models/User');
+const ApprovalService = require('../services/approvalService');
+const approvalConfig = require('../config/approvals');
+const uploadConfig = require('../config/uploads');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizeAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+const DOCUMENT_TYPES = Object.keys(approvalConfig.documentTypes);
+
+// Documents are kept in memory until they are checked and stored; one file per document type
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: uploadConfig.documents.maxFileSize, files: DOCUMENT_TYPES.length }
+}).fields(DOCUMENT_TYPES.map(name => ({ name, maxCount: 1 })));
+
+const handleDocumentUpload = (req, res, next) => {
+  documentUpload(req, res, (error) => {
+    if (!error) return next();
+    let message = error.message;
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      message = `Documents must be smaller than ${Math.round(uploadConfig.documents.maxFileSize / 1024 / 1024)} MB`;
+    } else if (['LIMIT_FILE_COUNT', 'LIMIT_UNEXPECTED_FILE'].includes(error.code)) {
+      message = `Attach one file for each of: ${DOCUMENT_TYPES.join(', ')}`;
+    }
+    res.status(400).json({ error: 'Invalid upload', message });
+  });
+};
+
+const sendApprovalError = (res, error) => {
+  if (error.code === 'INVALID_APPROVAL') {
+    return res.status(400).json({ error: 'Invalid review', message: error.message });
+  }
+  return null;
+};
+
+// What the registrant sees of their own review
+const registrationView = (user) => ({
+  name: user.name,
+  role: user.role,
+  status: user.status,
+  infoRequest: user.approval?.infoRequest?.requestedAt ? user.approval.infoRequest : null,
+  documents: (user.approval?.documents || []).map(({ _id, kind, originalName, uploadedAt }) => ({ _id, kind, originalName, uploadedAt }))
+});
+
+// Validation rules
+const validateUserParam = [
+  param('userId').isMongoId().withMessage('Invalid user ID'),
+  handleValidationErrors,
+];
+
+const validateDocumentParams = [
+  param('userId').isMongoId().withMessage('Invalid user ID'),
+  param('documentId').isMongoId().withMessage('Invalid document ID'),
+  handleValidationErrors,
+];
+
+const validateToken = [
+  param('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid link'),
+  handleValidationErrors,
+];
+
+const validateDecision = [
+  body('decision').isIn(['approve', 'reject', 'request_info']).withMessage('decision must be approve, reject or request_info'),
+  body('note').optional({ values: 'falsy' }).isString().trim().isLength({ max: 1000 }).withMessage('Note must be at most 1000 characters'),
+  handleValidationErrors,
+];
+
+const validateReply = [
+  body('note').optional({ values: 'falsy' }).isString().trim().isLength({ max: 1000 }).withMessage('Note must be at most 1000 characters'),
+  handleValidationErrors,
+];
+
+const validateLogQuery = [
+  query('userId').optional().isMongoId().withMessage('Invalid user ID'),
+  query('action').optional().isString(),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  handleValidationErrors,
+];
+
+// Load the account a review is about, or send 404
+const findUser = async (req, res) => {
+  const user = await User.findOne({ _id: req.params.userId, role: { $ne: 'admin' } });
+  if (!user) {
+    res.status(404).json({
+      error: 'User not found',
+      message: 'No user exists with this id'
+    });
+    return null;
+  }
+  return user;
+};
+
+// Load the pending account of an upload link, or send 404
+const findByToken = async (req, res) => {
+  const user = await ApprovalService.findByUploadToken(req.params.token);
+  if (!user) {
+    res.status(404).json({
+      error: 'Invalid link',
+      message: 'This link is invalid or has expired, or the registration was already decided.'
+    });
+    return null;
+  }
+  return user;
+};
+
+// Approval policy per role and the documents a registrant can upload
+router.get('/policy', (req, res) => {
+  res.json({
+    policy: approvalConfig.policy,
+    documentTypes: Object.entries(approvalConfig.documentTypes).map(([key, label]) => ({ key, label }))
+  });
+});
+
+// Registrant: their review, opened from the upload link
+router.get('/registration/:token', validateToken, async (req, res) => {
+  try {
+    const user = await findByToken(req, res);
+    if (!user) return;
+    res.json({ registration: registrationView(user) });
+  } catch (error) {
+    console.error('Get registration error:', error);
+    res.status(500).json({
+      error: 'Failed to get registration',
+      message: 'An error occurred while fetching the registration'
+    });
+  }
+});
+
+// Registrant: upload documents (multipart, one file per document type) and/or a `note`
+router.post('/registration/:token/documents', handleDocumentUpload, validateToken, validateReply, async (req, res) => {
+  try {
+    const user = await findByToken(req, res);
+    if (!user) return;
+
+    const files = Object.values(req.files || {}).flat();
+    const updated = await ApprovalService.addDocuments(user, files, req.body.note);
+    res.status(201).json({
+      message: 'Thank you. An admin will review your registration.',
+      registration: registrationView(updated)
+    });
+  } catch (error) {
+    if (sendApprovalError(res, error)) return;
+    console.error('Upload documents error:', error);
+    res.status(500).json({
+      error: 'Upload failed',
+      message: 'An error occurred while uploading the documents'
+    });
+  }
+});
+
+// Admin: audit log of all reviews
+router.get('/log', authenticateToken, authorizeAdmin, validateLogQuery, async (req, res) => {
+  try {
+    const { userId, action, page = 1, limit = 20 } = req.query;
+    const { entries, total } = await ApprovalService.list({ userId, action, page, limit });
+    res.json({
+      entries,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        total,
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get approval log error:', error);
+    res.status(500).json({
+      error: 'Failed to get approval log',
+      message: 'An error occurred while fetching the approval log'
+    });
+  }
+});
+
+// Admin: an account with its documents and review history
+router.get('/users/:userId', authenticateToken, authorizeAdmin, validateUserParam, async (req, res) => {
+  try {
+    const user = await findUser(req, res);
+    if (!user) return;
+
+    const history = await ApprovalService.history(user._id);
+    res.json({
+      user: user.getPublicProfile(),
+      policy: ApprovalService.policyFor(user.role),
+      history
+    });
+  } catch (error) {
+    console.error('Get review error:', error);
+    res.status(500).json({
+      error: 'Failed to get review',
+      message: 'An error occurred while fetching the review'
+    });
+  }
+});
+
+// Admin: approve, reject or ask for more information
+router.post('/users/:userId/decision', authenticateToken, authorizeAdmin, validateUserParam, validateDecision, async (req, res) => {
+  try {
+    const user = await findUser(req, res);
+    if (!user) return;
+
+    const { decision, note } = req.body;
+    const updated = await ApprovalService.decide(user, decision, note, req.user);
+    const messages = {
+      approve: 'User approved',
+      reject: 'User rejected',
+      request_info: 'More information requested; the user was e-mailed a link to reply'
+    };
+    res.json({
+      message: messages[decision],
+      user: updated.getPublicProfile()
+    });
+  } catch (error) {
+    if (sendApprovalError(res, error)) return;
+    console.error('Review decision error:', error);
+    res.status(500).json({
+      error: 'Decision failed',
+      message: 'An error occurred while saving the decision'
+    });
+  }
+});
+
+// Admin: download an uploaded document
+router.get('/users/:userId/documents/:documentId', authenticateToken, authorizeAdmin, validateDocumentParams, async (req, res) => {
+  try {
+    const user = await findUser(req, res);
+    if (!user) return;
+
+    const file = ApprovalService.documentFile(user, req.params.documentId);
+    if (!file) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: 'Document not found'
+      });
+    }
+
+    res.type(file.document.mimeType);
+    res.set('Cache-Control', 'private, no-store');
+    res.set('Content-Disposition', `inline; filename="${file.document.fileName}"`);
+    res.sendFile(file.filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Document not found', message: 'The document file is missing' });
+      }
+    });
+  } catch (error) {
+    console.error('Get document error:', error);
+    res.status(500).json({
+      error: 'Failed to get document',
+      message: 'An error occurred while fetching the document'
+    });
+  }
+});
+
+module.exports = router;
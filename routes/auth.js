@@ -1,13 +1,104 @@
 const express = require('express');
-const jwt = require('jsonwebtoken');
 const bcrypt = require('bcryptjs');
+const { param } = require('express-validator');
 const User = require('../models/User');
-const Notification = require('../models/Notification');
-const { validateUserRegistration, validateUserLogin } = require('../middleware/validation');
+const Session = require('../models/Session');
+const eventBus = require('../services/eventBus');
+const ApprovalService = require('../services/approvalService');
+const PasswordResetService = require('../services/passwordResetService');
+const SessionService = require('../services/sessionService');
+const OtpService = require('../services/otpService');
+const { phoneVariants } = require('../services/phoneNumbers');
+const authConfig = require('../config/auth');
+const { validateUserRegistration, validateUserLogin, validateForgotPassword, validateResetPassword,
+  validateOtpRequest, validateOtpLogin, validatePhoneCode, handleValidationErrors } = require('../middleware/validation');
 const { authenticateToken } = require('../middleware/auth');
 
 const router = express.Router();
 
+const { session: sessionConfig } = authConfig;
+
+// The refresh token lives in an httpOnly cookie that page scripts cannot read
+const refreshCookieOptions = {
+  httpOnly: true,
+  secure: sessionConfig.cookieSecure,
+  sameSite: sessionConfig.cookieSameSite,
+  path: sessionConfig.cookiePath
+};
+
+const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(sessionConfig.cookieName, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: sessionConfig.refreshTokenDays * 24 * 60 * 60 * 1000
+  });
+};
+
+const clearRefreshCookie = (res) => res.clearCookie(sessionConfig.cookieName, refreshCookieOptions);
+
+const readRefreshCookie = (req) => {
+  const pair = (req.headers.cookie || '').split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${sessionConfig.cookieName}=`));
+  return pair ? decodeURIComponent(pair.slice(sessionConfig.cookieName.length + 1)) : null;
+};
+
+// Only active users and admins may login; sends 403 and returns true otherwise
+const refuseLogin = (user, res) => {
+  if (user.status === 'pending' && user.approval?.infoRequest?.requestedAt) {
+    res.status(403).json({
+      error: 'Account pending approval',
+      message: 'We need more information before your account can be approved. Please use the link we e-mailed you.'
+    });
+    return true;
+  }
+
+  if (user.status === 'pending') {
+    res.status(403).json({
+      error: 'Account pending approval',
+      message: 'Your account is pending admin approval. Please wait for approval before logging in.'
+    });
+    return true;
+  }
+  
+  if (user.status === 'suspended') {
+    res.status(403).json({
+      error: 'Account suspended',
+      message: 'Your account has been suspended. Please contact support.'
+    });
+    return true;
+  }
+  
+  if (user.role !== 'admin' && user.status !== 'active') {
+    res.status(403).json({
+      error: 'Account not active',
+      message: 'Your account is not active. Please contact support.'
+    });
+    return true;
+  }
+  return false;
+};
+
+const sendOtpError = (res, error) => {
+  if (error.code === 'OTP_RATE_LIMITED') {
+    res.set('Retry-After', String(error.retryAfter));
+    return res.status(429).json({ error: 'Too many codes', message: error.message, retryAfter: error.retryAfter });
+  }
+  if (error.code === 'INVALID_OTP') {
+    return res.status(400).json({ error: 'Invalid code', message: error.message });
+  }
+  return null;
+};
+
+// Device details stored with a new session
+const clientOf = (req) => ({ userAgent: req.get('user-agent') || '', ip: req.ip });
+
+// Start a session for the user and hand its refresh token to the browser
+const startSession = async (req, res, user) => {
+  const { accessToken, refreshToken } = await SessionService.create(user, clientOf(req));
+  setRefreshCookie(res, refreshToken);
+  return accessToken;
+};
+
 // Register new admin user
 router.post('/register-admin', async (req, res) => {
   try {
@@ -45,12 +136,7 @@ router.post('/register-admin', async (req, res) => {
     const user = new User(userData);
     await user.save();
 
-    // Generate JWT token for admin
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRE || '7d' }
-    );
+    const token = await startSession(req, res, user);
 
     res.status(201).json({
       message: 'Admin registered successfully',
@@ -86,7 +172,7 @@ router.post('/register', validateUserRegistration, async (req, res) => {
 
     // Check if user already exists
     const existingUser = await User.findOne({ 
-      $or: [{ email }, { phone }] 
+      $or: [{ email }, { phone: { $in: phoneVariants(phone) } }] 
     });
 
     if (existingUser) {
@@ -97,7 +183,6 @@ router.post('/register', validateUserRegistration, async (req, res) => {
     }
 
     // Create user object based on role
-    // Create user object with pending status for admin approval
     const userData = {
       name,
       email,
@@ -107,8 +192,8 @@ router.post('/register', validateUserRegistration, async (req, res) => {
       area,
       city,
       address,
-      // For regular users, default to pending until approved by admin
-      status: 'pending'
+      // Pending until an admin approves it, unless the role is approved automatically
+      status: ApprovalService.initialStatus(role)
     };
 
     // Add role-specific information
@@ -122,35 +207,28 @@ router.post('/register', validateUserRegistration, async (req, res) => {
 
     const user = new User(userData);
     await user.save();
+    const documentToken = await ApprovalService.recordRegistration(user);
 
-    // Create notification for admin about new user registration
-    try {
-      const admin = await User.findOne({ role: 'admin' });
-      if (admin) {
-        await Notification.create({
-          recipientId: admin._id,
-          type: 'user_registration',
-          title: 'New User Registration',
-          message: `A new ${role} user (${name}) has registered and is waiting for approval.`,
-          priority: 'medium',
-          data: {
-            userId: user._id,
-            userRole: role,
-            userName: name,
-            userEmail: email
-          }
-        });
-      }
-    } catch (notificationError) {
-      console.error('Failed to create notification:', notificationError);
-      // Don't fail the registration if notification fails
+    // Admins are notified through the user.registered event
+    eventBus.emit(eventBus.EVENTS.USER_REGISTERED, { user });
+
+    if (user.status === 'active') {
+      const token = await startSession(req, res, user);
+      return res.status(201).json({
+        message: 'User registered successfully',
+        user: user.getPublicProfile(),
+        token,
+        requiresApproval: false
+      });
     }
 
     res.status(201).json({
       message: 'User registered successfully. Your account is pending admin approval.',
       user: user.getPublicProfile(),
       token: null, // No token for pending users
-      requiresApproval: true
+      requiresApproval: true,
+      // Lets the registrant upload documents for the review right away
+      documentToken
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -174,27 +252,7 @@ router.post('/login', validateUserLogin, async (req, res) => {
       });
     }
     
-    // Check user status - only allow active users and admins to login
-    if (user.status === 'pending') {
-      return res.status(403).json({
-        error: 'Account pending approval',
-        message: 'Your account is pending admin approval. Please wait for approval before logging in.'
-      });
-    }
-    
-    if (user.status === 'suspended') {
-      return res.status(403).json({
-        error: 'Account suspended',
-        message: 'Your account has been suspended. Please contact support.'
-      });
-    }
-    
-    if (user.role !== 'admin' && user.status !== 'active') {
-      return res.status(403).json({
-        error: 'Account not active',
-        message: 'Your account is not active. Please contact support.'
-      });
-    }
+    if (refuseLogin(user, res)) return;
 
     // Verify password
     const isPasswordValid = await user.comparePassword(password);
@@ -209,12 +267,7 @@ router.post('/login', validateUserLogin, async (req, res) => {
     user.lastLogin = new Date();
     await user.save();
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRE || '7d' }
-    );
+    const token = await startSession(req, res, user);
 
     res.json({
       message: 'Login successful',
@@ -230,9 +283,72 @@ router.post('/login', validateUserLogin, async (req, res) => {
   }
 });
 
+// Text a login code to the phone number of an account. The answer is the
+// same whether or not the number has an account. A number shared by several
+// accounts cannot log in with a code, since it does not say which account.
+router.post('/otp/request', validateOtpRequest, async (req, res) => {
+  try {
+    const users = await User.find({ phone: { $in: phoneVariants(req.body.phone) } }).limit(2);
+    if (users.length > 1) {
+      return res.status(409).json({
+        error: 'Phone number shared',
+        message: 'More than one account uses this phone number. Please log in with your email and password.'
+      });
+    }
+    if (users.length) await OtpService.issue(req.body.phone, 'login', users[0]._id);
+
+    res.json({
+      message: 'If an account uses this number, a login code has been sent',
+      expiresInMinutes: authConfig.otp.ttlMinutes
+    });
+  } catch (error) {
+    if (sendOtpError(res, error)) return;
+    console.error('OTP request error:', error);
+    res.status(500).json({
+      error: 'Failed to send code',
+      message: 'An error occurred while sending the login code'
+    });
+  }
+});
+
+// Login with the phone number and the code texted to it
+router.post('/otp/login', validateOtpLogin, async (req, res) => {
+  try {
+    const otp = await OtpService.verify(req.body.phone, 'login', req.body.code);
+    const user = await User.findById(otp.userId);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        message: 'Phone number or code is incorrect'
+      });
+    }
+    if (refuseLogin(user, res)) return;
+
+    // Receiving the code proves the number belongs to the user
+    user.isPhoneVerified = true;
+    user.lastLogin = new Date();
+    await user.save();
+
+    const token = await startSession(req, res, user);
+
+    res.json({
+      message: 'Login successful',
+      user: user.getPublicProfile(),
+      token
+    });
+  } catch (error) {
+    if (sendOtpError(res, error)) return;
+    console.error('OTP login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'An error occurred during login'
+    });
+  }
+});
+
 router.get('/me', authenticateToken, async (req, res) => {
   try {
-    const user = await User.findById(req.user._id);
+    const user = await User.findById(req.account._id);
     
     if (!user) {
       return res.status(404).json({
@@ -242,7 +358,13 @@ router.get('/me', authenticateToken, async (req, res) => {
     }
 
     res.json({
-      user: user.getPublicProfile()
+      user: user.getPublicProfile(),
+      // The company a staff member works for
+      company: user.companyStaff?.companyId ? {
+        _id: req.user._id,
+        name: req.user.name,
+        companyName: req.user.companyInfo?.companyName
+      } : undefined
     });
   } catch (error) {
     console.error('Get profile error:', error);
@@ -253,29 +375,26 @@ router.get('/me', authenticateToken, async (req, res) => {
   }
 });
 
-router.post('/refresh', authenticateToken, async (req, res) => {
+// Swap the refresh token cookie for a new one and a fresh access token.
+// Needs no access token, so it works after the old one has expired.
+router.post('/refresh', async (req, res) => {
   try {
-    const user = await User.findById(req.user._id);
-    
-    if (!user || (user.role !== 'admin' && user.status !== 'active')) {
-      return res.status(401).json({
-        error: 'Invalid token',
-        message: 'User not found or inactive'
-      });
-    }
-
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRE || '7d' }
-    );
+    const { user, refreshToken, accessToken } = await SessionService.refresh(readRefreshCookie(req), clientOf(req));
+    setRefreshCookie(res, refreshToken);
 
     res.json({
       message: 'Token refreshed successfully',
       user: user.getPublicProfile(),
-      token
+      token: accessToken
     });
   } catch (error) {
+    if (error.code === 'REFRESH_RACE') {
+      return res.status(409).json({ error: 'Refresh in progress', message: error.message });
+    }
+    if (error.code === 'INVALID_SESSION') {
+      clearRefreshCookie(res);
+      return res.status(401).json({ error: 'Session ended', message: error.message });
+    }
     console.error('Token refresh error:', error);
     res.status(500).json({
       error: 'Token refresh failed',
@@ -284,8 +403,13 @@ router.post('/refresh', authenticateToken, async (req, res) => {
   }
 });
 
-router.post('/logout', authenticateToken, async (req, res) => {
+// End the session of this browser. Works with an expired access token too.
+router.post('/logout', async (req, res) => {
   try {
+    const session = await SessionService.findByToken(readRefreshCookie(req));
+    if (session) await SessionService.revoke(session, 'logout');
+    clearRefreshCookie(res);
+
     res.json({
       message: 'Logout successful'
     });
@@ -298,6 +422,73 @@ router.post('/logout', authenticateToken, async (req, res) => {
   }
 });
 
+// Devices the user is signed in on
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await SessionService.list(req.account._id);
+    res.json({
+      sessions: sessions.map(session => ({
+        _id: session._id,
+        device: session.device,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: String(session._id) === String(req.sessionId)
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to get sessions',
+      message: 'An error occurred while fetching sessions'
+    });
+  }
+});
+
+// Sign every other device out
+router.post('/sessions/revoke-all', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await SessionService.revokeAll(req.account._id, { except: req.sessionId });
+    res.json({
+      message: revoked === 1 ? '1 other session signed out' : `${revoked} other sessions signed out`,
+      revoked
+    });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke sessions',
+      message: 'An error occurred while signing out other sessions'
+    });
+  }
+});
+
+// Sign one device out
+router.delete('/sessions/:id', authenticateToken, [
+  param('id').isMongoId().withMessage('Invalid session ID'),
+  handleValidationErrors,
+], async (req, res) => {
+  try {
+    const session = await Session.findOne({ _id: req.params.id, userId: req.account._id, revokedAt: null });
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: 'Session not found'
+      });
+    }
+
+    await SessionService.revoke(session, 'revoked');
+    if (String(session._id) === String(req.sessionId)) clearRefreshCookie(res);
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke session',
+      message: 'An error occurred while signing out the session'
+    });
+  }
+});
+
 router.post('/change-password', authenticateToken, async (req, res) => {
   try {
     const { currentPassword, newPassword } = req.body;
@@ -313,7 +504,7 @@ router.post('/change-password', authenticateToken, async (req, res) => {
         message: 'New password must be at least 6 characters long'
       });
     }
-    const user = await User.findById(req.user._id).select('+password');
+    const user = await User.findById(req.account._id).select('+password');
     const isCurrentPasswordValid = await user.comparePassword(currentPassword);
     if (!isCurrentPasswordValid) {
       return res.status(401).json({
@@ -324,6 +515,8 @@ router.post('/change-password', authenticateToken, async (req, res) => {
 
     user.password = newPassword;
     await user.save();
+    // Other devices have to sign in with the new password
+    await SessionService.revokeAll(user._id, { except: req.sessionId, reason: 'password_changed' });
 
     res.json({
       message: 'Password changed successfully'
@@ -337,29 +530,58 @@ router.post('/change-password', authenticateToken, async (req, res) => {
   }
 });
 
-router.post('/forgot-password', async (req, res) => {
+// Text a code to the user's own phone number to confirm it
+router.post('/phone/send-code', authenticateToken, async (req, res) => {
   try {
-    const { email } = req.body;
-    if (!email) {
+    if (req.account.isPhoneVerified) {
       return res.status(400).json({
-        error: 'Email required',
-        message: 'Please provide your email address'
-      });
-    }
-    const user = await User.findOne({ email });
-    if (!user) {
-      return res.json({
-        message: 'If an account with this email exists, a password reset link has been sent'
+        error: 'Already verified',
+        message: 'Your phone number is already verified'
       });
     }
-    const resetToken = jwt.sign(
-      { userId: user._id, type: 'password_reset' },
-      process.env.JWT_SECRET,
-      { expiresIn: '1h' }
-    );
-    // TODO: Send email with resetToken as a link.
+
+    await OtpService.issue(req.account.phone, 'verify_phone', req.account._id);
+    res.json({
+      message: `A code has been sent to ${req.account.phone}`,
+      expiresInMinutes: authConfig.otp.ttlMinutes
+    });
+  } catch (error) {
+    if (sendOtpError(res, error)) return;
+    console.error('Send phone code error:', error);
+    res.status(500).json({
+      error: 'Failed to send code',
+      message: 'An error occurred while sending the code'
+    });
+  }
+});
+
+// Confirm the user's phone number with the texted code
+router.post('/phone/verify', authenticateToken, validatePhoneCode, async (req, res) => {
+  try {
+    await OtpService.verify(req.account.phone, 'verify_phone', req.body.code);
+    const user = await User.findByIdAndUpdate(req.account._id, { isPhoneVerified: true }, { new: true });
+
+    res.json({
+      message: 'Phone number verified',
+      user: user.getPublicProfile()
+    });
+  } catch (error) {
+    if (sendOtpError(res, error)) return;
+    console.error('Verify phone error:', error);
+    res.status(500).json({
+      error: 'Phone verification failed',
+      message: 'An error occurred while verifying the phone number'
+    });
+  }
+});
+
+// E-mail a password reset link. The answer is the same whether or not the
+// address has an account, so it cannot be used to find accounts.
+router.post('/forgot-password', validateForgotPassword, async (req, res) => {
+  try {
+    await PasswordResetService.request(req.body.email);
     res.json({
-      message: 'Password reset instructions have been sent to your email'
+      message: 'If an account with this email exists, a password reset link has been sent'
     });
   } catch (error) {
     console.error('Forgot password error:', error);
@@ -370,6 +592,45 @@ router.post('/forgot-password', async (req, res) => {
   }
 });
 
+// Check a reset link before asking for the new password
+router.get('/reset-password/:token', async (req, res) => {
+  try {
+    const valid = await PasswordResetService.isValid(req.params.token);
+    if (!valid) {
+      return res.status(400).json({
+        error: 'Invalid reset link',
+        message: 'This reset link is invalid or has expired. Request a new one.'
+      });
+    }
+    res.json({ valid });
+  } catch (error) {
+    console.error('Check reset token error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'An error occurred while checking the reset link'
+    });
+  }
+});
+
+// Set a new password with the token from the reset link
+router.post('/reset-password', validateResetPassword, async (req, res) => {
+  try {
+    await PasswordResetService.reset(req.body.token, req.body.password);
+    res.json({
+      message: 'Your password has been reset. You can now log in.'
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_RESET_TOKEN') {
+      return res.status(400).json({ error: 'Invalid reset link', message: error.message });
+    }
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'An error occurred while resetting the password'
+    });
+  }
+});
+
 // Admin-only route: Get pending users count
 router.get('/pending-users-count', authenticateToken, async (req, res) => {
   try {
@@ -441,9 +702,13 @@ router.get('/check-approval/:email', async (req, res) => {
       });
     }
     
+    const infoRequested = user.status === 'pending' && !!user.approval?.infoRequest?.requestedAt;
     res.json({
       status: user.status,
-      message: user.status === 'pending' ? 'Account is pending admin approval' : 'Account is active'
+      infoRequested,
+      message: infoRequested
+        ? 'More information was requested. Please check your e-mail.'
+        : user.status === 'pending' ? 'Account is pending admin approval' : 'Account is active'
     });
   } catch (error) {
     console.error('Check approval error:', error);
@@ -483,31 +748,19 @@ router.patch('/approve-user/:userId', authenticateToken, async (req, res) => {
       });
     }
     
-    user.status = 'active';
-    await user.save();
-    
-    // Create notification for the approved user
-    try {
-      await Notification.create({
-        recipientId: user._id,
-        type: 'user_approved',
-        title: 'Account Approved',
-        message: 'Your account has been approved by the administrator. You can now log in to access your account.',
-        priority: 'high',
-        data: {
-          approvedBy: req.user._id,
-          approvedAt: new Date()
-        }
-      });
-    } catch (notificationError) {
-      console.error('Failed to create approval notification:', notificationError);
-    }
+    // Registrations go through the review; suspended accounts are reactivated
+    const approved = user.status === 'pending'
+      ? await ApprovalService.decide(user, 'approve', req.body?.note, req.user)
+      : await ApprovalService.changeStatus(user, 'active', req.body?.note, req.user);
     
     res.json({
       message: 'User approved successfully',
-      user: user.getPublicProfile()
+      user: approved.getPublicProfile()
     });
   } catch (error) {
+    if (error.code === 'INVALID_APPROVAL') {
+      return res.status(400).json({ error: 'Approval failed', message: error.message });
+    }
     console.error('Approve user error:', error);
     res.status(500).json({
       error: 'Approval failed',
@@ -615,6 +868,10 @@ router.put('/user/:userId', authenticateToken, async (req, res) => {
     delete updateData.password;
     delete updateData.email; // Email should be updated through a separate process
     delete updateData._id;
+    delete updateData.approval;
+    // Status changes are recorded in the approval log
+    const { status } = updateData;
+    delete updateData.status;
 
     const user = await User.findById(userId);
     if (!user) {
@@ -632,6 +889,7 @@ router.put('/user/:userId', authenticateToken, async (req, res) => {
     });
 
     await user.save();
+    if (status) await ApprovalService.changeStatus(user, status, user.suspensionReason, req.user);
 
     res.json({
       message: 'User profile updated successfully',
@@ -668,37 +926,19 @@ router.patch('/reject-user/:userId', authenticateToken, async (req, res) => {
       });
     }
     
-    user.status = 'suspended';
-    if (reason) {
-      user.suspensionReason = reason;
-    }
-    await user.save();
-    
-    // Create notification for the rejected user
-    try {
-      await Notification.create({
-        recipientId: user._id,
-        type: 'user_rejected',
-        title: 'Account Rejected',
-        message: reason 
-          ? `Your account registration has been rejected. Reason: ${reason}`
-          : 'Your account registration has been rejected by the administrator.',
-        priority: 'high',
-        data: {
-          rejectedBy: req.user._id,
-          rejectedAt: new Date(),
-          reason: reason
-        }
-      });
-    } catch (notificationError) {
-      console.error('Failed to create rejection notification:', notificationError);
-    }
+    // Registrations go through the review, which needs a reason; active accounts are suspended
+    const rejected = user.status === 'pending'
+      ? await ApprovalService.decide(user, 'reject', reason, req.user)
+      : await ApprovalService.changeStatus(user, 'suspended', reason, req.user);
     
     res.json({
       message: 'User rejected/suspended successfully',
-      user: user.getPublicProfile()
+      user: rejected.getPublicProfile()
     });
   } catch (error) {
+    if (error.code === 'INVALID_APPROVAL') {
+      return res.status(400).json({ error: 'Rejection failed', message: error.message });
+    }
     console.error('Reject user error:', error);
     res.status(500).json({
       error: 'Rejection failed',
@@ -0,0 +1,36 @@
+const express = require('express');
+const { authenticateToken, authorizeShopkeeper } = require('../middleware/auth');
+const {
+  getCart,
+  addItem,
+  addFromOrder,
+  updateItem,
+  removeItem,
+  clearCompany,
+  clearCart
+} = require('../controllers/cartController');
+
+const router = express.Router();
+
+// Get the logged-in shopkeeper's cart grouped by company
+router.get('/', authenticateToken, authorizeShopkeeper, getCart);
+
+// Add a product to the cart
+router.post('/items', authenticateToken, authorizeShopkeeper, addItem);
+
+// Add the lines of a past order to the cart
+router.post('/reorder', authenticateToken, authorizeShopkeeper, addFromOrder);
+
+// Set the quantity of a cart line
+router.put('/items/:productId', authenticateToken, authorizeShopkeeper, updateItem);
+
+// Remove a product from the cart
+router.delete('/items/:productId', authenticateToken, authorizeShopkeeper, removeItem);
+
+// Remove all lines for a company
+router.delete('/company/:companyId', authenticateToken, authorizeShopkeeper, clearCompany);
+
+// Empty the cart
+router.delete('/', authenticateToken, authorizeShopkeeper, clearCart);
+
+module.exports = router;
@@ -0,0 +1,116 @@
+const express = require('express');
+const { body, param, query } = require('express-validator');
+const CollectionService = require('../services/collectionService');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizePermission, authorizeDeliveryWorker } = require('../middleware/auth');
+
+const router = express.Router();
+
+const authorizeSettlement = authorizePermission('settle_collections');
+
+const sendCollectionError = (res, error) => {
+  if (error.code === 'INVALID_COLLECTION') {
+    return res.status(400).json({ error: 'Invalid collection', message: error.message });
+  }
+  return null;
+};
+
+// Validation rules
+const validateSummaryQuery = [
+  query('date').optional().isISO8601().withMessage('Invalid date'),
+  query('deliveryWorkerId').optional().isMongoId().withMessage('Invalid deliveryWorkerId'),
+  query('companyId').optional().isMongoId().withMessage('Invalid companyId'),
+  handleValidationErrors,
+];
+
+const validateWorkerParam = [
+  param('workerId').isMongoId().withMessage('Invalid workerId'),
+  handleValidationErrors,
+];
+
+const validateSettlement = [
+  body('collectionIds').isArray({ min: 1 }).withMessage('collectionIds must be a non-empty array'),
+  body('collectionIds.*').isMongoId().withMessage('Invalid collection ID'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('note too long'),
+  handleValidationErrors,
+];
+
+// Daily cash summary for the logged-in delivery worker
+router.get('/worker/summary', authenticateToken, authorizeDeliveryWorker, validateSummaryQuery, async (req, res) => {
+  try {
+    const result = await CollectionService.getDailySummary(req.user._id, { date: req.query.date });
+    res.json(result);
+  } catch (error) {
+    if (sendCollectionError(res, error)) return;
+    console.error('Get collection summary error:', error);
+    res.status(500).json({
+      error: 'Failed to get collection summary',
+      message: 'An error occurred while fetching the collection summary'
+    });
+  }
+});
+
+// Daily cash summary of one of the company's delivery workers
+router.get('/worker/:workerId/summary', authenticateToken, authorizeSettlement, validateWorkerParam, validateSummaryQuery, async (req, res) => {
+  try {
+    const companyId = req.user.role === 'admin' ? undefined : req.user._id;
+    const result = await CollectionService.getDailySummary(req.params.workerId, { date: req.query.date, companyId });
+    res.json(result);
+  } catch (error) {
+    if (sendCollectionError(res, error)) return;
+    console.error('Get collection summary error:', error);
+    res.status(500).json({
+      error: 'Failed to get collection summary',
+      message: 'An error occurred while fetching the collection summary'
+    });
+  }
+});
+
+// Company collections grouped by delivery worker (default: not yet handed over)
+router.get('/company', authenticateToken, authorizeSettlement, validateSummaryQuery, async (req, res) => {
+  try {
+    const { status = 'collected', deliveryWorkerId, date, companyId } = req.query;
+    const ownerId = req.user.role === 'admin' ? companyId : req.user._id;
+    if (!ownerId) {
+      return res.status(400).json({
+        error: 'Missing company',
+        message: 'companyId is required'
+      });
+    }
+
+    const workers = await CollectionService.getCompanyCollections(ownerId, {
+      status: status === 'all' ? null : status,
+      deliveryWorkerId,
+      date
+    });
+
+    res.json({ workers });
+  } catch (error) {
+    if (sendCollectionError(res, error)) return;
+    console.error('Get company collections error:', error);
+    res.status(500).json({
+      error: 'Failed to get collections',
+      message: 'An error occurred while fetching collections'
+    });
+  }
+});
+
+// Mark collections as handed over; their orders become paid, or partly paid after a shortfall
+router.post('/settle', authenticateToken, authorizeSettlement, validateSettlement, async (req, res) => {
+  try {
+    const result = await CollectionService.settle(req.body.collectionIds, req.user, req.body.note, req.account);
+    res.json({
+      message: 'Collections settled successfully',
+      ...result
+    });
+  } catch (error) {
+    if (sendCollectionError(res, error)) return;
+    console.error('Settle collections error:', error);
+    res.status(500).json({
+      error: 'Settlement failed',
+      message: 'An error occurred while settling collections'
+    });
+  }
+});
+
+module.exports = router;
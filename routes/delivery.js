@@ -1,118 +1,116 @@
 const express = require('express');
+const multer = require('multer');
 const Delivery = require('../models/Delivery');
 const Order = require('../models/Order');
 const User = require('../models/User');
-const Notification = require('../models/Notification');
-const { validateDeliveryAssignment, validateDeliveryStatusUpdate, validateObjectId, validatePagination } = require('../middleware/validation');
-const { authenticateToken, authorizeDeliveryWorker, authorizeCompanyRep, authorizeAdmin } = require('../middleware/auth');
+const AutoAssignmentService = require('../services/autoAssignmentService');
+const DeliveryIssueService = require('../services/deliveryIssueService');
+const DeliveryLifecycleService = require('../services/deliveryLifecycleService');
+const DeliveryProofService = require('../services/deliveryProofService');
+const RoutePlanningService = require('../services/routePlanningService');
+const { param } = require('express-validator');
+const { handleValidationErrors, validateDeliveryAssignment, validateDeliveryStatusUpdate, validateObjectId, validatePagination } = require('../middleware/validation');
+const uploadConfig = require('../config/uploads');
+const { idempotent } = require('../middleware/idempotency');
+const { authenticateToken, authorizePermission, authorizeDeliveryWorker, authorizeCompanyRep, authorizeAdmin } = require('../middleware/auth');
 
 const router = express.Router();
 
-// Helper function to send delivery notifications
-const sendDeliveryNotifications = async (delivery, notificationType, additionalData = {}) => {
+const authorizeDeliveryAssignment = authorizePermission('assign_deliveries');
+
+const validateIssueParams = [
+  param('deliveryId').isMongoId().withMessage('Invalid delivery ID'),
+  param('issueId').isMongoId().withMessage('Invalid issue ID'),
+  handleValidationErrors,
+];
+
+const validateOrderParam = [
+  param('orderId').isMongoId().withMessage('Invalid order ID'),
+  handleValidationErrors,
+];
+
+// Proof-of-delivery uploads are kept in memory until they are resized and stored
+const proofUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: uploadConfig.proof.maxPhotoSize, files: 2 }
+}).fields([{ name: 'photo', maxCount: 1 }, { name: 'signature', maxCount: 1 }]);
+
+const handleProofUpload = (req, res, next) => {
+  proofUpload(req, res, (error) => {
+    if (!error) return next();
+    const message = error.code === 'LIMIT_FILE_SIZE'
+      ? `Files must be smaller than ${Math.round(uploadConfig.proof.maxPhotoSize / 1024 / 1024)} MB`
+      : error.message;
+    res.status(400).json({ error: 'Invalid upload', message });
+  });
+};
+
+// Multipart forms send nested values as JSON strings
+const parseJsonField = (value) => {
+  if (typeof value !== 'string') return value;
   try {
-    const deliveryData = await Delivery.findById(delivery._id)
-      .populate('shopkeeperId', 'name email')
-      .populate('companyId', 'name email companyInfo.companyName')
-      .populate('deliveryWorkerId', 'name')
-      .populate('orderId', 'orderNumber');
-
-    const notifications = [];
-
-    switch (notificationType) {
-      case 'delivered':
-        // Notify shopkeeper
-        notifications.push(new Notification({
-          recipientId: deliveryData.shopkeeperId._id,
-          type: 'delivery_delivered',
-          title: 'Delivery Completed',
-          message: `Your order ${deliveryData.orderId.orderNumber} has been successfully delivered by ${deliveryData.deliveryWorkerId.name}.`,
-          relatedOrderId: deliveryData.orderId._id,
-          relatedDeliveryId: deliveryData._id,
-          priority: 'high',
-          data: {
-            deliveryNumber: deliveryData.deliveryNumber,
-            deliveredAt: deliveryData.deliveredAt,
-            deliveryWorker: deliveryData.deliveryWorkerId.name,
-            ...additionalData
-          }
-        }));
-
-        // Notify company
-        notifications.push(new Notification({
-          recipientId: deliveryData.companyId._id,
-          type: 'delivery_delivered',
-          title: 'Order Delivered',
-          message: `Order ${deliveryData.orderId.orderNumber} has been delivered to ${deliveryData.shopkeeperId.name}.`,
-          relatedOrderId: deliveryData.orderId._id,
-          relatedDeliveryId: deliveryData._id,
-          priority: 'medium',
-          data: {
-            deliveryNumber: deliveryData.deliveryNumber,
-            shopkeeperName: deliveryData.shopkeeperId.name,
-            deliveredAt: deliveryData.deliveredAt,
-            deliveryWorker: deliveryData.deliveryWorkerId.name,
-            ...additionalData
-          }
-        }));
-        break;
-
-      case 'issue_reported':
-        // Notify shopkeeper about issue
-        notifications.push(new Notification({
-          recipientId: deliveryData.shopkeeperId._id,
-          type: 'delivery_delivered', // Using existing type as closest match
-          title: 'Delivery Issue Reported',
-          message: `There was an issue with delivery ${deliveryData.deliveryNumber}. ${additionalData.issueDescription || 'Please contact support.'}`,
-          relatedOrderId: deliveryData.orderId._id,
-          relatedDeliveryId: deliveryData._id,
-          priority: 'high',
-          data: {
-            deliveryNumber: deliveryData.deliveryNumber,
-            issueType: additionalData.issueType,
-            issueDescription: additionalData.issueDescription,
-            reportedAt: new Date(),
-            deliveryWorker: deliveryData.deliveryWorkerId.name,
-            ...additionalData
-          }
-        }));
-
-        // Notify company about issue
-        notifications.push(new Notification({
-          recipientId: deliveryData.companyId._id,
-          type: 'system_alert',
-          title: 'Delivery Issue Reported',
-          message: `Delivery worker ${deliveryData.deliveryWorkerId.name} reported an issue with delivery ${deliveryData.deliveryNumber}.`,
-          relatedOrderId: deliveryData.orderId._id,
-          relatedDeliveryId: deliveryData._id,
-          priority: 'high',
-          data: {
-            deliveryNumber: deliveryData.deliveryNumber,
-            shopkeeperName: deliveryData.shopkeeperId.name,
-            issueType: additionalData.issueType,
-            issueDescription: additionalData.issueDescription,
-            reportedAt: new Date(),
-            deliveryWorker: deliveryData.deliveryWorkerId.name,
-            ...additionalData
-          }
-        }));
-        break;
-    }
+    return JSON.parse(value);
+  } catch (error) {
+    return undefined;
+  }
+};
 
-    // Save all notifications
-    for (const notification of notifications) {
-      await notification.save();
-    }
+// Load a delivery the company rep (or an admin) may manage, or send 404
+const findManagedDelivery = async (req, res) => {
+  const delivery = await Delivery.findById(req.params.deliveryId);
+  if (!delivery || (req.user.role === 'company_rep' && delivery.companyId.toString() !== req.user._id.toString())) {
+    res.status(404).json({
+      error: 'Delivery not found',
+      message: 'Delivery not found'
+    });
+    return null;
+  }
+  return delivery;
+};
 
-    console.log(`Sent ${notifications.length} notifications for delivery ${notificationType}`);
-  } catch (error) {
-    console.error('Error sending delivery notifications:', error);
-    // Don't throw error as notifications shouldn't block delivery operations
+// Load an order the company rep (or an admin) may assign, or send 404
+const findManagedOrder = async (req, res) => {
+  const order = await Order.findById(req.params.orderId);
+  if (!order || (req.user.role === 'company_rep' && order.companyId.toString() !== req.user._id.toString())) {
+    res.status(404).json({
+      error: 'Order not found',
+      message: 'Order not found'
+    });
+    return null;
   }
+  return order;
+};
+
+// Map lifecycle errors to responses
+const sendLifecycleError = (res, error) => {
+  if (error.code === 'INVALID_DELIVERY_TRANSITION') {
+    return res.status(400).json({ error: 'Invalid status transition', message: error.message });
+  }
+  if (error.code === 'INVALID_COLLECTION') {
+    return res.status(400).json({ error: 'Invalid collection', message: error.message });
+  }
+  if (error.code === 'INVALID_PROOF') {
+    return res.status(400).json({ error: 'Invalid proof of delivery', message: error.message });
+  }
+  if (error.code === 'INVALID_ISSUE_ACTION') {
+    return res.status(400).json({ error: 'Invalid issue action', message: error.message });
+  }
+  if (error.code === 'INVALID_TRANSITION') {
+    return res.status(409).json({
+      error: 'Order cannot follow this delivery change',
+      message: error.message,
+      currentStatus: error.currentStatus,
+      allowedTransitions: error.allowedTransitions
+    });
+  }
+  if (error.code === 'TRANSITION_INPUT_REQUIRED') {
+    return res.status(400).json({ error: 'Missing information', message: error.message });
+  }
+  return null;
 };
 
 // Create delivery assignment (company or admin)
-router.post('/', authenticateToken, async (req, res) => {
+router.post('/', authenticateToken, authorizeDeliveryAssignment, async (req, res) => {
   try {
     const { orderId, deliveryWorkerId } = req.body;
     
@@ -161,82 +159,21 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
-    // Check if delivery already exists for this order
-    const existingDelivery = await Delivery.findOne({ orderId });
-    if (existingDelivery) {
+    // Check if delivery already exists for this order (failed and returned deliveries can be retried)
+    const existingDelivery = await Delivery.findOne({ orderId, ...Delivery.ORDER_DELIVERY });
+    if (existingDelivery && !DeliveryLifecycleService.canReassign(existingDelivery)) {
       return res.status(400).json({
         error: 'Delivery already assigned',
         message: 'A delivery has already been assigned to this order'
       });
     }
 
-    // Generate delivery number
-    const deliveryCount = await Delivery.countDocuments();
-    const deliveryNumber = `DEL-${(deliveryCount + 1).toString().padStart(4, '0')}`;
-
-    // Get company and shopkeeper details
-    const company = await User.findById(order.companyId);
-    const shopkeeper = await User.findById(order.shopkeeperId);
-
-    // Create delivery
-    const delivery = new Delivery({
-      deliveryNumber,
-      orderId,
-      deliveryWorkerId,
-      shopkeeperId: order.shopkeeperId,
-      companyId: order.companyId,
-      items: order.items || [],
-      pickupLocation: company ? `${company.address || 'N/A'}, ${company.area || 'N/A'}, ${company.city || 'N/A'}` : 'Company Warehouse',
-      deliveryLocation: shopkeeper ? `${shopkeeper.address || 'N/A'}, ${shopkeeper.area || 'N/A'}, ${shopkeeper.city || 'N/A'}` : order.deliveryAddress || 'Delivery Address',
-      deliveryArea: shopkeeper ? shopkeeper.area : order.deliveryArea || 'Unknown Area',
-      shopkeeperPhone: shopkeeper ? shopkeeper.phone : order.shopkeeperPhone || 'N/A',
-      shopkeeperName: shopkeeper ? shopkeeper.name : order.shopkeeperName || 'Unknown',
-      deliveryInstructions: order.deliveryInstructions || '',
-      paymentMethod: order.paymentMethod || 'cash_on_delivery',
-      amountToCollect: order.finalAmount || 0,
-      status: 'assigned',
-      assignedAt: new Date()
-    });
-    
-    console.log('Creating delivery with data:', {
-      deliveryNumber,
-      orderId,
-      deliveryWorkerId,
-      itemsCount: (order.items || []).length
-    });
-
-    await delivery.save();
+    // Failed and returned deliveries are retried; otherwise a new delivery is created
+    const delivery = existingDelivery || await DeliveryLifecycleService.buildDelivery(order, deliveryWorker);
 
-    // Update order status and worker assignment
-    order.deliveryWorkerId = deliveryWorkerId;
-    order.status = 'shipped'; // Order is now ready for delivery
-    await order.save();
-
-    // Send notification to delivery worker
-    try {
-      const notification = new Notification({
-        recipientId: deliveryWorkerId,
-        type: 'delivery_assigned',
-        title: 'New Delivery Assignment',
-        message: `You have been assigned a new delivery ${deliveryNumber} from ${company?.companyInfo?.companyName || company?.name || 'Company'} to ${shopkeeper?.name || 'Customer'}.`,
-        relatedOrderId: order._id,
-        relatedDeliveryId: delivery._id,
-        priority: 'high',
-        data: {
-          deliveryNumber,
-          orderNumber: order.orderNumber,
-          shopkeeperName: shopkeeper?.name || 'Unknown',
-          shopkeeperPhone: shopkeeper?.phone || 'N/A',
-          deliveryLocation: delivery.deliveryLocation,
-          pickupLocation: delivery.pickupLocation,
-          assignedAt: new Date()
-        }
-      });
-      await notification.save();
-    } catch (notificationError) {
-      console.error('Failed to send assignment notification:', notificationError);
-      // Don't block delivery creation for notification failures
-    }
+    // Save the delivery and move the order to assigned together.
+    // The worker is notified through the delivery.assigned event.
+    await DeliveryLifecycleService.assign(delivery, order, deliveryWorker, req.user);
 
     res.status(201).json({
       message: 'Delivery assigned successfully',
@@ -244,6 +181,7 @@ router.post('/', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (sendLifecycleError(res, error)) return;
     console.error('Create delivery error:', error);
     res.status(500).json({
       error: 'Delivery assignment failed',
@@ -287,8 +225,41 @@ router.get('/worker', authenticateToken, authorizeDeliveryWorker, validatePagina
   }
 });
 
+// Get the delivery worker's planned route (open deliveries in stop order)
+router.get('/route', authenticateToken, authorizeDeliveryWorker, async (req, res) => {
+  try {
+    const route = await RoutePlanningService.getWorkerRoute(req.user);
+    res.json(route);
+  } catch (error) {
+    console.error('Get route error:', error);
+    res.status(500).json({
+      error: 'Failed to get route',
+      message: 'An error occurred while fetching the delivery route'
+    });
+  }
+});
+
+// Plan the order of today's stops for the delivery worker
+router.post('/route', authenticateToken, authorizeDeliveryWorker, async (req, res) => {
+  try {
+    const { startArea } = req.body;
+    const route = await RoutePlanningService.planWorkerRoute(req.user, { startArea });
+
+    res.json({
+      message: route.stops.length ? 'Route planned successfully' : 'No deliveries to plan',
+      ...route
+    });
+  } catch (error) {
+    console.error('Plan route error:', error);
+    res.status(500).json({
+      error: 'Failed to plan route',
+      message: 'An error occurred while planning the delivery route'
+    });
+  }
+});
+
 // Get deliveries for company
-router.get('/company', authenticateToken, authorizeCompanyRep, validatePagination, async (req, res) => {
+router.get('/company', authenticateToken, authorizeCompanyRep, authorizeDeliveryAssignment, validatePagination, async (req, res) => {
   try {
     const { page = 1, limit = 10, status, area } = req.query;
     
@@ -322,6 +293,98 @@ router.get('/company', authenticateToken, authorizeCompanyRep, validatePaginatio
   }
 });
 
+// Get deliveries with issue tickets (company or admin)
+router.get('/issues', authenticateToken, authorizeDeliveryAssignment, async (req, res) => {
+  try {
+    const deliveries = await DeliveryIssueService.getIssues({
+      companyId: req.user.role === 'company_rep' ? req.user._id : req.query.companyId,
+      status: req.query.status
+    });
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Get delivery issues error:', error);
+    res.status(500).json({
+      error: 'Failed to get issues',
+      message: 'An error occurred while fetching delivery issues'
+    });
+  }
+});
+
+// Get the proof of delivery of an order (shopkeeper, company or admin)
+router.get('/order/:orderId/proof', authenticateToken, validateOrderParam, async (req, res) => {
+  try {
+    const delivery = await Delivery.findOne({ orderId: req.params.orderId, ...Delivery.ORDER_DELIVERY })
+      .populate('deliveryWorkerId', 'name');
+    const canView = delivery && (
+      req.user.role === 'admin' ||
+      delivery.shopkeeperId.toString() === req.user._id.toString() ||
+      delivery.companyId.toString() === req.user._id.toString()
+    );
+
+    if (!canView || delivery.status !== 'delivered') {
+      return res.status(404).json({
+        error: 'Proof not found',
+        message: 'No proof of delivery for this order'
+      });
+    }
+
+    res.json({
+      deliveryNumber: delivery.deliveryNumber,
+      deliveredAt: delivery.deliveredAt,
+      deliveryWorker: delivery.deliveryWorkerId ? delivery.deliveryWorkerId.name : null,
+      proof: delivery.deliveryProof || {}
+    });
+  } catch (error) {
+    console.error('Get delivery proof error:', error);
+    res.status(500).json({
+      error: 'Failed to get proof',
+      message: 'An error occurred while fetching the proof of delivery'
+    });
+  }
+});
+
+// Score the delivery workers for an order (company or admin)
+router.get('/auto-assign/:orderId/candidates', authenticateToken, authorizeDeliveryAssignment, validateOrderParam, async (req, res) => {
+  try {
+    const order = await findManagedOrder(req, res);
+    if (!order) return;
+
+    const candidates = await AutoAssignmentService.scoreWorkers(order);
+    res.json({ candidates });
+  } catch (error) {
+    console.error('Score delivery workers error:', error);
+    res.status(500).json({
+      error: 'Failed to score delivery workers',
+      message: 'An error occurred while scoring delivery workers'
+    });
+  }
+});
+
+// Assign the best-scoring delivery worker to an order (company or admin)
+router.post('/auto-assign/:orderId', authenticateToken, authorizeDeliveryAssignment, validateOrderParam, async (req, res) => {
+  try {
+    const order = await findManagedOrder(req, res);
+    if (!order) return;
+
+    const { delivery, worker, score } = await AutoAssignmentService.autoAssign(order, req.user);
+    res.status(201).json({
+      message: `Delivery assigned to ${worker.name}`,
+      delivery: delivery.getDeliverySummary(),
+      score
+    });
+  } catch (error) {
+    if (error.code === 'AUTO_ASSIGNMENT_FAILED') {
+      return res.status(400).json({ error: 'Auto-assignment failed', message: error.message });
+    }
+    if (sendLifecycleError(res, error)) return;
+    console.error('Auto-assign delivery error:', error);
+    res.status(500).json({
+      error: 'Delivery assignment failed',
+      message: 'An error occurred while assigning delivery'
+    });
+  }
+});
+
 // Get delivery by ID
 router.get('/:deliveryId', authenticateToken, validateObjectId, async (req, res) => {
   try {
@@ -366,7 +429,7 @@ router.get('/:deliveryId', authenticateToken, validateObjectId, async (req, res)
 });
 
 // Update delivery status (delivery worker)
-router.put('/:deliveryId/status', authenticateToken, authorizeDeliveryWorker, validateDeliveryStatusUpdate, async (req, res) => {
+router.put('/:deliveryId/status', authenticateToken, authorizeDeliveryWorker, idempotent, validateDeliveryStatusUpdate, async (req, res) => {
   try {
     const { status, issues } = req.body;
 
@@ -387,36 +450,11 @@ router.put('/:deliveryId/status', authenticateToken, authorizeDeliveryWorker, va
       });
     }
 
-    // Validate status transition
-    const validTransitions = {
-      assigned: ['picked_up'],
-      picked_up: ['in_transit', 'delivered', 'failed'],
-      in_transit: ['delivered', 'failed'],
-      delivered: [],
-      failed: ['assigned'],
-      returned: ['assigned']
-    };
-
-    if (!validTransitions[delivery.status] || !validTransitions[delivery.status].includes(status)) {
-      return res.status(400).json({
-        error: 'Invalid status transition',
-        message: `Cannot change status from ${delivery.status} to ${status}`
-      });
-    }
-
-    await delivery.updateStatus(status);
-
-    // Add issues if provided
-    if (issues && Array.isArray(issues)) {
-      for (const issue of issues) {
-        await delivery.addIssue(issue.type, issue.description);
-      }
-    }
-
-    // Update order status if delivery is completed
-    if (status === 'delivered') {
-      await Order.findByIdAndUpdate(delivery.orderId, { status: 'delivered' });
-    }
+    // Moves the order along with the delivery
+    await DeliveryLifecycleService.changeDeliveryStatus(delivery, status, req.user, {
+      reason: req.body.reason,
+      issues: Array.isArray(issues) ? issues : []
+    });
 
     res.json({
       message: 'Delivery status updated successfully',
@@ -424,6 +462,7 @@ router.put('/:deliveryId/status', authenticateToken, authorizeDeliveryWorker, va
     });
 
   } catch (error) {
+    if (sendLifecycleError(res, error)) return;
     console.error('Update delivery status error:', error);
     res.status(500).json({
       error: 'Status update failed',
@@ -433,9 +472,11 @@ router.put('/:deliveryId/status', authenticateToken, authorizeDeliveryWorker, va
 });
 
 // Complete delivery with proof
-router.put('/:deliveryId/complete', authenticateToken, authorizeDeliveryWorker, async (req, res) => {
+router.put('/:deliveryId/complete', authenticateToken, authorizeDeliveryWorker, idempotent, handleProofUpload, async (req, res) => {
   try {
-    const { signature, photo, notes } = req.body;
+    const { notes, receivedBy } = req.body;
+    const collection = parseJsonField(req.body.collection);
+    const files = req.files || {};
 
     const delivery = await Delivery.findById(req.params.deliveryId);
 
@@ -462,20 +503,26 @@ router.put('/:deliveryId/complete', authenticateToken, authorizeDeliveryWorker,
       });
     }
 
-    const proof = { signature, photo, notes };
-    await delivery.completeDelivery(proof);
-
-    // Update order status
-    await Order.findByIdAndUpdate(delivery.orderId, { 
-      status: 'delivered',
-      deliveredAt: new Date()
-    });
+    if (!files.signature) {
+      return res.status(400).json({
+        error: 'Missing signature',
+        message: "The customer's signature is required"
+      });
+    }
 
-    // Send notifications to shopkeeper and company
-    await sendDeliveryNotifications(delivery, 'delivered', {
-      proof,
-      completedBy: req.user.name
+    // Completes the delivery, records the cash collected and marks the order delivered.
+    // Stored files are removed again if the delivery cannot be completed.
+    const stored = await DeliveryProofService.save(delivery, {
+      photo: files.photo?.[0],
+      signature: files.signature[0]
     });
+    const proof = { ...stored, receivedBy, notes };
+    try {
+      await DeliveryLifecycleService.changeDeliveryStatus(delivery, 'delivered', req.user, { proof, collection });
+    } catch (error) {
+      await DeliveryProofService.discard(stored);
+      throw error;
+    }
 
     res.json({
       message: 'Delivery completed successfully',
@@ -483,6 +530,7 @@ router.put('/:deliveryId/complete', authenticateToken, authorizeDeliveryWorker,
     });
 
   } catch (error) {
+    if (sendLifecycleError(res, error)) return;
     console.error('Complete delivery error:', error);
     res.status(500).json({
       error: 'Delivery completion failed',
@@ -492,7 +540,7 @@ router.put('/:deliveryId/complete', authenticateToken, authorizeDeliveryWorker,
 });
 
 // Report delivery issue (delivery worker)
-router.put('/:deliveryId/report-issue', authenticateToken, authorizeDeliveryWorker, async (req, res) => {
+router.put('/:deliveryId/report-issue', authenticateToken, authorizeDeliveryWorker, idempotent, async (req, res) => {
   try {
     const { issueType, description, canComplete, resolution } = req.body;
 
@@ -521,64 +569,77 @@ router.put('/:deliveryId/report-issue', authenticateToken, authorizeDeliveryWork
       });
     }
 
-    // Add issue to delivery
-    await delivery.addIssue(issueType, description);
+    await DeliveryIssueService.report(delivery, req.user, { issueType, description, canComplete, resolution });
 
-    // Update delivery status based on whether it can be completed
-    if (canComplete === false) {
-      // If delivery cannot be completed, mark as failed
-      delivery.status = 'failed';
-      delivery.failureReason = description;
-      await delivery.save();
+    // An issue solved on the spot does not complete the delivery: that needs /complete with proof
+    const issueStatus = canComplete === false ? 'delivery_failed' : canComplete === true && resolution ? 'resolved' : 'reported';
+    res.json({
+      message: issueStatus === 'resolved' ? 'Issue resolved. Complete the delivery with proof of delivery.' : 'Issue reported successfully',
+      delivery: delivery.getDeliverySummary(),
+      issueStatus
+    });
 
-      // Update order status
-      await Order.findByIdAndUpdate(delivery.orderId, { 
-        status: 'cancelled',
-        cancellationReason: `Delivery failed: ${description}`
-      });
-    } else if (canComplete === true && resolution) {
-      // If issue is resolved and delivery can be completed
-      delivery.status = 'delivered';
-      delivery.deliveredAt = new Date();
-      delivery.actualDeliveryTime = new Date();
-      await delivery.save();
-
-      // Update order status
-      await Order.findByIdAndUpdate(delivery.orderId, { 
-        status: 'delivered',
-        deliveredAt: new Date()
-      });
+  } catch (error) {
+    if (sendLifecycleError(res, error)) return;
+    console.error('Report delivery issue error:', error);
+    res.status(500).json({
+      error: 'Issue reporting failed',
+      message: 'An error occurred while reporting the issue'
+    });
+  }
+});
 
-      // Send delivery completion notifications
-      await sendDeliveryNotifications(delivery, 'delivered', {
-        hasIssue: true,
-        issueType,
-        issueDescription: description,
-        resolution,
-        completedBy: req.user.name
+// Acknowledge an issue ticket (company or admin)
+router.put('/:deliveryId/issues/:issueId/acknowledge', authenticateToken, authorizeDeliveryAssignment, validateIssueParams, async (req, res) => {
+  try {
+    const delivery = await findManagedDelivery(req, res);
+    if (!delivery) return;
+
+    await DeliveryIssueService.acknowledge(delivery, req.params.issueId, req.user);
+    res.json({
+      message: 'Issue acknowledged',
+      delivery
+    });
+  } catch (error) {
+    if (sendLifecycleError(res, error)) return;
+    console.error('Acknowledge delivery issue error:', error);
+    res.status(500).json({
+      error: 'Issue update failed',
+      message: 'An error occurred while acknowledging the issue'
+    });
+  }
+});
+
+// Resolve an issue ticket by rescheduling, reassigning, returning or closing (company or admin)
+router.put('/:deliveryId/issues/:issueId/resolve', authenticateToken, authorizeDeliveryAssignment, validateIssueParams, async (req, res) => {
+  try {
+    const { action, resolution, deliveryWorkerId, scheduledFor } = req.body;
+    if (!action || !resolution) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        message: 'A resolution action and notes are required'
       });
     }
 
-    // Send issue notifications regardless
-    await sendDeliveryNotifications(delivery, 'issue_reported', {
-      issueType,
-      issueDescription: description,
-      canComplete,
+    const delivery = await findManagedDelivery(req, res);
+    if (!delivery) return;
+
+    const resolved = await DeliveryIssueService.resolve(delivery, req.params.issueId, req.user, {
+      action,
       resolution,
-      reportedBy: req.user.name
+      deliveryWorkerId,
+      scheduledFor
     });
-
     res.json({
-      message: 'Issue reported successfully',
-      delivery: delivery.getDeliverySummary(),
-      issueStatus: canComplete === false ? 'delivery_failed' : canComplete === true ? 'resolved_and_completed' : 'reported'
+      message: 'Issue resolved',
+      delivery: resolved
     });
-
   } catch (error) {
-    console.error('Report delivery issue error:', error);
+    if (sendLifecycleError(res, error)) return;
+    console.error('Resolve delivery issue error:', error);
     res.status(500).json({
-      error: 'Issue reporting failed',
-      message: 'An error occurred while reporting the issue'
+      error: 'Issue update failed',
+      message: 'An error occurred while resolving the issue'
     });
   }
 });
@@ -0,0 +1,18 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const RealtimeService = require('../services/realtimeService');
+
+const router = express.Router();
+
+// EventSource cannot send headers, so the stream accepts the JWT as ?token=
+const tokenFromQuery = (req, res, next) => {
+  if (!req.headers['authorization'] && req.query.token) {
+    req.headers['authorization'] = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+// Server-sent event stream of notifications, order and delivery updates
+router.get('/', tokenFromQuery, authenticateToken, (req, res) => RealtimeService.connect(req, res));
+
+module.exports = router;
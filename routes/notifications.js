@@ -1,5 +1,6 @@
 const express = require('express');
 const Notification = require('../models/Notification');
+const NotificationDispatcher = require('../services/notificationChannels');
 const { validatePagination } = require('../middleware/validation');
 const { authenticateToken, authorizeSelfOrAdmin } = require('../middleware/auth');
 
@@ -213,6 +214,7 @@ router.post('/', authenticateToken, async (req, res) => {
     });
 
     await notification.save();
+    await NotificationDispatcher.dispatch(notification);
 
     res.status(201).json({
       message: 'Notification created successfully',
@@ -3,11 +3,14 @@ const Order = require('../models/Order');
 const Product = require('../models/Product');
 const User = require('../models/User');
 const { validateOrderCreation, validateOrderStatusUpdate, validateObjectId, validatePagination } = require('../middleware/validation');
-const { authenticateToken, authorizeShopkeeper, authorizeCompanyRep, authorizeAdmin } = require('../middleware/auth');
+const { authenticateToken, authorizeShopkeeper, authorizeCompanyRep, authorizeAdmin, authorizePermission } = require('../middleware/auth');
 const {
   getOrders,
   getOrderByIdOrNumber,
   createOrder,
+  getOrderQuote,
+  getOrderActions,
+  getReorder,
   updateOrderStatus,
   assignDeliveryWorker
 } = require('../controllers/orderController');
@@ -20,16 +23,25 @@ router.get('/', authenticateToken, getOrders);
 // Fetch order history with enhanced pagination and filters
 router.get('/history', authenticateToken, getOrders);
 
+// Price an order from current product data (no order is created)
+router.post('/quote', authenticateToken, getOrderQuote);
+
 // Create new order (shopkeepers only)
 router.post('/', authenticateToken, createOrder);
 
 // Fetch order by ID or orderNumber
 router.get('/:orderId', authenticateToken, getOrderByIdOrNumber);
 
+// Status changes the current user may make on the order
+router.get('/:orderId/actions', authenticateToken, getOrderActions);
+
+// Lines of a past order priced and checked for ordering again (shopkeepers only)
+router.get('/:orderId/reorder', authenticateToken, authorizeShopkeeper, getReorder);
+
 // Update order status
 router.put('/:orderId/status', authenticateToken, updateOrderStatus);
 
 // Assign delivery worker to order
-router.put('/:orderId/assign', authenticateToken, assignDeliveryWorker);
+router.put('/:orderId/assign', authenticateToken, authorizePermission('assign_deliveries'), assignDeliveryWorker);
 
 module.exports = router;
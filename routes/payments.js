@@ -0,0 +1,129 @@
+const express = require('express');
+const Order = require('../models/Order');
+const Payment = require('../models/Payment');
+const PaymentService = require('../services/paymentService');
+const OrderStateMachine = require('../services/orderStateMachine');
+const { param } = require('express-validator');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizeShopkeeper } = require('../middleware/auth');
+
+const router = express.Router();
+
+const validateOrderId = [
+  param('orderId').isMongoId().withMessage('Invalid order ID'),
+  handleValidationErrors,
+];
+
+const validatePaymentId = [
+  param('paymentId').isMongoId().withMessage('Invalid payment ID'),
+  handleValidationErrors,
+];
+
+// Map payment errors to responses
+const sendPaymentError = (res, error) => {
+  if (error.code === 'PAYMENT_NOT_ALLOWED') {
+    return res.status(409).json({ error: 'Payment not allowed', message: error.message });
+  }
+  if (error.code === 'PAYMENT_GATEWAY_ERROR') {
+    return res.status(502).json({ error: 'Payment gateway error', message: error.message });
+  }
+  if (error.code === 'INVALID_WEBHOOK_SIGNATURE') {
+    return res.status(401).json({ error: 'Invalid signature', message: error.message });
+  }
+  return null;
+};
+
+// Gateway callback (no user session; the provider verifies the signature)
+router.post('/webhook/:provider', async (req, res) => {
+  try {
+    const result = await PaymentService.handleWebhook(req.params.provider, req.headers, req.rawBody);
+    if (result.unknown) {
+      return res.status(404).json({ error: 'Payment not found', message: 'Unknown payment' });
+    }
+    res.json({ received: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (sendPaymentError(res, error)) return;
+    console.error('Payment webhook error:', error);
+    res.status(500).json({
+      error: 'Webhook handling failed',
+      message: 'An error occurred while handling the payment callback'
+    });
+  }
+});
+
+// Start paying an order (shopkeeper)
+router.post('/orders/:orderId', authenticateToken, authorizeShopkeeper, validateOrderId, async (req, res) => {
+  try {
+    const order = await Order.findById(req.params.orderId);
+    if (!order || order.shopkeeperId.toString() !== req.user._id.toString()) {
+      return res.status(404).json({
+        error: 'Order not found',
+        message: 'Order not found'
+      });
+    }
+
+    const payment = await PaymentService.initiate(order, req.user);
+    res.status(201).json({
+      message: 'Payment started',
+      payment
+    });
+  } catch (error) {
+    if (sendPaymentError(res, error)) return;
+    console.error('Initiate payment error:', error);
+    res.status(500).json({
+      error: 'Payment failed',
+      message: 'An error occurred while starting the payment'
+    });
+  }
+});
+
+// Payments of an order (order parties)
+router.get('/orders/:orderId', authenticateToken, validateOrderId, async (req, res) => {
+  try {
+    const order = await Order.findById(req.params.orderId);
+    if (!order || !OrderStateMachine.isOrderParty(order, req.user)) {
+      return res.status(404).json({
+        error: 'Order not found',
+        message: 'Order not found'
+      });
+    }
+
+    const payments = await PaymentService.getOrderPayments(order._id);
+    res.json({ paymentStatus: order.paymentStatus, payments });
+  } catch (error) {
+    console.error('Get payments error:', error);
+    res.status(500).json({
+      error: 'Failed to get payments',
+      message: 'An error occurred while fetching payments'
+    });
+  }
+});
+
+// Check a payment's outcome with the gateway (after returning from checkout)
+router.post('/:paymentId/confirm', authenticateToken, validatePaymentId, async (req, res) => {
+  try {
+    const payment = await Payment.findById(req.params.paymentId);
+    const ownsPayment = payment && (req.user.role === 'admin' || payment.shopkeeperId.toString() === req.user._id.toString());
+    if (!ownsPayment) {
+      return res.status(404).json({
+        error: 'Payment not found',
+        message: 'Payment not found'
+      });
+    }
+
+    const confirmed = await PaymentService.confirm(payment, req.user);
+    res.json({
+      message: `Payment ${confirmed.status}`,
+      payment: confirmed
+    });
+  } catch (error) {
+    if (sendPaymentError(res, error)) return;
+    console.error('Confirm payment error:', error);
+    res.status(500).json({
+      error: 'Payment confirmation failed',
+      message: 'An error occurred while confirming the payment'
+    });
+  }
+});
+
+module.exports = router;
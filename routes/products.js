@@ -1,5 +1,5 @@
 const express = require('express');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, authorizePermission } = require('../middleware/auth');
 const {
   getProducts,
   getProduct,
@@ -8,11 +8,14 @@ const {
   updateProduct,
   deleteProduct,
   getCategories,
-  updateStock
+  updateStock,
+  getStockMovements
 } = require('../controllers/productController');
 
 const router = express.Router();
 
+const authorizeProductManagement = authorizePermission('manage_products');
+
 // Get all products (with optional filtering)
 router.get('/', authenticateToken, getProducts);
 
@@ -26,15 +29,18 @@ router.get('/company/:companyId', authenticateToken, getProductsByCompany);
 router.get('/:productId', authenticateToken, getProduct);
 
 // Create new product (company reps only)
-router.post('/', authenticateToken, createProduct);
+router.post('/', authenticateToken, authorizeProductManagement, createProduct);
 
 // Update product (company reps only)
-router.put('/:productId', authenticateToken, updateProduct);
+router.put('/:productId', authenticateToken, authorizeProductManagement, updateProduct);
 
 // Update stock quantity
-router.put('/:productId/stock', authenticateToken, updateStock);
+router.put('/:productId/stock', authenticateToken, authorizeProductManagement, updateStock);
+
+// Get stock movement ledger
+router.get('/:productId/stock-movements', authenticateToken, getStockMovements);
 
 // Delete product (company reps only)
-router.delete('/:productId', authenticateToken, deleteProduct);
+router.delete('/:productId', authenticateToken, authorizeProductManagement, deleteProduct);
 
 module.exports = router;
@@ -1,5 +1,7 @@
 const express = require('express');
 const User = require('../models/User');
+const ApprovalService = require('../services/approvalService');
+const { phoneVariants } = require('../services/phoneNumbers');
 const { validateProfileUpdate, validateObjectId } = require('../middleware/validation');
 const { authenticateToken, authorizeSelfOrAdmin, authorizeAdmin } = require('../middleware/auth');
 
@@ -41,7 +43,8 @@ router.put('/:userId', authenticateToken, authorizeSelfOrAdmin, validateProfileU
       address,
       shopkeeperInfo,
       companyInfo,
-      deliveryWorkerInfo
+      deliveryWorkerInfo,
+      notificationPreferences
     } = req.body;
 
     const user = await User.findById(req.params.userId);
@@ -53,6 +56,15 @@ router.put('/:userId', authenticateToken, authorizeSelfOrAdmin, validateProfileU
       });
     }
 
+    // A number can belong to one account only, for logging in with a code
+    if (phone && phone !== user.phone &&
+        await User.exists({ _id: { $ne: user._id }, phone: { $in: phoneVariants(phone) } })) {
+      return res.status(400).json({
+        error: 'Phone number in use',
+        message: 'Another account already uses this phone number'
+      });
+    }
+
     // Update basic information
     if (name) user.name = name;
     if (phone) user.phone = phone;
@@ -69,6 +81,15 @@ router.put('/:userId', authenticateToken, authorizeSelfOrAdmin, validateProfileU
       user.deliveryWorkerInfo = { ...user.deliveryWorkerInfo, ...deliveryWorkerInfo };
     }
 
+    // Notification channel preferences
+    if (notificationPreferences) {
+      ['email', 'sms'].forEach(channel => {
+        if (typeof notificationPreferences[channel] === 'boolean') {
+          user.notificationPreferences[channel] = notificationPreferences[channel];
+        }
+      });
+    }
+
     await user.save();
 
     res.json({
@@ -161,7 +182,7 @@ router.get('/', authenticateToken, authorizeAdmin, async (req, res) => {
 // Update user status (admin only)
 router.put('/:userId/status', authenticateToken, authorizeAdmin, async (req, res) => {
   try {
-    const { status } = req.body;
+    const { status, reason } = req.body;
 
     if (!['pending', 'active', 'suspended', 'inactive'].includes(status)) {
       return res.status(400).json({
@@ -179,8 +200,8 @@ router.put('/:userId/status', authenticateToken, authorizeAdmin, async (req, res
       });
     }
 
-    user.status = status;
-    await user.save();
+    // Recorded in the approval log with the admin who changed it
+    await ApprovalService.changeStatus(user, status, reason, req.user);
 
     res.json({
       message: 'User status updated successfully',
@@ -307,7 +328,8 @@ router.get('/role/:role', authenticateToken, async (req, res) => {
       });
     }
 
-    const query = { role, status: 'active' };
+    // Staff logins are not listed as companies
+    const query = role === 'company_rep' ? { ...User.COMPANY_ACCOUNT, status: 'active' } : { role, status: 'active' };
     if (area) query.area = { $regex: area, $options: 'i' };
 
     const users = await User.find(query)
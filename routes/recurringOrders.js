@@ -0,0 +1,194 @@
+const express = require('express');
+const { body, param } = require('express-validator');
+const RecurringOrder = require('../models/RecurringOrder');
+const RecurringOrderService = require('../services/recurringOrderService');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizeShopkeeper } = require('../middleware/auth');
+
+const router = express.Router();
+
+const sendRecurringError = (res, error) => {
+  if (error.code === 'INVALID_RECURRING_ORDER') {
+    return res.status(400).json({ error: 'Invalid recurring order', message: error.message });
+  }
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ error: 'Invalid recurring order', message: Object.values(error.errors)[0].message });
+  }
+  return null;
+};
+
+// Validation rules
+const validateIdParam = [
+  param('id').isMongoId().withMessage('Invalid recurring order ID'),
+  handleValidationErrors,
+];
+
+const itemRules = [
+  body('items.*.productId').isMongoId().withMessage('Invalid product ID'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+];
+
+const validateCreate = [
+  body('name').trim().notEmpty().withMessage('Name is required'),
+  body('companyId').isMongoId().withMessage('Invalid companyId'),
+  body('items').isArray({ min: 1 }).withMessage('Add at least one item'),
+  ...itemRules,
+  body('deliveryAddress').trim().notEmpty().withMessage('Delivery address is required'),
+  body('deliveryArea').trim().notEmpty().withMessage('Delivery area is required'),
+  body('deliveryCity').trim().notEmpty().withMessage('Delivery city is required'),
+  body('schedule').isObject().withMessage('A schedule is required'),
+  handleValidationErrors,
+];
+
+const validateUpdate = [
+  body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
+  body('items').optional().isArray({ min: 1 }).withMessage('Add at least one item'),
+  ...itemRules,
+  body('schedule').optional().isObject().withMessage('Invalid schedule'),
+  handleValidationErrors,
+];
+
+const validateSkip = [
+  body('occurrence').isISO8601().withMessage('Invalid occurrence'),
+  body('skip').optional().isBoolean().withMessage('skip must be true or false'),
+  handleValidationErrors,
+];
+
+const withUpcoming = (recurring) => ({
+  ...recurring.toObject(),
+  upcoming: RecurringOrderService.upcoming(recurring)
+});
+
+// Load one of the shopkeeper's recurring orders, or send 404
+const findOwnRecurringOrder = async (req, res) => {
+  const recurring = await RecurringOrder.findOne({ _id: req.params.id, shopkeeperId: req.user._id });
+  if (!recurring) {
+    res.status(404).json({
+      error: 'Recurring order not found',
+      message: 'Recurring order not found'
+    });
+    return null;
+  }
+  return recurring;
+};
+
+// The shopkeeper's recurring orders with their upcoming occurrences
+router.get('/', authenticateToken, authorizeShopkeeper, async (req, res) => {
+  try {
+    const recurringOrders = await RecurringOrder.find({ shopkeeperId: req.user._id })
+      .populate('companyId', 'name companyInfo.companyName')
+      .sort({ createdAt: -1 });
+    res.json({ recurringOrders: recurringOrders.map(withUpcoming) });
+  } catch (error) {
+    console.error('Get recurring orders error:', error);
+    res.status(500).json({
+      error: 'Failed to get recurring orders',
+      message: 'An error occurred while fetching recurring orders'
+    });
+  }
+});
+
+// Save an order to be placed on a schedule
+router.post('/', authenticateToken, authorizeShopkeeper, validateCreate, async (req, res) => {
+  try {
+    const recurring = await RecurringOrderService.create(req.user, req.body);
+    res.status(201).json({ message: 'Recurring order saved', recurringOrder: withUpcoming(recurring) });
+  } catch (error) {
+    if (sendRecurringError(res, error)) return;
+    console.error('Create recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to save recurring order',
+      message: 'An error occurred while saving the recurring order'
+    });
+  }
+});
+
+// Edit the items, delivery details or schedule
+router.put('/:id', authenticateToken, authorizeShopkeeper, validateIdParam, validateUpdate, async (req, res) => {
+  try {
+    const recurring = await findOwnRecurringOrder(req, res);
+    if (!recurring) return;
+
+    await RecurringOrderService.update(recurring, req.body);
+    res.json({ message: 'Recurring order updated', recurringOrder: withUpcoming(recurring) });
+  } catch (error) {
+    if (sendRecurringError(res, error)) return;
+    console.error('Update recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to update recurring order',
+      message: 'An error occurred while updating the recurring order'
+    });
+  }
+});
+
+// Stop placing orders until resumed
+router.put('/:id/pause', authenticateToken, authorizeShopkeeper, validateIdParam, async (req, res) => {
+  try {
+    const recurring = await findOwnRecurringOrder(req, res);
+    if (!recurring) return;
+
+    await RecurringOrderService.pause(recurring);
+    res.json({ message: 'Recurring order paused', recurringOrder: withUpcoming(recurring) });
+  } catch (error) {
+    console.error('Pause recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to pause recurring order',
+      message: 'An error occurred while pausing the recurring order'
+    });
+  }
+});
+
+// Continue from the next occurrence after now
+router.put('/:id/resume', authenticateToken, authorizeShopkeeper, validateIdParam, async (req, res) => {
+  try {
+    const recurring = await findOwnRecurringOrder(req, res);
+    if (!recurring) return;
+
+    await RecurringOrderService.resume(recurring);
+    res.json({ message: 'Recurring order resumed', recurringOrder: withUpcoming(recurring) });
+  } catch (error) {
+    console.error('Resume recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to resume recurring order',
+      message: 'An error occurred while resuming the recurring order'
+    });
+  }
+});
+
+// Skip (or un-skip) one upcoming occurrence
+router.put('/:id/skip', authenticateToken, authorizeShopkeeper, validateIdParam, validateSkip, async (req, res) => {
+  try {
+    const recurring = await findOwnRecurringOrder(req, res);
+    if (!recurring) return;
+
+    const skip = req.body.skip !== false && req.body.skip !== 'false';
+    await RecurringOrderService.setSkipped(recurring, req.body.occurrence, skip);
+    res.json({ message: skip ? 'Occurrence skipped' : 'Occurrence restored', recurringOrder: withUpcoming(recurring) });
+  } catch (error) {
+    if (sendRecurringError(res, error)) return;
+    console.error('Skip recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to skip occurrence',
+      message: 'An error occurred while skipping the occurrence'
+    });
+  }
+});
+
+// Delete a recurring order; orders it already placed are kept
+router.delete('/:id', authenticateToken, authorizeShopkeeper, validateIdParam, async (req, res) => {
+  try {
+    const recurring = await findOwnRecurringOrder(req, res);
+    if (!recurring) return;
+
+    await recurring.deleteOne();
+    res.json({ message: 'Recurring order deleted' });
+  } catch (error) {
+    console.error('Delete recurring order error:', error);
+    res.status(500).json({
+      error: 'Failed to delete recurring order',
+      message: 'An error occurred while deleting the recurring order'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,340 @@
+const express = require('express');
+const { body, param, query } = require('express-validator');
+const multer = require('multer');
+const CreditNote = require('../models/CreditNote');
+const Order = require('../models/Order');
+const ReturnRequest = require('../models/ReturnRequest');
+const ReturnService = require('../services/returnService');
+const returnConfig = require('../config/returns');
+const uploadConfig = require('../config/uploads');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizeRoles, authorizePermission, authorizeShopkeeper } = require('../middleware/auth');
+
+const router = express.Router();
+
+const authorizeReturnDecision = authorizePermission('approve_orders');
+const authorizePickup = authorizePermission('assign_deliveries');
+const authorizeCreditSettlement = authorizePermission('settle_collections');
+const authorizeParties = authorizeRoles('shopkeeper', 'company_rep', 'admin');
+
+// Return photos are kept in memory until they are resized and stored
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: uploadConfig.returns.maxPhotoSize, files: uploadConfig.returns.maxPhotos }
+}).array('photos', uploadConfig.returns.maxPhotos);
+
+const handlePhotoUpload = (req, res, next) => {
+  photoUpload(req, res, (error) => {
+    if (!error) return next();
+    let message = error.message;
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      message = `Photos must be smaller than ${Math.round(uploadConfig.returns.maxPhotoSize / 1024 / 1024)} MB`;
+    } else if (['LIMIT_FILE_COUNT', 'LIMIT_UNEXPECTED_FILE'].includes(error.code)) {
+      message = `Attach at most ${uploadConfig.returns.maxPhotos} photos`;
+    }
+    res.status(400).json({ error: 'Invalid upload', message });
+  });
+};
+
+// Multipart forms send the item list as a JSON string
+const parseJsonField = (value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const sendReturnError = (res, error) => {
+  if (error.code === 'INVALID_RETURN') {
+    return res.status(400).json({ error: 'Invalid return', message: error.message });
+  }
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ error: 'Invalid return', message: Object.values(error.errors)[0].message });
+  }
+  return null;
+};
+
+// Validation rules
+const validateIdParam = [
+  param('id').isMongoId().withMessage('Invalid ID'),
+  handleValidationErrors,
+];
+
+const validateCreate = [
+  body('orderId').isMongoId().withMessage('Invalid order ID'),
+  body('reason').isIn(returnConfig.reasons).withMessage('Pick a reason for the return'),
+  body('description').optional().isLength({ max: 1000 }).withMessage('Description cannot exceed 1000 characters'),
+  handleValidationErrors,
+];
+
+const validateWorker = [
+  body('deliveryWorkerId').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid delivery worker ID'),
+  handleValidationErrors,
+];
+
+const validateReject = [
+  body('note').trim().notEmpty().withMessage('Give a reason for rejecting the return'),
+  handleValidationErrors,
+];
+
+const validateList = [
+  query('status').optional().isIn(['requested', 'approved', 'rejected', 'picked_up', 'completed', 'cancelled'])
+    .withMessage('Invalid status'),
+  handleValidationErrors,
+];
+
+// Records each role may see: their own as shopkeeper, their company's as rep, everything as admin
+const scopeFor = (user) => {
+  if (user.role === 'shopkeeper') return { shopkeeperId: user._id };
+  if (user.role === 'company_rep') return { companyId: user._id };
+  return {};
+};
+
+// Load a return the user may see, or send 404
+const findVisibleReturn = async (req, res) => {
+  const returnRequest = await ReturnRequest.findOne({ _id: req.params.id, ...scopeFor(req.user) });
+  if (!returnRequest) {
+    res.status(404).json({
+      error: 'Return not found',
+      message: 'Return not found'
+    });
+    return null;
+  }
+  return returnRequest;
+};
+
+// The order a return belongs to, or send 404
+const findReturnOrder = async (returnRequest, res) => {
+  const order = await Order.findById(returnRequest.orderId);
+  if (!order) {
+    res.status(404).json({
+      error: 'Order not found',
+      message: 'Order not found'
+    });
+    return null;
+  }
+  return order;
+};
+
+// Credit notes of the user with the amount still owed to the shop
+router.get('/credit-notes', authenticateToken, authorizeParties, async (req, res) => {
+  try {
+    const creditNotes = await CreditNote.find(scopeFor(req.user))
+      .populate('shopkeeperId', 'name shopkeeperInfo.shopName')
+      .populate('companyId', 'name companyInfo.companyName')
+      .sort({ createdAt: -1 });
+    const openBalance = creditNotes
+      .filter(note => note.status === 'issued')
+      .reduce((sum, note) => sum + note.amount, 0);
+
+    res.json({ creditNotes, openBalance: Math.round(openBalance * 100) / 100 });
+  } catch (error) {
+    console.error('Get credit notes error:', error);
+    res.status(500).json({
+      error: 'Failed to get credit notes',
+      message: 'An error occurred while fetching credit notes'
+    });
+  }
+});
+
+// Mark a credit note as refunded or deducted (company or admin)
+router.put('/credit-notes/:id/settle', authenticateToken, authorizeCreditSettlement, validateIdParam, async (req, res) => {
+  try {
+    const creditNote = await CreditNote.findOne({ _id: req.params.id, ...scopeFor(req.user) });
+    if (!creditNote) {
+      return res.status(404).json({
+        error: 'Credit note not found',
+        message: 'Credit note not found'
+      });
+    }
+
+    await ReturnService.settleCreditNote(creditNote, req.user, req.body.note);
+    res.json({ message: 'Credit note settled', creditNote });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Settle credit note error:', error);
+    res.status(500).json({
+      error: 'Failed to settle credit note',
+      message: 'An error occurred while settling the credit note'
+    });
+  }
+});
+
+// What the shopkeeper can still return from one of their orders
+router.get('/orders/:orderId', authenticateToken, authorizeShopkeeper, [
+  param('orderId').isMongoId().withMessage('Invalid order ID'),
+  handleValidationErrors,
+], async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.orderId, shopkeeperId: req.user._id });
+    if (!order) {
+      return res.status(404).json({
+        error: 'Order not found',
+        message: 'Order not found'
+      });
+    }
+
+    const [returnable, returns] = await Promise.all([
+      order.status === 'delivered' ? ReturnService.returnable(order) : null,
+      ReturnRequest.find({ orderId: order._id }).sort({ createdAt: -1 })
+    ]);
+    res.json({ returnable, returns, reasons: returnConfig.reasons });
+  } catch (error) {
+    console.error('Get order returns error:', error);
+    res.status(500).json({
+      error: 'Failed to get returns',
+      message: 'An error occurred while fetching returns for the order'
+    });
+  }
+});
+
+// Returns visible to the user, newest first
+router.get('/', authenticateToken, authorizeParties, validateList, async (req, res) => {
+  try {
+    const filter = scopeFor(req.user);
+    if (req.query.status) filter.status = req.query.status;
+
+    const returns = await ReturnRequest.find(filter)
+      .populate('shopkeeperId', 'name phone shopkeeperInfo.shopName')
+      .populate('companyId', 'name companyInfo.companyName')
+      .populate('pickupDeliveryId', 'deliveryNumber status deliveryWorkerId failureReason')
+      .sort({ createdAt: -1 });
+    res.json({ returns });
+  } catch (error) {
+    console.error('Get returns error:', error);
+    res.status(500).json({
+      error: 'Failed to get returns',
+      message: 'An error occurred while fetching returns'
+    });
+  }
+});
+
+// One return with its pickup and credit note
+router.get('/:id', authenticateToken, authorizeParties, validateIdParam, async (req, res) => {
+  try {
+    const returnRequest = await findVisibleReturn(req, res);
+    if (!returnRequest) return;
+
+    await returnRequest.populate([
+      { path: 'pickupDeliveryId', select: 'deliveryNumber status deliveryWorkerId failureReason' },
+      { path: 'creditNoteId' }
+    ]);
+    res.json({ returnRequest });
+  } catch (error) {
+    console.error('Get return error:', error);
+    res.status(500).json({
+      error: 'Failed to get return',
+      message: 'An error occurred while fetching the return'
+    });
+  }
+});
+
+// Ask to send delivered goods back (shopkeeper); multipart with up to three photos
+router.post('/', authenticateToken, authorizeShopkeeper, handlePhotoUpload, validateCreate, async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.body.orderId, shopkeeperId: req.user._id });
+    if (!order) {
+      return res.status(404).json({
+        error: 'Order not found',
+        message: 'Order not found'
+      });
+    }
+
+    const returnRequest = await ReturnService.request(order, req.user, {
+      lines: parseJsonField(req.body.items),
+      reason: req.body.reason,
+      description: req.body.description
+    }, req.files || []);
+    res.status(201).json({ message: 'Return requested', returnRequest });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Create return error:', error);
+    res.status(500).json({
+      error: 'Failed to request return',
+      message: 'An error occurred while requesting the return'
+    });
+  }
+});
+
+// Accept a return and schedule the pickup; without a worker the best available one is chosen
+router.put('/:id/approve', authenticateToken, authorizeReturnDecision, authorizePickup, validateIdParam, validateWorker, async (req, res) => {
+  try {
+    const returnRequest = await findVisibleReturn(req, res);
+    if (!returnRequest) return;
+    const order = await findReturnOrder(returnRequest, res);
+    if (!order) return;
+
+    const { delivery } = await ReturnService.approve(returnRequest, order, req.user, {
+      deliveryWorkerId: req.body.deliveryWorkerId,
+      note: req.body.note
+    });
+    res.json({ message: 'Return approved', returnRequest, delivery: delivery.getDeliverySummary() });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Approve return error:', error);
+    res.status(500).json({
+      error: 'Failed to approve return',
+      message: 'An error occurred while approving the return'
+    });
+  }
+});
+
+// Turn a return down with a reason
+router.put('/:id/reject', authenticateToken, authorizeReturnDecision, validateIdParam, validateReject, async (req, res) => {
+  try {
+    const returnRequest = await findVisibleReturn(req, res);
+    if (!returnRequest) return;
+
+    await ReturnService.reject(returnRequest, req.user, req.body.note);
+    res.json({ message: 'Return rejected', returnRequest });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Reject return error:', error);
+    res.status(500).json({
+      error: 'Failed to reject return',
+      message: 'An error occurred while rejecting the return'
+    });
+  }
+});
+
+// Send the pickup again after it failed
+router.put('/:id/pickup', authenticateToken, authorizePickup, validateIdParam, validateWorker, async (req, res) => {
+  try {
+    const returnRequest = await findVisibleReturn(req, res);
+    if (!returnRequest) return;
+    const order = await findReturnOrder(returnRequest, res);
+    if (!order) return;
+
+    const { delivery } = await ReturnService.reassignPickup(returnRequest, order, req.user, req.body.deliveryWorkerId);
+    res.json({ message: 'Pickup scheduled', returnRequest, delivery: delivery.getDeliverySummary() });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Reschedule return pickup error:', error);
+    res.status(500).json({
+      error: 'Failed to schedule pickup',
+      message: 'An error occurred while scheduling the pickup'
+    });
+  }
+});
+
+// Withdraw a return before the company decides (shopkeeper)
+router.put('/:id/cancel', authenticateToken, authorizeShopkeeper, validateIdParam, async (req, res) => {
+  try {
+    const returnRequest = await findVisibleReturn(req, res);
+    if (!returnRequest) return;
+
+    await ReturnService.cancel(returnRequest, req.user);
+    res.json({ message: 'Return cancelled', returnRequest });
+  } catch (error) {
+    if (sendReturnError(res, error)) return;
+    console.error('Cancel return error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel return',
+      message: 'An error occurred while cancelling the return'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,79 @@
+const express = require('express');
+const { body, query } = require('express-validator');
+const User = require('../models/User');
+const SlaService = require('../services/slaService');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizePermission, authorizeCompanyRep, authorizeCompanyOwner } = require('../middleware/auth');
+
+const router = express.Router();
+
+const sendSlaError = (res, error) => {
+  if (error.code === 'INVALID_SLA_SETTINGS') {
+    return res.status(400).json({ error: 'Invalid SLA settings', message: error.message });
+  }
+  return null;
+};
+
+// Validation rules
+const validateDashboardQuery = [
+  query('days').optional().isInt({ min: 1, max: 365 }).withMessage('days must be between 1 and 365'),
+  query('companyId').optional().isMongoId().withMessage('Invalid companyId'),
+  handleValidationErrors,
+];
+
+const validateSettings = [
+  body('defaultHours').optional({ nullable: true, checkFalsy: true }).isFloat().withMessage('defaultHours must be a number'),
+  body('areas').optional().isArray().withMessage('areas must be an array'),
+  body('areas.*.area').isString().trim().notEmpty().withMessage('Every area SLA needs an area'),
+  body('areas.*.hours').isFloat().withMessage('Area hours must be a number'),
+  handleValidationErrors,
+];
+
+// On-time performance per worker, area and company, with at-risk and late deliveries
+router.get('/dashboard', authenticateToken, authorizePermission('view_analytics'), validateDashboardQuery, async (req, res) => {
+  try {
+    const dashboard = await SlaService.getDashboard({
+      companyId: req.user.role === 'company_rep' ? req.user._id : req.query.companyId,
+      days: parseInt(req.query.days, 10) || 30
+    });
+    res.json(dashboard);
+  } catch (error) {
+    console.error('Get SLA dashboard error:', error);
+    res.status(500).json({
+      error: 'Failed to get SLA dashboard',
+      message: 'An error occurred while fetching SLA performance'
+    });
+  }
+});
+
+// The company's delivery SLA settings
+router.get('/settings', authenticateToken, authorizeCompanyRep, authorizePermission('view_analytics'), async (req, res) => {
+  try {
+    const company = await User.findById(req.user._id);
+    res.json(SlaService.getSettings(company));
+  } catch (error) {
+    console.error('Get SLA settings error:', error);
+    res.status(500).json({
+      error: 'Failed to get SLA settings',
+      message: 'An error occurred while fetching SLA settings'
+    });
+  }
+});
+
+// Replace the company's delivery SLA settings
+router.put('/settings', authenticateToken, authorizeCompanyOwner, validateSettings, async (req, res) => {
+  try {
+    const company = await User.findById(req.user._id);
+    const settings = await SlaService.updateSettings(company, req.body);
+    res.json({ message: 'SLA settings updated', ...settings });
+  } catch (error) {
+    if (sendSlaError(res, error)) return;
+    console.error('Update SLA settings error:', error);
+    res.status(500).json({
+      error: 'Failed to update SLA settings',
+      message: 'An error occurred while updating SLA settings'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,133 @@
+const express = require('express');
+const { body, param } = require('express-validator');
+const StaffService = require('../services/staffService');
+const permissionConfig = require('../config/permissions');
+const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken, authorizeCompanyOwner } = require('../middleware/auth');
+
+const router = express.Router();
+
+const sendStaffError = (res, error) => {
+  if (error.code === 'INVALID_STAFF') {
+    return res.status(400).json({ error: 'Invalid staff member', message: error.message });
+  }
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ error: 'Invalid staff member', message: Object.values(error.errors)[0].message });
+  }
+  return null;
+};
+
+// Validation rules
+const validateIdParam = [
+  param('id').isMongoId().withMessage('Invalid ID'),
+  handleValidationErrors,
+];
+
+const validatePermissions = (optional) => [
+  (optional ? body('permissions').optional() : body('permissions')).isArray().withMessage('permissions must be a list'),
+  body('permissions.*').isIn(Object.keys(permissionConfig.company)).withMessage('Unknown permission'),
+];
+
+const validateInvite = [
+  body('name').trim().isLength({ min: 2, max: 50 }).withMessage('Name must be between 2 and 50 characters'),
+  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email address'),
+  body('phone').matches(/^(\+880|880|0)?1[3456789]\d{8}$/).withMessage('Please provide a valid Bangladeshi phone number'),
+  ...validatePermissions(false),
+  handleValidationErrors,
+];
+
+const validateUpdate = [
+  ...validatePermissions(true),
+  body('active').optional().isBoolean().withMessage('active must be true or false'),
+  handleValidationErrors,
+];
+
+// Load a staff member of the owner's company, or send 404
+const findStaff = async (req, res) => {
+  const staff = await StaffService.findForCompany(req.user, req.params.id);
+  if (!staff) {
+    res.status(404).json({
+      error: 'Staff member not found',
+      message: 'Staff member not found'
+    });
+    return null;
+  }
+  return staff;
+};
+
+// Permissions the owner can grant, with their labels
+router.get('/permissions', authenticateToken, authorizeCompanyOwner, (req, res) => {
+  res.json({
+    permissions: Object.entries(permissionConfig.company).map(([key, label]) => ({ key, label }))
+  });
+});
+
+// Staff logins of the company
+router.get('/', authenticateToken, authorizeCompanyOwner, async (req, res) => {
+  try {
+    const staff = await StaffService.list(req.user);
+    res.json({ staff });
+  } catch (error) {
+    console.error('Get staff error:', error);
+    res.status(500).json({
+      error: 'Failed to get staff',
+      message: 'An error occurred while fetching staff'
+    });
+  }
+});
+
+// Add a staff member and e-mail them a link to choose their password
+router.post('/', authenticateToken, authorizeCompanyOwner, validateInvite, async (req, res) => {
+  try {
+    const staff = await StaffService.invite(req.user, req.body, req.account);
+    res.status(201).json({
+      message: `Invitation sent to ${staff.email}`,
+      staff: await StaffService.findForCompany(req.user, staff._id)
+    });
+  } catch (error) {
+    if (sendStaffError(res, error)) return;
+    console.error('Invite staff error:', error);
+    res.status(500).json({
+      error: 'Failed to invite staff member',
+      message: 'An error occurred while inviting the staff member'
+    });
+  }
+});
+
+// Change a staff member's permissions or switch their login off and on
+router.put('/:id', authenticateToken, authorizeCompanyOwner, validateIdParam, validateUpdate, async (req, res) => {
+  try {
+    const staff = await findStaff(req, res);
+    if (!staff) return;
+
+    await StaffService.update(staff, { permissions: req.body.permissions, active: req.body.active });
+    res.json({ message: 'Staff member updated', staff });
+  } catch (error) {
+    if (sendStaffError(res, error)) return;
+    console.error('Update staff error:', error);
+    res.status(500).json({
+      error: 'Failed to update staff member',
+      message: 'An error occurred while updating the staff member'
+    });
+  }
+});
+
+// E-mail the invitation again
+router.post('/:id/resend-invite', authenticateToken, authorizeCompanyOwner, validateIdParam, async (req, res) => {
+  try {
+    const staff = await findStaff(req, res);
+    if (!staff) return;
+
+    await StaffService.resendInvite(req.user, staff);
+    res.json({ message: `Invitation sent to ${staff.email}` });
+  } catch (error) {
+    if (sendStaffError(res, error)) return;
+    console.error('Resend staff invite error:', error);
+    res.status(500).json({
+      error: 'Failed to send invitation',
+      message: 'An error occurred while sending the invitation'
+    });
+  }
+});
+
+module.exports = router;
@@ -19,6 +19,26 @@ const deliveryRoutes = require('./routes/delivery');
 const analyticsRoutes = require('./routes/analytics');
 const notificationRoutes = require('./routes/notifications');
 const flagRoutes = require('./routes/flags');
+const cartRoutes = require('./routes/cart');
+const eventRoutes = require('./routes/events');
+const collectionRoutes = require('./routes/collections');
+const paymentRoutes = require('./routes/payments');
+const slaRoutes = require('./routes/sla');
+const recurringOrderRoutes = require('./routes/recurringOrders');
+const returnRoutes = require('./routes/returns');
+const staffRoutes = require('./routes/staff');
+const approvalRoutes = require('./routes/approvals');
+const { registerNotificationListeners } = require('./services/notificationListeners');
+const AutoAssignmentService = require('./services/autoAssignmentService');
+const BackorderService = require('./services/backorderService');
+const SlaService = require('./services/slaService');
+const RecurringOrderService = require('./services/recurringOrderService');
+const uploadConfig = require('./config/uploads');
+const { checkTransport } = require('./services/notificationTransports');
+
+// In production, refuse to start without a way to send reset links and login codes
+checkTransport('email');
+checkTransport('sms');
 
 // Security middleware
 app.use(helmet());
@@ -38,11 +58,18 @@ app.use(cors({
 }));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw body for payment webhooks, whose signatures cover the exact bytes sent
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/payments/webhook')) req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Serve static files from uploads directory
-app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
+// Serve static files from uploads directory.
+// Proof-of-delivery images are shown by the frontend, which runs on another origin.
+app.use('/uploads', helmet.crossOriginResourcePolicy({ policy: 'cross-origin' }), express.static(uploadConfig.dir));
 
 // server.js (top of file)
 
@@ -64,6 +91,11 @@ mongoose.connect(mongoUri, {
 .catch(err => console.error('MongoDB connection error:', err));
 
 
+// Domain event listeners
+registerNotificationListeners();
+AutoAssignmentService.register();
+BackorderService.register();
+
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
@@ -73,6 +105,15 @@ app.use('/api/delivery', deliveryRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/flags', flagRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/sla', slaRoutes);
+app.use('/api/recurring-orders', recurringOrderRoutes);
+app.use('/api/returns', returnRoutes);
+app.use('/api/staff', staffRoutes);
+app.use('/api/approvals', approvalRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -100,4 +141,6 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  SlaService.startMonitor();
+  RecurringOrderService.startScheduler();
 });
\ No newline at end of file
@@ -0,0 +1,109 @@
+jest.mock('../transaction', () => ({
+  withTransaction: (work) => work(null),
+  afterCommit: (session, callback) => callback()
+}));
+
+const mongoose = require('mongoose');
+const CashCollection = require('../../models/CashCollection');
+const Order = require('../../models/Order');
+const CollectionService = require('../collectionService');
+
+const { CollectionError } = CollectionService;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+const codDelivery = (amountToCollect) => ({ paymentMethod: 'cash_on_delivery', amountToCollect });
+
+describe('CollectionService', () => {
+  describe('validate', () => {
+    it('requires the collected amount when cash is due', () => {
+      expect(() => CollectionService.validate(codDelivery(500), undefined)).toThrow(CollectionError);
+      expect(() => CollectionService.validate(codDelivery(500), { amount: '' })).toThrow('Enter the amount collected');
+    });
+
+    it('needs nothing when nothing is due', () => {
+      expect(CollectionService.validate({ paymentMethod: 'bank_transfer', amountToCollect: 500 }, undefined)).toBeNull();
+    });
+
+    it('accepts a full collection without a reason', () => {
+      expect(CollectionService.validate(codDelivery(500), { amount: '500' })).toEqual({
+        expected: 500, amount: 500, method: 'cash', shortfall: 0, shortfallReason: undefined
+      });
+    });
+
+    it('refuses negative amounts and unknown methods', () => {
+      expect(() => CollectionService.validate(codDelivery(500), { amount: -1 })).toThrow(CollectionError);
+      expect(() => CollectionService.validate(codDelivery(500), { amount: 500, method: 'cheque' })).toThrow('Unknown payment method: cheque');
+    });
+
+    it('requires a reason for a shortfall', () => {
+      expect(() => CollectionService.validate(codDelivery(500), { amount: 450 })).toThrow('৳50 less than expected');
+      expect(() => CollectionService.validate(codDelivery(500), { amount: 450, shortfallReason: '   ' })).toThrow(CollectionError);
+    });
+
+    it('treats a reason that is not text as missing', () => {
+      expect(() => CollectionService.validate(codDelivery(500), { amount: 450, shortfallReason: 42 })).toThrow(CollectionError);
+      expect(() => CollectionService.validate(codDelivery(500), { amount: 450, shortfallReason: { text: 'no change' } })).toThrow(CollectionError);
+    });
+
+    it('records the shortfall and its trimmed reason', () => {
+      const collection = CollectionService.validate(codDelivery(499.99), {
+        amount: 400.004, method: 'mobile_banking', shortfallReason: ' Shop short of cash '
+      });
+
+      expect(collection).toEqual({
+        expected: 499.99, amount: 400, method: 'mobile_banking', shortfall: 99.99, shortfallReason: 'Shop short of cash'
+      });
+    });
+  });
+
+  describe('settle', () => {
+    const company = { _id: newId(), role: 'company_rep', name: 'Company' };
+    const staff = { _id: newId(), role: 'company_rep', name: 'Staff member' };
+    let collections;
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      collections = [
+        { _id: newId(), orderId: newId(), collectedAmount: 500, shortfall: 0 },
+        { _id: newId(), orderId: newId(), collectedAmount: 450, shortfall: 50 }
+      ];
+      jest.spyOn(CashCollection, 'find').mockReturnValue({ session: async () => collections });
+      jest.spyOn(CashCollection, 'updateMany').mockResolvedValue({});
+      jest.spyOn(Order, 'updateMany').mockResolvedValue({});
+    });
+
+    it('marks orders paid in full as completed and short-paid orders as partial', async () => {
+      const result = await CollectionService.settle(collections.map(c => c._id), company, 'Handed over');
+
+      expect(result).toMatchObject({ settled: 2, amount: 950 });
+      expect(Order.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [collections[0].orderId] } }, { $set: { paymentStatus: 'completed' } }, expect.anything()
+      );
+      expect(Order.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [collections[1].orderId] } }, { $set: { paymentStatus: 'partial' } }, expect.anything()
+      );
+    });
+
+    it('records the person settling and scopes the collections to the company', async () => {
+      await CollectionService.settle(collections.map(c => c._id), company, undefined, staff);
+
+      expect(CashCollection.find).toHaveBeenCalledWith(expect.objectContaining({ companyId: company._id, status: 'collected' }));
+      expect(CashCollection.updateMany).toHaveBeenCalledWith(
+        expect.anything(),
+        { $set: expect.objectContaining({ status: 'settled', settledBy: staff._id, settlementNote: '' }) },
+        expect.anything()
+      );
+    });
+
+    it('refuses when some collections are missing or already settled', async () => {
+      await expect(CollectionService.settle([collections[0]._id, collections[1]._id, newId()], company))
+        .rejects.toThrow('Some collections were not found or are already settled');
+      expect(Order.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses an empty selection', async () => {
+      await expect(CollectionService.settle([], company)).rejects.toBeInstanceOf(CollectionError);
+    });
+  });
+});
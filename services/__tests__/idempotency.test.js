@@ -0,0 +1,161 @@
+const mongoose = require('mongoose');
+const IdempotencyKey = require('../../models/IdempotencyKey');
+const { idempotent } = require('../../middleware/idempotency');
+
+const newId = () => new mongoose.Types.ObjectId();
+
+// Idempotency records kept in memory, unique per user and key like the index
+let records;
+
+const sameValue = (a, b) => (a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : String(a) === String(b));
+const find = (filter) => records.find(record => Object.entries(filter).every(([field, value]) => sameValue(record[field], value)));
+
+const fakeModel = () => {
+  jest.spyOn(IdempotencyKey, 'create').mockImplementation(async (fields) => {
+    if (find({ userId: fields.userId, key: fields.key })) throw Object.assign(new Error('duplicate key'), { code: 11000 });
+    return seed(fields);
+  });
+  jest.spyOn(IdempotencyKey, 'findOne').mockImplementation((filter) => ({
+    lean: async () => (find(filter) ? { ...find(filter) } : null)
+  }));
+  jest.spyOn(IdempotencyKey, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    const record = find(filter);
+    return record ? Object.assign(record, update.$set) : null;
+  });
+  jest.spyOn(IdempotencyKey, 'updateOne').mockImplementation(async (filter, update) => Object.assign(find(filter), update.$set));
+  jest.spyOn(IdempotencyKey, 'deleteOne').mockImplementation(async (filter) => {
+    records = records.filter(record => record !== find(filter));
+  });
+};
+
+const seed = (fields) => {
+  const now = new Date();
+  const record = { _id: newId(), status: 'processing', claimedAt: now, createdAt: now, ...fields };
+  records.push(record);
+  return record;
+};
+
+const user = { _id: newId() };
+
+const request = (key, path = '/api/orders') => ({
+  user,
+  method: 'POST',
+  originalUrl: path,
+  get: (header) => (header === 'Idempotency-Key' ? key : undefined)
+});
+
+// Pass a request through the middleware to `handler`; resolves with the
+// response once something has been sent
+const send = (req, handler) => new Promise((resolve, reject) => {
+  const listeners = {};
+  const res = {
+    statusCode: 200,
+    headers: {},
+    status(code) { this.statusCode = code; return this; },
+    set(name, value) { this.headers[name] = value; return this; },
+    on(event, callback) { listeners[event] = callback; },
+    json(body) { this.body = body; return this.end(); },
+    end() { listeners.finish?.(); resolve(this); return this; }
+  };
+  idempotent(req, res, (error) => (error ? reject(error) : handler(req, res)));
+});
+
+const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000);
+
+describe('idempotent middleware', () => {
+  let handler;
+
+  beforeEach(() => {
+    records = [];
+    jest.restoreAllMocks();
+    fakeModel();
+    handler = jest.fn((req, res) => res.status(201).json({ orderNumber: 'ORD-1' }));
+  });
+
+  it('runs requests without a key as usual', async () => {
+    await send(request(undefined), handler);
+    await send(request(undefined), handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(records).toEqual([]);
+  });
+
+  it('replays the stored response for a repeat of a completed request', async () => {
+    const first = await send(request('key-1'), handler);
+    const repeat = await send(request('key-1'), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.headers['Idempotent-Replayed']).toBeUndefined();
+    expect(repeat).toMatchObject({ statusCode: 201, body: { orderNumber: 'ORD-1' }, headers: { 'Idempotent-Replayed': 'true' } });
+  });
+
+  it('keeps keys apart per user', async () => {
+    await send(request('key-1'), handler);
+    await send({ ...request('key-1'), user: { _id: newId() } }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await send(request('key-1'), handler);
+    const reused = await send(request('key-1', '/api/payments'), handler);
+
+    expect(reused.statusCode).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 409 while the first request is still processing', async () => {
+    seed({ key: 'key-1', userId: user._id, method: 'POST', path: '/api/orders', claimedAt: minutesAgo(1) });
+
+    const repeat = await send(request('key-1'), handler);
+
+    expect(repeat.statusCode).toBe(409);
+    expect(repeat.body.error).toBe('Request in progress');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('reclaims a record left processing past its lease', async () => {
+    seed({ key: 'key-1', userId: user._id, method: 'POST', path: '/api/orders', claimedAt: minutesAgo(3) });
+
+    const repeat = await send(request('key-1'), handler);
+
+    expect(repeat.statusCode).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(records[0]).toMatchObject({ status: 'completed', responseStatus: 201 });
+  });
+
+  it('lets only one of two repeats take over a stale record', async () => {
+    seed({ key: 'key-1', userId: user._id, method: 'POST', path: '/api/orders', claimedAt: minutesAgo(3) });
+
+    const responses = await Promise.all([send(request('key-1'), handler), send(request('key-1'), handler)]);
+
+    expect(responses.map(res => res.statusCode).sort()).toEqual([201, 409]);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the key after a server error so the client can retry', async () => {
+    handler.mockImplementationOnce((req, res) => res.status(500).json({ error: 'Failed' }));
+
+    const failed = await send(request('key-1'), handler);
+    const retried = await send(request('key-1'), handler);
+
+    expect(failed.statusCode).toBe(500);
+    expect(retried.statusCode).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the key when the response was not sent as JSON', async () => {
+    handler.mockImplementationOnce((req, res) => res.end());
+
+    await send(request('key-1'), handler);
+
+    expect(records).toEqual([]);
+  });
+
+  it('refuses keys longer than 100 characters', async () => {
+    const res = await send(request('k'.repeat(101)), handler);
+
+    expect(res.statusCode).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
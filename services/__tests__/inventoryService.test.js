@@ -0,0 +1,188 @@
+const mongoose = require('mongoose');
+const Product = require('../../models/Product');
+const StockMovement = require('../../models/StockMovement');
+const InventoryService = require('../inventoryService');
+const eventBus = require('../eventBus');
+
+const { InsufficientStockError, StockChangedError } = InventoryService;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+// Products kept in memory. Each update checks its filter and applies
+// $inc/$set in one step, like MongoDB does for a single document.
+let products;
+
+const matches = (doc, filter) => Object.entries(filter).every(([field, condition]) => {
+  if (condition && typeof condition === 'object' && '$gte' in condition) return doc[field] >= condition.$gte;
+  return String(doc[field]) === String(condition);
+});
+
+const findOneAndUpdate = async (filter, update) => {
+  const doc = products.find(candidate => matches(candidate, filter));
+  if (!doc) return null;
+  Object.entries(update.$inc || {}).forEach(([field, amount]) => { doc[field] += amount; });
+  Object.assign(doc, update.$set);
+  return { ...doc };
+};
+
+const productWith = (stockQuantity, reservedQuantity = 0) => {
+  const product = { _id: newId(), companyId: newId(), name: 'Rice', isActive: true, stockQuantity, reservedQuantity };
+  products.push(product);
+  return product;
+};
+
+const orderFor = (product, quantity, stockStatus) => ({
+  _id: newId(),
+  orderNumber: 'ORD-TEST',
+  stockStatus,
+  items: [{ productId: product._id, productName: product.name, quantity }]
+});
+
+const actor = { _id: newId(), name: 'Test company', role: 'company_rep' };
+
+const ledger = () => StockMovement.create.mock.calls.map(([[movement]]) => movement);
+
+describe('InventoryService', () => {
+  beforeEach(() => {
+    products = [];
+    jest.restoreAllMocks();
+    jest.spyOn(Product, 'findOneAndUpdate').mockImplementation(findOneAndUpdate);
+    jest.spyOn(Product, 'findByIdAndUpdate').mockImplementation((id, update) => findOneAndUpdate({ _id: id }, update));
+    jest.spyOn(StockMovement, 'create').mockImplementation(async (docs) => docs);
+    jest.spyOn(eventBus, 'emit').mockImplementation(() => true);
+  });
+
+  describe('reserveForOrder', () => {
+    it('moves the ordered quantity from available to reserved stock', async () => {
+      const product = productWith(50);
+      const order = orderFor(product, 20);
+
+      await InventoryService.reserveForOrder(order, actor);
+
+      expect(product).toMatchObject({ stockQuantity: 30, reservedQuantity: 20 });
+      expect(order.stockStatus).toBe('reserved');
+      expect(ledger()).toEqual([expect.objectContaining({
+        type: 'reservation', quantity: 20, stockDelta: -20, reservedDelta: 20, stockAfter: 30, reservedAfter: 20
+      })]);
+    });
+
+    it('does nothing for an order that already holds its stock', async () => {
+      const product = productWith(50, 20);
+      await InventoryService.reserveForOrder(orderFor(product, 20, 'reserved'), actor);
+
+      expect(product).toMatchObject({ stockQuantity: 50, reservedQuantity: 20 });
+      expect(StockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses more than is available and leaves stock alone', async () => {
+      const product = productWith(5);
+      const order = orderFor(product, 6);
+
+      await expect(InventoryService.reserveForOrder(order, actor)).rejects.toBeInstanceOf(InsufficientStockError);
+      expect(product).toMatchObject({ stockQuantity: 5, reservedQuantity: 0 });
+      expect(order.stockStatus).toBeUndefined();
+    });
+
+    it('lets only one of two concurrent orders take the last units', async () => {
+      const product = productWith(10);
+
+      const results = await Promise.allSettled([
+        InventoryService.reserveForOrder(orderFor(product, 10), actor),
+        InventoryService.reserveForOrder(orderFor(product, 10), actor)
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(result => result.status === 'rejected').reason).toBeInstanceOf(InsufficientStockError);
+      expect(product).toMatchObject({ stockQuantity: 0, reservedQuantity: 10 });
+    });
+
+    it('announces low stock once it drops below the threshold', async () => {
+      const product = productWith(InventoryService.LOW_STOCK_THRESHOLD + 2);
+      await InventoryService.reserveForOrder(orderFor(product, 5), actor);
+
+      expect(eventBus.emit).toHaveBeenCalledWith(eventBus.EVENTS.STOCK_LOW, expect.objectContaining({
+        threshold: InventoryService.LOW_STOCK_THRESHOLD
+      }));
+    });
+  });
+
+  describe('commitForOrder', () => {
+    it('consumes the reservation of a delivered order', async () => {
+      const product = productWith(30, 20);
+      const order = orderFor(product, 20, 'reserved');
+
+      await InventoryService.commitForOrder(order, actor);
+
+      expect(product).toMatchObject({ stockQuantity: 30, reservedQuantity: 0 });
+      expect(order.stockStatus).toBe('committed');
+      expect(ledger()).toEqual([expect.objectContaining({ type: 'commit', stockDelta: 0, reservedDelta: -20 })]);
+    });
+
+    it('skips orders that hold no reservation', async () => {
+      const product = productWith(30, 20);
+      await InventoryService.commitForOrder(orderFor(product, 20, 'released'), actor);
+
+      expect(product).toMatchObject({ stockQuantity: 30, reservedQuantity: 20 });
+    });
+  });
+
+  describe('releaseForOrder', () => {
+    it('returns reserved stock to availability', async () => {
+      const product = productWith(30, 20);
+      const order = orderFor(product, 20, 'reserved');
+
+      await InventoryService.releaseForOrder(order, actor, 'Order cancelled');
+
+      expect(product).toMatchObject({ stockQuantity: 50, reservedQuantity: 0 });
+      expect(order.stockStatus).toBe('released');
+      expect(ledger()).toEqual([expect.objectContaining({ type: 'release', stockDelta: 20, reservedDelta: -20, note: 'Order cancelled' })]);
+    });
+
+    it('releases only once', async () => {
+      const product = productWith(30, 20);
+      const order = orderFor(product, 20, 'reserved');
+
+      await InventoryService.releaseForOrder(order, actor);
+      await InventoryService.releaseForOrder(order, actor);
+
+      expect(product).toMatchObject({ stockQuantity: 50, reservedQuantity: 0 });
+    });
+  });
+
+  describe('adjustStock', () => {
+    it('adds to the stock in the database, not to the value that was read', async () => {
+      const product = productWith(30);
+      const shown = { ...product };
+      product.stockQuantity = 25; // reserved by an order after the company loaded the product
+
+      const updated = await InventoryService.adjustStock(shown, 'add', 10, actor);
+
+      expect(updated.stockQuantity).toBe(35);
+      expect(ledger()).toEqual([expect.objectContaining({ type: 'adjustment', stockDelta: 10, stockAfter: 35 })]);
+    });
+
+    it('subtracts only while enough is available', async () => {
+      const product = productWith(8, 20);
+
+      await expect(InventoryService.adjustStock({ ...product }, 'subtract', 9, actor)).rejects.toBeInstanceOf(InsufficientStockError);
+      expect(product.stockQuantity).toBe(8);
+
+      const updated = await InventoryService.adjustStock({ ...product }, 'subtract', 8, actor);
+      expect(updated).toMatchObject({ stockQuantity: 0, reservedQuantity: 20 });
+    });
+
+    it('sets the stock only while it still has the value that was read', async () => {
+      const product = productWith(30, 5);
+      const shown = { ...product };
+      product.stockQuantity = 25;
+      product.reservedQuantity = 10;
+
+      await expect(InventoryService.adjustStock(shown, 'set', 40, actor)).rejects.toBeInstanceOf(StockChangedError);
+      expect(product).toMatchObject({ stockQuantity: 25, reservedQuantity: 10 });
+
+      const updated = await InventoryService.adjustStock({ ...product }, 'set', 40, actor);
+      expect(updated.stockQuantity).toBe(40);
+      expect(ledger()).toEqual([expect.objectContaining({ stockDelta: 15, stockAfter: 40 })]);
+    });
+  });
+});
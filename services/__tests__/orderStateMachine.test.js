@@ -0,0 +1,272 @@
+jest.mock('../inventoryService');
+jest.mock('../deliveryLifecycleService');
+
+const mongoose = require('mongoose');
+const Order = require('../../models/Order');
+const User = require('../../models/User');
+const OrderStateMachine = require('../orderStateMachine');
+const DeliveryLifecycleService = require('../deliveryLifecycleService');
+const orderController = require('../../controllers/orderController');
+
+const { OrderTransitionError, TransitionInputError } = OrderStateMachine;
+
+const STATUSES = [
+  'pending', 'backordered', 'approved', 'processing', 'assigned', 'accepted',
+  'picked_up', 'shipped', 'delivered', 'cancelled', 'rejected'
+];
+const ROLES = ['shopkeeper', 'company_rep', 'delivery_worker', 'admin'];
+
+// The moves each role may make from each status, written out independently
+// of TRANSITIONS so a change to the rules has to be made in both places
+const EXPECTED = {
+  pending: {
+    shopkeeper: ['cancelled'],
+    company_rep: ['approved', 'rejected', 'cancelled'],
+    delivery_worker: [],
+    admin: ['approved', 'rejected', 'cancelled']
+  },
+  backordered: {
+    shopkeeper: ['cancelled'],
+    company_rep: ['approved', 'cancelled'],
+    delivery_worker: [],
+    admin: ['approved', 'cancelled']
+  },
+  approved: {
+    shopkeeper: ['cancelled'],
+    company_rep: ['processing', 'assigned', 'cancelled'],
+    delivery_worker: [],
+    admin: ['processing', 'assigned', 'cancelled']
+  },
+  processing: {
+    shopkeeper: [],
+    company_rep: ['assigned', 'cancelled'],
+    delivery_worker: [],
+    admin: ['assigned', 'cancelled']
+  },
+  assigned: {
+    shopkeeper: [],
+    company_rep: ['assigned', 'cancelled'],
+    delivery_worker: ['accepted', 'picked_up', 'approved'],
+    admin: ['approved', 'assigned', 'cancelled']
+  },
+  accepted: {
+    shopkeeper: [],
+    company_rep: ['cancelled'],
+    delivery_worker: ['picked_up', 'approved'],
+    admin: ['approved', 'cancelled']
+  },
+  picked_up: {
+    shopkeeper: [],
+    company_rep: [],
+    delivery_worker: ['shipped', 'delivered', 'approved'],
+    admin: ['delivered', 'approved', 'cancelled']
+  },
+  shipped: {
+    shopkeeper: [],
+    company_rep: [],
+    delivery_worker: ['delivered', 'approved'],
+    admin: ['delivered', 'approved', 'cancelled']
+  },
+  delivered: { shopkeeper: [], company_rep: [], delivery_worker: [], admin: [] },
+  cancelled: { shopkeeper: [], company_rep: [], delivery_worker: [], admin: [] },
+  rejected: { shopkeeper: [], company_rep: [], delivery_worker: [], admin: [] }
+};
+
+// Moves that need a reason from the user making them
+const REQUIRES_REASON = {
+  pending: ['rejected', 'cancelled'],
+  backordered: ['cancelled'],
+  approved: ['cancelled'],
+  processing: ['cancelled'],
+  assigned: ['cancelled'],
+  accepted: ['approved', 'cancelled'],
+  picked_up: ['approved', 'cancelled'],
+  shipped: ['approved', 'cancelled']
+};
+
+const newId = () => new mongoose.Types.ObjectId();
+
+const users = Object.fromEntries(ROLES.map(role => [role, { _id: newId(), name: `Test ${role}`, role }]));
+
+// An order every test user is a party to
+const orderIn = (status) => ({
+  _id: newId(),
+  orderNumber: 'ORD-TEST',
+  status,
+  shopkeeperId: users.shopkeeper._id,
+  companyId: users.company_rep._id,
+  deliveryWorkerId: users.delivery_worker._id,
+  items: [],
+  timeline: []
+});
+
+const inputFor = (status, nextStatus) => ({
+  reason: REQUIRES_REASON[status]?.includes(nextStatus) ? 'Test reason' : undefined,
+  deliveryWorkerId: nextStatus === 'assigned' ? users.delivery_worker._id : undefined
+});
+
+const fakeResponse = () => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+describe('OrderStateMachine', () => {
+  describe('role/transition matrix', () => {
+    const cases = STATUSES.flatMap(status => ROLES.map(role => [status, role]));
+
+    it.each(cases)('from %s, a %s may make exactly the expected moves', (status, role) => {
+      const actions = OrderStateMachine.getAvailableActions(orderIn(status), users[role]);
+      expect(actions.map(action => action.status).sort()).toEqual([...EXPECTED[status][role]].sort());
+    });
+
+    const moves = STATUSES.flatMap(status =>
+      STATUSES.flatMap(nextStatus => ROLES.map(role => [status, nextStatus, role]))
+    );
+
+    it.each(moves)('%s -> %s by a %s is allowed only when expected', async (status, nextStatus, role) => {
+      const order = orderIn(status);
+      const attempt = OrderStateMachine.transition(order, nextStatus, users[role], inputFor(status, nextStatus));
+
+      if (EXPECTED[status][role].includes(nextStatus)) {
+        await expect(attempt).resolves.toBe(order);
+        expect(order.status).toBe(nextStatus);
+        expect(order.timeline).toHaveLength(1);
+        expect(order.timeline[0]).toMatchObject({ status: nextStatus, actor: { name: users[role].name, role } });
+      } else {
+        await expect(attempt).rejects.toBeInstanceOf(OrderTransitionError);
+        expect(order.status).toBe(status);
+        expect(order.timeline).toHaveLength(0);
+      }
+    });
+
+    it('refuses users who are not a party to the order', async () => {
+      const outsider = { _id: newId(), name: 'Other company', role: 'company_rep' };
+      const order = orderIn('pending');
+
+      expect(OrderStateMachine.getAvailableActions(order, outsider)).toEqual([]);
+      await expect(OrderStateMachine.transition(order, 'approved', outsider)).rejects.toBeInstanceOf(OrderTransitionError);
+    });
+
+    it('records the staff member acting for the company', async () => {
+      const staff = { _id: newId(), name: 'Test staff', role: 'company_rep' };
+      const company = { ...users.company_rep, $locals: { account: staff } };
+      const order = orderIn('pending');
+      await OrderStateMachine.transition(order, 'approved', company);
+
+      expect(order.approvedBy).toBe(staff._id);
+      expect(order.timeline[0].actor).toEqual({ userId: staff._id, name: 'Test staff', role: 'company_rep' });
+    });
+  });
+
+  describe('requiresReason', () => {
+    const cases = STATUSES.flatMap(status =>
+      OrderStateMachine.getNextStatuses(status).map(nextStatus => [status, nextStatus])
+    );
+
+    it.each(cases)('%s -> %s reports whether a reason is needed', (status, nextStatus) => {
+      const expected = !!REQUIRES_REASON[status]?.includes(nextStatus);
+      const action = OrderStateMachine.getAvailableActions(orderIn(status), users.admin)
+        .concat(OrderStateMachine.getAvailableActions(orderIn(status), users.delivery_worker))
+        .find(candidate => candidate.status === nextStatus);
+
+      expect(action.requiresReason).toBe(expected);
+    });
+
+    const needingReason = Object.entries(REQUIRES_REASON).flatMap(([status, nextStatuses]) =>
+      nextStatuses.map(nextStatus => [status, nextStatus])
+    );
+
+    it.each(needingReason)('%s -> %s is refused without a reason', async (status, nextStatus) => {
+      const role = EXPECTED[status].admin.includes(nextStatus) ? 'admin' : 'delivery_worker';
+      const order = orderIn(status);
+
+      await expect(OrderStateMachine.transition(order, nextStatus, users[role], { reason: '   ' }))
+        .rejects.toBeInstanceOf(TransitionInputError);
+      expect(order.status).toBe(status);
+    });
+
+    it('stores the reason of a rejection on the order', async () => {
+      const order = orderIn('pending');
+      await OrderStateMachine.transition(order, 'rejected', users.company_rep, { reason: '  Out of stock  ' });
+
+      expect(order.rejectionReason).toBe('Out of stock');
+      expect(order.timeline[0].note).toBe('Order rejected: Out of stock');
+    });
+
+    it('needs a delivery worker to assign an order', async () => {
+      await expect(OrderStateMachine.transition(orderIn('approved'), 'assigned', users.company_rep))
+        .rejects.toBeInstanceOf(TransitionInputError);
+    });
+  });
+
+  describe('invalid transition error', () => {
+    it('carries the current status and the moves the user may make', async () => {
+      const error = await OrderStateMachine.transition(orderIn('delivered'), 'cancelled', users.admin).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(OrderTransitionError);
+      expect(error.code).toBe('INVALID_TRANSITION');
+      expect(error.message).toBe('Cannot change status from delivered to cancelled');
+      expect(error.currentStatus).toBe('delivered');
+      expect(error.allowedTransitions).toEqual([]);
+    });
+
+    it('is answered with a 409 listing the allowed moves', async () => {
+      const order = orderIn('pending');
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      DeliveryLifecycleService.changeOrderStatus.mockImplementation((target, status, user, input) =>
+        OrderStateMachine.transition(target, status, user, input)
+      );
+
+      const res = fakeResponse();
+      await orderController.updateOrderStatus(
+        { params: { orderId: order._id.toString() }, body: { status: 'delivered' }, user: users.shopkeeper },
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Cannot change status from pending to delivered',
+        currentStatus: 'pending',
+        allowedTransitions: ['cancelled']
+      });
+    });
+  });
+
+  describe('assigning through the status route', () => {
+    beforeEach(() => jest.clearAllMocks());
+
+    it('creates or hands over the delivery instead of only moving the order', async () => {
+      const order = orderIn('approved');
+      const worker = { ...users.delivery_worker, status: 'active' };
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      jest.spyOn(User, 'findById').mockResolvedValue(worker);
+
+      const res = fakeResponse();
+      await orderController.updateOrderStatus(
+        { params: { orderId: order._id.toString() }, body: { status: 'assigned', assignedDeliveryWorkerId: worker._id }, user: users.company_rep },
+        res
+      );
+
+      expect(DeliveryLifecycleService.assignOrder).toHaveBeenCalledWith(order, worker, users.company_rep);
+      expect(DeliveryLifecycleService.changeOrderStatus).not.toHaveBeenCalledWith(order, 'assigned', expect.anything(), expect.anything());
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('needs an active delivery worker', async () => {
+      const order = orderIn('approved');
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      jest.spyOn(User, 'findById').mockResolvedValue({ ...users.delivery_worker, status: 'suspended' });
+
+      const res = fakeResponse();
+      await orderController.updateOrderStatus(
+        { params: { orderId: order._id.toString() }, body: { status: 'assigned', assignedDeliveryWorkerId: users.delivery_worker._id }, user: users.company_rep },
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(DeliveryLifecycleService.assignOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+const mongoose = require('mongoose');
+const OtpCode = require('../../models/OtpCode');
+const OtpService = require('../otpService');
+const SmsSender = require('../smsSender');
+const { otp: otpConfig } = require('../../config/auth');
+
+const { OtpError } = OtpService;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+// Codes kept in memory; queries match phone, purpose, consumedAt and the
+// createdAt/expiresAt bounds the service uses
+let codes;
+
+const matches = (otp, query) => Object.entries(query).every(([field, condition]) => {
+  if (condition && condition.$gt) return otp[field] > condition.$gt;
+  if (field === '_id') return String(otp._id) === String(condition);
+  return otp[field] === condition;
+});
+
+const newestFirst = (list) => ({ sort: async () => [...list].sort((a, b) => b.createdAt - a.createdAt) });
+
+const fakeModel = () => {
+  jest.spyOn(OtpCode, 'find').mockImplementation((query) => newestFirst(codes.filter(otp => matches(otp, query))));
+  jest.spyOn(OtpCode, 'findOne').mockImplementation((query) => ({
+    sort: async () => (await newestFirst(codes.filter(otp => matches(otp, query))).sort())[0] || null
+  }));
+  jest.spyOn(OtpCode, 'create').mockImplementation(async (fields) => {
+    const otp = { _id: newId(), attempts: 0, consumedAt: null, createdAt: new Date(), ...fields };
+    codes.push(otp);
+    return otp;
+  });
+  jest.spyOn(OtpCode, 'updateMany').mockImplementation(async (query, update) => {
+    codes.filter(otp => matches(otp, query)).forEach(otp => Object.assign(otp, update.$set));
+  });
+  jest.spyOn(OtpCode, 'updateOne').mockImplementation(async (query, update) => {
+    codes.filter(otp => matches(otp, query)).forEach(otp => { otp.attempts += update.$inc.attempts; });
+  });
+  jest.spyOn(OtpCode, 'findOneAndUpdate').mockImplementation(async (query, update) => {
+    const otp = codes.find(candidate => matches(candidate, query));
+    return otp ? Object.assign(otp, update.$set) : null;
+  });
+  jest.spyOn(OtpCode, 'deleteOne').mockImplementation(async (query) => {
+    codes = codes.filter(otp => !matches(otp, query));
+  });
+};
+
+const PHONE = '01712345678';
+
+const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000);
+
+// Pretend every code so far was sent `minutes` earlier
+const age = (minutes) => codes.forEach(otp => { otp.createdAt = new Date(otp.createdAt.getTime() - minutes * 60 * 1000); });
+
+const sentAt = (minutes) => ({
+  _id: newId(), phone: '+8801712345678', purpose: 'login', attempts: 0, consumedAt: new Date(), createdAt: minutesAgo(minutes)
+});
+
+// The code from the last text sent
+const lastCode = () => SmsSender.send.mock.calls[SmsSender.send.mock.calls.length - 1][0].text.slice(0, 6);
+
+const errorOf = (promise) => promise.then(() => null, error => error);
+
+describe('OtpService', () => {
+  beforeEach(() => {
+    codes = [];
+    jest.restoreAllMocks();
+    fakeModel();
+    jest.spyOn(SmsSender, 'send').mockResolvedValue({});
+  });
+
+  describe('issue', () => {
+    it('texts a 6-digit code to the international number and stores only its hash', async () => {
+      await OtpService.issue(PHONE, 'login');
+
+      expect(SmsSender.send).toHaveBeenCalledWith({ to: '+8801712345678', text: expect.stringMatching(/^\d{6} is your GroceryTrackBD login code/) });
+      expect(codes).toHaveLength(1);
+      expect(codes[0].codeHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(codes[0]).not.toHaveProperty('code');
+    });
+
+    it('refuses another code during the resend cooldown', async () => {
+      await OtpService.issue(PHONE, 'login');
+
+      const error = await errorOf(OtpService.issue('+8801712345678', 'verify_phone'));
+
+      expect(error).toBeInstanceOf(OtpError);
+      expect(error.code).toBe('OTP_RATE_LIMITED');
+      expect(error.retryAfter).toBeGreaterThan(0);
+      expect(error.retryAfter).toBeLessThanOrEqual(otpConfig.resendCooldownSeconds);
+      expect(SmsSender.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses more than the hourly limit and says when to retry', async () => {
+      codes = Array.from({ length: otpConfig.maxPerHour }, (_, i) => sentAt(50 - i * 5));
+
+      const error = await errorOf(OtpService.issue(PHONE, 'login'));
+
+      expect(error.code).toBe('OTP_RATE_LIMITED');
+      // The oldest code leaves the window 10 minutes from now
+      expect(error.retryAfter).toBeGreaterThan(9 * 60);
+      expect(error.retryAfter).toBeLessThanOrEqual(10 * 60);
+      expect(SmsSender.send).not.toHaveBeenCalled();
+    });
+
+    it('does not count codes older than an hour', async () => {
+      codes = Array.from({ length: otpConfig.maxPerHour }, (_, i) => sentAt(61 + i));
+
+      await expect(OtpService.issue(PHONE, 'login')).resolves.toBeDefined();
+    });
+
+    it('replaces earlier codes for the same purpose', async () => {
+      await OtpService.issue(PHONE, 'login');
+      age(2);
+      await OtpService.issue(PHONE, 'login');
+
+      expect(codes[0].consumedAt).toEqual(expect.any(Date));
+      expect(codes[1].consumedAt).toBeNull();
+      await expect(OtpService.verify(PHONE, 'login', lastCode())).resolves.toBe(codes[1]);
+    });
+
+    it('drops the code when the text could not be sent', async () => {
+      SmsSender.send.mockRejectedValueOnce(new Error('Gateway down'));
+
+      await expect(OtpService.issue(PHONE, 'login')).rejects.toThrow('Gateway down');
+      expect(codes).toEqual([]);
+      await expect(OtpService.issue(PHONE, 'login')).resolves.toBeDefined();
+    });
+  });
+
+  describe('verify', () => {
+    it('accepts the code once, whichever way the number is written', async () => {
+      await OtpService.issue(PHONE, 'login');
+      const code = lastCode();
+
+      await expect(OtpService.verify('+8801712345678', 'login', code)).resolves.toMatchObject({ consumedAt: expect.any(Date) });
+      await expect(OtpService.verify(PHONE, 'login', code)).rejects.toThrow('This code has expired');
+    });
+
+    it('only matches the purpose it was sent for', async () => {
+      await OtpService.issue(PHONE, 'verify_phone');
+
+      await expect(OtpService.verify(PHONE, 'login', lastCode())).rejects.toBeInstanceOf(OtpError);
+    });
+
+    it('stops working after too many wrong guesses', async () => {
+      await OtpService.issue(PHONE, 'login');
+      const code = lastCode();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let attempt = 0; attempt < otpConfig.maxAttempts; attempt += 1) {
+        await expect(OtpService.verify(PHONE, 'login', wrong)).rejects.toThrow('The code is incorrect');
+      }
+
+      await expect(OtpService.verify(PHONE, 'login', code)).rejects.toThrow('This code has expired');
+      expect(codes[0].attempts).toBe(otpConfig.maxAttempts);
+    });
+
+    it('refuses an expired code', async () => {
+      await OtpService.issue(PHONE, 'login');
+      codes[0].expiresAt = minutesAgo(1);
+
+      await expect(OtpService.verify(PHONE, 'login', lastCode())).rejects.toThrow('This code has expired');
+    });
+
+    it('lets only one of two parallel requests use the code', async () => {
+      await OtpService.issue(PHONE, 'login');
+      const code = lastCode();
+
+      const results = await Promise.allSettled([
+        OtpService.verify(PHONE, 'login', code),
+        OtpService.verify(PHONE, 'login', code)
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(result => result.status === 'rejected').reason.message).toBe('This code has already been used. Request a new one.');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+const mongoose = require('mongoose');
+const Product = require('../../models/Product');
+const PricingService = require('../pricingService');
+const pricingConfig = require('../../config/pricing');
+
+const { PricingError } = PricingService;
+
+const companyId = new mongoose.Types.ObjectId();
+
+const product = (fields) => new Product({
+  companyId,
+  name: 'Test product',
+  category: 'dairy',
+  unitPrice: 100,
+  unit: 'piece',
+  stockQuantity: 100,
+  minOrderQuantity: 1,
+  isActive: true,
+  ...fields
+});
+
+describe('PricingService', () => {
+  let catalog;
+  const { delivery } = pricingConfig;
+  const savedDelivery = { ...delivery };
+
+  beforeEach(() => {
+    catalog = new Map();
+    jest.spyOn(Product, 'findById').mockImplementation(async (id) => catalog.get(String(id)) || null);
+    delivery.areas = { Gulshan: 30 };
+    delivery.freeDeliveryThreshold = null;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Object.assign(delivery, savedDelivery);
+  });
+
+  const stock = (fields) => {
+    const doc = product(fields);
+    catalog.set(doc._id.toString(), doc);
+    return doc;
+  };
+
+  describe('getVatRate', () => {
+    it('uses the category rate, matched case-insensitively', () => {
+      expect(PricingService.getVatRate('fruits')).toBe(0);
+      expect(PricingService.getVatRate('Beverages')).toBe(0.15);
+    });
+
+    it('falls back to the default rate', () => {
+      expect(PricingService.getVatRate('dairy')).toBe(pricingConfig.vat.defaultRate);
+      expect(PricingService.getVatRate(undefined)).toBe(pricingConfig.vat.defaultRate);
+    });
+  });
+
+  describe('getDeliveryCharge', () => {
+    it('prefers an area rule over a city rule', () => {
+      expect(PricingService.getDeliveryCharge('gulshan', 'Dhaka')).toEqual({ charge: 30, rule: 'area:gulshan' });
+    });
+
+    it('uses the city rule when no area rule matches', () => {
+      expect(PricingService.getDeliveryCharge('Mirpur', 'Chattogram')).toEqual({ charge: 80, rule: 'city:Chattogram' });
+    });
+
+    it('falls back to the default charge', () => {
+      expect(PricingService.getDeliveryCharge('Nowhere', 'Elsewhere')).toEqual({ charge: delivery.defaultCharge, rule: 'default' });
+    });
+  });
+
+  describe('quote', () => {
+    it('prices lines from the product, ignoring prices sent by the client', async () => {
+      const milk = stock({ name: 'Milk', category: 'dairy', unitPrice: 90 });
+      const apples = stock({ name: 'Apples', category: 'fruits', unitPrice: 200, unit: 'kg' });
+
+      const quote = await PricingService.quote({
+        companyId,
+        items: [
+          { productId: milk._id, quantity: 3, unitPrice: 1 },
+          { productId: apples._id, quantity: '2', totalPrice: 0 }
+        ],
+        deliveryArea: 'Mirpur',
+        deliveryCity: 'Dhaka'
+      });
+
+      const vatRate = pricingConfig.vat.defaultRate;
+      expect(quote.items).toEqual([
+        expect.objectContaining({ productName: 'Milk', quantity: 3, unitPrice: 90, totalPrice: 270, vatRate, vatAmount: Math.round(270 * vatRate * 100) / 100 }),
+        expect.objectContaining({ productName: 'Apples', quantity: 2, unitPrice: 200, totalPrice: 400, vatRate: 0, vatAmount: 0 })
+      ]);
+      expect(quote.totalAmount).toBe(670);
+      expect(quote.taxAmount).toBe(quote.items[0].vatAmount);
+      expect(quote.deliveryCharge).toBe(50);
+      expect(quote.finalAmount).toBe(Math.round((670 + quote.taxAmount + 50) * 100) / 100);
+      expect(quote.breakdown.deliveryRule).toBe('city:Dhaka');
+    });
+
+    it('groups VAT by rate in the breakdown', async () => {
+      const chips = stock({ category: 'snacks', unitPrice: 20 });
+      const juice = stock({ category: 'beverages', unitPrice: 40 });
+
+      const quote = await PricingService.quote({
+        items: [{ productId: chips._id, quantity: 5 }, { productId: juice._id, quantity: 5 }]
+      });
+
+      expect(quote.breakdown.vat).toEqual([{ rate: 0.15, amount: 45 }]);
+    });
+
+    it('drops the delivery charge at the free-delivery threshold', async () => {
+      delivery.freeDeliveryThreshold = 500;
+      const rice = stock({ category: 'grains', unitPrice: 250 });
+
+      const below = await PricingService.quote({ items: [{ productId: rice._id, quantity: 1 }], deliveryCity: 'Dhaka' });
+      const at = await PricingService.quote({ items: [{ productId: rice._id, quantity: 2 }], deliveryCity: 'Dhaka' });
+
+      expect(below.deliveryCharge).toBe(50);
+      expect(at.deliveryCharge).toBe(0);
+      expect(at.breakdown.deliveryRule).toBe('free_delivery_threshold');
+      expect(at.finalAmount).toBe(500);
+    });
+
+    it('refuses an empty order', async () => {
+      await expect(PricingService.quote({ items: [] })).rejects.toBeInstanceOf(PricingError);
+    });
+
+    it('refuses products of another company', async () => {
+      const other = stock({ companyId: new mongoose.Types.ObjectId() });
+      await expect(PricingService.quote({ companyId, items: [{ productId: other._id, quantity: 1 }] }))
+        .rejects.toThrow('is not sold by the selected company');
+    });
+
+    it('refuses quantities the product cannot supply', async () => {
+      const milk = stock({ stockQuantity: 4, minOrderQuantity: 2 });
+
+      await expect(PricingService.quote({ items: [{ productId: milk._id, quantity: 5 }] })).rejects.toBeInstanceOf(PricingError);
+      await expect(PricingService.quote({ items: [{ productId: milk._id, quantity: 1 }] })).rejects.toBeInstanceOf(PricingError);
+    });
+
+    it('refuses unknown products', async () => {
+      await expect(PricingService.quote({ items: [{ productId: new mongoose.Types.ObjectId(), quantity: 1 }] }))
+        .rejects.toThrow('Product not found');
+    });
+  });
+
+  describe('repriceLine and totals', () => {
+    it('reprices a line at its own unit price and VAT rate', () => {
+      const line = PricingService.repriceLine({ unitPrice: 12.5, vatRate: 0.15 }, 3);
+      expect(line).toEqual({ unitPrice: 12.5, vatRate: 0.15, quantity: 3, totalPrice: 37.5, vatAmount: 5.63 });
+    });
+
+    it('adds up lines and the delivery charge', () => {
+      const totals = PricingService.totals([
+        { totalPrice: 37.5, vatAmount: 5.63 },
+        { totalPrice: 100, vatAmount: 0 }
+      ], 50);
+      expect(totals).toEqual({ totalAmount: 137.5, taxAmount: 5.63, deliveryCharge: 50, finalAmount: 193.13 });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+const RecurringOrderService = require('../recurringOrderService');
+
+// Schedules are in Dhaka time (UTC+6), so 09:00 there is 03:00Z.
+// 2026-10-19 is a Monday.
+const at = (iso) => new Date(iso);
+
+describe('RecurringOrderService.nextOccurrence', () => {
+  describe('weekly schedules', () => {
+    const mondays = { frequency: 'weekly', daysOfWeek: [1], timeOfDay: '09:00' };
+
+    it('returns later the same day when the time has not passed yet', () => {
+      expect(RecurringOrderService.nextOccurrence(mondays, at('2026-10-19T02:59:00Z'))).toEqual(at('2026-10-19T03:00:00Z'));
+    });
+
+    it('returns the next week once the time has passed, even by nothing', () => {
+      expect(RecurringOrderService.nextOccurrence(mondays, at('2026-10-19T03:00:00Z'))).toEqual(at('2026-10-26T03:00:00Z'));
+    });
+
+    it('picks the nearest of several days', () => {
+      const schedule = { frequency: 'weekly', daysOfWeek: [1, 4], timeOfDay: '09:00' };
+      expect(RecurringOrderService.nextOccurrence(schedule, at('2026-10-19T04:00:00Z'))).toEqual(at('2026-10-22T03:00:00Z'));
+      expect(RecurringOrderService.nextOccurrence(schedule, at('2026-10-22T04:00:00Z'))).toEqual(at('2026-10-26T03:00:00Z'));
+    });
+
+    it('uses the shop day, not the UTC day', () => {
+      // 20:00Z on Monday is already 02:00 on Tuesday in Dhaka
+      const tuesdays = { frequency: 'weekly', daysOfWeek: [2], timeOfDay: '01:00' };
+      expect(RecurringOrderService.nextOccurrence(tuesdays, at('2026-10-19T18:00:00Z'))).toEqual(at('2026-10-19T19:00:00Z'));
+      expect(RecurringOrderService.nextOccurrence(tuesdays, at('2026-10-19T20:00:00Z'))).toEqual(at('2026-10-26T19:00:00Z'));
+    });
+  });
+
+  describe('interval schedules', () => {
+    const everyThreeDays = { frequency: 'interval', intervalDays: 3, startDate: at('2026-10-18T18:00:00Z'), timeOfDay: '09:00' };
+
+    it('returns the first run when the schedule has not started yet', () => {
+      expect(RecurringOrderService.nextOccurrence(everyThreeDays, at('2026-10-01T00:00:00Z'))).toEqual(at('2026-10-19T03:00:00Z'));
+    });
+
+    it('counts whole periods from the first run', () => {
+      expect(RecurringOrderService.nextOccurrence(everyThreeDays, at('2026-10-19T03:00:00Z'))).toEqual(at('2026-10-22T03:00:00Z'));
+      expect(RecurringOrderService.nextOccurrence(everyThreeDays, at('2026-10-23T12:00:00Z'))).toEqual(at('2026-10-25T03:00:00Z'));
+      expect(RecurringOrderService.nextOccurrence(everyThreeDays, at('2026-11-18T03:00:00Z'))).toEqual(at('2026-11-21T03:00:00Z'));
+    });
+  });
+});
+
+describe('RecurringOrderService.upcoming', () => {
+  const recurring = (fields) => ({
+    status: 'active',
+    schedule: { frequency: 'weekly', daysOfWeek: [1], timeOfDay: '09:00' },
+    nextRunAt: at('2026-10-19T03:00:00Z'),
+    skippedOccurrences: [],
+    ...fields
+  });
+
+  it('lists the next occurrences and marks the skipped ones', () => {
+    const occurrences = RecurringOrderService.upcoming(recurring({ skippedOccurrences: [at('2026-10-26T03:00:00Z')] }), 3);
+
+    expect(occurrences).toEqual([
+      { scheduledFor: at('2026-10-19T03:00:00Z'), skipped: false },
+      { scheduledFor: at('2026-10-26T03:00:00Z'), skipped: true },
+      { scheduledFor: at('2026-11-02T03:00:00Z'), skipped: false }
+    ]);
+  });
+
+  it('lists nothing for a paused schedule', () => {
+    expect(RecurringOrderService.upcoming(recurring({ status: 'paused' }))).toEqual([]);
+  });
+});
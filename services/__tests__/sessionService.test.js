@@ -0,0 +1,109 @@
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const Session = require('../../models/Session');
+const User = require('../../models/User');
+const SessionService = require('../sessionService');
+const RealtimeService = require('../realtimeService');
+
+const { SessionError } = SessionService;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+// Sessions kept in memory as documents; rotation applies its filter like MongoDB
+let sessions;
+
+const stored = (id) => sessions.get(String(id));
+const isActive = (session) => session && !session.revokedAt && session.expiresAt > new Date();
+
+const user = { _id: newId(), name: 'Test shopkeeper', role: 'shopkeeper', status: 'active' };
+
+const errorOf = (promise) => promise.then(() => null, error => error);
+
+describe('SessionService.refresh', () => {
+  let signedIn;
+
+  beforeEach(async () => {
+    sessions = new Map();
+    process.env.JWT_SECRET = 'test-secret';
+    jest.restoreAllMocks();
+    jest.spyOn(Session.prototype, 'save').mockImplementation(async function save() {
+      sessions.set(String(this._id), this);
+      return this;
+    });
+    jest.spyOn(Session, 'findOne').mockImplementation(async ({ _id }) => (isActive(stored(_id)) ? stored(_id) : null));
+    jest.spyOn(Session, 'findOneAndUpdate').mockImplementation(async ({ _id, tokenHash }, update) => {
+      const session = stored(_id);
+      if (!session || session.tokenHash !== tokenHash || session.revokedAt) return null;
+      return Object.assign(session, update.$set);
+    });
+    jest.spyOn(User, 'findById').mockImplementation(async (id) => (String(id) === String(user._id) ? user : null));
+    jest.spyOn(RealtimeService, 'closeSessions').mockImplementation(() => {});
+
+    signedIn = await SessionService.create(user, { userAgent: 'Mozilla/5.0 (Linux; Android 14) Chrome/120.0' });
+  });
+
+  it('swaps the refresh token for a new one tied to the same session', async () => {
+    const refreshed = await SessionService.refresh(signedIn.refreshToken, { ip: '10.0.0.1' });
+
+    expect(refreshed.refreshToken).not.toBe(signedIn.refreshToken);
+    expect(refreshed.refreshToken.split('.')[0]).toBe(String(signedIn.session._id));
+    expect(refreshed.session).toMatchObject({ ip: '10.0.0.1', previousTokenHash: expect.any(String) });
+    expect(jwt.verify(refreshed.accessToken, 'test-secret')).toMatchObject({ sid: String(signedIn.session._id), role: 'shopkeeper' });
+
+    const again = await SessionService.refresh(refreshed.refreshToken);
+    expect(again.session._id).toEqual(signedIn.session._id);
+  });
+
+  it('answers REFRESH_RACE for the old token right after it was swapped', async () => {
+    await SessionService.refresh(signedIn.refreshToken);
+
+    const error = await errorOf(SessionService.refresh(signedIn.refreshToken));
+
+    expect(error).toBeInstanceOf(SessionError);
+    expect(error.code).toBe('REFRESH_RACE');
+    expect(isActive(stored(signedIn.session._id))).toBe(true);
+  });
+
+  it('lets only one of two parallel refreshes rotate the token', async () => {
+    const results = await Promise.allSettled([
+      SessionService.refresh(signedIn.refreshToken),
+      SessionService.refresh(signedIn.refreshToken)
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected').reason.code).toBe('REFRESH_RACE');
+  });
+
+  it('ends the session when a swapped token is replayed later', async () => {
+    const refreshed = await SessionService.refresh(signedIn.refreshToken);
+    stored(signedIn.session._id).rotatedAt = new Date(Date.now() - 60 * 1000);
+
+    const error = await errorOf(SessionService.refresh(signedIn.refreshToken));
+
+    expect(error.code).toBe('INVALID_SESSION');
+    expect(stored(signedIn.session._id)).toMatchObject({ revokedReason: 'token_reuse' });
+    expect(RealtimeService.closeSessions).toHaveBeenCalledWith([signedIn.session._id]);
+    // The thief's replay also locks out the holder of the newest token
+    await expect(SessionService.refresh(refreshed.refreshToken)).rejects.toBeInstanceOf(SessionError);
+  });
+
+  it('ends the session on a token that was never issued', async () => {
+    const forged = `${signedIn.session._id}.${'0'.repeat(64)}`;
+
+    await expect(SessionService.refresh(forged)).rejects.toBeInstanceOf(SessionError);
+    expect(stored(signedIn.session._id).revokedReason).toBe('token_reuse');
+  });
+
+  it('ends the session of a user who is no longer active', async () => {
+    User.findById.mockResolvedValue({ ...user, status: 'suspended' });
+
+    await expect(SessionService.refresh(signedIn.refreshToken)).rejects.toThrow('User not found or inactive');
+    expect(stored(signedIn.session._id).revokedReason).toBe('revoked');
+  });
+
+  it('refuses malformed tokens without looking anything up', async () => {
+    await expect(SessionService.refresh('not-a-token')).rejects.toBeInstanceOf(SessionError);
+    await expect(SessionService.refresh(undefined)).rejects.toBeInstanceOf(SessionError);
+    expect(Session.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,20 @@
+// Company staff act as their company (see authenticateToken), so the user a
+// service receives is the company account. Audit fields, timelines and logs
+// record the person instead, which authenticateToken keeps in $locals.account.
+const personOf = (user) => user?.$locals?.account || user;
+
+// Who did something, as copied into timelines, ledgers and logs
+const toActor = (user) => {
+  const person = personOf(user);
+  return person
+    ? { userId: person._id, name: person.name || 'System', role: person.role || 'system' }
+    : { name: 'System', role: 'system' };
+};
+
+// Who decided, resolved or settled something
+const recordedBy = (user) => {
+  const person = personOf(user);
+  return { userId: person._id, name: person.name };
+};
+
+module.exports = { personOf, toActor, recordedBy };
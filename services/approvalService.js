@@ -0,0 +1,280 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const ApprovalLog = require('../models/ApprovalLog');
+const User = require('../models/User');
+const Mailer = require('./mailer');
+const eventBus = require('./eventBus');
+const { withTransaction, afterCommit } = require('./transaction');
+const { toActor } = require('./actors');
+const approvalConfig = require('../config/approvals');
+const uploadConfig = require('../config/uploads');
+
+class ApprovalError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ApprovalError';
+    this.code = 'INVALID_APPROVAL';
+  }
+}
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const { documents: documentConfig } = uploadConfig;
+
+// What each review decision does to a pending account
+const DECISIONS = {
+  approve: { action: 'approved', status: 'active' },
+  reject: { action: 'rejected', status: 'suspended' },
+  request_info: { action: 'info_requested', status: 'pending' }
+};
+
+// First bytes of each accepted file type, so a renamed file is not taken for a document
+const SIGNATURES = {
+  'application/pdf': Buffer.from('%PDF'),
+  'image/jpeg': Buffer.from([0xff, 0xd8, 0xff]),
+  'image/png': Buffer.from([0x89, 0x50, 0x4e, 0x47])
+};
+const EXTENSIONS = { 'application/pdf': '.pdf', 'image/jpeg': '.jpg', 'image/png': '.png' };
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+// A new link for uploading documents: the token for the e-mail and the fields storing its hash
+const newUploadToken = () => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return {
+    token,
+    fields: {
+      'approval.uploadTokenHash': hashToken(token),
+      'approval.uploadTokenExpiresAt': new Date(Date.now() + approvalConfig.documentLinkTtlHours * 60 * 60 * 1000)
+    }
+  };
+};
+
+const CLOSED_REVIEW = { 'approval.infoRequest': 1, 'approval.uploadTokenHash': 1, 'approval.uploadTokenExpiresAt': 1 };
+
+const addLog = async (entry, session) => {
+  const [log] = await ApprovalLog.create([entry], { session });
+  return log;
+};
+
+const documentDir = (userId) => path.join(documentConfig.dir, userId.toString());
+
+const checkDocument = (file) => {
+  if (!approvalConfig.documentTypes[file.fieldname]) {
+    throw new ApprovalError(`Unknown document type: ${file.fieldname}`);
+  }
+  const signature = SIGNATURES[file.mimetype];
+  if (!documentConfig.fileTypes.includes(file.mimetype) || !signature ||
+      !file.buffer.subarray(0, signature.length).equals(signature)) {
+    throw new ApprovalError('Documents must be PDF, JPEG or PNG files');
+  }
+};
+
+class ApprovalService {
+  /**
+   * Whether new accounts of a role wait for an admin ('manual') or not ('auto')
+   */
+  static policyFor(role) {
+    return approvalConfig.policy[role] || 'manual';
+  }
+
+  static initialStatus(role) {
+    return ApprovalService.policyFor(role) === 'auto' ? 'active' : 'pending';
+  }
+
+  /**
+   * Log a new registration. Resolves to a token for uploading documents while
+   * the account waits for review, or null when its role is approved automatically.
+   */
+  static async recordRegistration(user) {
+    await addLog({ userId: user._id, action: 'registered', toStatus: user.status, actor: toActor(user) });
+
+    if (user.status === 'active') {
+      await addLog({ userId: user._id, action: 'auto_approved', fromStatus: 'pending', toStatus: 'active', actor: toActor(null) });
+      return null;
+    }
+
+    const { token, fields } = newUploadToken();
+    await User.updateOne({ _id: user._id }, { $set: fields });
+    return token;
+  }
+
+  /**
+   * The pending account an upload link was sent to, while the link works
+   */
+  static async findByUploadToken(token) {
+    return User.findOne({
+      'approval.uploadTokenHash': hashToken(token),
+      'approval.uploadTokenExpiresAt': { $gt: new Date() },
+      status: 'pending'
+    });
+  }
+
+  /**
+   * Store documents uploaded for the review. `files` are multer files whose
+   * field name is the document type. Answers an open request for more
+   * information, with `note` as the reply; a reply may come without files.
+   */
+  static async addDocuments(user, files = [], note) {
+    if (!files.length && !note) throw new ApprovalError('Attach a document or write a message');
+    files.forEach(checkDocument);
+
+    const dir = documentDir(user._id);
+    await fs.mkdir(dir, { recursive: true });
+    const documents = [];
+    for (const file of files) {
+      const fileName = `${file.fieldname}-${crypto.randomBytes(8).toString('hex')}${EXTENSIONS[file.mimetype]}`;
+      await fs.writeFile(path.join(dir, fileName), file.buffer);
+      documents.push({
+        kind: file.fieldname,
+        fileName,
+        originalName: file.originalname.slice(0, 200),
+        mimeType: file.mimetype,
+        size: file.size,
+        uploadedAt: new Date()
+      });
+    }
+
+    const answered = !!user.approval?.infoRequest?.requestedAt;
+    try {
+      return await withTransaction(async (session) => {
+        const updated = await User.findOneAndUpdate(
+          { _id: user._id, status: 'pending' },
+          { $push: { 'approval.documents': { $each: documents } }, $unset: { 'approval.infoRequest': 1 } },
+          { new: true, session }
+        );
+        if (!updated) throw new ApprovalError('This registration has already been decided');
+
+        await addLog({
+          userId: user._id,
+          action: 'documents_submitted',
+          fromStatus: 'pending',
+          toStatus: 'pending',
+          note,
+          documents: documents.length ? documents.map(document => document.kind) : undefined,
+          actor: toActor(user)
+        }, session);
+
+        afterCommit(session, () => eventBus.emit(eventBus.EVENTS.USER_DOCUMENTS_SUBMITTED, { user: updated, answered, note }));
+        return updated;
+      });
+    } catch (error) {
+      await Promise.all(documents.map(document => fs.rm(path.join(dir, document.fileName), { force: true })));
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending registration, or ask the registrant for more
+   * information. Rejecting and asking need a `note`, which the registrant is
+   * told. Asking e-mails a new link for uploading documents.
+   */
+  static async decide(user, decision, note, actor) {
+    const outcome = DECISIONS[decision];
+    if (!outcome) throw new ApprovalError(`Unknown decision: ${decision}`);
+    if (decision !== 'approve' && !note) {
+      throw new ApprovalError(decision === 'reject' ? 'Give a reason for the rejection' : 'Say what information is needed');
+    }
+
+    let update;
+    let uploadToken = null;
+    if (decision === 'request_info') {
+      uploadToken = newUploadToken();
+      update = { $set: { 'approval.infoRequest': { note, requestedAt: new Date() }, ...uploadToken.fields } };
+    } else {
+      update = {
+        $set: { status: outcome.status, suspensionReason: decision === 'reject' ? note : null },
+        $unset: CLOSED_REVIEW
+      };
+    }
+
+    const updated = await withTransaction(async (session) => {
+      // Only one admin can decide on a registration
+      const result = await User.findOneAndUpdate({ _id: user._id, status: 'pending' }, update, { new: true, session });
+      if (!result) throw new ApprovalError('This registration has already been decided');
+
+      await addLog({
+        userId: user._id,
+        action: outcome.action,
+        fromStatus: 'pending',
+        toStatus: outcome.status,
+        note,
+        actor: toActor(actor)
+      }, session);
+
+      afterCommit(session, () => {
+        if (decision === 'approve') eventBus.emit(eventBus.EVENTS.USER_APPROVED, { user: result, actor });
+        if (decision === 'reject') eventBus.emit(eventBus.EVENTS.USER_REJECTED, { user: result, actor, reason: note });
+      });
+      return result;
+    });
+
+    if (uploadToken) {
+      Mailer.send({
+        to: updated.email,
+        subject: 'More information needed for your GroceryTrackBD account',
+        text: `Hello ${updated.name},\n\n` +
+          'Before we can approve your GroceryTrackBD account, we need more information:\n\n' +
+          `${note}\n\n` +
+          `Open this link within ${approvalConfig.documentLinkTtlHours} hours to upload documents or reply:\n\n` +
+          `${FRONTEND_URL}/registration/documents/${uploadToken.token}`
+      }).catch(error => console.error('Information request e-mail failed:', error));
+    }
+    return updated;
+  }
+
+  /**
+   * Change the status of an account outside the registration review, e.g. to
+   * suspend an active one, and record who did it
+   */
+  static async changeStatus(user, status, note, actor) {
+    const fromStatus = user.status;
+    if (fromStatus === status) return user;
+
+    return withTransaction(async (session) => {
+      user.status = status;
+      if (status === 'suspended' && note) user.suspensionReason = note;
+      await user.save({ session });
+      await addLog({ userId: user._id, action: 'status_changed', fromStatus, toStatus: status, note, actor: toActor(actor) }, session);
+      return user;
+    });
+  }
+
+  /**
+   * Review history of one account, oldest first
+   */
+  static async history(userId) {
+    return ApprovalLog.find({ userId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Audit log entries of all accounts, newest first
+   */
+  static async list({ userId, action, page = 1, limit = 20 } = {}) {
+    const query = {};
+    if (userId) query.userId = userId;
+    if (action) query.action = action;
+
+    const [entries, total] = await Promise.all([
+      ApprovalLog.find(query)
+        .populate('userId', 'name email role')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ApprovalLog.countDocuments(query)
+    ]);
+    return { entries, total };
+  }
+
+  /**
+   * A stored document of an account with the path of its file
+   */
+  static documentFile(user, documentId) {
+    const document = user.approval?.documents?.id(documentId);
+    return document ? { document, filePath: path.join(documentDir(user._id), document.fileName) } : null;
+  }
+}
+
+ApprovalService.ApprovalError = ApprovalError;
+
+module.exports = ApprovalService;
@@ -0,0 +1,186 @@
+const Delivery = require('../models/Delivery');
+const Order = require('../models/Order');
+const User = require('../models/User');
+const DeliveryLifecycleService = require('./deliveryLifecycleService');
+const eventBus = require('./eventBus');
+const { toActor } = require('./actors');
+const assignmentConfig = require('../config/assignment');
+
+class AutoAssignmentError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AutoAssignmentError';
+    this.code = 'AUTO_ASSIGNMENT_FAILED';
+  }
+}
+
+const OPEN_DELIVERY_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+const FINISHED_DELIVERY_STATUSES = ['delivered', 'failed', 'returned'];
+
+const normalize = (value) => (value || '').toString().trim().toLowerCase();
+const round = (value) => Math.round(value * 10) / 10;
+
+const areaFactor = (worker, area, city) => {
+  const { areaMatch } = assignmentConfig;
+  const assignedAreas = (worker.deliveryWorkerInfo?.assignedAreas || []).map(normalize);
+  if (area && assignedAreas.includes(area)) return areaMatch.assignedArea;
+  if (area && normalize(worker.area) === area) return areaMatch.homeArea;
+  if (city && normalize(worker.city) === city) return areaMatch.sameCity;
+  return 0;
+};
+
+// A finished delivery was on time when it was delivered before its estimated
+// time, or within `onTimeHours` of assignment when it had none
+const isOnTime = (delivery) => {
+  if (delivery.status !== 'delivered' || !delivery.deliveredAt) return false;
+  const deadline = delivery.estimatedDeliveryTime
+    || new Date(new Date(delivery.assignedAt).getTime() + assignmentConfig.onTimeHours * 60 * 60 * 1000);
+  return delivery.deliveredAt <= deadline;
+};
+
+const formatBreakdown = ({ breakdown }) =>
+  `area ${breakdown.area}, availability ${breakdown.availability}, load ${breakdown.load}, on-time ${breakdown.onTime}`;
+
+class AutoAssignmentService {
+  /**
+   * Score every active delivery worker for an order, best first. Each score
+   * comes with its breakdown per factor (see config/assignment.js) and the
+   * numbers behind it. Workers who are offline or at their delivery limit
+   * are left out.
+   */
+  static async scoreWorkers(order) {
+    const { weights, availability: availabilityFactors, maxOpenDeliveries } = assignmentConfig;
+    const area = order.deliveryArea && order.deliveryArea !== 'N/A' ? normalize(order.deliveryArea) : null;
+    const city = order.deliveryCity && order.deliveryCity !== 'N/A' ? normalize(order.deliveryCity) : null;
+
+    const workers = await User.find({
+      role: 'delivery_worker',
+      status: 'active',
+      'deliveryWorkerInfo.availability': { $in: Object.keys(availabilityFactors) }
+    }).select('name phone area city deliveryWorkerInfo');
+    if (!workers.length) return [];
+
+    const workerIds = workers.map(worker => worker._id);
+    const openCounts = await Delivery.aggregate([
+      { $match: { deliveryWorkerId: { $in: workerIds }, status: { $in: OPEN_DELIVERY_STATUSES } } },
+      { $group: { _id: '$deliveryWorkerId', count: { $sum: 1 } } }
+    ]);
+    const since = new Date(Date.now() - assignmentConfig.historyDays * 24 * 60 * 60 * 1000);
+    const history = await Delivery.find({
+      deliveryWorkerId: { $in: workerIds },
+      status: { $in: FINISHED_DELIVERY_STATUSES },
+      updatedAt: { $gte: since }
+    }).select('deliveryWorkerId status assignedAt deliveredAt estimatedDeliveryTime');
+
+    const openByWorker = new Map(openCounts.map(({ _id, count }) => [_id.toString(), count]));
+    const historyByWorker = new Map();
+    history.forEach((delivery) => {
+      const id = delivery.deliveryWorkerId.toString();
+      const stats = historyByWorker.get(id) || { finished: 0, onTime: 0 };
+      stats.finished += 1;
+      if (isOnTime(delivery)) stats.onTime += 1;
+      historyByWorker.set(id, stats);
+    });
+
+    return workers
+      .map((worker) => {
+        const id = worker._id.toString();
+        const openDeliveries = openByWorker.get(id) || 0;
+        const stats = historyByWorker.get(id);
+        const onTimeRate = stats ? stats.onTime / stats.finished : assignmentConfig.defaultOnTimeRate;
+
+        const factors = {
+          area: areaFactor(worker, area, city),
+          availability: availabilityFactors[worker.deliveryWorkerInfo.availability] || 0,
+          load: Math.max(0, 1 - openDeliveries / maxOpenDeliveries),
+          onTime: onTimeRate
+        };
+        const breakdown = Object.fromEntries(
+          Object.entries(factors).map(([factor, value]) => [factor, round(value * weights[factor])])
+        );
+
+        return {
+          worker: { _id: worker._id, name: worker.name, phone: worker.phone, area: worker.area },
+          score: round(Object.values(breakdown).reduce((sum, points) => sum + points, 0)),
+          breakdown,
+          openDeliveries,
+          onTimeRate: round(onTimeRate * 100),
+          finishedDeliveries: stats?.finished || 0,
+          eligible: openDeliveries < maxOpenDeliveries && (!assignmentConfig.requireAreaMatch || factors.area > 0)
+        };
+      })
+      .sort((a, b) => b.eligible - a.eligible || b.score - a.score);
+  }
+
+  /**
+   * Assign the best-scoring eligible worker to an approved order and record
+   * the score breakdown on the order timeline. `actor` is the user the
+   * assignment is made on behalf of.
+   */
+  static async autoAssign(order, actor) {
+    if (!['approved', 'processing'].includes(order.status)) {
+      throw new AutoAssignmentError('Only approved orders can be assigned');
+    }
+    const existing = await Delivery.findOne({ orderId: order._id, ...Delivery.ORDER_DELIVERY });
+    if (existing && !DeliveryLifecycleService.canReassign(existing)) {
+      throw new AutoAssignmentError('A delivery has already been assigned to this order');
+    }
+
+    const candidates = await this.scoreWorkers(order);
+    const [best, runnerUp] = candidates.filter(candidate => candidate.eligible);
+    if (!best) {
+      order.timeline.push({
+        status: order.status,
+        timestamp: new Date(),
+        note: `Auto-assignment found no available delivery worker for ${order.deliveryArea}`,
+        actor: toActor(actor)
+      });
+      await order.save();
+      throw new AutoAssignmentError(`No available delivery worker covers ${order.deliveryArea}`);
+    }
+
+    const worker = await User.findById(best.worker._id);
+    const runnerUpNote = runnerUp ? ` Next best: ${runnerUp.worker.name} (${runnerUp.score}).` : '';
+    order.timeline.push({
+      status: order.status,
+      timestamp: new Date(),
+      note: `Auto-assigned ${worker.name} with score ${best.score}/100 (${formatBreakdown(best)}; ` +
+        `${best.openDeliveries} open deliveries, ${best.onTimeRate}% on time).${runnerUpNote}`,
+      actor: toActor(actor)
+    });
+
+    const delivery = existing || await DeliveryLifecycleService.buildDelivery(order, worker);
+    await DeliveryLifecycleService.assign(delivery, order, worker, actor);
+    return { delivery, worker, score: best, candidates };
+  }
+
+  /**
+   * Auto-assign orders of companies that turned it on, as soon as they are
+   * approved. Failures only leave a timeline note; the rep can still assign
+   * by hand.
+   */
+  static async onOrderStatusChanged({ order, previousStatus, actor }) {
+    if (order.status !== 'approved' || !['pending', 'backordered'].includes(previousStatus)) return;
+
+    const company = await User.findById(order.companyId).select('companyInfo');
+    if (!company?.companyInfo?.autoAssignDeliveries) return;
+
+    const current = await Order.findById(order._id);
+    try {
+      await this.autoAssign(current, actor);
+    } catch (error) {
+      if (error.code !== 'AUTO_ASSIGNMENT_FAILED') throw error;
+    }
+  }
+
+  /**
+   * Subscribe auto-assignment to the event bus. Call once at startup.
+   */
+  static register(bus = eventBus) {
+    bus.on(eventBus.EVENTS.ORDER_STATUS_CHANGED, (payload) => this.onOrderStatusChanged(payload));
+  }
+}
+
+AutoAssignmentService.AutoAssignmentError = AutoAssignmentError;
+
+module.exports = AutoAssignmentService;
@@ -0,0 +1,185 @@
+const Order = require('../models/Order');
+const Payment = require('../models/Payment');
+const Product = require('../models/Product');
+const User = require('../models/User');
+const DeliveryLifecycleService = require('./deliveryLifecycleService');
+const InventoryService = require('./inventoryService');
+const OrderStateMachine = require('./orderStateMachine');
+const PricingService = require('./pricingService');
+const RealtimeService = require('./realtimeService');
+const eventBus = require('./eventBus');
+const { toActor } = require('./actors');
+const { withTransaction } = require('./transaction');
+
+/**
+ * Payment status of a backorder split off `order`, whose total has already
+ * been cut to the shipped lines. Whatever was paid for the original order
+ * beyond that total paid for the backorder's lines.
+ */
+const backorderPaymentStatus = async (order, backorderTotal, session) => {
+  const payments = await Payment.find({ orderId: order._id, status: 'completed' }).session(session);
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const surplus = paid - (order.finalAmount || 0);
+  if (surplus <= 0) return 'pending';
+  return surplus >= backorderTotal ? 'completed' : 'partial';
+};
+
+class FulfilmentError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'FulfilmentError';
+    this.code = 'INVALID_FULFILMENT';
+  }
+}
+
+const LINE_FIELDS = ['productId', 'productName', 'category', 'unit', 'unitPrice', 'vatRate'];
+
+/**
+ * Quantity to ship per product from `fulfilment` ([{ productId, quantity }]).
+ * Products left out ship in full.
+ */
+const shippedQuantities = (order, fulfilment) => {
+  const shipped = new Map(order.items.map(item => [item.productId.toString(), item.quantity]));
+
+  for (const line of fulfilment) {
+    const key = line.productId?.toString();
+    if (!shipped.has(key)) throw new FulfilmentError('Fulfilment lists a product that is not in the order');
+
+    const quantity = Number(line.quantity);
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > shipped.get(key)) {
+      throw new FulfilmentError('Shipped quantity must be a whole number between 0 and the ordered quantity');
+    }
+    shipped.set(key, quantity);
+  }
+  return shipped;
+};
+
+class BackorderService {
+  /**
+   * Whether `fulfilment` ships less than the order asks for on any line
+   */
+  static hasShortfall(order, fulfilment) {
+    if (!Array.isArray(fulfilment) || !fulfilment.length) return false;
+    const shipped = shippedQuantities(order, fulfilment);
+    return order.items.some(item => shipped.get(item.productId.toString()) < item.quantity);
+  }
+
+  /**
+   * Approve a pending order with some lines short-shipped. The missing units
+   * are written off the reservation and move to a linked backorder, priced as
+   * in the original order, that waits for stock.
+   */
+  static async approveWithShortfall(order, fulfilment, actor) {
+    const shipped = shippedQuantities(order, fulfilment);
+    if (![...shipped.values()].some(quantity => quantity > 0)) {
+      throw new FulfilmentError('Ship at least one item, or reject the order');
+    }
+
+    const previousStatus = order.status;
+    const backorderLines = [];
+
+    const backorder = await withTransaction(async (session) => {
+      await OrderStateMachine.transition(order, 'approved', actor, {}, session);
+
+      for (const item of order.items) {
+        const quantity = shipped.get(item.productId.toString());
+        const short = item.quantity - quantity;
+        if (short <= 0) continue;
+
+        await InventoryService.writeOffShortfall(order, item, short, actor, session);
+        const line = Object.fromEntries(LINE_FIELDS.map(field => [field, item[field]]));
+        backorderLines.push(PricingService.repriceLine({ ...line, orderedQuantity: short }, short));
+
+        item.orderedQuantity = item.orderedQuantity || item.quantity;
+        item.backorderedQuantity = short;
+        PricingService.repriceLine(item, quantity);
+      }
+      Object.assign(order, PricingService.totals(order.items, order.deliveryCharge));
+      const backorderTotals = PricingService.totals(backorderLines, 0);
+
+      const created = new Order({
+        orderNumber: `${order.orderNumber}-B`,
+        backorderOf: order._id,
+        shopkeeperId: order.shopkeeperId,
+        shopkeeperSnapshot: order.shopkeeperSnapshot,
+        companyId: order.companyId,
+        companySnapshot: order.companySnapshot,
+        items: backorderLines,
+        // The delivery charge stays with the original order
+        ...backorderTotals,
+        deliveryAddress: order.deliveryAddress,
+        deliveryArea: order.deliveryArea,
+        deliveryCity: order.deliveryCity,
+        deliveryInstructions: order.deliveryInstructions,
+        notes: order.notes,
+        paymentMethod: order.paymentMethod,
+        paymentLabel: order.paymentLabel,
+        paymentStatus: await backorderPaymentStatus(order, backorderTotals.finalAmount, session),
+        status: 'backordered',
+        timeline: [{
+          status: 'backordered',
+          timestamp: new Date(),
+          note: `Backorder of ${order.orderNumber}; released when the company restocks`,
+          actor: toActor(actor)
+        }]
+      });
+      await created.save({ session });
+
+      order.backorderId = created._id;
+      order.timeline.push({
+        status: 'approved',
+        timestamp: new Date(),
+        note: `Short-shipped ${backorderLines.map(line => `${line.quantity} ${line.unit} ${line.productName}`).join(', ')}; backordered as ${created.orderNumber}`,
+        actor: toActor(actor)
+      });
+      await order.save({ session });
+      return created;
+    });
+
+    RealtimeService.publishOrder(order, actor);
+    RealtimeService.publishOrder(backorder, actor);
+    eventBus.emit(eventBus.EVENTS.ORDER_STATUS_CHANGED, { order, previousStatus, actor });
+    return { order, backorder };
+  }
+
+  /**
+   * Release, oldest first, every backorder of the product's company that the
+   * current stock now covers in full
+   */
+  static async releaseForProduct(product) {
+    const backorders = await Order.find({ status: 'backordered', 'items.productId': product._id }).sort({ createdAt: 1 });
+    if (!backorders.length) return [];
+
+    const company = await User.findById(product.companyId);
+    const released = [];
+
+    for (const backorder of backorders) {
+      const products = await Product.find({ _id: { $in: backorder.items.map(item => item.productId) } });
+      const covered = backorder.items.every(item => {
+        const current = products.find(p => p._id.equals(item.productId));
+        return current?.isActive && current.stockQuantity >= item.quantity;
+      });
+      if (!covered) continue;
+
+      try {
+        await DeliveryLifecycleService.changeOrderStatus(backorder, 'approved', company);
+        released.push(backorder);
+      } catch (error) {
+        // Another order took the stock first
+        if (error.code !== 'INSUFFICIENT_STOCK') throw error;
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Subscribe backorder release to restocks. Call once at startup.
+   */
+  static register(bus = eventBus) {
+    bus.on(eventBus.EVENTS.STOCK_RESTOCKED, ({ product }) => this.releaseForProduct(product));
+  }
+}
+
+BackorderService.FulfilmentError = FulfilmentError;
+
+module.exports = BackorderService;
@@ -0,0 +1,220 @@
+const mongoose = require('mongoose');
+const CashCollection = require('../models/CashCollection');
+const Order = require('../models/Order');
+const { withTransaction } = require('./transaction');
+
+class CollectionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CollectionError';
+    this.code = 'INVALID_COLLECTION';
+  }
+}
+
+const METHODS = ['cash', 'mobile_banking', 'bank_transfer'];
+
+const round = (amount) => Math.round(amount * 100) / 100;
+
+// Start and end of the calendar day containing `date` (server time)
+const dayRange = (date) => {
+  const start = date ? new Date(date) : new Date();
+  if (Number.isNaN(start.getTime())) throw new CollectionError('Invalid date');
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+const toObjectId = (id) => new mongoose.Types.ObjectId(String(id));
+
+class CollectionService {
+  /**
+   * Check the collection a worker reports when completing a delivery.
+   * Cash-on-delivery orders need the collected amount; anything short of the
+   * expected amount needs a reason. Returns the normalised collection, or null
+   * when nothing was due and nothing was reported.
+   */
+  static validate(delivery, collection) {
+    const expected = delivery.paymentMethod === 'cash_on_delivery' ? delivery.amountToCollect || 0 : 0;
+    if (!collection || collection.amount === undefined || collection.amount === '') {
+      if (expected > 0) throw new CollectionError('Enter the amount collected from the shopkeeper');
+      return null;
+    }
+
+    const amount = Number(collection.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new CollectionError('Collected amount must be a positive number');
+    }
+
+    const method = collection.method || 'cash';
+    if (!METHODS.includes(method)) throw new CollectionError(`Unknown payment method: ${method}`);
+
+    const shortfall = round(Math.max(expected - amount, 0));
+    // A reason that is not text (e.g. a number sent as JSON) counts as missing
+    const shortfallReason = typeof collection.shortfallReason === 'string' ? collection.shortfallReason.trim() : undefined;
+    if (shortfall > 0 && !shortfallReason) {
+      throw new CollectionError(`৳${shortfall} less than expected was collected; give a reason`);
+    }
+
+    return { expected, amount: round(amount), method, shortfall, shortfallReason };
+  }
+
+  /**
+   * Record what was collected on a delivery. Runs inside the completion
+   * transaction, so the record only exists if the delivery was completed.
+   */
+  static async recordCollection(delivery, order, collection, session) {
+    if (!collection) return null;
+
+    const [record] = await CashCollection.create([{
+      deliveryId: delivery._id,
+      deliveryNumber: delivery.deliveryNumber,
+      orderId: delivery.orderId,
+      orderNumber: order?.orderNumber,
+      deliveryWorkerId: delivery.deliveryWorkerId,
+      companyId: delivery.companyId,
+      shopkeeperId: delivery.shopkeeperId,
+      shopkeeperName: delivery.shopkeeperName,
+      expectedAmount: collection.expected,
+      collectedAmount: collection.amount,
+      shortfall: collection.shortfall,
+      shortfallReason: collection.shortfallReason,
+      method: collection.method
+    }], { session });
+
+    return record;
+  }
+
+  /**
+   * Totals of a worker's collections for one day, split into money still held
+   * by the worker and money already handed over
+   */
+  static async getDailySummary(deliveryWorkerId, { date, companyId } = {}) {
+    const { start, end } = dayRange(date);
+    const query = { deliveryWorkerId, collectedAt: { $gte: start, $lt: end } };
+    if (companyId) query.companyId = companyId;
+
+    const collections = await CashCollection.find(query).sort({ collectedAt: 1 });
+
+    const summary = {
+      date: start,
+      deliveries: collections.length,
+      expected: 0,
+      collected: 0,
+      shortfall: 0,
+      held: 0,
+      settled: 0,
+      byMethod: {}
+    };
+    for (const collection of collections) {
+      summary.expected += collection.expectedAmount;
+      summary.collected += collection.collectedAmount;
+      summary.shortfall += collection.shortfall;
+      summary[collection.status === 'settled' ? 'settled' : 'held'] += collection.collectedAmount;
+      summary.byMethod[collection.method] = (summary.byMethod[collection.method] || 0) + collection.collectedAmount;
+    }
+    ['expected', 'collected', 'shortfall', 'held', 'settled'].forEach(key => {
+      summary[key] = round(summary[key]);
+    });
+
+    return { summary, collections };
+  }
+
+  /**
+   * A company's collections grouped by delivery worker, for settlement
+   */
+  static async getCompanyCollections(companyId, { status = 'collected', deliveryWorkerId, date } = {}) {
+    const match = { companyId: toObjectId(companyId) };
+    if (status) match.status = status;
+    if (deliveryWorkerId) match.deliveryWorkerId = toObjectId(deliveryWorkerId);
+    if (date) {
+      const { start, end } = dayRange(date);
+      match.collectedAt = { $gte: start, $lt: end };
+    }
+
+    const collections = await CashCollection.find(match)
+      .populate('deliveryWorkerId', 'name phone')
+      .sort({ collectedAt: -1 });
+
+    const workers = new Map();
+    for (const collection of collections) {
+      const worker = collection.deliveryWorkerId;
+      const key = worker?._id?.toString() || 'unknown';
+      if (!workers.has(key)) {
+        workers.set(key, {
+          deliveryWorker: worker,
+          deliveries: 0,
+          expected: 0,
+          collected: 0,
+          shortfall: 0,
+          collections: []
+        });
+      }
+      const group = workers.get(key);
+      group.deliveries += 1;
+      group.expected = round(group.expected + collection.expectedAmount);
+      group.collected = round(group.collected + collection.collectedAmount);
+      group.shortfall = round(group.shortfall + collection.shortfall);
+      group.collections.push(collection);
+    }
+
+    return [...workers.values()];
+  }
+
+  /**
+   * Mark collections as handed over to the company. Orders collected in full
+   * become paid; orders with a shortfall become partly paid. `actor` scopes the
+   * collections to its company; `account` is the person settling (a staff
+   * member acting for the company, or the actor).
+   */
+  static async settle(collectionIds, actor, note, account = actor) {
+    if (!Array.isArray(collectionIds) || !collectionIds.length) {
+      throw new CollectionError('Select at least one collection to settle');
+    }
+
+    return withTransaction(async (session) => {
+      const query = { _id: { $in: collectionIds }, status: 'collected' };
+      if (actor.role !== 'admin') query.companyId = actor._id;
+
+      const collections = await CashCollection.find(query).session(session);
+      if (collections.length !== new Set(collectionIds.map(String)).size) {
+        throw new CollectionError('Some collections were not found or are already settled');
+      }
+
+      const settledAt = new Date();
+      await CashCollection.updateMany(
+        { _id: { $in: collections.map(c => c._id) } },
+        { $set: { status: 'settled', settledAt, settledBy: account._id, settlementNote: note || '' } },
+        { session }
+      );
+
+      const paidInFull = collections.filter(c => c.shortfall <= 0);
+      const shortPaid = collections.filter(c => c.shortfall > 0);
+      if (paidInFull.length) {
+        await Order.updateMany(
+          { _id: { $in: paidInFull.map(c => c.orderId) } },
+          { $set: { paymentStatus: 'completed' } },
+          { session }
+        );
+      }
+      if (shortPaid.length) {
+        await Order.updateMany(
+          { _id: { $in: shortPaid.map(c => c.orderId) } },
+          { $set: { paymentStatus: 'partial' } },
+          { session }
+        );
+      }
+
+      return {
+        settled: collections.length,
+        amount: round(collections.reduce((sum, c) => sum + c.collectedAmount, 0)),
+        settledAt
+      };
+    });
+  }
+}
+
+CollectionService.CollectionError = CollectionError;
+CollectionService.METHODS = METHODS;
+
+module.exports = CollectionService;
@@ -0,0 +1,186 @@
+const Delivery = require('../models/Delivery');
+const Order = require('../models/Order');
+const User = require('../models/User');
+const DeliveryLifecycleService = require('./deliveryLifecycleService');
+const RealtimeService = require('./realtimeService');
+const SlaService = require('./slaService');
+const eventBus = require('./eventBus');
+const { personOf, toActor, recordedBy } = require('./actors');
+
+class IssueActionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'IssueActionError';
+    this.code = 'INVALID_ISSUE_ACTION';
+  }
+}
+
+// How a company rep can close an issue ticket
+const RESOLUTION_ACTIONS = {
+  reschedule: 'rescheduled',
+  reassign: 'reassigned',
+  return: 'returned',
+  close: 'closed'
+};
+
+const findIssue = (delivery, issueId) => {
+  const issue = delivery.issues.id(issueId);
+  if (!issue) throw new IssueActionError('Issue not found on this delivery');
+  if (issue.status === 'resolved') throw new IssueActionError('This issue has already been resolved');
+  return issue;
+};
+
+const loadOrder = async (delivery) => {
+  const order = await Order.findById(delivery.orderId);
+  if (!order) throw new IssueActionError('The order of this delivery no longer exists');
+  return order;
+};
+
+const loadWorker = async (workerId) => {
+  const worker = workerId && await User.findById(workerId);
+  if (!worker || worker.role !== 'delivery_worker' || worker.status !== 'active') {
+    throw new IssueActionError('Selected delivery worker is not available');
+  }
+  return worker;
+};
+
+class DeliveryIssueService {
+  /**
+   * Record an issue reported by the delivery worker as an open ticket for the
+   * company. With `canComplete: false` the delivery fails and goes back to the
+   * company; with `canComplete: true` and a resolution the ticket is closed and
+   * the delivery stays open for the worker to complete with proof of delivery.
+   */
+  static async report(delivery, actor, { issueType, description, canComplete, resolution }) {
+    const issue = {
+      type: issueType,
+      description,
+      reportedBy: toActor(actor),
+      assignedTo: delivery.companyId
+    };
+
+    if (canComplete === false) {
+      await DeliveryLifecycleService.changeDeliveryStatus(delivery, 'failed', actor, { reason: description, issues: [issue] });
+    } else {
+      if (canComplete === true && resolution) {
+        // Solved on the spot, so the ticket is closed straight away
+        Object.assign(issue, {
+          status: 'resolved',
+          resolution,
+          outcome: 'closed',
+          resolvedAt: new Date(),
+          resolvedBy: recordedBy(actor)
+        });
+      }
+      await delivery.addIssue(issueType, description, undefined, issue);
+      RealtimeService.publishDelivery(delivery, actor);
+    }
+
+    // Shopkeeper and company are notified of the issue regardless
+    eventBus.emit(eventBus.EVENTS.DELIVERY_ISSUE_REPORTED, { delivery, issueType, description, actor });
+    return delivery;
+  }
+
+  /**
+   * Let the worker and shopkeeper see that the company is looking into an issue
+   */
+  static async acknowledge(delivery, issueId, actor) {
+    const issue = findIssue(delivery, issueId);
+    if (issue.status === 'open') {
+      issue.status = 'acknowledged';
+      issue.acknowledgedAt = new Date();
+      issue.assignedTo = personOf(actor)._id;
+      await delivery.save();
+      RealtimeService.publishDelivery(delivery, actor);
+    }
+    return delivery;
+  }
+
+  /**
+   * Resolve an issue with one of the RESOLUTION_ACTIONS:
+   *   reschedule  send the same worker again on `scheduledFor`
+   *   reassign    give the delivery to `deliveryWorkerId`
+   *   return      take the goods back and cancel the order
+   *   close       nothing to do beyond the resolution notes
+   */
+  static async resolve(delivery, issueId, actor, { action, resolution, deliveryWorkerId, scheduledFor }) {
+    const outcome = RESOLUTION_ACTIONS[action];
+    if (!outcome) throw new IssueActionError(`Unknown resolution action: ${action}`);
+    findIssue(delivery, issueId);
+    if (delivery.status === 'delivered' && action !== 'close') {
+      throw new IssueActionError('The delivery was completed; the issue can only be closed');
+    }
+    if (delivery.kind === 'return_pickup' && action !== 'close') {
+      throw new IssueActionError('Return pickups are rescheduled from the return request; the issue can only be closed');
+    }
+
+    const retryable = DeliveryLifecycleService.canReassign(delivery);
+
+    switch (action) {
+      case 'reschedule': {
+        const date = new Date(scheduledFor);
+        if (!scheduledFor || Number.isNaN(date.getTime()) || date < new Date()) {
+          throw new IssueActionError('A future delivery date is required to reschedule');
+        }
+        if (retryable) {
+          const worker = await loadWorker(delivery.deliveryWorkerId);
+          await DeliveryLifecycleService.assign(delivery, await loadOrder(delivery), worker, actor, { dueAt: date });
+        } else {
+          await SlaService.setDeadline(delivery, date);
+        }
+        break;
+      }
+      case 'reassign': {
+        if (!retryable && delivery.status !== 'assigned') {
+          throw new IssueActionError('A delivery that is already on its way cannot be reassigned');
+        }
+        const worker = await loadWorker(deliveryWorkerId);
+        await DeliveryLifecycleService.assign(delivery, await loadOrder(delivery), worker, actor);
+        break;
+      }
+      case 'return':
+        await DeliveryLifecycleService.markReturned(delivery, await loadOrder(delivery), actor, resolution);
+        break;
+      default:
+        break;
+    }
+
+    const issue = delivery.issues.id(issueId);
+    Object.assign(issue, {
+      status: 'resolved',
+      resolution,
+      outcome,
+      resolvedAt: new Date(),
+      resolvedBy: recordedBy(actor)
+    });
+    await delivery.save();
+
+    RealtimeService.publishDelivery(delivery, actor);
+    eventBus.emit(eventBus.EVENTS.DELIVERY_ISSUE_RESOLVED, { delivery, issue, actor });
+    return delivery;
+  }
+
+  /**
+   * Deliveries with issue tickets for a company (all companies for admins),
+   * unresolved ones first
+   */
+  static async getIssues({ companyId, status } = {}) {
+    const query = { 'issues.0': { $exists: true } };
+    if (companyId) query.companyId = companyId;
+    if (status === 'unresolved') query['issues.status'] = { $in: ['open', 'acknowledged'] };
+    else if (status) query['issues.status'] = status;
+
+    const deliveries = await Delivery.find(query)
+      .populate('deliveryWorkerId', 'name phone')
+      .populate('orderId', 'orderNumber status finalAmount')
+      .sort({ updatedAt: -1 });
+
+    const unresolved = (delivery) => delivery.issues.some(issue => issue.status !== 'resolved');
+    return deliveries.sort((a, b) => unresolved(b) - unresolved(a));
+  }
+}
+
+DeliveryIssueService.RESOLUTION_ACTIONS = RESOLUTION_ACTIONS;
+DeliveryIssueService.IssueActionError = IssueActionError;
+
+module.exports = DeliveryIssueService;
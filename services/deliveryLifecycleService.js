@@ -0,0 +1,288 @@
+const Delivery = require('../models/Delivery');
+const Order = require('../models/Order');
+const User = require('../models/User');
+const CollectionService = require('./collectionService');
+const OrderStateMachine = require('./orderStateMachine');
+const RealtimeService = require('./realtimeService');
+const SlaService = require('./slaService');
+const eventBus = require('./eventBus');
+const { withTransaction } = require('./transaction');
+
+class DeliveryTransitionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'DeliveryTransitionError';
+    this.code = 'INVALID_DELIVERY_TRANSITION';
+  }
+}
+
+// Delivery status changes made by the delivery worker
+const DELIVERY_TRANSITIONS = {
+  assigned: ['picked_up', 'failed'],
+  picked_up: ['in_transit', 'delivered', 'failed', 'returned'],
+  in_transit: ['delivered', 'failed', 'returned'],
+  delivered: [],
+  failed: [],
+  returned: []
+};
+
+// Order status that follows from each delivery status.
+// A failed or returned delivery sends the order back to `approved` so it can be reassigned.
+const ORDER_STATUS_FOR_DELIVERY = {
+  assigned: 'assigned',
+  picked_up: 'picked_up',
+  in_transit: 'shipped',
+  delivered: 'delivered',
+  failed: 'approved',
+  returned: 'approved'
+};
+
+// Order statuses along a successful delivery, used to skip syncs that would move an order backwards
+const ORDER_PROGRESS = ['approved', 'processing', 'assigned', 'accepted', 'picked_up', 'shipped', 'delivered'];
+
+const isBehind = (status, target) =>
+  ORDER_PROGRESS.indexOf(status) !== -1 && ORDER_PROGRESS.indexOf(status) < ORDER_PROGRESS.indexOf(target);
+
+/**
+ * Delivery status that follows from an order status change, or null when the
+ * delivery is unaffected
+ */
+const deliveryStatusForOrder = (orderStatus, delivery) => {
+  const goodsPickedUp = ['picked_up', 'in_transit'].includes(delivery.status);
+  switch (orderStatus) {
+    case 'picked_up': return 'picked_up';
+    case 'shipped': return 'in_transit';
+    case 'delivered': return 'delivered';
+    case 'approved': return 'failed';
+    case 'cancelled': return goodsPickedUp ? 'returned' : 'failed';
+    default: return null;
+  }
+};
+
+const isOpen = (delivery) => !['delivered', 'failed', 'returned'].includes(delivery.status);
+
+// Tell listeners and connected users about committed changes
+const announceOrder = (order, previousStatus, actor, extraRecipients) => {
+  RealtimeService.publishOrder(order, actor, extraRecipients);
+  if (order.status !== previousStatus) {
+    eventBus.emit(eventBus.EVENTS.ORDER_STATUS_CHANGED, { order, previousStatus, actor });
+  }
+};
+
+const announceDelivery = (delivery, previousStatus, actor, extraRecipients) => {
+  RealtimeService.publishDelivery(delivery, actor, extraRecipients);
+  if (delivery.status !== previousStatus) {
+    eventBus.emit(eventBus.EVENTS.DELIVERY_STATUS_CHANGED, { delivery, previousStatus, actor });
+  }
+};
+
+class DeliveryLifecycleService {
+  /**
+   * Whether a new worker can be put on the order's existing delivery
+   */
+  static canReassign(delivery) {
+    return ['failed', 'returned'].includes(delivery.status);
+  }
+
+  /**
+   * A new, unsaved delivery of an order for a worker, with the pickup and
+   * drop-off details taken from the company and shopkeeper. Saved by assign().
+   */
+  static async buildDelivery(order, worker) {
+    const deliveryCount = await Delivery.countDocuments();
+    const company = await User.findById(order.companyId);
+    const shopkeeper = await User.findById(order.shopkeeperId);
+    const paymentMethod = order.paymentMethod || 'cash_on_delivery';
+
+    return new Delivery({
+      deliveryNumber: `DEL-${(deliveryCount + 1).toString().padStart(4, '0')}`,
+      orderId: order._id,
+      deliveryWorkerId: worker._id,
+      shopkeeperId: order.shopkeeperId,
+      companyId: order.companyId,
+      items: order.items || [],
+      pickupLocation: company ? `${company.address || 'N/A'}, ${company.area || 'N/A'}, ${company.city || 'N/A'}` : 'Company Warehouse',
+      deliveryLocation: shopkeeper ? `${shopkeeper.address || 'N/A'}, ${shopkeeper.area || 'N/A'}, ${shopkeeper.city || 'N/A'}` : order.deliveryAddress || 'Delivery Address',
+      deliveryArea: shopkeeper ? shopkeeper.area : order.deliveryArea || 'Unknown Area',
+      shopkeeperPhone: shopkeeper ? shopkeeper.phone : order.shopkeeperPhone || 'N/A',
+      shopkeeperName: shopkeeper ? shopkeeper.name : order.shopkeeperName || 'Unknown',
+      deliveryInstructions: order.deliveryInstructions || '',
+      paymentMethod,
+      // Only cash-on-delivery orders are paid to the delivery worker
+      amountToCollect: paymentMethod === 'cash_on_delivery' ? order.finalAmount || 0 : 0,
+      status: 'assigned',
+      assignedAt: new Date()
+    });
+  }
+
+  /**
+   * Assign a delivery (new, or a failed/returned one being retried) to a worker
+   * and move the order to `assigned` in the same transaction. The SLA deadline
+   * starts from now unless `dueAt` gives the rescheduled date.
+   */
+  static async assign(delivery, order, worker, actor, { dueAt } = {}) {
+    if (!delivery.isNew && !['assigned', 'failed', 'returned'].includes(delivery.status)) {
+      throw new DeliveryTransitionError('A delivery that is already on its way cannot be reassigned');
+    }
+
+    const previousWorkerId = delivery.isNew ? null : delivery.deliveryWorkerId;
+    const previousOrderStatus = order.status;
+    await SlaService.setDeadline(delivery, dueAt);
+
+    const result = await withTransaction(async (session) => {
+      if (this.canReassign(delivery)) {
+        delivery.reattemptCount = (delivery.reattemptCount || 0) + 1;
+        delivery.status = 'assigned';
+        delivery.pickedUpAt = undefined;
+        delivery.inTransitAt = undefined;
+        delivery.failureReason = undefined;
+      }
+      if (!delivery.isNew) delivery.assignedAt = new Date();
+      delivery.deliveryWorkerId = worker._id;
+      await delivery.save({ session });
+
+      await OrderStateMachine.transition(order, 'assigned', actor, {
+        deliveryWorkerId: worker._id,
+        deliveryWorkerName: worker.name
+      }, session);
+      await order.save({ session });
+
+      return { delivery, order };
+    });
+
+    announceOrder(order, previousOrderStatus, actor);
+    RealtimeService.publishDelivery(delivery, actor, [previousWorkerId]);
+    eventBus.emit(eventBus.EVENTS.DELIVERY_ASSIGNED, { delivery, order, actor });
+    return result;
+  }
+
+  /**
+   * Put a worker on an order: its delivery is created, retried or handed over
+   * to the new worker through assign()
+   */
+  static async assignOrder(order, worker, actor) {
+    const existing = await Delivery.findOne({ orderId: order._id, ...Delivery.ORDER_DELIVERY });
+    const delivery = existing || await this.buildDelivery(order, worker);
+    return this.assign(delivery, order, worker, actor);
+  }
+
+  /**
+   * Change the order status through the state machine and carry the change
+   * over to the order's open delivery, if it has one. Assigning a worker goes
+   * through assignOrder() instead.
+   */
+  static async changeOrderStatus(order, status, actor, payload = {}) {
+    if (status === 'assigned') {
+      throw new DeliveryTransitionError('Assign a delivery worker through assignOrder so the order gets its delivery');
+    }
+
+    const previousWorkerId = order.deliveryWorkerId;
+    const previousStatus = order.status;
+    let previousDeliveryStatus = null;
+
+    const result = await withTransaction(async (session) => {
+      await OrderStateMachine.transition(order, status, actor, payload, session);
+      await order.save({ session });
+
+      const delivery = await Delivery.findOne({ orderId: order._id, ...Delivery.ORDER_DELIVERY }).session(session);
+      if (delivery && isOpen(delivery)) {
+        previousDeliveryStatus = delivery.status;
+        const deliveryStatus = deliveryStatusForOrder(order.status, delivery);
+        if (deliveryStatus && deliveryStatus !== delivery.status) {
+          if (['failed', 'returned'].includes(deliveryStatus)) delivery.failureReason = payload.reason;
+          await delivery.updateStatus(deliveryStatus, session);
+        }
+      }
+
+      return { order, delivery };
+    });
+
+    announceOrder(order, previousStatus, actor, [previousWorkerId]);
+    if (previousDeliveryStatus) announceDelivery(result.delivery, previousDeliveryStatus, actor, [previousWorkerId]);
+    return result;
+  }
+
+  /**
+   * Take a failed delivery back to the company for good: the delivery becomes
+   * `returned` and the order is cancelled, releasing its reserved stock.
+   */
+  static async markReturned(delivery, order, actor, reason) {
+    if (!['failed', 'returned'].includes(delivery.status)) {
+      throw new DeliveryTransitionError('Only a failed delivery can be marked as returned');
+    }
+
+    const previousStatus = delivery.status;
+    const previousOrderStatus = order.status;
+    const result = await withTransaction(async (session) => {
+      if (order.status !== 'cancelled') {
+        await OrderStateMachine.transition(order, 'cancelled', actor, { reason }, session);
+        await order.save({ session });
+      }
+      delivery.failureReason = reason || delivery.failureReason;
+      await delivery.updateStatus('returned', session);
+      return { delivery, order };
+    });
+
+    announceOrder(order, previousOrderStatus, actor, [delivery.deliveryWorkerId]);
+    announceDelivery(delivery, previousStatus, actor);
+    return result;
+  }
+
+  /**
+   * Change the delivery status and move its order to the matching status in
+   * the same transaction. `proof` completes the delivery with proof of delivery;
+   * `reason` is recorded on failed and returned deliveries.
+   */
+  static async changeDeliveryStatus(delivery, status, actor, { reason, proof, issues = [], collection } = {}) {
+    if (!DELIVERY_TRANSITIONS[delivery.status]?.includes(status)) {
+      throw new DeliveryTransitionError(`Cannot change status from ${delivery.status} to ${status}`);
+    }
+    const collected = status === 'delivered' ? CollectionService.validate(delivery, collection) : null;
+
+    const previousStatus = delivery.status;
+    let previousOrderStatus = null;
+    const result = await withTransaction(async (session) => {
+      for (const issue of issues) {
+        delivery.issues.push(issue);
+      }
+      if (['failed', 'returned'].includes(status)) delivery.failureReason = reason;
+
+      if (status === 'delivered' && proof) {
+        await delivery.completeDelivery(proof, session);
+      } else {
+        await delivery.updateStatus(status, session);
+      }
+      // Return pickups leave the (delivered) order alone and move their return along.
+      // Required here because services/returnService.js requires this module.
+      if (delivery.kind === 'return_pickup') {
+        await require('./returnService').followPickup(delivery, actor, session);
+        return { delivery, order: null };
+      }
+
+      const order = await Order.findById(delivery.orderId).session(session);
+      await CollectionService.recordCollection(delivery, order, collected, session);
+      if (!order) return { delivery, order: null };
+      previousOrderStatus = order.status;
+
+      // Orders already at or past the matching status are left alone
+      const target = ORDER_STATUS_FOR_DELIVERY[status];
+      const needsUpdate = target === 'approved' ? order.status !== target : isBehind(order.status, target);
+      if (needsUpdate) {
+        const orderReason = target === 'approved' ? (reason || `Delivery ${status}`) : undefined;
+        await OrderStateMachine.transition(order, target, actor, { reason: orderReason }, session);
+        await order.save({ session });
+      }
+
+      return { delivery, order };
+    });
+
+    announceDelivery(delivery, previousStatus, actor);
+    if (result.order) announceOrder(result.order, previousOrderStatus, actor, [delivery.deliveryWorkerId]);
+    return result;
+  }
+}
+
+DeliveryLifecycleService.DELIVERY_TRANSITIONS = DELIVERY_TRANSITIONS;
+DeliveryLifecycleService.DeliveryTransitionError = DeliveryTransitionError;
+
+module.exports = DeliveryLifecycleService;
@@ -0,0 +1,100 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const sharp = require('sharp');
+const uploadConfig = require('../config/uploads');
+
+class ProofUploadError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ProofUploadError';
+    this.code = 'INVALID_PROOF';
+  }
+}
+
+const { proof: proofConfig } = uploadConfig;
+const proofDir = path.join(uploadConfig.dir, proofConfig.subdir);
+
+// Public path of a stored file, as served under /uploads
+const publicPath = (fileName) => `/uploads/${proofConfig.subdir}/${fileName}`;
+
+// Read an uploaded image, rejecting anything sharp cannot decode
+const readImage = async (buffer, label) => {
+  try {
+    const image = sharp(buffer).rotate();
+    await image.metadata();
+    return image;
+  } catch (error) {
+    throw new ProofUploadError(`The ${label} is not a valid image`);
+  }
+};
+
+class DeliveryProofService {
+  /**
+   * Store the uploaded proof-of-delivery files of a delivery and return their
+   * public paths. The photo is scaled down and saved as JPEG with a thumbnail;
+   * the drawn signature is saved as PNG. Names are random so the files cannot
+   * be guessed from the delivery number.
+   */
+  static async save(delivery, { photo, signature } = {}) {
+    if (photo && !proofConfig.photoTypes.includes(photo.mimetype)) {
+      throw new ProofUploadError('The photo must be a JPEG, PNG or WebP image');
+    }
+    if (signature && (signature.mimetype !== 'image/png' || signature.size > proofConfig.maxSignatureSize)) {
+      throw new ProofUploadError('The signature must be a PNG image of at most 512 KB');
+    }
+
+    const photoImage = photo && await readImage(photo.buffer, 'photo');
+    const signatureImage = signature && await readImage(signature.buffer, 'signature');
+
+    await fs.mkdir(proofDir, { recursive: true });
+    const baseName = `${delivery.deliveryNumber}_${crypto.randomBytes(8).toString('hex')}`;
+    const stored = {};
+
+    try {
+      if (photoImage) {
+        const { photoMaxDimension, thumbnailSize } = proofConfig;
+        await photoImage.clone()
+          .resize(photoMaxDimension, photoMaxDimension, { fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 80 })
+          .toFile(path.join(proofDir, `${baseName}.jpg`));
+        stored.photo = publicPath(`${baseName}.jpg`);
+
+        await photoImage.clone()
+          .resize(thumbnailSize, thumbnailSize, { fit: 'cover' })
+          .jpeg({ quality: 70 })
+          .toFile(path.join(proofDir, `${baseName}_thumb.jpg`));
+        stored.photoThumbnail = publicPath(`${baseName}_thumb.jpg`);
+      }
+
+      if (signatureImage) {
+        await signatureImage
+          .resize({ width: proofConfig.signatureMaxWidth, withoutEnlargement: true })
+          .png()
+          .toFile(path.join(proofDir, `${baseName}_signature.png`));
+        stored.signature = publicPath(`${baseName}_signature.png`);
+      }
+    } catch (error) {
+      await this.discard(stored);
+      throw error;
+    }
+
+    return stored;
+  }
+
+  /**
+   * Delete stored proof files, e.g. when completing the delivery failed
+   */
+  static async discard(proof = {}) {
+    const files = [proof.photo, proof.photoThumbnail, proof.signature]
+      .filter(file => file && file.startsWith(publicPath('')));
+
+    await Promise.all(files.map(file =>
+      fs.unlink(path.join(proofDir, path.basename(file))).catch(() => {})
+    ));
+  }
+}
+
+DeliveryProofService.ProofUploadError = ProofUploadError;
+
+module.exports = DeliveryProofService;
@@ -0,0 +1,67 @@
+// In-process domain event bus.
+// Code that changes state emits an event; listeners registered with `on`
+// react to it (notifications, e-mail, ...). Listener failures are logged and
+// never reach the emitter, so emitting does not need a try/catch.
+
+class EventBus {
+  constructor() {
+    this.listeners = new Map();
+  }
+
+  /**
+   * Register a listener for an event. Returns a function that removes it.
+   */
+  on(event, listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event).add(listener);
+    return () => this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Run every listener of the event with the payload.
+   * Resolves once all listeners have settled.
+   */
+  async emit(event, payload) {
+    const listeners = Array.from(this.listeners.get(event) || []);
+    const results = await Promise.allSettled(listeners.map(listener => Promise.resolve().then(() => listener(payload))));
+
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error(`Event listener for "${event}" failed:`, result.reason);
+      }
+    });
+  }
+}
+
+// Event names used across the app
+EventBus.EVENTS = {
+  ORDER_CREATED: 'order.created',
+  ORDER_STATUS_CHANGED: 'order.status_changed',
+  RECURRING_ORDER_PLACED: 'recurring_order.placed',
+  RECURRING_ORDER_FAILED: 'recurring_order.failed',
+  DELIVERY_ASSIGNED: 'delivery.assigned',
+  DELIVERY_STATUS_CHANGED: 'delivery.status_changed',
+  DELIVERY_ISSUE_REPORTED: 'delivery.issue_reported',
+  DELIVERY_ISSUE_RESOLVED: 'delivery.issue_resolved',
+  DELIVERY_SLA_AT_RISK: 'delivery.sla_at_risk',
+  DELIVERY_SLA_BREACHED: 'delivery.sla_breached',
+  RETURN_REQUESTED: 'return.requested',
+  RETURN_APPROVED: 'return.approved',
+  RETURN_REJECTED: 'return.rejected',
+  RETURN_PICKUP_FAILED: 'return.pickup_failed',
+  RETURN_COMPLETED: 'return.completed',
+  STOCK_LOW: 'stock.low',
+  STOCK_RESTOCKED: 'stock.restocked',
+  USER_REGISTERED: 'user.registered',
+  USER_APPROVED: 'user.approved',
+  USER_REJECTED: 'user.rejected',
+  USER_DOCUMENTS_SUBMITTED: 'user.documents_submitted',
+  PAYMENT_RECEIVED: 'payment.received',
+  PAYMENT_FAILED: 'payment.failed'
+};
+
+const eventBus = new EventBus();
+
+module.exports = eventBus;
+module.exports.EventBus = EventBus;
+module.exports.EVENTS = EventBus.EVENTS;
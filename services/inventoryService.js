@@ -0,0 +1,284 @@
+const Product = require('../models/Product');
+const StockMovement = require('../models/StockMovement');
+const eventBus = require('./eventBus');
+const { afterCommit } = require('./transaction');
+const { toActor } = require('./actors');
+
+// Available stock below this counts as low (matches Product's lowStock virtual)
+const LOW_STOCK_THRESHOLD = 10;
+
+class InsufficientStockError extends Error {
+  constructor(productName, requested) {
+    super(`Insufficient stock for ${productName}. Requested: ${requested}`);
+    this.name = 'InsufficientStockError';
+    this.code = 'INSUFFICIENT_STOCK';
+  }
+}
+
+class StockChangedError extends Error {
+  constructor(productName) {
+    super(`Stock of ${productName} changed in the meantime. Reload and try again.`);
+    this.name = 'StockChangedError';
+    this.code = 'STOCK_CHANGED';
+  }
+}
+
+class InventoryService {
+  /**
+   * Emit a low-stock event when available stock drops below the threshold
+   */
+  static notifyIfLow(product, previousQuantity, session) {
+    if (previousQuantity >= LOW_STOCK_THRESHOLD && product.stockQuantity < LOW_STOCK_THRESHOLD) {
+      afterCommit(session, () => eventBus.emit(eventBus.EVENTS.STOCK_LOW, { product, threshold: LOW_STOCK_THRESHOLD }));
+    }
+  }
+
+  /**
+   * Write a ledger entry for a stock movement
+   */
+  static async recordMovement({ product, order, type, quantity, stockDelta, reservedDelta, actor, note }, session) {
+    const [movement] = await StockMovement.create([{
+      productId: product._id,
+      companyId: product.companyId,
+      orderId: order?._id,
+      orderNumber: order?.orderNumber,
+      type,
+      quantity,
+      stockDelta,
+      reservedDelta,
+      stockAfter: product.stockQuantity,
+      reservedAfter: product.reservedQuantity,
+      actor: toActor(actor),
+      note: note || ''
+    }], { session });
+    return movement;
+  }
+
+  /**
+   * Move ordered quantities from available to reserved stock.
+   * Each product is decremented with a guarded update so two concurrent
+   * orders can never both take the last units.
+   */
+  static async reserveForOrder(order, actor, session) {
+    if (order.stockStatus === 'reserved') return order;
+
+    for (const item of order.items) {
+      if (!item.quantity) continue;
+      const product = await Product.findOneAndUpdate(
+        { _id: item.productId, isActive: true, stockQuantity: { $gte: item.quantity } },
+        { $inc: { stockQuantity: -item.quantity, reservedQuantity: item.quantity } },
+        { new: true, session }
+      );
+
+      if (!product) {
+        throw new InsufficientStockError(item.productName, item.quantity);
+      }
+
+      await this.recordMovement({
+        product,
+        order,
+        type: 'reservation',
+        quantity: item.quantity,
+        stockDelta: -item.quantity,
+        reservedDelta: item.quantity,
+        actor,
+        note: 'Stock reserved for order'
+      }, session);
+
+      this.notifyIfLow(product, product.stockQuantity + item.quantity, session);
+    }
+
+    order.stockStatus = 'reserved';
+    return order;
+  }
+
+  /**
+   * Consume reserved stock once the order has been delivered
+   */
+  static async commitForOrder(order, actor, session) {
+    if (order.stockStatus !== 'reserved') return order;
+
+    for (const item of order.items) {
+      if (!item.quantity) continue;
+      const product = await Product.findByIdAndUpdate(
+        item.productId,
+        { $inc: { reservedQuantity: -item.quantity } },
+        { new: true, session }
+      );
+      if (!product) continue;
+
+      await this.recordMovement({
+        product,
+        order,
+        type: 'commit',
+        quantity: item.quantity,
+        stockDelta: 0,
+        reservedDelta: -item.quantity,
+        actor,
+        note: 'Reserved stock delivered'
+      }, session);
+    }
+
+    order.stockStatus = 'committed';
+    return order;
+  }
+
+  /**
+   * Return reserved stock to availability (cancelled, rejected or failed orders)
+   */
+  static async releaseForOrder(order, actor, reason, session) {
+    if (order.stockStatus !== 'reserved') return order;
+
+    for (const item of order.items) {
+      if (!item.quantity) continue;
+      const product = await Product.findByIdAndUpdate(
+        item.productId,
+        { $inc: { stockQuantity: item.quantity, reservedQuantity: -item.quantity } },
+        { new: true, session }
+      );
+      if (!product) continue;
+
+      await this.recordMovement({
+        product,
+        order,
+        type: 'release',
+        quantity: item.quantity,
+        stockDelta: item.quantity,
+        reservedDelta: -item.quantity,
+        actor,
+        note: reason || 'Reserved stock released'
+      }, session);
+    }
+
+    order.stockStatus = 'released';
+    return order;
+  }
+
+  /**
+   * Drop reserved units the company cannot ship from a line of a reserved
+   * order. They are not returned to available stock: the company does not
+   * have them.
+   */
+  static async writeOffShortfall(order, item, quantity, actor, session) {
+    if (order.stockStatus !== 'reserved' || !quantity) return null;
+
+    const product = await Product.findByIdAndUpdate(
+      item.productId,
+      { $inc: { reservedQuantity: -quantity } },
+      { new: true, session }
+    );
+    if (!product) return null;
+
+    return this.recordMovement({
+      product,
+      order,
+      type: 'shortfall',
+      quantity,
+      stockDelta: 0,
+      reservedDelta: -quantity,
+      actor,
+      note: 'Short-shipped; moved to a backorder'
+    }, session);
+  }
+
+  /**
+   * Put goods brought back by a return pickup into available stock
+   */
+  static async restockReturn(returnRequest, actor, session) {
+    const order = { _id: returnRequest.orderId, orderNumber: returnRequest.orderNumber };
+
+    for (const item of returnRequest.items) {
+      const product = await Product.findByIdAndUpdate(
+        item.productId,
+        { $inc: { stockQuantity: item.quantity } },
+        { new: true, session }
+      );
+      if (!product) continue;
+
+      await this.recordMovement({
+        product,
+        order,
+        type: 'return',
+        quantity: item.quantity,
+        stockDelta: item.quantity,
+        reservedDelta: 0,
+        actor,
+        note: `Returned by the shop (${returnRequest.returnNumber})`
+      }, session);
+      afterCommit(session, () => eventBus.emit(eventBus.EVENTS.STOCK_RESTOCKED, { product, actor }));
+    }
+  }
+
+  /**
+   * Change available stock by hand: `add` and `subtract` apply `quantity`
+   * atomically (subtract only while that much is available), `set` applies
+   * only while stock is still at the value the company was shown, so a
+   * reservation made in between is never overwritten. The ledger entry is
+   * written from the updated document.
+   */
+  static async adjustStock(product, operation, quantity, actor, note, session) {
+    const shownQuantity = product.stockQuantity;
+    let filter = { _id: product._id };
+    let update;
+    if (operation === 'add') {
+      update = { $inc: { stockQuantity: quantity } };
+    } else if (operation === 'subtract') {
+      filter = { ...filter, stockQuantity: { $gte: quantity } };
+      update = { $inc: { stockQuantity: -quantity } };
+    } else {
+      filter = { ...filter, stockQuantity: shownQuantity };
+      update = { $set: { stockQuantity: quantity } };
+    }
+
+    const updated = await Product.findOneAndUpdate(filter, update, { new: true, session });
+    if (!updated) {
+      if (operation === 'subtract') throw new InsufficientStockError(product.name, quantity);
+      throw new StockChangedError(product.name);
+    }
+
+    const delta = update.$inc ? update.$inc.stockQuantity : quantity - shownQuantity;
+    await this.recordAdjustment(updated, updated.stockQuantity - delta, actor, note, session);
+    return updated;
+  }
+
+  /**
+   * Record a manual change of available stock made by the company
+   */
+  static async recordAdjustment(product, previousQuantity, actor, note, session) {
+    const delta = product.stockQuantity - previousQuantity;
+    if (delta === 0) return null;
+
+    this.notifyIfLow(product, previousQuantity, session);
+    if (delta > 0) {
+      afterCommit(session, () => eventBus.emit(eventBus.EVENTS.STOCK_RESTOCKED, { product, actor }));
+    }
+
+    return this.recordMovement({
+      product,
+      type: 'adjustment',
+      quantity: Math.abs(delta),
+      stockDelta: delta,
+      reservedDelta: 0,
+      actor,
+      note: note || 'Manual stock adjustment'
+    }, session);
+  }
+
+  /**
+   * Get the ledger for a product, newest first
+   */
+  static async getMovements(productId, { page = 1, limit = 20 } = {}) {
+    const skip = (page - 1) * limit;
+    const [movements, total] = await Promise.all([
+      StockMovement.find({ productId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      StockMovement.countDocuments({ productId })
+    ]);
+    return { movements, total };
+  }
+}
+
+InventoryService.LOW_STOCK_THRESHOLD = LOW_STOCK_THRESHOLD;
+InventoryService.InsufficientStockError = InsufficientStockError;
+InventoryService.StockChangedError = StockChangedError;
+
+module.exports = InventoryService;
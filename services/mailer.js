@@ -0,0 +1,25 @@
+const { createTransport } = require('./notificationTransports');
+
+// Sends account e-mails (password resets, ...) that are not notifications,
+// through the e-mail transport configured in config/notifications.js.
+// EMAIL_TRANSPORT=file writes them to the outbox instead of sending them.
+let transport = null;
+
+class Mailer {
+  /**
+   * Send `{ to, subject, text }`
+   */
+  static async send(message) {
+    transport = transport || createTransport('email');
+    return transport.send(message);
+  }
+
+  /**
+   * Replace the transport, e.g. with one that records messages in tests
+   */
+  static setTransport(next) {
+    transport = next;
+  }
+}
+
+module.exports = Mailer;
@@ -0,0 +1,111 @@
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const RealtimeService = require('./realtimeService');
+const notificationConfig = require('../config/notifications');
+const { createTransport } = require('./notificationTransports');
+const { toInternationalPhone } = require('./phoneNumbers');
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+const typeAllowed = (types, notification) => !types || types.includes(notification.type);
+
+/**
+ * A channel decides whether a notification should reach a user through it and
+ * sends it. `flag` is the Notification field set once it has been sent.
+ */
+const inAppChannel = {
+  name: 'inApp',
+  flag: 'pushSent',
+  isEnabledFor: () => true,
+  async send(notification) {
+    RealtimeService.publishNotification(notification);
+  }
+};
+
+const emailChannel = {
+  name: 'email',
+  flag: 'emailSent',
+  transport: null,
+  isEnabledFor(user, notification) {
+    return !!user.email
+      && user.notificationPreferences?.email !== false
+      && typeAllowed(notificationConfig.email.types, notification);
+  },
+  async send(notification, user) {
+    this.transport = this.transport || createTransport('email');
+    await this.transport.send({
+      to: user.email,
+      subject: notification.title,
+      text: `Hello ${user.name},\n\n${notification.message}\n\nOpen GroceryTrackBD: ${FRONTEND_URL}/notifications`
+    });
+  }
+};
+
+const smsChannel = {
+  name: 'sms',
+  flag: 'smsSent',
+  transport: null,
+  isEnabledFor(user, notification) {
+    return !!user.phone
+      && !!user.notificationPreferences?.sms
+      && typeAllowed(notificationConfig.sms.types, notification);
+  },
+  async send(notification, user) {
+    this.transport = this.transport || createTransport('sms');
+    await this.transport.send({
+      to: toInternationalPhone(user.phone),
+      text: `GroceryTrackBD: ${notification.message}`
+    });
+  }
+};
+
+const channels = [inAppChannel, emailChannel, smsChannel];
+
+class NotificationDispatcher {
+  /**
+   * Add a delivery channel (e.g. push to a mobile app). A channel is an object
+   * with `name`, `flag`, `isEnabledFor(user, notification)` and `send(notification, user)`.
+   */
+  static registerChannel(channel) {
+    const index = channels.findIndex(c => c.name === channel.name);
+    if (index === -1) channels.push(channel);
+    else channels[index] = channel;
+  }
+
+  static getChannels() {
+    return channels.map(channel => channel.name);
+  }
+
+  /**
+   * Send a saved notification through every channel its recipient has enabled.
+   * A failing channel is logged and does not stop the others.
+   */
+  static async dispatch(notification) {
+    const user = await User.findById(notification.recipientId).select('name email phone role notificationPreferences');
+    if (!user) return [];
+
+    const sentFlags = {};
+    const results = [];
+
+    for (const channel of channels) {
+      if (!channel.isEnabledFor(user, notification)) continue;
+      try {
+        await channel.send(notification, user);
+        if (channel.flag) sentFlags[channel.flag] = true;
+        results.push({ channel: channel.name, sent: true });
+      } catch (error) {
+        console.error(`Notification ${channel.name} delivery failed:`, error.message);
+        results.push({ channel: channel.name, sent: false, error: error.message });
+      }
+    }
+
+    if (Object.keys(sentFlags).length) {
+      await Notification.updateOne({ _id: notification._id }, { $set: { ...sentFlags, isSent: true } });
+    }
+    return results;
+  }
+}
+
+NotificationDispatcher.toInternationalPhone = toInternationalPhone;
+
+module.exports = NotificationDispatcher;
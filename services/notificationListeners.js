@@ -0,0 +1,220 @@
+const Notification = require('../models/Notification');
+const Order = require('../models/Order');
+const User = require('../models/User');
+const eventBus = require('./eventBus');
+const NotificationDispatcher = require('./notificationChannels');
+const { render } = require('./notificationTemplates');
+
+const { EVENTS } = eventBus;
+
+const idOf = (ref) => (ref && ref._id ? ref._id : ref)?.toString();
+
+/**
+ * Create one notification per recipient from a template and send it through
+ * the recipient's channels
+ */
+const notify = async (recipients, templateName, context, related = {}) => {
+  const fields = render(templateName, context);
+  const recipientIds = [...new Set(recipients.map(idOf).filter(Boolean))];
+
+  for (const recipientId of recipientIds) {
+    const notification = await Notification.create({
+      recipientId,
+      ...fields,
+      relatedOrderId: related.orderId,
+      relatedDeliveryId: related.deliveryId,
+      relatedProductId: related.productId,
+      data: related.data || {}
+    });
+    await NotificationDispatcher.dispatch(notification);
+  }
+};
+
+const orderRelated = (order) => ({ orderId: order._id, data: { orderNumber: order.orderNumber, status: order.status } });
+
+// The other parties of a cancelled order: everyone involved except the person who cancelled it
+const cancellationRecipients = (order, actor) =>
+  [order.shopkeeperId, order.companyId, order.deliveryWorkerId].filter(id => idOf(id) !== idOf(actor));
+
+const onOrderCreated = ({ order }) =>
+  notify([order.companyId], 'order_placed', { order }, orderRelated(order));
+
+const recurringRelated = (recurringOrder, order) => ({
+  orderId: order?._id,
+  data: { recurringOrderId: recurringOrder._id, orderNumber: order?.orderNumber }
+});
+
+// The shopkeeper hears about every order a schedule places for them, and what had to change
+const onRecurringOrderPlaced = ({ recurringOrder, order, changes }) =>
+  notify([recurringOrder.shopkeeperId], 'recurring_order_placed', { recurringOrder, order, changes }, recurringRelated(recurringOrder, order));
+
+const onRecurringOrderFailed = ({ recurringOrder, reason, changes }) =>
+  notify([recurringOrder.shopkeeperId], 'recurring_order_failed', { recurringOrder, reason, changes }, recurringRelated(recurringOrder));
+
+const onOrderStatusChanged = async ({ order, previousStatus, actor }) => {
+  const related = orderRelated(order);
+
+  switch (order.status) {
+    case 'approved':
+      // Back to approved from a delivery step means the delivery did not happen
+      if (previousStatus === 'pending') return notify([order.shopkeeperId], 'order_approved', { order }, related);
+      if (previousStatus === 'backordered') return notify([order.shopkeeperId, order.companyId], 'backorder_released', { order }, related);
+      return notify([order.companyId], 'delivery_returned_to_company', { order, actor }, related);
+    case 'rejected':
+      return notify([order.shopkeeperId], 'order_rejected', { order }, related);
+    case 'cancelled':
+      return notify(cancellationRecipients(order, actor), 'order_cancelled', { order, actor }, related);
+    case 'shipped':
+      return notify([order.shopkeeperId], 'order_shipped', { order }, related);
+    case 'delivered':
+      return notify([order.shopkeeperId, order.companyId], 'order_delivered', { order }, related);
+    default:
+      return undefined;
+  }
+};
+
+const onDeliveryAssigned = async ({ delivery }) => {
+  const order = await Order.findById(delivery.orderId);
+  if (!order) return;
+  const worker = await User.findById(delivery.deliveryWorkerId).select('name phone');
+  const related = {
+    orderId: order._id,
+    deliveryId: delivery._id,
+    data: { deliveryNumber: delivery.deliveryNumber, orderNumber: order.orderNumber }
+  };
+
+  await notify([delivery.deliveryWorkerId], 'delivery_assigned', { delivery, order }, related);
+  await notify([delivery.shopkeeperId], 'delivery_scheduled', { delivery, order, worker }, related);
+};
+
+const onDeliveryStatusChanged = async ({ delivery }) => {
+  // Return pickups are reported through the return events
+  if (delivery.status !== 'picked_up' || delivery.kind === 'return_pickup') return;
+  const order = await Order.findById(delivery.orderId);
+  if (!order) return;
+  await notify([delivery.shopkeeperId], 'delivery_picked_up', { delivery, order }, {
+    orderId: order._id,
+    deliveryId: delivery._id,
+    data: { deliveryNumber: delivery.deliveryNumber, orderNumber: order.orderNumber }
+  });
+};
+
+const onDeliveryIssueReported = ({ delivery, issueType, description }) =>
+  notify([delivery.shopkeeperId, delivery.companyId], 'delivery_issue', { delivery, issueType, description }, {
+    orderId: delivery.orderId,
+    deliveryId: delivery._id,
+    data: { deliveryNumber: delivery.deliveryNumber, issueType, issueDescription: description }
+  });
+
+// The worker who reported the issue and the shopkeeper hear how it was handled
+const onDeliveryIssueResolved = ({ delivery, issue }) =>
+  notify([issue.reportedBy?.userId, delivery.shopkeeperId], 'delivery_issue_resolved', { delivery, issue }, {
+    orderId: delivery.orderId,
+    deliveryId: delivery._id,
+    data: { deliveryNumber: delivery.deliveryNumber, issueId: issue._id, outcome: issue.outcome }
+  });
+
+// The company and the worker hear when a delivery is about to miss, or has missed, its SLA
+const onDeliverySlaAlert = (templateName) => async ({ delivery }) => {
+  const worker = await User.findById(delivery.deliveryWorkerId).select('name');
+  await notify([delivery.companyId, delivery.deliveryWorkerId], templateName, { delivery, worker }, {
+    orderId: delivery.orderId,
+    deliveryId: delivery._id,
+    data: { deliveryNumber: delivery.deliveryNumber, slaStatus: delivery.sla?.status, dueAt: delivery.estimatedDeliveryTime }
+  });
+};
+
+const returnRelated = (returnRequest, delivery) => ({
+  orderId: returnRequest.orderId,
+  deliveryId: delivery?._id,
+  data: { returnRequestId: returnRequest._id, returnNumber: returnRequest.returnNumber, status: returnRequest.status }
+});
+
+const onReturnRequested = ({ returnRequest }) =>
+  notify([returnRequest.companyId], 'return_requested', { returnRequest }, returnRelated(returnRequest));
+
+// The shopkeeper hears who is coming; the worker gets the pickup
+const onReturnApproved = async ({ returnRequest, delivery, worker }) => {
+  const related = returnRelated(returnRequest, delivery);
+  await notify([returnRequest.shopkeeperId], 'return_approved', { returnRequest, worker }, related);
+  await notify([delivery.deliveryWorkerId], 'return_pickup_assigned', { returnRequest, delivery }, related);
+};
+
+const onReturnRejected = ({ returnRequest }) =>
+  notify([returnRequest.shopkeeperId], 'return_rejected', { returnRequest }, returnRelated(returnRequest));
+
+const onReturnPickupFailed = ({ returnRequest, delivery }) =>
+  notify([returnRequest.companyId], 'return_pickup_failed', { returnRequest, delivery }, returnRelated(returnRequest, delivery));
+
+const onReturnCompleted = ({ returnRequest, creditNote }) =>
+  notify([returnRequest.shopkeeperId, returnRequest.companyId], 'return_completed', { returnRequest, creditNote }, {
+    ...returnRelated(returnRequest),
+    data: { ...returnRelated(returnRequest).data, creditNoteId: creditNote._id, amount: creditNote.amount }
+  });
+
+const onStockLow = ({ product, threshold }) =>
+  notify([product.companyId], 'stock_low', { product, threshold }, {
+    productId: product._id,
+    data: { stockQuantity: product.stockQuantity, threshold }
+  });
+
+const paymentRelated = (payment, order) => ({
+  orderId: order._id,
+  data: { orderNumber: order.orderNumber, paymentId: payment._id, amount: payment.amount, transactionId: payment.transactionId }
+});
+
+const onPaymentReceived = ({ payment, order }) =>
+  notify([order.shopkeeperId, order.companyId], 'payment_received', { payment, order }, paymentRelated(payment, order));
+
+const onPaymentFailed = ({ payment, order }) =>
+  notify([order.shopkeeperId], 'payment_failed', { payment, order }, paymentRelated(payment, order));
+
+const onUserRegistered = async ({ user }) => {
+  const admins = await User.find({ role: 'admin', status: 'active' }).select('_id');
+  await notify(admins, 'user_registration', { user }, {
+    data: { userId: user._id, userRole: user.role, userName: user.name, userEmail: user.email }
+  });
+};
+
+const onUserDocumentsSubmitted = async ({ user, answered, note }) => {
+  const admins = await User.find({ role: 'admin', status: 'active' }).select('_id');
+  await notify(admins, 'user_documents_submitted', { user, answered }, {
+    data: { userId: user._id, userRole: user.role, userName: user.name, note }
+  });
+};
+
+const onUserApproved = ({ user, actor }) =>
+  notify([user], 'user_approved', { user }, { data: { approvedBy: actor?._id, approvedAt: new Date() } });
+
+const onUserRejected = ({ user, actor, reason }) =>
+  notify([user], 'user_rejected', { user, reason }, { data: { rejectedBy: actor?._id, rejectedAt: new Date(), reason } });
+
+/**
+ * Subscribe the notification listeners to the event bus. Call once at startup.
+ */
+const registerNotificationListeners = (bus = eventBus) => {
+  bus.on(EVENTS.ORDER_CREATED, onOrderCreated);
+  bus.on(EVENTS.ORDER_STATUS_CHANGED, onOrderStatusChanged);
+  bus.on(EVENTS.RECURRING_ORDER_PLACED, onRecurringOrderPlaced);
+  bus.on(EVENTS.RECURRING_ORDER_FAILED, onRecurringOrderFailed);
+  bus.on(EVENTS.DELIVERY_ASSIGNED, onDeliveryAssigned);
+  bus.on(EVENTS.DELIVERY_STATUS_CHANGED, onDeliveryStatusChanged);
+  bus.on(EVENTS.DELIVERY_ISSUE_REPORTED, onDeliveryIssueReported);
+  bus.on(EVENTS.DELIVERY_ISSUE_RESOLVED, onDeliveryIssueResolved);
+  bus.on(EVENTS.DELIVERY_SLA_AT_RISK, onDeliverySlaAlert('delivery_sla_at_risk'));
+  bus.on(EVENTS.DELIVERY_SLA_BREACHED, onDeliverySlaAlert('delivery_sla_breached'));
+  bus.on(EVENTS.RETURN_REQUESTED, onReturnRequested);
+  bus.on(EVENTS.RETURN_APPROVED, onReturnApproved);
+  bus.on(EVENTS.RETURN_REJECTED, onReturnRejected);
+  bus.on(EVENTS.RETURN_PICKUP_FAILED, onReturnPickupFailed);
+  bus.on(EVENTS.RETURN_COMPLETED, onReturnCompleted);
+  bus.on(EVENTS.STOCK_LOW, onStockLow);
+  bus.on(EVENTS.PAYMENT_RECEIVED, onPaymentReceived);
+  bus.on(EVENTS.PAYMENT_FAILED, onPaymentFailed);
+  bus.on(EVENTS.USER_REGISTERED, onUserRegistered);
+  bus.on(EVENTS.USER_APPROVED, onUserApproved);
+  bus.on(EVENTS.USER_REJECTED, onUserRejected);
+  bus.on(EVENTS.USER_DOCUMENTS_SUBMITTED, onUserDocumentsSubmitted);
+};
+
+module.exports = { registerNotificationListeners, notify };
@@ -0,0 +1,263 @@
+// Title/message templates for notifications created from domain events.
+// Each template receives the event context and returns the notification fields.
+
+const shopName = (order) => order.shopkeeperSnapshot?.shopName || order.shopkeeperSnapshot?.name || 'a shop';
+const companyName = (order) => order.companySnapshot?.companyName || order.companySnapshot?.name || 'the company';
+
+const formatTime = (date) =>
+  new Date(date).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Dhaka' });
+
+const ISSUE_OUTCOME_TEXT = {
+  rescheduled: 'The delivery was rescheduled',
+  reassigned: 'The delivery was given to another delivery worker',
+  returned: 'The goods are being returned and the order was cancelled',
+  closed: 'The issue was closed'
+};
+
+const RETURN_REASON_TEXT = {
+  damaged: 'damaged',
+  expired: 'expired',
+  wrong_item: 'wrong item',
+  other: 'other reason'
+};
+
+const returnItemsText = (returnRequest) =>
+  returnRequest.items.map(item => `${item.quantity} ${item.unit} ${item.productName}`).join(', ');
+
+const templates = {
+  order_placed: ({ order }) => ({
+    type: 'order_placed',
+    title: 'New Order Received',
+    message: `${shopName(order)} placed order ${order.orderNumber} for ৳${order.finalAmount}.`,
+    priority: 'high'
+  }),
+
+  recurring_order_placed: ({ recurringOrder, order, changes }) => ({
+    type: 'order_placed',
+    title: changes.length ? 'Recurring Order Placed With Changes' : 'Recurring Order Placed',
+    message: `Order ${order.orderNumber} for ৳${order.finalAmount} was placed from "${recurringOrder.name}".` +
+      (changes.length ? ` Changes: ${changes.join('; ')}.` : ''),
+    priority: changes.length ? 'high' : 'low'
+  }),
+
+  recurring_order_failed: ({ recurringOrder, reason, changes }) => ({
+    type: 'system_alert',
+    title: 'Recurring Order Not Placed',
+    message: `"${recurringOrder.name}" could not be ordered: ${reason}.` +
+      (changes.length ? ` ${changes.join('; ')}.` : '') + ' Edit the recurring order or place this one by hand.',
+    priority: 'high'
+  }),
+
+  order_approved: ({ order }) => {
+    const short = order.items.filter(item => item.backorderedQuantity > 0);
+    return {
+      type: 'order_approved',
+      title: short.length ? 'Order Approved With Shortages' : 'Order Approved',
+      message: `Your order ${order.orderNumber} has been approved by ${companyName(order)}.` +
+        (short.length
+          ? ` Backordered until restocked: ${short.map(item => `${item.backorderedQuantity} ${item.unit} ${item.productName}`).join(', ')}.`
+          : ''),
+      priority: 'high'
+    };
+  },
+
+  backorder_released: ({ order }) => ({
+    type: 'order_approved',
+    title: 'Backorder Ready',
+    message: `Backorder ${order.orderNumber} is back in stock and approved for delivery.`,
+    priority: 'high'
+  }),
+
+  order_rejected: ({ order }) => ({
+    type: 'order_rejected',
+    title: 'Order Rejected',
+    message: `Your order ${order.orderNumber} was rejected by ${companyName(order)}. Reason: ${order.rejectionReason || 'Not given'}`,
+    priority: 'high'
+  }),
+
+  order_cancelled: ({ order, actor }) => ({
+    type: 'order_cancelled',
+    title: 'Order Cancelled',
+    message: `Order ${order.orderNumber} was cancelled by ${actor?.name || 'the system'}. Reason: ${order.rejectionReason || 'Not given'}`,
+    priority: 'medium'
+  }),
+
+  order_shipped: ({ order }) => ({
+    type: 'order_shipped',
+    title: 'Order On The Way',
+    message: `Your order ${order.orderNumber} is on its way.`,
+    priority: 'medium'
+  }),
+
+  order_delivered: ({ order }) => ({
+    type: 'order_delivered',
+    title: 'Order Delivered',
+    message: `Order ${order.orderNumber} has been delivered to ${shopName(order)}.`,
+    priority: 'medium'
+  }),
+
+  delivery_returned_to_company: ({ order, actor }) => ({
+    type: 'system_alert',
+    title: 'Order Needs Reassignment',
+    message: `${actor?.name || 'The delivery worker'} could not deliver order ${order.orderNumber}. Assign another delivery worker.`,
+    priority: 'high'
+  }),
+
+  delivery_assigned: ({ delivery, order }) => ({
+    type: 'delivery_assigned',
+    title: 'New Delivery Assignment',
+    message: `You have been assigned delivery ${delivery.deliveryNumber} from ${companyName(order)} to ${delivery.shopkeeperName || shopName(order)}.`,
+    priority: 'high'
+  }),
+
+  delivery_scheduled: ({ order, worker }) => ({
+    type: 'delivery_assigned',
+    title: 'Delivery Scheduled',
+    message: `Order ${order.orderNumber} from ${companyName(order)} will be delivered by ${worker?.name || 'our delivery worker'}${worker?.phone ? ` (${worker.phone})` : ''}.`,
+    priority: 'high'
+  }),
+
+  delivery_picked_up: ({ delivery, order }) => ({
+    type: 'delivery_picked_up',
+    title: 'Order Picked Up',
+    message: `Order ${order.orderNumber} was picked up for delivery ${delivery.deliveryNumber}.`,
+    priority: 'medium'
+  }),
+
+  delivery_issue: ({ delivery, issueType, description }) => ({
+    type: 'system_alert',
+    title: 'Delivery Issue Reported',
+    message: `Issue on delivery ${delivery.deliveryNumber}: ${issueType}. ${description || ''}`.trim(),
+    priority: 'high'
+  }),
+
+  delivery_issue_resolved: ({ delivery, issue }) => ({
+    type: 'system_alert',
+    title: 'Delivery Issue Resolved',
+    message: `${ISSUE_OUTCOME_TEXT[issue.outcome] || 'The issue was resolved'} for delivery ${delivery.deliveryNumber}.${issue.resolution ? ` ${issue.resolution}` : ''}`,
+    priority: 'medium'
+  }),
+
+  delivery_sla_at_risk: ({ delivery, worker }) => ({
+    type: 'system_alert',
+    title: 'Delivery At Risk Of Running Late',
+    message: `Delivery ${delivery.deliveryNumber} to ${delivery.shopkeeperName || delivery.deliveryArea} is due by ${formatTime(delivery.estimatedDeliveryTime)}${worker ? ` (${worker.name})` : ''}.`,
+    priority: 'medium'
+  }),
+
+  delivery_sla_breached: ({ delivery, worker }) => ({
+    type: 'system_alert',
+    title: 'Delivery Late',
+    message: `Delivery ${delivery.deliveryNumber} to ${delivery.shopkeeperName || delivery.deliveryArea} missed its ${formatTime(delivery.estimatedDeliveryTime)} deadline${worker ? ` (${worker.name})` : ''}.`,
+    priority: 'high'
+  }),
+
+  return_requested: ({ returnRequest }) => ({
+    type: 'system_alert',
+    title: 'Return Requested',
+    message: `Return ${returnRequest.returnNumber} for order ${returnRequest.orderNumber}: ` +
+      `${returnItemsText(returnRequest)} (${RETURN_REASON_TEXT[returnRequest.reason] || returnRequest.reason}). Approve or reject it.`,
+    priority: 'high'
+  }),
+
+  return_approved: ({ returnRequest, worker }) => ({
+    type: 'system_alert',
+    title: 'Return Approved',
+    message: `Return ${returnRequest.returnNumber} was approved. ${worker?.name || 'A delivery worker'} will pick up ${returnItemsText(returnRequest)} from your shop.`,
+    priority: 'medium'
+  }),
+
+  return_pickup_assigned: ({ returnRequest, delivery }) => ({
+    type: 'delivery_assigned',
+    title: 'Return Pickup Assigned',
+    message: `Pick up ${returnItemsText(returnRequest)} from ${delivery.shopkeeperName} and bring them back to the company (${delivery.deliveryNumber}).`,
+    priority: 'high'
+  }),
+
+  return_rejected: ({ returnRequest }) => ({
+    type: 'system_alert',
+    title: 'Return Rejected',
+    message: `Return ${returnRequest.returnNumber} for order ${returnRequest.orderNumber} was rejected. Reason: ${returnRequest.decisionNote}`,
+    priority: 'high'
+  }),
+
+  return_pickup_failed: ({ returnRequest, delivery }) => ({
+    type: 'system_alert',
+    title: 'Return Pickup Failed',
+    message: `The pickup for return ${returnRequest.returnNumber} did not reach the company${delivery.failureReason ? `: ${delivery.failureReason}` : ''}. Send the pickup again.`,
+    priority: 'high'
+  }),
+
+  return_completed: ({ returnRequest, creditNote }) => ({
+    type: 'system_alert',
+    title: 'Return Credited',
+    message: `The goods of return ${returnRequest.returnNumber} are back with the company. Credit note ${creditNote.creditNoteNumber} for ৳${creditNote.amount} was issued.`,
+    priority: 'medium'
+  }),
+
+  payment_received: ({ payment, order }) => ({
+    type: 'payment_received',
+    title: 'Payment Received',
+    message: `Payment of ৳${payment.amount} for order ${order.orderNumber} was received${payment.transactionId ? ` (transaction ${payment.transactionId})` : ''}.`,
+    priority: 'medium'
+  }),
+
+  payment_failed: ({ payment, order }) => ({
+    type: 'payment_failed',
+    title: 'Payment Failed',
+    message: `Payment of ৳${payment.amount} for order ${order.orderNumber} did not go through. Reason: ${payment.failureReason || 'Not given'}. You can try again from the order page.`,
+    priority: 'high'
+  }),
+
+  stock_low: ({ product, threshold }) => ({
+    type: 'stock_low',
+    title: 'Low Stock',
+    message: `${product.name} is down to ${product.stockQuantity} ${product.unit} available (below ${threshold}).`,
+    priority: 'high'
+  }),
+
+  user_registration: ({ user }) => ({
+    type: 'user_registration',
+    title: 'New User Registration',
+    message: user.status === 'active'
+      ? `A new ${user.role} user (${user.name}) has registered and was approved automatically.`
+      : `A new ${user.role} user (${user.name}) has registered and is waiting for approval.`,
+    priority: user.status === 'active' ? 'low' : 'medium'
+  }),
+
+  user_documents_submitted: ({ user, answered }) => ({
+    type: 'user_registration',
+    title: answered ? 'Registration Information Received' : 'Registration Documents Uploaded',
+    message: answered
+      ? `${user.name} answered your request for more information. Their registration is ready for review again.`
+      : `${user.name} uploaded documents for their registration.`,
+    priority: 'medium'
+  }),
+
+  user_approved: () => ({
+    type: 'user_approved',
+    title: 'Account Approved',
+    message: 'Your account has been approved by the administrator. You can now log in to access your account.',
+    priority: 'high'
+  }),
+
+  user_rejected: ({ reason }) => ({
+    type: 'user_rejected',
+    title: 'Account Rejected',
+    message: reason
+      ? `Your account registration has been rejected. Reason: ${reason}`
+      : 'Your account registration has been rejected by the administrator.',
+    priority: 'high'
+  })
+};
+
+/**
+ * Build notification fields from a template
+ */
+const render = (name, context) => {
+  const template = templates[name];
+  if (!template) throw new Error(`Unknown notification template: ${name}`);
+  return template(context);
+};
+
+module.exports = { templates, render };
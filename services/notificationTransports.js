@@ -0,0 +1,105 @@
+const fs = require('fs');
+const path = require('path');
+const notificationConfig = require('../config/notifications');
+
+// Transports take a message `{ to, subject, text }` and deliver it.
+// nodemailer and twilio are only loaded when their transport is used.
+
+const consoleTransport = (channel) => ({
+  name: 'console',
+  async send(message) {
+    console.log(`[${channel}] to ${message.to}${message.subject ? ` | ${message.subject}` : ''}\n${message.text}`);
+    return { id: `console-${Date.now()}` };
+  }
+});
+
+const fileTransport = (channel) => ({
+  name: 'file',
+  async send(message) {
+    const dir = path.resolve(notificationConfig.outboxDir);
+    await fs.promises.mkdir(dir, { recursive: true });
+    const entry = { channel, ...message, sentAt: new Date().toISOString() };
+    await fs.promises.appendFile(path.join(dir, `${channel}.log`), `${JSON.stringify(entry)}\n`);
+    return { id: `file-${Date.now()}` };
+  }
+});
+
+const smtpTransport = () => {
+  const nodemailer = require('nodemailer');
+  const { smtp, from } = notificationConfig.email;
+  const transporter = nodemailer.createTransport(smtp);
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({ from, to: message.to, subject: message.subject, text: message.text });
+      return { id: info.messageId };
+    }
+  };
+};
+
+const twilioTransport = () => {
+  const twilio = require('twilio');
+  const { accountSid, authToken, from } = notificationConfig.sms.twilio;
+  const client = twilio(accountSid, authToken);
+
+  return {
+    name: 'twilio',
+    async send(message) {
+      const result = await client.messages.create({ from, to: message.to, body: message.text });
+      return { id: result.sid };
+    }
+  };
+};
+
+// Transports that only write messages locally; they are refused in production
+const LOCAL_TRANSPORTS = ['console', 'file'];
+
+const factories = {
+  email: { smtp: smtpTransport, file: () => fileTransport('email'), console: () => consoleTransport('email') },
+  sms: { twilio: twilioTransport, file: () => fileTransport('sms'), console: () => consoleTransport('sms') }
+};
+
+const warned = new Set();
+
+/**
+ * The transport kind a channel uses. In production it must really send
+ * messages: a missing or local transport throws (called at startup). Outside
+ * production a missing one falls back to the console with a warning.
+ */
+const checkTransport = (channel, kind = notificationConfig[channel].transport) => {
+  const variable = `${channel.toUpperCase()}_TRANSPORT`;
+  const production = process.env.NODE_ENV === 'production';
+  if (!kind) {
+    if (production) throw new Error(`No ${channel} transport configured: set ${variable}`);
+    if (!warned.has(channel)) {
+      warned.add(channel);
+      console.warn(`No ${channel} transport configured; ${channel} messages are logged to the console. Set ${variable} to send them.`);
+    }
+    return 'console';
+  }
+  if (!factories[channel]?.[kind]) throw new Error(`Unknown ${channel} transport: ${kind}`);
+  if (production && LOCAL_TRANSPORTS.includes(kind)) {
+    throw new Error(`${variable}=${kind} only writes messages locally and cannot be used in production`);
+  }
+  return kind;
+};
+
+/**
+ * Build the transport configured for a channel ('email' or 'sms')
+ */
+const createTransport = (channel, kind = notificationConfig[channel].transport) => {
+  return factories[channel][checkTransport(channel, kind)]();
+};
+
+/**
+ * Add a transport kind for a channel, e.g. a local SMS gateway. `factory`
+ * returns an object with `name` and `send(message)`; select it with
+ * SMS_TRANSPORT / EMAIL_TRANSPORT set to `kind`.
+ */
+const registerTransport = (channel, kind, factory) => {
+  if (!factories[channel]) throw new Error(`Unknown channel: ${channel}`);
+  factories[channel][kind] = factory;
+};
+
+module.exports = { createTransport, checkTransport, registerTransport };
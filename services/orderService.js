@@ -0,0 +1,147 @@
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const User = require('../models/User');
+const InventoryService = require('./inventoryService');
+const PricingService = require('./pricingService');
+const RealtimeService = require('./realtimeService');
+const eventBus = require('./eventBus');
+const { withTransaction } = require('./transaction');
+
+class OrderPlacementError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'OrderPlacementError';
+    this.code = 'INVALID_ORDER';
+  }
+}
+
+class OrderService {
+  /**
+   * Check earlier order lines against current product data. Each line gets the
+   * current price and a quantity fitted to the product's limits and stock:
+   * `available`, `adjusted` (quantity changed), `inactive` or `out_of_stock`
+   * (quantity 0). `lines` are `{ productId, productName, quantity, unitPrice }`,
+   * where `unitPrice` is the price paid before, if known.
+   */
+  static async checkLines(companyId, lines) {
+    const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } });
+    const byId = new Map(products.map(product => [product._id.toString(), product]));
+
+    return lines.map(line => {
+      const product = byId.get(line.productId.toString());
+      const checked = {
+        productId: line.productId,
+        productName: product?.name || line.productName,
+        unit: product?.unit || line.unit,
+        previousQuantity: line.quantity,
+        previousUnitPrice: line.unitPrice ?? null,
+        unitPrice: product?.unitPrice ?? null,
+        priceChanged: product != null && line.unitPrice != null && line.unitPrice !== product.unitPrice,
+        quantity: 0
+      };
+
+      if (!product || !product.isActive || product.companyId.toString() !== companyId.toString()) {
+        return { ...checked, status: 'inactive' };
+      }
+
+      const { min, max } = product.getOrderLimits();
+      if (max < min) return { ...checked, status: 'out_of_stock' };
+
+      const quantity = Math.min(Math.max(line.quantity, min), max);
+      return { ...checked, quantity, status: quantity === line.quantity ? 'available' : 'adjusted', minOrderQuantity: min, maxOrderQuantity: max };
+    });
+  }
+
+  /**
+   * A shopkeeper's past order checked line by line so it can be ordered again
+   */
+  static async prepareReorder(order) {
+    const company = await User.findById(order.companyId);
+    // Short-shipped lines are offered at the quantity the shopkeeper asked for
+    const lines = await this.checkLines(order.companyId, order.items.map(item => ({
+      productId: item.productId,
+      productName: item.productName,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      quantity: item.orderedQuantity || item.quantity
+    })));
+
+    return {
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      companyId: order.companyId,
+      companyName: company?.companyInfo?.companyName || company?.name || order.companySnapshot?.companyName || 'N/A',
+      companyActive: company?.status === 'active',
+      deliveryAddress: order.deliveryAddress,
+      deliveryArea: order.deliveryArea,
+      deliveryCity: order.deliveryCity,
+      paymentMethod: order.paymentMethod,
+      deliveryInstructions: order.deliveryInstructions,
+      lines
+    };
+  }
+
+  /**
+   * Place a pending order for a shopkeeper: price the items from current
+   * product data, reserve their stock and save the order together.
+   * Throws OrderPlacementError, PricingError or InsufficientStockError.
+   * `note` replaces the first timeline note; `recurringOrderId` links an order
+   * created from a schedule.
+   */
+  static async place(shopkeeper, details, { note = 'Order created', recurringOrderId } = {}) {
+    const { companyId, items, deliveryAddress, deliveryArea, deliveryCity, paymentMethod, preferredDeliveryDate, deliveryInstructions, notes } = details;
+
+    if (!companyId || !items?.length || !deliveryAddress || !deliveryArea || !deliveryCity) {
+      throw new OrderPlacementError('Missing required fields');
+    }
+
+    // Validate company
+    const company = await User.findById(companyId);
+    if (!company || !company.isCompanyAccount() || company.status !== 'active') {
+      throw new OrderPlacementError('Invalid or inactive company');
+    }
+
+    // Price every item from current product data (stock itself is reserved atomically below)
+    const quote = await PricingService.quote({ companyId, items, deliveryArea, deliveryCity });
+    const { totalAmount, taxAmount, deliveryCharge, finalAmount } = quote;
+
+    const orderNumber = `ORD-${(await Order.countDocuments() + 1).toString().padStart(4, '0')}`;
+
+    const order = new Order({
+      orderNumber,
+      shopkeeperId: shopkeeper._id,
+      shopkeeperSnapshot: { name: shopkeeper.name, shopName: shopkeeper.shopName || 'N/A', phone: shopkeeper.phone || 'N/A' },
+      companyId,
+      companySnapshot: { name: company.name, companyName: company.companyName || 'N/A', phone: company.phone || 'N/A' },
+      recurringOrderId,
+      items: quote.items.map(item => ({ ...item, orderedQuantity: item.quantity })),
+      totalAmount,
+      taxAmount,
+      deliveryCharge,
+      finalAmount,
+      deliveryAddress,
+      deliveryArea,
+      deliveryCity,
+      paymentMethod: paymentMethod || 'cash_on_delivery',
+      preferredDeliveryDate: preferredDeliveryDate || new Date(Date.now() + 24*60*60*1000),
+      deliveryInstructions: deliveryInstructions || '',
+      notes: notes || '',
+      status: 'pending',
+      timeline: [{ status: 'pending', timestamp: new Date(), note, actor: { name: shopkeeper.name, role: 'shopkeeper' } }]
+    });
+
+    // Reserve stock and persist the order together so a failed reservation leaves no order behind
+    await withTransaction(async (session) => {
+      await InventoryService.reserveForOrder(order, shopkeeper, session);
+      await order.save({ session });
+    });
+
+    RealtimeService.publishOrder(order, shopkeeper);
+    eventBus.emit(eventBus.EVENTS.ORDER_CREATED, { order, actor: shopkeeper });
+    return order;
+  }
+}
+
+OrderService.OrderPlacementError = OrderPlacementError;
+
+module.exports = OrderService;
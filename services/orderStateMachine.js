@@ -0,0 +1,272 @@
+const InventoryService = require('./inventoryService');
+const { personOf, toActor } = require('./actors');
+
+class OrderTransitionError extends Error {
+  constructor(message, { currentStatus, allowedTransitions = [] } = {}) {
+    super(message);
+    this.name = 'OrderTransitionError';
+    this.code = 'INVALID_TRANSITION';
+    this.currentStatus = currentStatus;
+    this.allowedTransitions = allowedTransitions;
+  }
+}
+
+class TransitionInputError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TransitionInputError';
+    this.code = 'TRANSITION_INPUT_REQUIRED';
+  }
+}
+
+// --- Side-effects, run inside the caller's transaction ---
+const releaseStock = (order, { actor, note }, session) =>
+  InventoryService.releaseForOrder(order, actor, note, session);
+
+const setRejectionReason = (order, { reason }) => {
+  order.rejectionReason = reason || '';
+};
+
+const effects = {
+  approve: (order, { actor }) => {
+    order.approvedBy = personOf(actor)?._id;
+  },
+  // A backorder holds no stock until it is released
+  releaseBackorder: async (order, { actor }, session) => {
+    await InventoryService.reserveForOrder(order, actor, session);
+    order.approvedBy = personOf(actor)?._id;
+  },
+  assign: (order, { deliveryWorkerId }) => {
+    order.deliveryWorkerId = deliveryWorkerId;
+  },
+  decline: (order) => {
+    order.deliveryWorkerId = undefined;
+  },
+  deliver: async (order, { actor }, session) => {
+    order.deliveredAt = new Date();
+    await InventoryService.commitForOrder(order, actor, session);
+  },
+  close: async (order, context, session) => {
+    setRejectionReason(order, context);
+    await releaseStock(order, context, session);
+  }
+};
+
+const cancel = (roles) => ({
+  roles,
+  label: 'Cancel Order',
+  destructive: true,
+  requiresReason: true,
+  note: ({ reason }) => `Order cancelled: ${reason || 'No reason'}`,
+  effect: effects.close
+});
+
+const assign = (label) => ({
+  roles: ['company_rep', 'admin'],
+  label,
+  requiresDeliveryWorker: true,
+  note: ({ deliveryWorkerName }) => deliveryWorkerName ? `Assigned to ${deliveryWorkerName}` : 'Order assigned to delivery worker',
+  effect: effects.assign
+});
+
+// The order goes back to the company so it can be reassigned; reserved stock stays held
+const returnToCompany = (label, requiresReason) => ({
+  roles: ['delivery_worker', 'admin'],
+  label,
+  destructive: true,
+  requiresReason,
+  note: ({ reason }) => reason ? `Delivery failed: ${reason}` : 'Order declined by delivery worker',
+  effect: effects.decline
+});
+
+const deliver = {
+  roles: ['delivery_worker', 'admin'],
+  label: 'Mark as Delivered',
+  note: () => 'Order delivered successfully',
+  effect: effects.deliver
+};
+
+/**
+ * Allowed order status changes: current status -> next status -> rule.
+ * A rule lists the roles that may take the step, what input it needs and
+ * the side-effect applied to the order when it happens.
+ */
+const TRANSITIONS = {
+  pending: {
+    approved: {
+      roles: ['company_rep', 'admin'],
+      label: 'Approve Order',
+      note: () => 'Order approved by company',
+      effect: effects.approve
+    },
+    rejected: {
+      roles: ['company_rep', 'admin'],
+      label: 'Reject Order',
+      destructive: true,
+      requiresReason: true,
+      note: ({ reason }) => `Order rejected: ${reason || 'No reason'}`,
+      effect: effects.close
+    },
+    cancelled: cancel(['shopkeeper', 'company_rep', 'admin'])
+  },
+  // Lines the company short-shipped, waiting for stock (see services/backorderService.js)
+  backordered: {
+    approved: {
+      roles: ['company_rep', 'admin'],
+      label: 'Release Backorder',
+      note: () => 'Backorder released: stock reserved',
+      effect: effects.releaseBackorder
+    },
+    cancelled: cancel(['shopkeeper', 'company_rep', 'admin'])
+  },
+  approved: {
+    processing: {
+      roles: ['company_rep', 'admin'],
+      label: 'Start Processing',
+      note: () => 'Order is being prepared'
+    },
+    assigned: assign('Assign Delivery Worker'),
+    cancelled: cancel(['shopkeeper', 'company_rep', 'admin'])
+  },
+  processing: {
+    assigned: assign('Assign Delivery Worker'),
+    cancelled: cancel(['company_rep', 'admin'])
+  },
+  assigned: {
+    accepted: {
+      roles: ['delivery_worker'],
+      label: 'Accept Order',
+      note: () => 'Order accepted by delivery worker'
+    },
+    // Deliveries have no accept step, so a pickup can follow the assignment directly
+    picked_up: {
+      roles: ['delivery_worker'],
+      label: 'Mark as Picked Up',
+      note: () => 'Order picked up by delivery worker'
+    },
+    approved: returnToCompany('Decline Order', false),
+    assigned: assign('Reassign Delivery Worker'),
+    cancelled: cancel(['company_rep', 'admin'])
+  },
+  accepted: {
+    picked_up: {
+      roles: ['delivery_worker'],
+      label: 'Mark as Picked Up',
+      note: () => 'Order picked up by delivery worker'
+    },
+    approved: returnToCompany('Report Failed Delivery', true),
+    cancelled: cancel(['company_rep', 'admin'])
+  },
+  picked_up: {
+    shipped: {
+      roles: ['delivery_worker'],
+      label: 'Mark as In Transit',
+      note: () => 'Order is on the way'
+    },
+    delivered: deliver,
+    approved: returnToCompany('Report Failed Delivery', true),
+    cancelled: cancel(['admin'])
+  },
+  shipped: {
+    delivered: deliver,
+    approved: returnToCompany('Report Failed Delivery', true),
+    cancelled: cancel(['admin'])
+  },
+  delivered: {},
+  cancelled: {},
+  rejected: {}
+};
+
+const idOf = (ref) => (ref && ref._id ? ref._id : ref)?.toString();
+
+/**
+ * Whether the user is the party the order belongs to for their role
+ */
+const isOrderParty = (order, user) => {
+  if (!user) return false;
+  const userId = user._id.toString();
+  switch (user.role) {
+    case 'admin': return true;
+    case 'shopkeeper': return idOf(order.shopkeeperId) === userId;
+    case 'company_rep': return idOf(order.companyId) === userId;
+    case 'delivery_worker': return idOf(order.deliveryWorkerId) === userId;
+    default: return false;
+  }
+};
+
+const toAction = (status, rule) => ({
+  status,
+  label: rule.label,
+  destructive: !!rule.destructive,
+  requiresReason: !!rule.requiresReason,
+  requiresDeliveryWorker: !!rule.requiresDeliveryWorker
+});
+
+class OrderStateMachine {
+  /**
+   * Every status the order may move to next, regardless of who asks
+   */
+  static getNextStatuses(status) {
+    return Object.keys(TRANSITIONS[status] || {});
+  }
+
+  /**
+   * Actions the user may take on the order in its current status
+   */
+  static getAvailableActions(order, user) {
+    if (!isOrderParty(order, user)) return [];
+    const rules = TRANSITIONS[order.status] || {};
+    return Object.entries(rules)
+      .filter(([, rule]) => rule.roles.includes(user.role))
+      .map(([status, rule]) => toAction(status, rule));
+  }
+
+  static canTransition(order, user, nextStatus) {
+    return this.getAvailableActions(order, user).some(action => action.status === nextStatus);
+  }
+
+  /**
+   * Move the order to `nextStatus`, apply the transition's side-effects and
+   * record it on the timeline. The caller saves the order (with `session`).
+   */
+  static async transition(order, nextStatus, user, { reason, deliveryWorkerId, deliveryWorkerName } = {}, session) {
+    const currentStatus = order.status || 'pending';
+    const rule = TRANSITIONS[currentStatus]?.[nextStatus];
+
+    if (!rule || !this.canTransition(order, user, nextStatus)) {
+      throw new OrderTransitionError(`Cannot change status from ${currentStatus} to ${nextStatus}`, {
+        currentStatus,
+        allowedTransitions: this.getAvailableActions(order, user).map(action => action.status)
+      });
+    }
+    if (rule.requiresReason && !reason?.trim()) {
+      throw new TransitionInputError('A reason is required for this status change');
+    }
+    if (rule.requiresDeliveryWorker && !deliveryWorkerId) {
+      throw new TransitionInputError('A delivery worker is required for this status change');
+    }
+
+    const context = { actor: user, reason: reason?.trim(), deliveryWorkerId, deliveryWorkerName };
+    context.note = rule.note(context);
+
+    if (rule.effect) await rule.effect(order, context, session);
+
+    order.status = nextStatus;
+    if (!Array.isArray(order.timeline)) order.timeline = [];
+    order.timeline.push({
+      status: nextStatus,
+      timestamp: new Date(),
+      note: context.note,
+      actor: toActor(user)
+    });
+
+    return order;
+  }
+}
+
+OrderStateMachine.TRANSITIONS = TRANSITIONS;
+OrderStateMachine.isOrderParty = isOrderParty;
+OrderStateMachine.OrderTransitionError = OrderTransitionError;
+OrderStateMachine.TransitionInputError = TransitionInputError;
+
+module.exports = OrderStateMachine;
@@ -0,0 +1,105 @@
+const crypto = require('crypto');
+const OtpCode = require('../models/OtpCode');
+const SmsSender = require('./smsSender');
+const authConfig = require('../config/auth');
+const { toInternationalPhone } = require('./phoneNumbers');
+
+class OtpError extends Error {
+  constructor(message, code = 'INVALID_OTP', retryAfter) {
+    super(message);
+    this.name = 'OtpError';
+    this.code = code;
+    // Seconds until another code may be sent (OTP_RATE_LIMITED)
+    this.retryAfter = retryAfter;
+  }
+}
+
+const { otp: otpConfig } = authConfig;
+
+// The number is part of the hash, so a code only matches the phone it was sent to
+const hashCode = (phone, code) => crypto.createHash('sha256').update(`${phone}:${code}`).digest('hex');
+
+const MESSAGES = {
+  login: (code) => `${code} is your GroceryTrackBD login code. It expires in ${otpConfig.ttlMinutes} minutes. Do not share it.`,
+  verify_phone: (code) => `${code} is your GroceryTrackBD code to confirm this phone number. It expires in ${otpConfig.ttlMinutes} minutes.`
+};
+
+class OtpService {
+  /**
+   * Text a new 6-digit code to a phone number. Earlier codes for the same
+   * purpose stop working. Throws OTP_RATE_LIMITED when the number was sent a
+   * code moments ago or too many codes within the last hour.
+   */
+  static async issue(phone, purpose, userId) {
+    const to = toInternationalPhone(phone);
+    const recent = await OtpCode.find({
+      phone: to,
+      createdAt: { $gt: new Date(Date.now() - 60 * 60 * 1000) }
+    }).sort({ createdAt: -1 });
+
+    const cooldownLeft = recent.length
+      ? Math.ceil(otpConfig.resendCooldownSeconds - (Date.now() - recent[0].createdAt.getTime()) / 1000)
+      : 0;
+    if (cooldownLeft > 0) {
+      throw new OtpError(`Please wait ${cooldownLeft} seconds before requesting another code`, 'OTP_RATE_LIMITED', cooldownLeft);
+    }
+    if (recent.length >= otpConfig.maxPerHour) {
+      const oldest = recent[recent.length - 1].createdAt.getTime();
+      const retryAfter = Math.ceil((oldest + 60 * 60 * 1000 - Date.now()) / 1000);
+      throw new OtpError('Too many codes were sent to this number. Try again later.', 'OTP_RATE_LIMITED', retryAfter);
+    }
+
+    await OtpCode.updateMany({ phone: to, purpose, consumedAt: null }, { $set: { consumedAt: new Date() } });
+
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    const otp = await OtpCode.create({
+      phone: to,
+      purpose,
+      userId,
+      codeHash: hashCode(to, code),
+      expiresAt: new Date(Date.now() + otpConfig.ttlMinutes * 60 * 1000)
+    });
+
+    // A code that never arrived should not hold up the next request
+    try {
+      await SmsSender.send({ to, text: MESSAGES[purpose](code) });
+    } catch (error) {
+      await OtpCode.deleteOne({ _id: otp._id });
+      throw error;
+    }
+    return otp;
+  }
+
+  /**
+   * Use up a code. Each wrong guess counts against the code, which stops
+   * working after `maxAttempts` of them.
+   */
+  static async verify(phone, purpose, code) {
+    const to = toInternationalPhone(phone);
+    const otp = await OtpCode.findOne({ phone: to, purpose, consumedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ createdAt: -1 });
+    if (!otp || otp.attempts >= otpConfig.maxAttempts) {
+      throw new OtpError('This code has expired. Request a new one.');
+    }
+
+    const expected = Buffer.from(otp.codeHash, 'hex');
+    const given = Buffer.from(hashCode(to, String(code)), 'hex');
+    if (!crypto.timingSafeEqual(expected, given)) {
+      await OtpCode.updateOne({ _id: otp._id }, { $inc: { attempts: 1 } });
+      throw new OtpError('The code is incorrect');
+    }
+
+    // Claimed atomically, so two requests cannot both use the code
+    const claimed = await OtpCode.findOneAndUpdate(
+      { _id: otp._id, consumedAt: null },
+      { $set: { consumedAt: new Date() } },
+      { new: true }
+    );
+    if (!claimed) throw new OtpError('This code has already been used. Request a new one.');
+    return claimed;
+  }
+}
+
+OtpService.OtpError = OtpError;
+
+module.exports = OtpService;
@@ -0,0 +1,120 @@
+const crypto = require('crypto');
+const User = require('../models/User');
+const Mailer = require('./mailer');
+const SessionService = require('./sessionService');
+const authConfig = require('../config/auth');
+const permissionConfig = require('../config/permissions');
+
+class PasswordResetError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PasswordResetError';
+    this.code = 'INVALID_RESET_TOKEN';
+  }
+}
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const { passwordReset: resetConfig } = authConfig;
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+// Condition matching the user a token was issued to, while it is still valid
+const tokenQuery = (token) => ({
+  'passwordReset.tokenHash': hashToken(token),
+  'passwordReset.expiresAt': { $gt: new Date() }
+});
+
+// Store a new single-use token on the user and return it
+const issueToken = async (user, ttlMs) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  user.passwordReset = {
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+    requestedAt: new Date()
+  };
+  await user.save();
+  return token;
+};
+
+class PasswordResetService {
+  /**
+   * E-mail a single-use reset link to the account with this address.
+   * Resolves to false, without telling the caller why, when there is no such
+   * active account or a link was sent moments ago.
+   */
+  static async request(email) {
+    const user = await User.findOne({ email: String(email).toLowerCase() });
+    if (!user || user.status === 'suspended') return false;
+
+    const lastRequest = user.passwordReset?.requestedAt;
+    if (lastRequest && Date.now() - lastRequest.getTime() < resetConfig.resendCooldownSeconds * 1000) return false;
+
+    const token = await issueToken(user, resetConfig.tokenTtlMinutes * 60 * 1000);
+
+    // A failed send is only logged: the caller must not learn that the account exists
+    return Mailer.send({
+      to: user.email,
+      subject: 'Reset your GroceryTrackBD password',
+      text: `Hello ${user.name},\n\n` +
+        'We received a request to reset the password of your GroceryTrackBD account. ' +
+        `Open this link within ${resetConfig.tokenTtlMinutes} minutes to choose a new password:\n\n` +
+        `${FRONTEND_URL}/reset-password/${token}\n\n` +
+        'The link works once. If you did not ask for it, ignore this e-mail; your password stays the same.'
+    }).then(() => true, (error) => {
+      console.error('Password reset e-mail failed:', error);
+      return false;
+    });
+  }
+
+  /**
+   * E-mail a new staff member the link to choose their first password. Uses
+   * the reset token, so the link works with the reset password page.
+   */
+  static async invite(user, company) {
+    const token = await issueToken(user, permissionConfig.inviteTtlHours * 60 * 60 * 1000);
+    const companyName = company.companyInfo?.companyName || company.name;
+
+    await Mailer.send({
+      to: user.email,
+      subject: `You have been added to ${companyName} on GroceryTrackBD`,
+      text: `Hello ${user.name},\n\n` +
+        `${companyName} added you as staff on GroceryTrackBD. ` +
+        `Open this link within ${permissionConfig.inviteTtlHours} hours to choose your password:\n\n` +
+        `${FRONTEND_URL}/reset-password/${token}\n\n` +
+        `Then log in with ${user.email}.`
+    });
+  }
+
+  /**
+   * Whether a reset link can still be used
+   */
+  static async isValid(token) {
+    return !!(await User.exists(tokenQuery(token)));
+  }
+
+  /**
+   * Set a new password with a reset token. The token is used up first, so it
+   * cannot be redeemed twice, and sessions signed in before now end.
+   */
+  static async reset(token, password) {
+    const user = await User.findOneAndUpdate(tokenQuery(token), { $unset: { passwordReset: 1 } }, { new: true });
+    if (!user) throw new PasswordResetError('This reset link is invalid or has expired. Request a new one.');
+
+    user.password = password;
+    user.passwordChangedAt = new Date();
+    await user.save();
+    await SessionService.revokeAll(user._id, { reason: 'password_changed' });
+
+    Mailer.send({
+      to: user.email,
+      subject: 'Your GroceryTrackBD password was changed',
+      text: `Hello ${user.name},\n\nThe password of your GroceryTrackBD account was just reset. ` +
+        'If this was not you, contact support right away.'
+    }).catch(error => console.error('Password change e-mail failed:', error));
+    return user;
+  }
+}
+
+PasswordResetService.PasswordResetError = PasswordResetError;
+
+module.exports = PasswordResetService;
@@ -0,0 +1,117 @@
+const crypto = require('crypto');
+const paymentConfig = require('../config/payments');
+
+// A provider wraps one mobile-banking gateway:
+//   initiate(request)          create a payment, returns { providerPaymentId, paymentUrl }
+//   fetchStatus(id)            ask the gateway for the outcome, returns { status, transactionId, reason }
+//   parseWebhook(headers, raw) verify and read a callback, returns { eventId, providerPaymentId, status, ... }
+// Statuses are normalised to 'pending', 'completed' and 'failed'.
+
+class PaymentGatewayError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+    this.code = 'PAYMENT_GATEWAY_ERROR';
+  }
+}
+
+class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+    this.code = 'INVALID_WEBHOOK_SIGNATURE';
+  }
+}
+
+const sign = (secret, payload) => crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const signaturesMatch = (expected, received) => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(String(received || ''));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+const requestJson = async (url, options = {}) => {
+  let response;
+  try {
+    response = await fetch(url, {
+      ...options,
+      headers: { 'Content-Type': 'application/json', ...options.headers }
+    });
+  } catch (error) {
+    throw new PaymentGatewayError(`Payment gateway unreachable: ${error.message}`);
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new PaymentGatewayError(body.message || `Payment gateway responded with ${response.status}`);
+  }
+  return body;
+};
+
+// The sandbox approves whatever the shopkeeper clicks, so it is refused in
+// production, and its callbacks are only trusted with a secret set for this install
+const mockSecret = () => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new PaymentGatewayError('The mock payment gateway cannot be used in production');
+  }
+  if (!paymentConfig.mock.webhookSecret) {
+    throw new PaymentGatewayError('MOCK_GATEWAY_SECRET is not set');
+  }
+  return paymentConfig.mock.webhookSecret;
+};
+
+// Local sandbox gateway (mockPaymentGateway.js)
+const mockProvider = {
+  name: 'mock',
+  label: 'Mobile Banking (sandbox)',
+
+  async initiate({ reference, amount, currency, description, returnUrl, callbackUrl }) {
+    mockSecret();
+    const { baseUrl } = paymentConfig.mock;
+    const payment = await requestJson(`${baseUrl}/api/payments`, {
+      method: 'POST',
+      body: JSON.stringify({ reference, amount, currency, description, returnUrl, callbackUrl })
+    });
+    return { providerPaymentId: payment.id, paymentUrl: payment.checkoutUrl };
+  },
+
+  async fetchStatus(providerPaymentId) {
+    const { baseUrl } = paymentConfig.mock;
+    const payment = await requestJson(`${baseUrl}/api/payments/${encodeURIComponent(providerPaymentId)}`);
+    return { status: payment.status, transactionId: payment.transactionId, reason: payment.reason };
+  },
+
+  parseWebhook(headers, rawBody) {
+    const expected = sign(mockSecret(), rawBody || '');
+    if (!signaturesMatch(expected, headers['x-mock-signature'])) throw new WebhookSignatureError();
+
+    const event = JSON.parse(rawBody.toString());
+    return {
+      eventId: event.eventId,
+      providerPaymentId: event.paymentId,
+      status: event.status,
+      transactionId: event.transactionId,
+      reason: event.reason
+    };
+  }
+};
+
+const providers = { mock: mockProvider };
+
+/**
+ * Look up a provider by name (default: the configured one)
+ */
+const getProvider = (name = paymentConfig.provider) => {
+  const provider = providers[name];
+  if (!provider) throw new PaymentGatewayError(`Unknown payment provider: ${name}`);
+  return provider;
+};
+
+/**
+ * Add a gateway, e.g. a real bKash or Nagad integration
+ */
+const registerProvider = (provider) => {
+  providers[provider.name] = provider;
+};
+
+module.exports = { getProvider, registerProvider, sign, PaymentGatewayError, WebhookSignatureError };
@@ -0,0 +1,165 @@
+const Order = require('../models/Order');
+const Payment = require('../models/Payment');
+const RealtimeService = require('./realtimeService');
+const eventBus = require('./eventBus');
+const paymentConfig = require('../config/payments');
+const { getProvider } = require('./paymentProviders');
+const { withTransaction, afterCommit } = require('./transaction');
+
+class PaymentError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = 'PAYMENT_NOT_ALLOWED';
+  }
+}
+
+// Orders that can no longer be paid
+const CLOSED_ORDER_STATUSES = ['rejected', 'cancelled'];
+
+const isExpired = (payment) => payment.expiresAt && payment.expiresAt < new Date();
+
+class PaymentService {
+  /**
+   * Start a mobile-banking payment for an order. An unexpired payment that is
+   * still waiting at the gateway is returned instead of creating a second one,
+   * so a double click cannot charge the shopkeeper twice.
+   */
+  static async initiate(order, user) {
+    if (order.paymentMethod !== 'mobile_banking') {
+      throw new PaymentError('This order is not paid by mobile banking');
+    }
+    if (order.paymentStatus === 'completed') {
+      throw new PaymentError('This order has already been paid');
+    }
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      throw new PaymentError(`A ${order.status} order cannot be paid`);
+    }
+
+    const open = await Payment.findOne({ orderId: order._id, status: 'initiated' }).sort({ createdAt: -1 });
+    if (open && !isExpired(open)) return open;
+    if (open) await this.applyOutcome(open, { status: 'expired', reason: 'Payment window expired' }, user);
+
+    const provider = getProvider();
+    const payment = new Payment({
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      shopkeeperId: order.shopkeeperId,
+      companyId: order.companyId,
+      provider: provider.name,
+      amount: order.finalAmount,
+      currency: paymentConfig.currency,
+      expiresAt: new Date(Date.now() + paymentConfig.expiresAfterMinutes * 60000)
+    });
+
+    const { providerPaymentId, paymentUrl } = await provider.initiate({
+      reference: payment._id.toString(),
+      amount: payment.amount,
+      currency: payment.currency,
+      description: `GroceryTrackBD order ${order.orderNumber}`,
+      returnUrl: `${paymentConfig.returnUrl}/${order.orderNumber}?payment=${payment._id}`,
+      callbackUrl: paymentConfig.callbackUrl(provider.name)
+    });
+    payment.providerPaymentId = providerPaymentId;
+    payment.paymentUrl = paymentUrl;
+    await payment.save();
+
+    return payment;
+  }
+
+  /**
+   * Ask the gateway for the outcome of a payment, e.g. when the shopkeeper
+   * returns from the checkout page before the callback has arrived
+   */
+  static async confirm(payment, user) {
+    if (payment.status !== 'initiated') return payment;
+
+    const result = await getProvider(payment.provider).fetchStatus(payment.providerPaymentId);
+    if (result.status === 'pending') {
+      if (isExpired(payment)) return this.applyOutcome(payment, { status: 'expired', reason: 'Payment window expired' }, user);
+      return payment;
+    }
+    return this.applyOutcome(payment, result, user);
+  }
+
+  /**
+   * Handle a gateway callback. Each callback event is applied once: a
+   * redelivered event is recognised by its id and acknowledged without effect.
+   * The event id is recorded in the same transaction as the outcome, so a
+   * callback that fails is applied when the gateway retries it.
+   */
+  static async handleWebhook(providerName, headers, rawBody) {
+    const provider = getProvider(providerName);
+    const event = provider.parseWebhook(headers, rawBody);
+
+    const payment = await withTransaction(async (session) => {
+      const recorded = await Payment.findOneAndUpdate(
+        {
+          provider: provider.name,
+          providerPaymentId: event.providerPaymentId,
+          'webhookEvents.eventId': { $ne: event.eventId }
+        },
+        { $push: { webhookEvents: { eventId: event.eventId, status: event.status } } },
+        { new: true, session }
+      );
+      if (recorded && event.status !== 'pending') await this.applyOutcome(recorded, event, undefined, session);
+      return recorded;
+    });
+
+    if (!payment) {
+      const known = await Payment.exists({ provider: provider.name, providerPaymentId: event.providerPaymentId });
+      return { duplicate: !!known, unknown: !known };
+    }
+    return { duplicate: false, payment };
+  }
+
+  /**
+   * Record the final outcome of a payment and update its order. The status
+   * change is guarded so the callback and a confirm racing each other only
+   * apply it once. Pass `session` to apply it within a transaction.
+   */
+  static async applyOutcome(payment, { status, transactionId, reason }, actor, session) {
+    const finalStatus = status === 'completed' ? 'completed' : status === 'expired' ? 'expired' : 'failed';
+    const update = {
+      status: finalStatus,
+      transactionId,
+      failureReason: finalStatus === 'completed' ? undefined : reason || 'Payment was not completed'
+    };
+    if (finalStatus === 'completed') update.completedAt = new Date();
+
+    const updated = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: 'initiated' },
+      { $set: update },
+      { new: true, session }
+    );
+    if (!updated) return Payment.findById(payment._id).session(session || null);
+
+    // An expired checkout leaves the order payable; a failure is shown on the order
+    if (finalStatus === 'expired') return updated;
+
+    const order = await Order.findByIdAndUpdate(
+      updated.orderId,
+      { $set: { paymentStatus: finalStatus } },
+      { new: true, session }
+    );
+    if (order) {
+      afterCommit(session, () => {
+        RealtimeService.publishOrder(order, actor);
+        const event = finalStatus === 'completed' ? eventBus.EVENTS.PAYMENT_RECEIVED : eventBus.EVENTS.PAYMENT_FAILED;
+        eventBus.emit(event, { payment: updated, order });
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Payments of an order, newest first
+   */
+  static async getOrderPayments(orderId) {
+    return Payment.find({ orderId }).select('-webhookEvents').sort({ createdAt: -1 });
+  }
+}
+
+PaymentService.PaymentError = PaymentError;
+
+module.exports = PaymentService;
@@ -0,0 +1,21 @@
+// Bangladeshi mobile numbers. Users type them as 01XXXXXXXXX, 8801XXXXXXXXX
+// or +8801XXXXXXXXX; the same rule is used by models/User.js.
+const BD_PHONE_PATTERN = /^(\+880|880|0)?1[3456789]\d{8}$/;
+
+// SMS gateways want +8801XXXXXXXXX
+const toInternationalPhone = (phone) => {
+  const digits = String(phone || '').replace(/\D/g, '');
+  if (digits.startsWith('880')) return `+${digits}`;
+  if (digits.startsWith('0')) return `+88${digits}`;
+  return digits ? `+880${digits}` : null;
+};
+
+// Every way the number may have been stored, for looking a user up by phone
+const phoneVariants = (phone) => {
+  const international = toInternationalPhone(phone);
+  if (!international) return [];
+  const local = international.slice(4); // 1XXXXXXXXX
+  return [international, `880${local}`, `0${local}`, local];
+};
+
+module.exports = { BD_PHONE_PATTERN, toInternationalPhone, phoneVariants };
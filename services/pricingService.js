@@ -0,0 +1,137 @@
+const Product = require('../models/Product');
+const pricingConfig = require('../config/pricing');
+
+class PricingError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PricingError';
+    this.code = 'PRICING_ERROR';
+  }
+}
+
+const round = (amount) => Math.round(amount * 100) / 100;
+
+const lookup = (table, key) => {
+  if (!key || !table) return undefined;
+  const normalized = String(key).trim().toLowerCase();
+  const match = Object.keys(table).find(k => k.toLowerCase() === normalized);
+  return match !== undefined ? table[match] : undefined;
+};
+
+class PricingService {
+  /**
+   * VAT rate that applies to a product category
+   */
+  static getVatRate(category) {
+    const rate = lookup(pricingConfig.vat.categories, category);
+    return rate !== undefined ? rate : pricingConfig.vat.defaultRate;
+  }
+
+  /**
+   * Delivery charge for a destination, before any free-delivery threshold
+   */
+  static getDeliveryCharge(deliveryArea, deliveryCity) {
+    const areaCharge = lookup(pricingConfig.delivery.areas, deliveryArea);
+    if (areaCharge !== undefined) return { charge: areaCharge, rule: `area:${deliveryArea}` };
+
+    const cityCharge = lookup(pricingConfig.delivery.cities, deliveryCity);
+    if (cityCharge !== undefined) return { charge: cityCharge, rule: `city:${deliveryCity}` };
+
+    return { charge: pricingConfig.delivery.defaultCharge, rule: 'default' };
+  }
+
+  /**
+   * Change the quantity of an already priced line, keeping its unit price and VAT rate
+   */
+  static repriceLine(item, quantity) {
+    item.quantity = quantity;
+    item.totalPrice = round((item.unitPrice || 0) * quantity);
+    item.vatAmount = round(item.totalPrice * (item.vatRate || 0));
+    return item;
+  }
+
+  /**
+   * Order amounts for priced lines and a delivery charge
+   */
+  static totals(items, deliveryCharge = 0) {
+    const totalAmount = round(items.reduce((sum, i) => sum + i.totalPrice, 0));
+    const taxAmount = round(items.reduce((sum, i) => sum + i.vatAmount, 0));
+    return { totalAmount, taxAmount, deliveryCharge, finalAmount: round(totalAmount + taxAmount + deliveryCharge) };
+  }
+
+  /**
+   * Price an order from current product data.
+   * Client-sent prices are ignored; every line is re-priced from Product.unitPrice.
+   */
+  static async quote({ companyId, items, deliveryArea, deliveryCity }) {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new PricingError('Order must contain at least one item');
+    }
+
+    const pricedItems = [];
+    const vatByRate = new Map();
+
+    for (const item of items) {
+      const quantity = Number(item.quantity);
+      if (!item.productId || !quantity) {
+        throw new PricingError('Each item must have productId and quantity');
+      }
+
+      const product = await Product.findById(item.productId);
+      if (!product) {
+        throw new PricingError(`Product not found: ${item.productName || item.productId}`);
+      }
+      if (companyId && product.companyId.toString() !== companyId.toString()) {
+        throw new PricingError(`${product.name} is not sold by the selected company`);
+      }
+      if (!product.canOrder(quantity)) {
+        throw new PricingError(`Cannot order ${quantity} of ${product.name}. Available: ${product.stockQuantity}`);
+      }
+
+      const unitPrice = product.unitPrice || 0;
+      const totalPrice = round(unitPrice * quantity);
+      const vatRate = this.getVatRate(product.category);
+      const vatAmount = round(totalPrice * vatRate);
+
+      pricedItems.push({
+        productId: product._id,
+        productName: product.name,
+        category: product.category,
+        quantity,
+        unitPrice,
+        totalPrice,
+        unit: product.unit,
+        vatRate,
+        vatAmount
+      });
+
+      vatByRate.set(vatRate, round((vatByRate.get(vatRate) || 0) + vatAmount));
+    }
+
+    const totalAmount = round(pricedItems.reduce((sum, i) => sum + i.totalPrice, 0));
+    const taxAmount = round(pricedItems.reduce((sum, i) => sum + i.vatAmount, 0));
+
+    const delivery = this.getDeliveryCharge(deliveryArea, deliveryCity);
+    const threshold = pricingConfig.delivery.freeDeliveryThreshold;
+    const freeDelivery = threshold !== null && totalAmount >= threshold;
+    const deliveryCharge = freeDelivery ? 0 : delivery.charge;
+
+    return {
+      items: pricedItems,
+      totalAmount,
+      taxAmount,
+      deliveryCharge,
+      finalAmount: round(totalAmount + taxAmount + deliveryCharge),
+      breakdown: {
+        vat: Array.from(vatByRate.entries()).map(([rate, amount]) => ({ rate, amount })),
+        deliveryRule: freeDelivery ? 'free_delivery_threshold' : delivery.rule,
+        freeDeliveryThreshold: threshold
+      },
+      quotedAt: new Date()
+    };
+  }
+}
+
+PricingService.PricingError = PricingError;
+
+module.exports = PricingService;
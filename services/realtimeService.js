@@ -0,0 +1,147 @@
+// Server-sent events hub: keeps the open event streams of each user and
+// pushes notifications, order and delivery updates to them.
+// Connections live in this process only; with several server instances each
+// user receives the events published by the instance they are connected to.
+
+const { toActor } = require('./actors');
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// userId -> Set of open responses (one per browser tab)
+const clients = new Map();
+
+// session id -> Set of open responses, closed when the session ends
+const sessionStreams = new Map();
+
+const untrack = (map, key, res) => {
+  const connections = map.get(key);
+  if (!connections) return;
+  connections.delete(res);
+  if (connections.size === 0) map.delete(key);
+};
+
+const track = (map, key, res) => {
+  if (!map.has(key)) map.set(key, new Set());
+  map.get(key).add(res);
+};
+
+const idOf = (ref) => (ref && ref._id ? ref._id : ref)?.toString();
+
+const write = (res, chunk) => {
+  res.write(chunk);
+  // compression() buffers responses until flushed
+  if (typeof res.flush === 'function') res.flush();
+};
+
+class RealtimeService {
+  /**
+   * Turn the request into an event stream for the authenticated user
+   */
+  static connect(req, res) {
+    const userId = req.user._id.toString();
+    const sessionId = req.sessionId?.toString();
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    write(res, `event: connected\ndata: ${JSON.stringify({ userId })}\n\n`);
+
+    track(clients, userId, res);
+    if (sessionId) track(sessionStreams, sessionId, res);
+
+    const heartbeat = setInterval(() => write(res, ': ping\n\n'), HEARTBEAT_INTERVAL);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      untrack(clients, userId, res);
+      if (sessionId) untrack(sessionStreams, sessionId, res);
+    });
+  }
+
+  /**
+   * End the open streams of sessions that were signed out or revoked, so they
+   * stop receiving events. Only streams on this instance are closed.
+   */
+  static closeSessions(sessionIds) {
+    for (const sessionId of sessionIds.map(idOf).filter(Boolean)) {
+      for (const res of sessionStreams.get(sessionId) || []) {
+        res.end();
+      }
+      sessionStreams.delete(sessionId);
+    }
+  }
+
+  /**
+   * Send an event to every open stream of the given users
+   */
+  static publish(userIds, type, payload) {
+    const message = `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+    const recipients = new Set(userIds.map(idOf).filter(Boolean));
+
+    for (const userId of recipients) {
+      for (const res of clients.get(userId) || []) {
+        try {
+          write(res, message);
+        } catch (error) {
+          console.error('Realtime publish error:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Tell the parties of an order that its status changed
+   */
+  static publishOrder(order, actor, extraRecipients = []) {
+    this.publish(
+      [order.shopkeeperId, order.companyId, order.deliveryWorkerId, ...extraRecipients],
+      'order',
+      {
+        orderId: idOf(order),
+        orderNumber: order.orderNumber,
+        status: order.status,
+        actor: actor ? toActor(actor) : null,
+        updatedAt: new Date()
+      }
+    );
+  }
+
+  /**
+   * Tell the parties of a delivery that its status changed
+   */
+  static publishDelivery(delivery, actor, extraRecipients = []) {
+    this.publish(
+      [delivery.shopkeeperId, delivery.companyId, delivery.deliveryWorkerId, ...extraRecipients],
+      'delivery',
+      {
+        deliveryId: idOf(delivery),
+        deliveryNumber: delivery.deliveryNumber,
+        orderId: idOf(delivery.orderId),
+        status: delivery.status,
+        actor: actor ? toActor(actor) : null,
+        updatedAt: new Date()
+      }
+    );
+  }
+
+  /**
+   * Push a newly created notification to its recipient
+   */
+  static publishNotification(notification) {
+    this.publish([notification.recipientId], 'notification', {
+      id: idOf(notification),
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      priority: notification.priority,
+      relatedOrderId: idOf(notification.relatedOrderId),
+      relatedDeliveryId: idOf(notification.relatedDeliveryId),
+      createdAt: notification.createdAt
+    });
+  }
+}
+
+module.exports = RealtimeService;
@@ -0,0 +1,330 @@
+const Product = require('../models/Product');
+const RecurringOrder = require('../models/RecurringOrder');
+const User = require('../models/User');
+const OrderService = require('./orderService');
+const eventBus = require('./eventBus');
+const recurringConfig = require('../config/recurringOrders');
+
+class RecurringOrderError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RecurringOrderError';
+    this.code = 'INVALID_RECURRING_ORDER';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OFFSET_MS = recurringConfig.utcOffsetMinutes * 60 * 1000;
+const FREQUENCIES = ['weekly', 'interval'];
+const DETAIL_FIELDS = ['deliveryAddress', 'deliveryArea', 'deliveryCity', 'paymentMethod', 'deliveryInstructions', 'notes'];
+
+const minutesOf = (timeOfDay = '09:00') => {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Midnight, shop time, of the day `date` falls on, as a UTC timestamp
+const localMidnight = (date) => Math.floor((date.getTime() + OFFSET_MS) / DAY_MS) * DAY_MS - OFFSET_MS;
+
+const sameInstant = (a, b) => new Date(a).getTime() === new Date(b).getTime();
+
+const formatTaka = (amount) => `৳${Number(amount || 0).toFixed(2)}`;
+
+/**
+ * Check a new or edited schedule and return the fields to store
+ */
+const normalizeSchedule = (schedule = {}) => {
+  const { frequency, daysOfWeek, intervalDays, startDate, timeOfDay = '09:00' } = schedule;
+  if (!FREQUENCIES.includes(frequency)) throw new RecurringOrderError('Frequency must be weekly or interval');
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(timeOfDay)) throw new RecurringOrderError('Time must be HH:mm');
+
+  if (frequency === 'weekly') {
+    const days = [...new Set((daysOfWeek || []).map(Number))].filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+    if (!days.length) throw new RecurringOrderError('Pick at least one day of the week');
+    return { frequency, daysOfWeek: days.sort(), timeOfDay };
+  }
+
+  const every = Number(intervalDays);
+  const { minIntervalDays, maxIntervalDays } = recurringConfig;
+  if (!Number.isInteger(every) || every < minIntervalDays || every > maxIntervalDays) {
+    throw new RecurringOrderError(`Repeat every ${minIntervalDays} to ${maxIntervalDays} days`);
+  }
+  const start = startDate ? new Date(startDate) : new Date();
+  if (Number.isNaN(start.getTime())) throw new RecurringOrderError('Invalid start date');
+  return { frequency, intervalDays: every, startDate: new Date(localMidnight(start)), timeOfDay };
+};
+
+class RecurringOrderService {
+  /**
+   * First occurrence of the schedule strictly after `after`
+   */
+  static nextOccurrence(schedule, after = new Date()) {
+    const timeMs = minutesOf(schedule.timeOfDay) * 60 * 1000;
+
+    if (schedule.frequency === 'weekly') {
+      const today = localMidnight(after);
+      for (let day = 0; day <= 7; day += 1) {
+        const midnight = today + day * DAY_MS;
+        const weekday = new Date(midnight + OFFSET_MS).getUTCDay();
+        const candidate = midnight + timeMs;
+        if (schedule.daysOfWeek.includes(weekday) && candidate > after.getTime()) return new Date(candidate);
+      }
+      return null;
+    }
+
+    const periodMs = schedule.intervalDays * DAY_MS;
+    const first = localMidnight(new Date(schedule.startDate)) + timeMs;
+    if (first > after.getTime()) return new Date(first);
+    const periods = Math.floor((after.getTime() - first) / periodMs) + 1;
+    return new Date(first + periods * periodMs);
+  }
+
+  /**
+   * The next `count` occurrences of an active recurring order, each marked
+   * when the shopkeeper skipped it
+   */
+  static upcoming(recurring, count = recurringConfig.upcomingCount) {
+    if (recurring.status !== 'active' || !recurring.nextRunAt) return [];
+    const occurrences = [];
+    let at = recurring.nextRunAt;
+    while (at && occurrences.length < count) {
+      occurrences.push({
+        scheduledFor: at,
+        skipped: recurring.skippedOccurrences.some(skipped => sameInstant(skipped, at))
+      });
+      at = this.nextOccurrence(recurring.schedule, at);
+    }
+    return occurrences;
+  }
+
+  /**
+   * Saved items after checking each one is still sold by the company
+   */
+  static async validateItems(companyId, items) {
+    if (!Array.isArray(items) || !items.length) throw new RecurringOrderError('Add at least one item');
+
+    const saved = [];
+    for (const item of items) {
+      const quantity = Number(item.quantity);
+      if (!item.productId || !Number.isInteger(quantity) || quantity < 1) {
+        throw new RecurringOrderError('Each item needs a product and a whole quantity');
+      }
+      const product = await Product.findById(item.productId);
+      if (!product || !product.isActive || product.companyId.toString() !== companyId.toString()) {
+        throw new RecurringOrderError(`${item.productName || 'A product'} is not sold by the selected company`);
+      }
+      saved.push({ productId: product._id, productName: product.name, quantity, unit: product.unit, lastUnitPrice: product.unitPrice });
+    }
+    return saved;
+  }
+
+  static async create(shopkeeper, data) {
+    const company = await User.findById(data.companyId);
+    if (!company || !company.isCompanyAccount() || company.status !== 'active') {
+      throw new RecurringOrderError('Invalid or inactive company');
+    }
+
+    const recurring = new RecurringOrder({
+      shopkeeperId: shopkeeper._id,
+      companyId: company._id,
+      name: data.name,
+      items: await this.validateItems(company._id, data.items),
+      schedule: normalizeSchedule(data.schedule)
+    });
+    DETAIL_FIELDS.forEach((field) => {
+      if (data[field] !== undefined) recurring[field] = data[field];
+    });
+    recurring.nextRunAt = this.nextOccurrence(recurring.schedule);
+    await recurring.save();
+    return recurring;
+  }
+
+  /**
+   * Change the name, items, delivery details or schedule. A new schedule
+   * starts over from now and drops skipped occurrences.
+   */
+  static async update(recurring, data) {
+    if (data.name !== undefined) recurring.name = data.name;
+    if (data.items !== undefined) recurring.items = await this.validateItems(recurring.companyId, data.items);
+    DETAIL_FIELDS.forEach((field) => {
+      if (data[field] !== undefined) recurring[field] = data[field];
+    });
+    if (data.schedule !== undefined) {
+      recurring.schedule = normalizeSchedule(data.schedule);
+      recurring.skippedOccurrences = [];
+      if (recurring.status === 'active') recurring.nextRunAt = this.nextOccurrence(recurring.schedule);
+    }
+    await recurring.save();
+    return recurring;
+  }
+
+  static async pause(recurring) {
+    recurring.status = 'paused';
+    recurring.nextRunAt = undefined;
+    recurring.skippedOccurrences = [];
+    await recurring.save();
+    return recurring;
+  }
+
+  static async resume(recurring) {
+    recurring.status = 'active';
+    recurring.nextRunAt = this.nextOccurrence(recurring.schedule);
+    await recurring.save();
+    return recurring;
+  }
+
+  /**
+   * Skip one upcoming occurrence, or place it again when `skip` is false
+   */
+  static async setSkipped(recurring, occurrence, skip = true) {
+    const at = new Date(occurrence);
+    if (!this.upcoming(recurring).some(entry => sameInstant(entry.scheduledFor, at))) {
+      throw new RecurringOrderError('Only upcoming occurrences can be skipped');
+    }
+    recurring.skippedOccurrences = recurring.skippedOccurrences.filter(skipped => !sameInstant(skipped, at));
+    if (skip) recurring.skippedOccurrences.push(at);
+    await recurring.save();
+    return recurring;
+  }
+
+  /**
+   * Order lines for today's stock and prices. Unavailable products are
+   * dropped and quantities are fitted to the product's limits; every such
+   * adjustment and price change is described in `changes`.
+   */
+  static async prepareItems(recurring) {
+    const items = [];
+    const changes = [];
+
+    const lines = await OrderService.checkLines(recurring.companyId, recurring.items.map(item => ({
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.lastUnitPrice
+    })));
+
+    lines.forEach((line, index) => {
+      if (line.status === 'inactive') {
+        changes.push(`${line.productName} is no longer available and was left out`);
+        return;
+      }
+      if (line.status === 'out_of_stock') {
+        changes.push(`${line.productName} is out of stock and was left out`);
+        return;
+      }
+
+      if (line.quantity < line.previousQuantity) {
+        changes.push(`${line.productName} reduced from ${line.previousQuantity} to ${line.quantity} ${line.unit} (only ${line.quantity} available)`);
+      } else if (line.quantity > line.previousQuantity) {
+        changes.push(`${line.productName} raised from ${line.previousQuantity} to the minimum of ${line.quantity} ${line.unit}`);
+      }
+      if (line.priceChanged) {
+        changes.push(`${line.productName} price changed from ${formatTaka(line.previousUnitPrice)} to ${formatTaka(line.unitPrice)} per ${line.unit}`);
+      }
+
+      const item = recurring.items[index];
+      item.productName = line.productName;
+      item.lastUnitPrice = line.unitPrice;
+      items.push({ productId: line.productId, productName: line.productName, quantity: line.quantity });
+    });
+
+    return { items, changes };
+  }
+
+  /**
+   * Place the order for one occurrence, or record why it was skipped or failed
+   */
+  static async run(recurring, scheduledFor) {
+    const record = (run) => {
+      recurring.runs.unshift({ scheduledFor, ...run });
+      recurring.runs = recurring.runs.slice(0, recurringConfig.maxRunsKept);
+      recurring.lastRunAt = new Date();
+    };
+
+    if (recurring.skippedOccurrences.some(skipped => sameInstant(skipped, scheduledFor))) {
+      recurring.skippedOccurrences = recurring.skippedOccurrences.filter(skipped => !sameInstant(skipped, scheduledFor));
+      record({ status: 'skipped', message: 'Skipped by the shopkeeper' });
+      await recurring.save();
+      return null;
+    }
+
+    const shopkeeper = await User.findById(recurring.shopkeeperId);
+    const { items, changes } = await this.prepareItems(recurring);
+
+    let order = null;
+    let failure = null;
+    if (!shopkeeper || shopkeeper.status !== 'active') {
+      failure = 'The shop account is not active';
+    } else if (!items.length) {
+      failure = 'None of the items can be ordered right now';
+    } else {
+      const details = Object.fromEntries(DETAIL_FIELDS.map(field => [field, recurring[field]]));
+      try {
+        order = await OrderService.place(shopkeeper, { ...details, companyId: recurring.companyId, items }, {
+          note: `Created from recurring order "${recurring.name}"`,
+          recurringOrderId: recurring._id
+        });
+      } catch (error) {
+        if (!['INVALID_ORDER', 'PRICING_ERROR', 'INSUFFICIENT_STOCK'].includes(error.code)) throw error;
+        failure = error.message;
+      }
+    }
+
+    if (order) {
+      record({ status: 'created', orderId: order._id, orderNumber: order.orderNumber, changes });
+    } else {
+      record({ status: 'failed', changes, message: failure });
+    }
+    await recurring.save();
+
+    if (order) {
+      eventBus.emit(eventBus.EVENTS.RECURRING_ORDER_PLACED, { recurringOrder: recurring, order, changes });
+    } else {
+      eventBus.emit(eventBus.EVENTS.RECURRING_ORDER_FAILED, { recurringOrder: recurring, reason: failure, changes });
+    }
+    return order;
+  }
+
+  /**
+   * Run every active recurring order that is due. Each one is claimed by
+   * moving its nextRunAt forward first, so overlapping runs place it once.
+   * Occurrences missed while the server was down are not caught up; only
+   * the latest one runs.
+   */
+  static async processDue(now = new Date()) {
+    const due = await RecurringOrder.find({ status: 'active', nextRunAt: { $lte: now } });
+
+    let placed = 0;
+    for (const candidate of due) {
+      const scheduledFor = candidate.nextRunAt;
+      const recurring = await RecurringOrder.findOneAndUpdate(
+        { _id: candidate._id, status: 'active', nextRunAt: scheduledFor },
+        { $set: { nextRunAt: this.nextOccurrence(candidate.schedule, now) } },
+        { new: true }
+      );
+      if (!recurring) continue;
+
+      try {
+        if (await this.run(recurring, scheduledFor)) placed += 1;
+      } catch (error) {
+        console.error(`Recurring order ${recurring._id} failed:`, error);
+      }
+    }
+    return placed;
+  }
+
+  /**
+   * Run processDue every `checkIntervalMinutes`. Call once at startup.
+   */
+  static startScheduler() {
+    const timer = setInterval(() => {
+      this.processDue().catch(error => console.error('Recurring order check failed:', error));
+    }, recurringConfig.checkIntervalMinutes * 60 * 1000);
+    timer.unref();
+    return timer;
+  }
+}
+
+RecurringOrderService.RecurringOrderError = RecurringOrderError;
+
+module.exports = RecurringOrderService;
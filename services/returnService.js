@@ -0,0 +1,383 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const sharp = require('sharp');
+const CreditNote = require('../models/CreditNote');
+const Delivery = require('../models/Delivery');
+const ReturnRequest = require('../models/ReturnRequest');
+const User = require('../models/User');
+const AutoAssignmentService = require('./autoAssignmentService');
+const DeliveryLifecycleService = require('./deliveryLifecycleService');
+const InventoryService = require('./inventoryService');
+const PricingService = require('./pricingService');
+const RealtimeService = require('./realtimeService');
+const eventBus = require('./eventBus');
+const { toActor, recordedBy } = require('./actors');
+const { withTransaction, afterCommit } = require('./transaction');
+const returnConfig = require('../config/returns');
+const uploadConfig = require('../config/uploads');
+
+class ReturnRequestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ReturnRequestError';
+    this.code = 'INVALID_RETURN';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Returns that still hold on to their quantities
+const ACTIVE_STATUSES = ['requested', 'approved', 'picked_up', 'completed'];
+
+const { returns: photoConfig } = uploadConfig;
+const photoDir = path.join(uploadConfig.dir, photoConfig.subdir);
+const publicPath = (fileName) => `/uploads/${photoConfig.subdir}/${fileName}`;
+
+const addTimeline = (returnRequest, status, note, actor) => {
+  returnRequest.timeline.push({ status, timestamp: new Date(), note, actor: toActor(actor) });
+};
+
+/**
+ * Quantity of each product of the order already taken by other returns
+ */
+const returnedQuantities = async (order) => {
+  const previous = await ReturnRequest.find({ orderId: order._id, status: { $in: ACTIVE_STATUSES } }).select('items');
+  const returned = new Map();
+  previous.forEach(({ items }) => items.forEach(({ productId, quantity }) => {
+    const key = productId.toString();
+    returned.set(key, (returned.get(key) || 0) + quantity);
+  }));
+  return returned;
+};
+
+/**
+ * Resize and store the photos of a return, returning their public paths
+ */
+const savePhotos = async (returnNumber, files) => {
+  const images = [];
+  for (const file of files) {
+    if (!photoConfig.photoTypes.includes(file.mimetype)) {
+      throw new ReturnRequestError('Photos must be JPEG, PNG or WebP images');
+    }
+    try {
+      const image = sharp(file.buffer).rotate();
+      await image.metadata();
+      images.push(image);
+    } catch (error) {
+      throw new ReturnRequestError('A photo is not a valid image');
+    }
+  }
+  if (!images.length) return [];
+
+  await fs.mkdir(photoDir, { recursive: true });
+  const { photoMaxDimension, thumbnailSize } = photoConfig;
+  const stored = [];
+  for (const image of images) {
+    const baseName = `${returnNumber}_${crypto.randomBytes(8).toString('hex')}`;
+    await image.clone()
+      .resize(photoMaxDimension, photoMaxDimension, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toFile(path.join(photoDir, `${baseName}.jpg`));
+    await image.clone()
+      .resize(thumbnailSize, thumbnailSize, { fit: 'cover' })
+      .jpeg({ quality: 70 })
+      .toFile(path.join(photoDir, `${baseName}_thumb.jpg`));
+    stored.push({ path: publicPath(`${baseName}.jpg`), thumbnail: publicPath(`${baseName}_thumb.jpg`) });
+  }
+  return stored;
+};
+
+class ReturnService {
+  /**
+   * Quantities of a delivered order the shopkeeper can still send back,
+   * per product, and the last day they can
+   */
+  static async returnable(order) {
+    const returned = await returnedQuantities(order);
+    const deliveredAt = order.deliveredAt || order.updatedAt;
+    return {
+      returnBy: new Date(new Date(deliveredAt).getTime() + returnConfig.windowDays * DAY_MS),
+      items: order.items
+        .filter(item => item.quantity > 0)
+        .map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          unit: item.unit,
+          delivered: item.quantity,
+          returnable: Math.max(item.quantity - (returned.get(item.productId.toString()) || 0), 0)
+        }))
+    };
+  }
+
+  /**
+   * Open a return for lines of a delivered order. `lines` is
+   * [{ productId, quantity }]; `photos` are multer files.
+   */
+  static async request(order, shopkeeper, { lines, reason, description }, photos = []) {
+    if (order.status !== 'delivered') throw new ReturnRequestError('Only delivered orders can be returned');
+    if (!returnConfig.reasons.includes(reason)) throw new ReturnRequestError('Pick a reason for the return');
+    if (!Array.isArray(lines) || !lines.length) throw new ReturnRequestError('Pick at least one item to return');
+    if (photos.length > photoConfig.maxPhotos) {
+      throw new ReturnRequestError(`Attach at most ${photoConfig.maxPhotos} photos`);
+    }
+
+    const { returnBy, items: returnable } = await this.returnable(order);
+    if (returnBy < new Date()) {
+      throw new ReturnRequestError(`Returns must be requested within ${returnConfig.windowDays} days of delivery`);
+    }
+
+    const requested = new Map();
+    for (const line of lines) {
+      const key = line.productId?.toString();
+      const quantity = Number(line.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1) throw new ReturnRequestError('Quantities must be whole numbers of at least 1');
+      requested.set(key, (requested.get(key) || 0) + quantity);
+    }
+
+    const items = [...requested].map(([productId, quantity]) => {
+      const available = returnable.find(item => item.productId.toString() === productId);
+      if (!available) throw new ReturnRequestError('The return lists a product that was not delivered with the order');
+      if (quantity > available.returnable) {
+        throw new ReturnRequestError(`At most ${available.returnable} ${available.unit} of ${available.productName} can be returned`);
+      }
+      const orderItem = order.items.find(item => item.productId.toString() === productId);
+      const priced = PricingService.repriceLine({ unitPrice: orderItem.unitPrice, vatRate: orderItem.vatRate }, quantity);
+      return {
+        productId: orderItem.productId,
+        productName: orderItem.productName,
+        unit: orderItem.unit,
+        quantity,
+        unitPrice: orderItem.unitPrice,
+        vatRate: orderItem.vatRate || 0,
+        amount: PricingService.totals([priced]).finalAmount
+      };
+    });
+
+    const returnNumber = `RET-${(await ReturnRequest.countDocuments() + 1).toString().padStart(4, '0')}`;
+    const returnRequest = new ReturnRequest({
+      returnNumber,
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      shopkeeperId: order.shopkeeperId,
+      companyId: order.companyId,
+      items,
+      amount: PricingService.totals(items.map(item => ({ totalPrice: item.amount, vatAmount: 0 }))).finalAmount,
+      reason,
+      description: description || '',
+      status: 'requested'
+    });
+    addTimeline(returnRequest, 'requested', `Return requested: ${reason.replace('_', ' ')}`, shopkeeper);
+    await returnRequest.validate();
+
+    returnRequest.photos = await savePhotos(returnNumber, photos);
+    await returnRequest.save();
+
+    eventBus.emit(eventBus.EVENTS.RETURN_REQUESTED, { returnRequest, actor: shopkeeper });
+    return returnRequest;
+  }
+
+  /**
+   * The worker for a pickup: the one chosen by the company, or the best
+   * eligible worker for the shop's area
+   */
+  static async pickWorker(order, deliveryWorkerId) {
+    if (deliveryWorkerId) {
+      const worker = await User.findOne({ _id: deliveryWorkerId, role: 'delivery_worker', status: 'active' });
+      if (!worker) throw new ReturnRequestError('Delivery worker not found');
+      return worker;
+    }
+    const [best] = (await AutoAssignmentService.scoreWorkers(order)).filter(candidate => candidate.eligible);
+    if (!best) throw new ReturnRequestError(`No available delivery worker covers ${order.deliveryArea}; pick one`);
+    return User.findById(best.worker._id);
+  }
+
+  /**
+   * Accept a return and send a delivery worker to pick the goods up from the
+   * shop and bring them to the company
+   */
+  static async approve(returnRequest, order, actor, { deliveryWorkerId, note } = {}) {
+    if (returnRequest.status !== 'requested') throw new ReturnRequestError(`The return is already ${returnRequest.status}`);
+
+    const worker = await this.pickWorker(order, deliveryWorkerId);
+    const delivery = await DeliveryLifecycleService.buildDelivery(order, worker);
+    Object.assign(delivery, {
+      kind: 'return_pickup',
+      returnRequestId: returnRequest._id,
+      items: returnRequest.items.map(({ productId, productName, quantity, unit }) => ({ productId, productName, quantity, unit })),
+      // The trip runs backwards: from the shop to the company
+      pickupLocation: delivery.deliveryLocation,
+      deliveryLocation: delivery.pickupLocation,
+      deliveryInstructions: `Return pickup ${returnRequest.returnNumber}: collect the goods from the shop and bring them to the company`,
+      amountToCollect: 0
+    });
+
+    await withTransaction(async (session) => {
+      await delivery.save({ session });
+      Object.assign(returnRequest, {
+        status: 'approved',
+        decisionNote: note,
+        decidedBy: recordedBy(actor),
+        decidedAt: new Date(),
+        pickupDeliveryId: delivery._id
+      });
+      addTimeline(returnRequest, 'approved', `Approved; ${worker.name} will pick the goods up (${delivery.deliveryNumber})`, actor);
+      await returnRequest.save({ session });
+    });
+
+    RealtimeService.publishDelivery(delivery, actor);
+    eventBus.emit(eventBus.EVENTS.RETURN_APPROVED, { returnRequest, delivery, worker, actor });
+    return { returnRequest, delivery };
+  }
+
+  /**
+   * Turn a return down. The shopkeeper is told why.
+   */
+  static async reject(returnRequest, actor, note) {
+    if (returnRequest.status !== 'requested') throw new ReturnRequestError(`The return is already ${returnRequest.status}`);
+    if (!note || !note.trim()) throw new ReturnRequestError('Give a reason for rejecting the return');
+
+    Object.assign(returnRequest, {
+      status: 'rejected',
+      decisionNote: note.trim(),
+      decidedBy: recordedBy(actor),
+      decidedAt: new Date()
+    });
+    addTimeline(returnRequest, 'rejected', note.trim(), actor);
+    await returnRequest.save();
+
+    eventBus.emit(eventBus.EVENTS.RETURN_REJECTED, { returnRequest, actor });
+    return returnRequest;
+  }
+
+  /**
+   * Withdraw a return the company has not decided on yet
+   */
+  static async cancel(returnRequest, actor) {
+    if (returnRequest.status !== 'requested') {
+      throw new ReturnRequestError('Only returns waiting for the company can be cancelled');
+    }
+    returnRequest.status = 'cancelled';
+    addTimeline(returnRequest, 'cancelled', 'Cancelled by the shop', actor);
+    await returnRequest.save();
+    return returnRequest;
+  }
+
+  /**
+   * Send another (or the same) worker after a failed pickup
+   */
+  static async reassignPickup(returnRequest, order, actor, deliveryWorkerId) {
+    const delivery = await Delivery.findById(returnRequest.pickupDeliveryId);
+    if (!['approved', 'picked_up'].includes(returnRequest.status) || !delivery || !DeliveryLifecycleService.canReassign(delivery)) {
+      throw new ReturnRequestError('Only a failed pickup can be sent again');
+    }
+
+    const worker = await this.pickWorker(order, deliveryWorkerId);
+    const previousWorkerId = delivery.deliveryWorkerId;
+    Object.assign(delivery, {
+      deliveryWorkerId: worker._id,
+      status: 'assigned',
+      assignedAt: new Date(),
+      pickedUpAt: undefined,
+      inTransitAt: undefined,
+      failureReason: undefined,
+      reattemptCount: (delivery.reattemptCount || 0) + 1
+    });
+
+    await withTransaction(async (session) => {
+      await delivery.save({ session });
+      addTimeline(returnRequest, returnRequest.status, `Pickup sent again with ${worker.name}`, actor);
+      await returnRequest.save({ session });
+    });
+
+    RealtimeService.publishDelivery(delivery, actor, [previousWorkerId]);
+    eventBus.emit(eventBus.EVENTS.RETURN_APPROVED, { returnRequest, delivery, worker, actor });
+    return { returnRequest, delivery };
+  }
+
+  /**
+   * The goods reached the company: put them back in stock and credit the
+   * shopkeeper with what they paid for them. Runs in the caller's transaction.
+   */
+  static async complete(returnRequest, actor, session) {
+    if (!['approved', 'picked_up'].includes(returnRequest.status)) return null;
+
+    await InventoryService.restockReturn(returnRequest, actor, session);
+
+    const creditNoteNumber = `CN-${(await CreditNote.countDocuments().session(session) + 1).toString().padStart(4, '0')}`;
+    const [creditNote] = await CreditNote.create([{
+      creditNoteNumber,
+      shopkeeperId: returnRequest.shopkeeperId,
+      companyId: returnRequest.companyId,
+      returnRequestId: returnRequest._id,
+      returnNumber: returnRequest.returnNumber,
+      orderId: returnRequest.orderId,
+      orderNumber: returnRequest.orderNumber,
+      amount: returnRequest.amount,
+      items: returnRequest.items.map(({ productName, unit, quantity, amount }) => ({ productName, unit, quantity, amount }))
+    }], { session });
+
+    Object.assign(returnRequest, { status: 'completed', creditNoteId: creditNote._id, completedAt: new Date() });
+    addTimeline(returnRequest, 'completed', `Goods restocked; credit note ${creditNoteNumber} issued for ৳${returnRequest.amount}`, actor);
+    await returnRequest.save({ session });
+
+    afterCommit(session, () => eventBus.emit(eventBus.EVENTS.RETURN_COMPLETED, { returnRequest, creditNote, actor }));
+    return creditNote;
+  }
+
+  /**
+   * Move the return along with its pickup delivery. Called by
+   * services/deliveryLifecycleService.js in the transaction that changes the
+   * delivery status, so the return never ends up half done.
+   */
+  static async followPickup(delivery, actor, session) {
+    const returnRequest = await ReturnRequest.findById(delivery.returnRequestId).session(session);
+    if (!returnRequest) return;
+
+    switch (delivery.status) {
+      case 'picked_up':
+        if (returnRequest.status !== 'approved') return;
+        returnRequest.status = 'picked_up';
+        addTimeline(returnRequest, 'picked_up', `Goods collected from the shop by ${actor?.name || 'the delivery worker'}`, actor);
+        await returnRequest.save({ session });
+        return;
+      case 'delivered':
+        await this.complete(returnRequest, actor, session);
+        return;
+      case 'failed':
+      case 'returned': {
+        if (!['approved', 'picked_up'].includes(returnRequest.status)) return;
+        const reason = delivery.failureReason ? `: ${delivery.failureReason}` : '';
+        // Goods collected before the pickup went wrong are no longer at the shop,
+        // so the return stays picked up; either way the company sends the pickup again
+        const note = returnRequest.status === 'picked_up'
+          ? `Pickup ${delivery.status} after the goods were collected${reason}; they have not reached the company yet`
+          : `Pickup failed${reason}`;
+        addTimeline(returnRequest, returnRequest.status, note, actor);
+        await returnRequest.save({ session });
+        afterCommit(session, () => eventBus.emit(eventBus.EVENTS.RETURN_PICKUP_FAILED, { returnRequest, delivery, actor }));
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Mark a credit note as paid out or deducted
+   */
+  static async settleCreditNote(creditNote, actor, note) {
+    if (creditNote.status !== 'issued') throw new ReturnRequestError('The credit note is already settled');
+    Object.assign(creditNote, {
+      status: 'settled',
+      settledAt: new Date(),
+      settledBy: recordedBy(actor),
+      settlementNote: note
+    });
+    await creditNote.save();
+    return creditNote;
+  }
+}
+
+ReturnService.ReturnRequestError = ReturnRequestError;
+
+module.exports = ReturnService;
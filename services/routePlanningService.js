@@ -0,0 +1,214 @@
+const Delivery = require('../models/Delivery');
+const routingConfig = require('../config/routing');
+
+// Deliveries that still have to be driven to
+const OPEN_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+
+const EARTH_RADIUS_KM = 6371;
+
+const round = (value, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const lookup = (table, key) => {
+  if (!key) return undefined;
+  return table[String(key).trim().toLowerCase()];
+};
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+/**
+ * Approximate road distance in km between two points
+ */
+const distanceKm = (a, b) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h)) * routingConfig.roadFactor;
+};
+
+const travelMinutes = (km) => (km / routingConfig.averageSpeedKmh) * 60;
+
+// Length of an open path that starts at `start` and visits `points` in `order`
+const pathLength = (start, points, order) => {
+  let total = 0;
+  let previous = start;
+  for (const index of order) {
+    total += distanceKm(previous, points[index]);
+    previous = points[index];
+  }
+  return total;
+};
+
+const nearestNeighbour = (start, points) => {
+  const remaining = new Set(points.map((_, index) => index));
+  const order = [];
+  let current = start;
+
+  while (remaining.size) {
+    let best = null;
+    let bestDistance = Infinity;
+    for (const index of remaining) {
+      const distance = distanceKm(current, points[index]);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+    current = points[best];
+  }
+  return order;
+};
+
+// Reverse segments of the path while that makes it shorter
+const twoOpt = (start, points, order) => {
+  let route = order;
+  let bestLength = pathLength(start, points, route);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const candidate = [...route.slice(0, i), ...route.slice(i, k + 1).reverse(), ...route.slice(k + 1)];
+        const length = pathLength(start, points, candidate);
+        if (length + 1e-9 < bestLength) {
+          route = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+  }
+  return route;
+};
+
+// City of a delivery: the shopkeeper's city, else the last part of the address
+const deliveryCity = (delivery) => {
+  if (delivery.shopkeeperId?.city) return delivery.shopkeeperId.city;
+  const parts = String(delivery.deliveryLocation || '').split(',');
+  return parts[parts.length - 1];
+};
+
+const endOfDay = (date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+class RoutePlanningService {
+  /**
+   * Coordinates of an area, falling back to its city. Null when neither is known.
+   */
+  static geocode(area, city) {
+    return lookup(routingConfig.areas, area) || lookup(routingConfig.cities, city) || null;
+  }
+
+  /**
+   * Order stops for the shortest open route from `start`: nearest neighbour
+   * to get a first route, then 2-opt to remove crossings. Returns stop indexes.
+   */
+  static orderStops(start, points) {
+    if (points.length < 2) return points.map((_, index) => index);
+    return twoOpt(start, points, nearestNeighbour(start, points));
+  }
+
+  /**
+   * Plan the route for a worker's open deliveries assigned up to `date`,
+   * starting from `startArea` (default: the worker's own area), and store each
+   * stop's position and ETA on its delivery's `routeOptimization`.
+   */
+  static async planWorkerRoute(worker, { date = new Date(), startArea } = {}) {
+    const deliveries = await Delivery.find({
+      deliveryWorkerId: worker._id,
+      status: { $in: OPEN_STATUSES },
+      assignedAt: { $lte: endOfDay(date) }
+    }).populate('shopkeeperId', 'name phone area city');
+
+    const startLabel = startArea || worker.area;
+    const start = this.geocode(startLabel, worker.city);
+    const located = [];
+    const unlocated = [];
+
+    for (const delivery of deliveries) {
+      const point = this.geocode(delivery.deliveryArea, deliveryCity(delivery));
+      if (point) located.push({ delivery, point });
+      else unlocated.push(delivery);
+    }
+
+    // Without a start position, begin at the first stop
+    const origin = start || located[0]?.point;
+    const order = origin ? this.orderStops(origin, located.map(stop => stop.point)) : [];
+
+    const plannedAt = new Date();
+    let previous = { ...origin, address: startLabel };
+    let distance = 0;
+    let minutes = 0;
+
+    const stops = [];
+    for (const [position, index] of order.entries()) {
+      const { delivery, point } = located[index];
+      const legKm = distanceKm(previous, point);
+      if (position > 0) minutes += routingConfig.stopMinutes;
+      distance += legKm;
+      minutes += travelMinutes(legKm);
+
+      const current = { lat: point.lat, lng: point.lng, address: delivery.deliveryLocation };
+      delivery.routeOptimization = {
+        stopNumber: position + 1,
+        distance: round(distance),
+        estimatedTime: Math.round(minutes),
+        estimatedArrival: new Date(plannedAt.getTime() + minutes * 60000),
+        plannedAt,
+        routePoints: [previous, current]
+      };
+      await delivery.save();
+
+      stops.push({ delivery, legDistance: round(legKm) });
+      previous = current;
+    }
+
+    // Stops that could not be placed keep no stale position from an older plan
+    for (const delivery of unlocated) {
+      if (delivery.routeOptimization?.stopNumber) {
+        delivery.routeOptimization = undefined;
+        await delivery.save();
+      }
+    }
+
+    return {
+      start: origin ? { lat: origin.lat, lng: origin.lng, area: startLabel } : null,
+      plannedAt,
+      totalDistance: round(distance),
+      totalTime: Math.round(minutes + (stops.length ? routingConfig.stopMinutes : 0)),
+      stops,
+      unlocated
+    };
+  }
+
+  /**
+   * The stored plan for a worker's open deliveries, in stop order
+   */
+  static async getWorkerRoute(worker) {
+    const deliveries = await Delivery.find({
+      deliveryWorkerId: worker._id,
+      status: { $in: OPEN_STATUSES },
+      'routeOptimization.stopNumber': { $exists: true }
+    })
+      .populate('shopkeeperId', 'name phone area city')
+      .sort({ 'routeOptimization.stopNumber': 1 });
+
+    const last = deliveries[deliveries.length - 1]?.routeOptimization;
+    return {
+      plannedAt: last?.plannedAt || null,
+      totalDistance: last?.distance || 0,
+      stops: deliveries.map(delivery => ({ delivery }))
+    };
+  }
+}
+
+RoutePlanningService.OPEN_STATUSES = OPEN_STATUSES;
+RoutePlanningService.distanceKm = distanceKm;
+
+module.exports = RoutePlanningService;
@@ -0,0 +1,183 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const RealtimeService = require('./realtimeService');
+const authConfig = require('../config/auth');
+
+class SessionError extends Error {
+  constructor(message, code = 'INVALID_SESSION') {
+    super(message);
+    this.name = 'SessionError';
+    this.code = code;
+  }
+}
+
+const { session: sessionConfig } = authConfig;
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const newExpiry = () => new Date(Date.now() + sessionConfig.refreshTokenDays * 24 * 60 * 60 * 1000);
+
+// A refresh token is "<session id>.<random secret>"; a new secret per refresh
+const issueToken = (sessionId) => `${sessionId}.${crypto.randomBytes(32).toString('hex')}`;
+
+const sessionIdOf = (token) => {
+  const [sessionId, secret] = String(token || '').split('.');
+  return secret && mongoose.isValidObjectId(sessionId) ? sessionId : null;
+};
+
+const activeQuery = () => ({ revokedAt: null, expiresAt: { $gt: new Date() } });
+
+const BROWSERS = [
+  ['Edg/', 'Edge'], ['OPR/', 'Opera'], ['SamsungBrowser/', 'Samsung Internet'],
+  ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']
+];
+// Checked in order: iPhone agents also mention Mac OS X, Android agents Linux
+const SYSTEMS = [
+  ['Android', 'Android'], ['iPhone', 'iPhone'], ['iPad', 'iPad'],
+  ['Windows', 'Windows'], ['Mac OS X', 'macOS'], ['Linux', 'Linux']
+];
+
+// Short label such as "Chrome on Android" for the sessions list
+const describeDevice = (userAgent = '') => {
+  const browser = BROWSERS.find(([marker]) => userAgent.includes(marker));
+  const system = SYSTEMS.find(([marker]) => userAgent.includes(marker));
+  if (!browser && !system) return userAgent ? userAgent.slice(0, 60) : 'Unknown device';
+  return `${browser ? browser[1] : 'Browser'}${system ? ` on ${system[1]}` : ''}`;
+};
+
+class SessionService {
+  /**
+   * Sign a user in on a device. Resolves to the session with a refresh token
+   * for the cookie and an access token for API calls.
+   */
+  static async create(user, client = {}) {
+    const session = new Session({
+      userId: user._id,
+      userAgent: (client.userAgent || '').slice(0, 500),
+      device: describeDevice(client.userAgent),
+      ip: client.ip,
+      expiresAt: newExpiry()
+    });
+    const refreshToken = issueToken(session._id);
+    session.tokenHash = hashToken(refreshToken);
+    await session.save();
+
+    return { session, refreshToken, accessToken: SessionService.accessToken(user, session) };
+  }
+
+  /**
+   * Short-lived JWT tied to the session, so it stops working when the session ends
+   */
+  static accessToken(user, session) {
+    return jwt.sign(
+      { userId: user._id, role: user.role, sid: session._id },
+      process.env.JWT_SECRET,
+      { expiresIn: sessionConfig.accessTokenExpiresIn }
+    );
+  }
+
+  /**
+   * Swap a refresh token for a new one and a fresh access token. A token that
+   * was already swapped ends the session, since someone else holds a copy,
+   * unless it was swapped a moment ago by a parallel request (REFRESH_RACE):
+   * the caller then retries with the cookie the other request received.
+   */
+  static async refresh(token, client = {}) {
+    const sessionId = sessionIdOf(token);
+    const session = sessionId && await Session.findOne({ _id: sessionId, ...activeQuery() });
+    if (!session) throw new SessionError('Your session has ended. Please login again.');
+
+    const tokenHash = hashToken(token);
+    if (tokenHash !== session.tokenHash) {
+      if (tokenHash === session.previousTokenHash &&
+          Date.now() - session.rotatedAt.getTime() < sessionConfig.reuseGraceSeconds * 1000) {
+        throw new SessionError('The session was refreshed by another request', 'REFRESH_RACE');
+      }
+      await SessionService.revoke(session, 'token_reuse');
+      throw new SessionError('Your session has ended. Please login again.');
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user || (user.role !== 'admin' && user.status !== 'active')) {
+      await SessionService.revoke(session, 'revoked');
+      throw new SessionError('User not found or inactive');
+    }
+
+    // Only the request still holding the current token may rotate it
+    const refreshToken = issueToken(session._id);
+    const rotated = await Session.findOneAndUpdate(
+      { _id: session._id, tokenHash, revokedAt: null },
+      {
+        $set: {
+          tokenHash: hashToken(refreshToken),
+          previousTokenHash: tokenHash,
+          rotatedAt: new Date(),
+          lastUsedAt: new Date(),
+          expiresAt: newExpiry(),
+          ...(client.ip && { ip: client.ip })
+        }
+      },
+      { new: true }
+    );
+    if (!rotated) throw new SessionError('The session was refreshed by another request', 'REFRESH_RACE');
+
+    return { session: rotated, user, refreshToken, accessToken: SessionService.accessToken(user, rotated) };
+  }
+
+  /**
+   * The session a refresh token (current or just replaced) belongs to, if still active
+   */
+  static async findByToken(token) {
+    const sessionId = sessionIdOf(token);
+    if (!sessionId) return null;
+    const tokenHash = hashToken(token);
+    return Session.findOne({
+      _id: sessionId,
+      $or: [{ tokenHash }, { previousTokenHash: tokenHash }],
+      ...activeQuery()
+    });
+  }
+
+  static async isActive(sessionId) {
+    return !!(await Session.exists({ _id: sessionId, ...activeQuery() }));
+  }
+
+  /**
+   * Signed-in devices of a user, most recently used first
+   */
+  static async list(userId) {
+    return Session.find({ userId, ...activeQuery() }).sort({ lastUsedAt: -1 });
+  }
+
+  static async revoke(session, reason = 'revoked') {
+    session.revokedAt = new Date();
+    session.revokedReason = reason;
+    await session.save();
+    RealtimeService.closeSessions([session._id]);
+    return session;
+  }
+
+  /**
+   * End every session of a user, optionally keeping the one making the request.
+   * Resolves to the number of sessions ended.
+   */
+  static async revokeAll(userId, { except, reason = 'revoked_all' } = {}) {
+    const filter = { userId, revokedAt: null };
+    if (except) filter._id = { $ne: except };
+    const sessionIds = await Session.find(filter).distinct('_id');
+    const result = await Session.updateMany(
+      { _id: { $in: sessionIds }, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    RealtimeService.closeSessions(sessionIds);
+    return result.modifiedCount;
+  }
+}
+
+SessionService.SessionError = SessionError;
+SessionService.describeDevice = describeDevice;
+
+module.exports = SessionService;
@@ -0,0 +1,229 @@
+const mongoose = require('mongoose');
+const Delivery = require('../models/Delivery');
+const User = require('../models/User');
+const eventBus = require('./eventBus');
+const slaConfig = require('../config/sla');
+
+class SlaSettingsError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SlaSettingsError';
+    this.code = 'INVALID_SLA_SETTINGS';
+  }
+}
+
+const OPEN_DELIVERY_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+const HOUR_MS = 60 * 60 * 1000;
+
+const normalize = (value) => (value || '').toString().trim().toLowerCase();
+const percent = (part, total) => (total ? Math.round((part / total) * 1000) / 10 : null);
+
+const validHours = (hours) =>
+  Number.isFinite(hours) && hours >= slaConfig.minHours && hours <= slaConfig.maxHours;
+
+/**
+ * SLA status of an open delivery at `now`: late past its deadline, at risk
+ * once `atRiskRatio` of its window has passed, otherwise on track
+ */
+const openStatus = (delivery, now) => {
+  const dueAt = delivery.estimatedDeliveryTime.getTime();
+  if (now.getTime() > dueAt) return 'late';
+  const windowMs = (delivery.sla?.hours || slaConfig.defaultHours) * HOUR_MS;
+  return now.getTime() >= dueAt - windowMs * (1 - slaConfig.atRiskRatio) ? 'at_risk' : 'on_track';
+};
+
+class SlaService {
+  /**
+   * Hours a delivery to `area` has under the company's SLA: the company's
+   * hours for the area, then its default, then config/sla.js
+   */
+  static hoursFor(company, area) {
+    const key = normalize(area);
+    const settings = company?.companyInfo?.deliverySla;
+    const companyArea = settings?.areas?.find(entry => normalize(entry.area) === key);
+    if (companyArea) return companyArea.hours;
+    if (settings?.defaultHours) return settings.defaultHours;
+    return slaConfig.areaHours[key] ?? slaConfig.defaultHours;
+  }
+
+  /**
+   * Set the delivery's deadline from now (or to `dueAt`, e.g. a rescheduled
+   * date) and start its SLA over. The caller saves the delivery.
+   */
+  static async setDeadline(delivery, dueAt) {
+    let hours;
+    if (dueAt) {
+      hours = Math.max((dueAt.getTime() - Date.now()) / HOUR_MS, slaConfig.minHours);
+    } else {
+      const company = await User.findById(delivery.companyId).select('companyInfo.deliverySla');
+      hours = this.hoursFor(company, delivery.deliveryArea);
+      dueAt = new Date(Date.now() + hours * HOUR_MS);
+    }
+
+    delivery.estimatedDeliveryTime = dueAt;
+    delivery.sla = { hours: Math.round(hours * 10) / 10, status: 'on_track' };
+    return delivery;
+  }
+
+  /**
+   * Move open deliveries to at_risk or late as their deadlines approach and
+   * emit an alert the first time each happens. Each status change is applied
+   * only if nobody else made it first, so overlapping runs alert once.
+   */
+  static async checkOpenDeliveries(now = new Date()) {
+    const deliveries = await Delivery.find({
+      status: { $in: OPEN_DELIVERY_STATUSES },
+      'sla.status': { $in: ['on_track', 'at_risk'] },
+      estimatedDeliveryTime: { $exists: true }
+    });
+
+    let flagged = 0;
+    for (const delivery of deliveries) {
+      const previous = delivery.sla.status;
+      const next = openStatus(delivery, now);
+      if (next === previous) continue;
+
+      const alertField = next === 'late' ? 'sla.lateAlertedAt' : 'sla.atRiskAlertedAt';
+      const { modifiedCount } = await Delivery.updateOne(
+        { _id: delivery._id, 'sla.status': previous },
+        { $set: { 'sla.status': next, [alertField]: now } }
+      );
+      if (!modifiedCount) continue;
+
+      flagged += 1;
+      delivery.set('sla.status', next);
+      eventBus.emit(next === 'late' ? eventBus.EVENTS.DELIVERY_SLA_BREACHED : eventBus.EVENTS.DELIVERY_SLA_AT_RISK, {
+        delivery
+      });
+    }
+    return flagged;
+  }
+
+  /**
+   * Run checkOpenDeliveries every `checkIntervalMinutes`. Call once at startup.
+   */
+  static startMonitor() {
+    const timer = setInterval(() => {
+      this.checkOpenDeliveries().catch(error => console.error('SLA check failed:', error));
+    }, slaConfig.checkIntervalMinutes * 60 * 1000);
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * On-time performance of deliveries delivered in the last `days`, overall
+   * and per worker, area and company, with the open deliveries that are at
+   * risk or late. Limited to one company when `companyId` is given.
+   */
+  static async getDashboard({ companyId, days = 30 } = {}) {
+    const since = new Date(Date.now() - days * 24 * HOUR_MS);
+    const scope = companyId ? { companyId: new mongoose.Types.ObjectId(companyId) } : {};
+
+    const performance = {
+      total: { $sum: 1 },
+      onTime: { $sum: { $cond: [{ $eq: ['$sla.status', 'met'] }, 1, 0] } },
+      // Average lateness of missed deliveries, minutes
+      avgDelayMinutes: {
+        $avg: {
+          $cond: [
+            { $eq: ['$sla.status', 'missed'] },
+            { $divide: [{ $subtract: ['$deliveredAt', '$estimatedDeliveryTime'] }, 60 * 1000] },
+            null
+          ]
+        }
+      }
+    };
+    const [facets] = await Delivery.aggregate([
+      { $match: { ...scope, status: 'delivered', deliveredAt: { $gte: since }, 'sla.status': { $in: ['met', 'missed'] } } },
+      {
+        $facet: {
+          overall: [{ $group: { _id: null, ...performance } }],
+          byWorker: [{ $group: { _id: '$deliveryWorkerId', ...performance } }],
+          byArea: [{ $group: { _id: { $toLower: '$deliveryArea' }, area: { $first: '$deliveryArea' }, ...performance } }],
+          byCompany: [{ $group: { _id: '$companyId', ...performance } }]
+        }
+      }
+    ]);
+
+    const open = await Delivery.find({ ...scope, status: { $in: OPEN_DELIVERY_STATUSES }, 'sla.status': { $in: ['at_risk', 'late'] } })
+      .populate('deliveryWorkerId', 'name phone')
+      .populate('orderId', 'orderNumber')
+      .select('deliveryNumber orderId deliveryWorkerId deliveryArea shopkeeperName status estimatedDeliveryTime sla')
+      .sort({ estimatedDeliveryTime: 1 });
+
+    const userIds = [...facets.byWorker, ...facets.byCompany].map(row => row._id);
+    const users = await User.find({ _id: { $in: userIds } }).select('name companyInfo.companyName');
+    const names = new Map(users.map(user => [user._id.toString(), user.companyInfo?.companyName || user.name]));
+
+    const summarize = (row) => ({
+      total: row.total,
+      onTime: row.onTime,
+      late: row.total - row.onTime,
+      onTimeRate: percent(row.onTime, row.total),
+      avgDelayMinutes: row.avgDelayMinutes == null ? null : Math.round(row.avgDelayMinutes)
+    });
+    const byRate = (a, b) => a.onTimeRate - b.onTimeRate || b.total - a.total;
+
+    return {
+      days,
+      overall: facets.overall[0] ? summarize(facets.overall[0]) : summarize({ total: 0, onTime: 0 }),
+      byWorker: facets.byWorker
+        .map(row => ({ workerId: row._id, name: names.get(row._id.toString()) || 'Unknown', ...summarize(row) }))
+        .sort(byRate),
+      byArea: facets.byArea.map(row => ({ area: row.area, ...summarize(row) })).sort(byRate),
+      byCompany: facets.byCompany
+        .map(row => ({ companyId: row._id, name: names.get(row._id.toString()) || 'Unknown', ...summarize(row) }))
+        .sort(byRate),
+      atRisk: open.filter(delivery => delivery.sla.status === 'at_risk'),
+      late: open.filter(delivery => delivery.sla.status === 'late')
+    };
+  }
+
+  /**
+   * The company's SLA settings with the defaults they override
+   */
+  static getSettings(company) {
+    const settings = company.companyInfo?.deliverySla || {};
+    return {
+      defaultHours: settings.defaultHours || null,
+      areas: settings.areas || [],
+      defaults: {
+        defaultHours: slaConfig.defaultHours,
+        areaHours: slaConfig.areaHours
+      },
+      limits: { minHours: slaConfig.minHours, maxHours: slaConfig.maxHours }
+    };
+  }
+
+  /**
+   * Replace the company's SLA settings. `defaultHours` may be null to use the
+   * system default; each area may appear once.
+   */
+  static async updateSettings(company, { defaultHours, areas = [] }) {
+    const hours = defaultHours == null || defaultHours === '' ? null : Number(defaultHours);
+    if (hours !== null && !validHours(hours)) {
+      throw new SlaSettingsError(`Hours must be between ${slaConfig.minHours} and ${slaConfig.maxHours}`);
+    }
+
+    const seen = new Set();
+    const areaSettings = areas.map(({ area, hours: areaHours }) => {
+      const name = (area || '').toString().trim();
+      const value = Number(areaHours);
+      if (!name) throw new SlaSettingsError('Every area SLA needs an area');
+      if (seen.has(normalize(name))) throw new SlaSettingsError(`${name} is listed more than once`);
+      if (!validHours(value)) {
+        throw new SlaSettingsError(`Hours for ${name} must be between ${slaConfig.minHours} and ${slaConfig.maxHours}`);
+      }
+      seen.add(normalize(name));
+      return { area: name, hours: value };
+    });
+
+    company.set('companyInfo.deliverySla', { defaultHours: hours, areas: areaSettings });
+    await company.save();
+    return this.getSettings(company);
+  }
+}
+
+SlaService.SlaSettingsError = SlaSettingsError;
+
+module.exports = SlaService;
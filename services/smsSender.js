@@ -0,0 +1,25 @@
+const { createTransport } = require('./notificationTransports');
+
+// Sends account text messages (login codes, ...) that are not notifications,
+// through the SMS transport configured in config/notifications.js.
+// SMS_TRANSPORT=file writes them to the outbox instead of sending them.
+let transport = null;
+
+class SmsSender {
+  /**
+   * Send `{ to, text }`; `to` is an international number (+8801XXXXXXXXX)
+   */
+  static async send(message) {
+    transport = transport || createTransport('sms');
+    return transport.send(message);
+  }
+
+  /**
+   * Replace the transport, e.g. with one that records messages in tests
+   */
+  static setTransport(next) {
+    transport = next;
+  }
+}
+
+module.exports = SmsSender;
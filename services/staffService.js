@@ -0,0 +1,100 @@
+const crypto = require('crypto');
+const User = require('../models/User');
+const PasswordResetService = require('./passwordResetService');
+const SessionService = require('./sessionService');
+const permissionConfig = require('../config/permissions');
+const { phoneVariants } = require('./phoneNumbers');
+
+class StaffError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'StaffError';
+    this.code = 'INVALID_STAFF';
+  }
+}
+
+const STAFF_FIELDS = 'name email phone status companyStaff lastLogin createdAt';
+
+// Only permissions listed in config/permissions.js can be granted
+const checkPermissions = (permissions) => {
+  const unknown = (permissions || []).filter(permission => !permissionConfig.company[permission]);
+  if (unknown.length) throw new StaffError(`Unknown permission: ${unknown.join(', ')}`);
+  return [...new Set(permissions || [])];
+};
+
+class StaffService {
+  /**
+   * Staff logins of a company, newest first
+   */
+  static async list(company) {
+    return User.find({ 'companyStaff.companyId': company._id }).select(STAFF_FIELDS).sort({ createdAt: -1 });
+  }
+
+  static async findForCompany(company, staffId) {
+    return User.findOne({ _id: staffId, 'companyStaff.companyId': company._id }).select(STAFF_FIELDS);
+  }
+
+  /**
+   * Create a staff login for the company and e-mail its invitation. The
+   * account has no usable password until the link in the e-mail is opened.
+   */
+  static async invite(company, { name, email, phone, permissions }, actor) {
+    const normalizedEmail = String(email).toLowerCase();
+    if (await User.exists({ email: normalizedEmail })) {
+      throw new StaffError('A user with this email already exists');
+    }
+    // Phone login needs the number to point at one account
+    if (await User.exists({ phone: { $in: phoneVariants(phone) } })) {
+      throw new StaffError('A user with this phone number already exists');
+    }
+
+    const staff = new User({
+      name,
+      email: normalizedEmail,
+      phone,
+      password: crypto.randomBytes(32).toString('hex'),
+      role: 'company_rep',
+      // The owner vouches for their staff, so no admin approval is needed
+      status: 'active',
+      area: company.area,
+      city: company.city,
+      address: company.address,
+      companyStaff: {
+        companyId: company._id,
+        permissions: checkPermissions(permissions),
+        invitedBy: actor._id,
+        invitedAt: new Date()
+      }
+    });
+    await staff.save();
+
+    await PasswordResetService.invite(staff, company);
+    return staff;
+  }
+
+  /**
+   * Send the invitation again, e.g. after the link expired
+   */
+  static async resendInvite(company, staff) {
+    if (staff.lastLogin) throw new StaffError('This staff member has already logged in');
+    const user = await User.findById(staff._id);
+    await PasswordResetService.invite(user, company);
+  }
+
+  /**
+   * Change what a staff member may do, or switch their login off and on.
+   * Switching it off signs them out everywhere.
+   */
+  static async update(staff, { permissions, active }) {
+    if (permissions !== undefined) staff.companyStaff.permissions = checkPermissions(permissions);
+    if (active !== undefined) staff.status = active ? 'active' : 'inactive';
+    await staff.save();
+
+    if (staff.status !== 'active') await SessionService.revokeAll(staff._id, { reason: 'revoked' });
+    return staff;
+  }
+}
+
+StaffService.StaffError = StaffError;
+
+module.exports = StaffService;
@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+/**
+ * Run `work(session)` inside a MongoDB transaction and return its result.
+ * The transaction is committed if `work` resolves and aborted if it throws.
+ * It is deliberately not retried: callers mutate in-memory documents inside
+ * `work`, so a blind retry would run against already-changed state.
+ */
+const withTransaction = async (work) => {
+  const session = await mongoose.startSession();
+  session.$afterCommit = [];
+  try {
+    session.startTransaction();
+    const result = await work(session);
+    await session.commitTransaction();
+    session.$afterCommit.forEach(callback => callback());
+    return result;
+  } catch (error) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+};
+
+/**
+ * Run `callback` once the session's transaction has committed, or right away
+ * when there is no session. Use it for side-effects that must not happen if
+ * the transaction is rolled back, such as emitting events.
+ */
+const afterCommit = (session, callback) => {
+  if (session?.$afterCommit) {
+    session.$afterCommit.push(callback);
+  } else {
+    callback();
+  }
+};
+
+module.exports = { withTransaction, afterCommit };